@@ -13,6 +13,13 @@ import { DutyStationRequestPage } from './pages/DutyStationRequestPage';
 import { RequestsListPage } from './pages/RequestsListPage';
 import MapsPage from './pages/MapsPage';
 import HelpPage from './pages/HelpPage';
+import ChangesPage from './pages/ChangesPage';
+import DataQualityPage from './pages/DataQualityPage';
+import DuplicatesPage from './pages/DuplicatesPage';
+import BulkLookupPage from './pages/BulkLookupPage';
+import ReverseLookupPage from './pages/ReverseLookupPage';
+import ReviewPage from './pages/ReviewPage';
+import SettingsPage from './pages/SettingsPage';
 import { useEffect } from 'react';
 
 // Global styles to match CEB Donor Codes app exactly
@@ -88,6 +95,13 @@ function AppContent() {
             <Route path="/duty-station-request" element={<DutyStationRequestPage />} />
             <Route path="/requests-list" element={<RequestsListPage />} />
             <Route path="/maps" element={<MapsPage />} />
+            <Route path="/changes" element={<ChangesPage />} />
+            <Route path="/data-quality" element={<DataQualityPage />} />
+            <Route path="/duplicates" element={<DuplicatesPage />} />
+            <Route path="/bulk-lookup" element={<BulkLookupPage />} />
+            <Route path="/nearest-stations" element={<ReverseLookupPage />} />
+            <Route path="/review" element={<ReviewPage />} />
+            <Route path="/settings" element={<SettingsPage />} />
             <Route path="/help" element={<HelpPage />} />
           </Routes>
         </Layout>
@@ -95,6 +95,8 @@ const SortableBasketItem: React.FC<{
         return 'Remove';
       case RequestType.COORDINATE_UPDATE:
         return 'Coordinates';
+      case RequestType.ALIAS:
+        return 'Alternate Name';
       default:
         return type;
     }
@@ -110,6 +112,8 @@ const SortableBasketItem: React.FC<{
         return 'error';
       case RequestType.COORDINATE_UPDATE:
         return 'warning';
+      case RequestType.ALIAS:
+        return 'secondary';
       default:
         return 'default';
     }
@@ -163,6 +167,16 @@ const SortableBasketItem: React.FC<{
             ? `${request.proposedCoordinates.latitude.toFixed(6)}, ${request.proposedCoordinates.longitude.toFixed(6)}`
             : 'N/A',
         };
+      case RequestType.ALIAS:
+        return {
+          code: request.dutyStationCode || 'N/A',
+          name: `${request.stationName} → ${request.alternateName} (${request.language.toUpperCase()})`,
+          country: request.countryCode || 'N/A',
+          region: request.countryCode 
+            ? getRegionFromCountryCode(request.countryCode, countries)
+            : 'N/A',
+          coordinates: 'N/A',
+        };
       default:
         return {
           code: 'N/A',
@@ -1,5 +1,5 @@
 // Request History Component
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   Box,
   Card,
@@ -16,20 +16,106 @@ import {
   Collapse,
   Paper,
   Alert,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import {
   KeyboardArrowDown as ExpandIcon,
   KeyboardArrowUp as CollapseIcon,
+  FileUpload as ImportIcon,
 } from '@mui/icons-material';
-import { loadHistory } from '../../services/basketService';
-import type { RequestHistoryEntry } from '../../types/request';
+import { applyReviewDecisions, loadHistory, updateRequestStatus } from '../../services/basketService';
+import { parseDecisionFile } from '../../services/reviewService';
+import { getAvailableTransitions, REQUEST_STATUS_LABELS } from '../../services/requestLifecycleService';
+import { getSavedContact } from '../../services/userPreferencesService';
+import type { RequestHistoryEntry, RequestStatus } from '../../types/request';
 import { RequestType } from '../../schemas/dutyStationSchema';
 
+type StatusFilter = RequestStatus | 'all';
+
+// Statuses a submitted request can have; drafts stay in the basket
+const HISTORY_STATUSES: RequestStatus[] = ['submitted', 'under_review', 'approved', 'rejected', 'withdrawn'];
+
+const STATUS_COLORS: Record<RequestStatus, 'default' | 'info' | 'warning' | 'success' | 'error'> = {
+  draft: 'default',
+  submitted: 'info',
+  under_review: 'warning',
+  approved: 'success',
+  rejected: 'error',
+  withdrawn: 'default',
+};
+
+// Labels of the actions moving a request to each status
+const STATUS_ACTION_LABELS: Record<RequestStatus, string> = {
+  draft: 'Back to Draft',
+  submitted: 'Submit',
+  under_review: 'Mark Under Review',
+  approved: 'Approve',
+  rejected: 'Reject',
+  withdrawn: 'Withdraw',
+};
+
+/**
+ * Audit log of a request, oldest change first
+ */
+const StatusTimeline: React.FC<{ entry: RequestHistoryEntry }> = ({ entry }) => (
+  <Box component="ol" aria-label="Status timeline" sx={{ listStyle: 'none', m: 0, p: 0 }}>
+    {entry.auditLog.map((change, index) => (
+      <Box
+        component="li"
+        key={index}
+        sx={{
+          position: 'relative',
+          pl: 3,
+          pb: index < entry.auditLog.length - 1 ? 2 : 0,
+          borderLeft: index < entry.auditLog.length - 1 ? 2 : 0,
+          borderColor: 'divider',
+          ml: 0.75,
+        }}
+      >
+        <Box
+          sx={{
+            position: 'absolute',
+            left: -7,
+            top: 2,
+            width: 12,
+            height: 12,
+            borderRadius: '50%',
+            bgcolor: STATUS_COLORS[change.to] === 'default' ? 'grey.500' : `${STATUS_COLORS[change.to]}.main`,
+          }}
+        />
+        <Typography variant="body2">
+          <strong>{REQUEST_STATUS_LABELS[change.to]}</strong>
+          {change.from && ` (from ${REQUEST_STATUS_LABELS[change.from]})`}
+        </Typography>
+        <Typography variant="caption" color="text.secondary" display="block">
+          {new Date(change.changedAt).toLocaleString()} by {change.changedBy}
+        </Typography>
+        {change.note && (
+          <Typography variant="body2" sx={{ mt: 0.5, fontStyle: 'italic' }}>
+            {change.note}
+          </Typography>
+        )}
+      </Box>
+    ))}
+  </Box>
+);
+
 /**
  * History Row Component with Expandable Details
  */
-const HistoryRow: React.FC<{ entry: RequestHistoryEntry }> = ({ entry }) => {
+const HistoryRow: React.FC<{
+  entry: RequestHistoryEntry;
+  onStatusChange: (entry: RequestHistoryEntry, status: RequestStatus) => void;
+}> = ({ entry, onStatusChange }) => {
   const [open, setOpen] = useState(false);
+  const submitterActions = getAvailableTransitions(entry.status, 'submitter');
 
   const getRequestTypeLabel = (type: string) => {
     switch (type) {
@@ -41,6 +127,8 @@ const HistoryRow: React.FC<{ entry: RequestHistoryEntry }> = ({ entry }) => {
         return 'Remove';
       case RequestType.COORDINATE_UPDATE:
         return 'Coordinates';
+      case RequestType.ALIAS:
+        return 'Alternate Name';
       default:
         return type;
     }
@@ -56,19 +144,8 @@ const HistoryRow: React.FC<{ entry: RequestHistoryEntry }> = ({ entry }) => {
         return 'error';
       case RequestType.COORDINATE_UPDATE:
         return 'warning';
-      default:
-        return 'default';
-    }
-  };
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'submitted':
-        return 'info';
-      case 'approved':
-        return 'success';
-      case 'rejected':
-        return 'error';
+      case RequestType.ALIAS:
+        return 'secondary';
       default:
         return 'default';
     }
@@ -96,17 +173,18 @@ const HistoryRow: React.FC<{ entry: RequestHistoryEntry }> = ({ entry }) => {
             size="small"
           />
         </TableCell>
+        <TableCell>{entry.stationLabel || 'N/A'}</TableCell>
         <TableCell>
           <Chip
-            label={entry.status}
-            color={getStatusColor(entry.status) as any}
+            label={REQUEST_STATUS_LABELS[entry.status]}
+            color={STATUS_COLORS[entry.status]}
             size="small"
           />
         </TableCell>
         <TableCell>{entry.confirmationId || 'N/A'}</TableCell>
       </TableRow>
       <TableRow>
-        <TableCell style={{ paddingBottom: 0, paddingTop: 0 }} colSpan={5}>
+        <TableCell style={{ paddingBottom: 0, paddingTop: 0 }} colSpan={6}>
           <Collapse in={open} timeout="auto" unmountOnExit>
             <Box sx={{ margin: 1 }}>
               <Typography variant="h6" gutterBottom component="div">
@@ -142,6 +220,27 @@ const HistoryRow: React.FC<{ entry: RequestHistoryEntry }> = ({ entry }) => {
                   </TableRow>
                 </TableBody>
               </Table>
+
+              <Typography variant="h6" gutterBottom component="div" sx={{ mt: 2 }}>
+                Timeline
+              </Typography>
+              <StatusTimeline entry={entry} />
+
+              {/* Approval and rejection only arrive through an imported decision file */}
+              {submitterActions.length > 0 && (
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 2 }}>
+                  {submitterActions.map(status => (
+                    <Button
+                      key={status}
+                      size="small"
+                      variant="outlined"
+                      onClick={() => onStatusChange(entry, status)}
+                    >
+                      {STATUS_ACTION_LABELS[status]}
+                    </Button>
+                  ))}
+                </Box>
+              )}
             </Box>
           </Collapse>
         </TableCell>
@@ -152,9 +251,16 @@ const HistoryRow: React.FC<{ entry: RequestHistoryEntry }> = ({ entry }) => {
 
 /**
  * Request History Component
+ * @param refreshKey - Changing it reloads the history, e.g. after a submission
  */
-export const RequestHistory: React.FC = () => {
+export const RequestHistory: React.FC<{ refreshKey?: number }> = ({ refreshKey }) => {
   const [history, setHistory] = useState<RequestHistoryEntry[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [pendingChange, setPendingChange] = useState<{ entry: RequestHistoryEntry; status: RequestStatus } | null>(null);
+  const [changedBy, setChangedBy] = useState('');
+  const [note, setNote] = useState('');
+  const [changeError, setChangeError] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<{ severity: 'success' | 'warning' | 'error'; text: string } | null>(null);
 
   useEffect(() => {
     const loadedHistory = loadHistory();
@@ -168,14 +274,81 @@ export const RequestHistory: React.FC = () => {
 
     window.addEventListener('storage', handleStorageChange);
     return () => window.removeEventListener('storage', handleStorageChange);
-  }, []);
+  }, [refreshKey]);
+
+  const statusCounts = useMemo(() => {
+    const counts = Object.fromEntries(HISTORY_STATUSES.map(status => [status, 0])) as Record<RequestStatus, number>;
+    history.forEach(entry => counts[entry.status]++);
+    return counts;
+  }, [history]);
+
+  const filteredHistory = useMemo(
+    () => history.filter(entry => statusFilter === 'all' || entry.status === statusFilter),
+    [history, statusFilter]
+  );
+
+  const handleStatusChange = (entry: RequestHistoryEntry, status: RequestStatus) => {
+    setPendingChange({ entry, status });
+    setChangedBy(getSavedContact()?.email || '');
+    setNote('');
+    setChangeError(null);
+  };
+
+  // A withdrawal needs a reason
+  const noteRequired = pendingChange?.status === 'withdrawn';
+
+  const handleConfirmChange = () => {
+    if (!pendingChange) return;
+    try {
+      setHistory(updateRequestStatus(pendingChange.entry.id, pendingChange.status, changedBy, note));
+      setPendingChange(null);
+    } catch (error) {
+      setChangeError(error instanceof Error ? error.message : 'Could not change the request status');
+    }
+  };
+
+  const handleDecisionImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const result = applyReviewDecisions(parseDecisionFile(await file.text()));
+      setHistory(result.history);
+
+      const parts = [`${result.applied} request${result.applied === 1 ? '' : 's'} updated`];
+      if (result.alreadyDecided > 0) parts.push(`${result.alreadyDecided} already decided`);
+      if (result.unmatched.length > 0) parts.push(`${result.unmatched.length} not in this history`);
+      setImportMessage({ severity: result.applied > 0 ? 'success' : 'warning', text: `${parts.join(', ')}.` });
+    } catch (error) {
+      console.error('Error importing review decisions:', error);
+      setImportMessage({ severity: 'error', text: error instanceof Error ? error.message : 'The decision file could not be read' });
+    }
+  };
 
   return (
     <Card>
       <CardContent>
-        <Typography variant="h6" gutterBottom>
-          Request History
-        </Typography>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, mb: 1 }}>
+          <Typography variant="h6">
+            Request History
+          </Typography>
+          <Button component="label" size="small" startIcon={<ImportIcon />} disabled={history.length === 0}>
+            Import Decisions
+            <input
+              type="file"
+              accept=".json,application/json"
+              hidden
+              onChange={(e) => {
+                handleDecisionImport(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </Button>
+        </Box>
+
+        {importMessage && (
+          <Alert severity={importMessage.severity} onClose={() => setImportMessage(null)} sx={{ mb: 2 }}>
+            {importMessage.text}
+          </Alert>
+        )}
 
         {history.length === 0 && (
           <Alert severity="info">
@@ -183,6 +356,26 @@ export const RequestHistory: React.FC = () => {
           </Alert>
         )}
 
+        {history.length > 0 && (
+          <ToggleButtonGroup
+            value={statusFilter}
+            exclusive
+            size="small"
+            onChange={(_, value: StatusFilter | null) => {
+              if (value) setStatusFilter(value);
+            }}
+            aria-label="Filter requests by status"
+            sx={{ mb: 2, flexWrap: 'wrap' }}
+          >
+            <ToggleButton value="all">All ({history.length})</ToggleButton>
+            {HISTORY_STATUSES.map(status => (
+              <ToggleButton key={status} value={status}>
+                {REQUEST_STATUS_LABELS[status]} ({statusCounts[status]})
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        )}
+
         {history.length > 0 && (
           <TableContainer component={Paper} variant="outlined">
             <Table aria-label="request history">
@@ -191,14 +384,24 @@ export const RequestHistory: React.FC = () => {
                   <TableCell />
                   <TableCell>Submitted</TableCell>
                   <TableCell>Type</TableCell>
+                  <TableCell>Station</TableCell>
                   <TableCell>Status</TableCell>
                   <TableCell>Confirmation ID</TableCell>
                 </TableRow>
               </TableHead>
               <TableBody>
-                {history.map((entry) => (
-                  <HistoryRow key={entry.id} entry={entry} />
+                {filteredHistory.map((entry) => (
+                  <HistoryRow key={entry.id} entry={entry} onStatusChange={handleStatusChange} />
                 ))}
+                {filteredHistory.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} align="center">
+                      <Typography variant="body2" color="text.secondary">
+                        No {statusFilter !== 'all' && REQUEST_STATUS_LABELS[statusFilter].toLowerCase()} requests
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
               </TableBody>
             </Table>
           </TableContainer>
@@ -210,11 +413,49 @@ export const RequestHistory: React.FC = () => {
           </Typography>
         )}
       </CardContent>
+
+      {/* Status Change Dialog */}
+      <Dialog open={pendingChange !== null} onClose={() => setPendingChange(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {pendingChange && `${STATUS_ACTION_LABELS[pendingChange.status]}: ${pendingChange.entry.stationLabel || 'request'}`}
+        </DialogTitle>
+        <DialogContent>
+          {changeError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {changeError}
+            </Alert>
+          )}
+          <TextField
+            label="Changed by"
+            value={changedBy}
+            onChange={(e) => setChangedBy(e.target.value)}
+            helperText="Your name or email address, recorded in the request's timeline"
+            fullWidth
+            required
+            margin="normal"
+          />
+          <TextField
+            label={noteRequired ? 'Reason' : 'Note (optional)'}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            fullWidth
+            multiline
+            minRows={2}
+            required={noteRequired}
+            margin="normal"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPendingChange(null)}>Cancel</Button>
+          <Button
+            onClick={handleConfirmChange}
+            variant="contained"
+            disabled={!changedBy.trim() || (noteRequired && !note.trim())}
+          >
+            Confirm
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Card>
   );
 };
-
-
-
-
-
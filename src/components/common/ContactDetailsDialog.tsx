@@ -0,0 +1,76 @@
+// Dialog asking for the submitter's email and organization before a request is created
+// The details are saved to user preferences so they are only asked for once
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { getUserPreferences, saveUserPreferences } from '../../services/userPreferencesService';
+import type { SubmitterContact } from '../../services/userPreferencesService';
+
+interface ContactDetailsDialogProps {
+  open: boolean;
+  confirmLabel?: string;
+  onCancel: () => void;
+  onConfirm: (contact: SubmitterContact) => void;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const ContactDetailsDialog: React.FC<ContactDetailsDialogProps> = ({
+  open,
+  confirmLabel = 'Add to Basket',
+  onCancel,
+  onConfirm,
+}) => {
+  const [email, setEmail] = useState(() => getUserPreferences()?.email ?? '');
+  const [organization, setOrganization] = useState(() => getUserPreferences()?.organization ?? '');
+
+  const isValid = EMAIL_PATTERN.test(email.trim()) && organization.trim().length > 0;
+
+  const handleConfirm = () => {
+    const contact = { email: email.trim(), organization: organization.trim() };
+    saveUserPreferences(contact.email, contact.organization);
+    onConfirm(contact);
+  };
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="xs" fullWidth>
+      <DialogTitle>Your Details</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Requests need a contact email and organization. They will be remembered for future requests.
+        </Typography>
+        <TextField
+          label="Email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          fullWidth
+          margin="dense"
+          required
+          autoFocus
+        />
+        <TextField
+          label="Organization"
+          value={organization}
+          onChange={(e) => setOrganization(e.target.value)}
+          fullWidth
+          margin="dense"
+          required
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button variant="contained" onClick={handleConfirm} disabled={!isValid}>
+          {confirmLabel}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
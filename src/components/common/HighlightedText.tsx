@@ -0,0 +1,65 @@
+// Text with the parts that matched a search highlighted
+// Screen readers get the text in one piece: the highlighted copy is hidden from them, since
+// splitting a word into <mark> elements makes some readers announce it in fragments
+
+import { Box } from '@mui/material';
+import { splitHighlightSegments } from '../../utils/highlight';
+import type { HighlightRange } from '../../utils/highlight';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges: HighlightRange[];
+}
+
+// Hidden on screen, still read out; sizes are strings because sx reads 1 as 100% and margins as spacing
+const visuallyHidden = {
+  position: 'absolute',
+  width: '1px',
+  height: '1px',
+  margin: '-1px',
+  padding: 0,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+  border: 0,
+} as const;
+
+function HighlightedText({ text, ranges }: HighlightedTextProps) {
+  if (ranges.length === 0) return <>{text}</>;
+
+  return (
+    <>
+      <Box component="span" aria-hidden="true">
+        {splitHighlightSegments(text, ranges).map((segment, index) =>
+          segment.highlighted ? (
+            <Box
+              key={index}
+              component="mark"
+              sx={{
+                // Bold as well as coloured, so matches do not rely on colour alone
+                backgroundColor: 'warning.light',
+                color: 'common.black',
+                fontWeight: 'bold',
+                borderRadius: 0.5,
+                px: 0.25,
+                '@media (forced-colors: active)': {
+                  backgroundColor: 'Mark',
+                  color: 'MarkText',
+                },
+              }}
+            >
+              {segment.text}
+            </Box>
+          ) : (
+            segment.text
+          )
+        )}
+      </Box>
+      <Box component="span" sx={visuallyHidden}>
+        {text}
+      </Box>
+    </>
+  );
+}
+
+export default HighlightedText;
@@ -19,12 +19,18 @@ import {
   Autocomplete,
   CircularProgress,
   InputAdornment,
+  Checkbox,
+  FormControlLabel,
+  FormHelperText,
+  List,
+  ListItem,
+  ListItemText,
 } from '@mui/material';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import RefreshIcon from '@mui/icons-material/Refresh';
 import SearchIcon from '@mui/icons-material/Search';
-import type { DutyStationRequest } from '../../schemas/dutyStationSchema';
+import type { BasketItem, DutyStationRequest } from '../../schemas/dutyStationSchema';
 import {
   RequestType,
   addDutyStationSchema,
@@ -39,6 +45,10 @@ import { CountrySelector } from './CountrySelector';
 import { getUserPreferences, saveUserPreferences } from '../../services/userPreferencesService';
 import { useAppData } from '../../hooks/useAppData';
 import { searchDutyStations } from '../../services/searchService';
+import { SearchQueryError } from '../../utils/searchQuery';
+import { findAddRequestDuplicates } from '../../services/duplicateService';
+import { hasProposedChange } from '../../services/basketService';
+import { DUPLICATE_REASON_LABELS } from '../../utils/duplicateDetection';
 import type { DutyStation } from '../../types/dutyStation';
 import type { RequestType as RequestTypeValue } from '../../types/request';
 import type { Country } from '../../types/dutyStation';
@@ -49,6 +59,7 @@ interface DutyStationFormProps {
   onCancel?: () => void;
   initialData?: Partial<DutyStationRequest>;
   existingStation?: DutyStation;
+  basketItems?: BasketItem[];    // Pending requests, checked for duplicates of new stations
 }
 
 /**
@@ -60,6 +71,7 @@ export const DutyStationForm: React.FC<DutyStationFormProps> = ({
   onCancel,
   initialData,
   existingStation,
+  basketItems = [],
 }) => {
   const [requestType, setRequestType] = useState<RequestTypeValue>(
     (initialData?.requestType as RequestTypeValue) || RequestType.ADD
@@ -91,9 +103,15 @@ export const DutyStationForm: React.FC<DutyStationFormProps> = ({
       showObsolete: true,
     };
     
-    return searchDutyStations(dutyStations, filters)
-      .slice(0, 10)
-      .map(result => result.item);
+    try {
+      return searchDutyStations(dutyStations, filters)
+        .slice(0, 10)
+        .map(result => result.item);
+    } catch (error) {
+      // Incomplete query syntax (e.g. an unclosed quote) while typing
+      if (error instanceof SearchQueryError) return [];
+      throw error;
+    }
   }, [stationSearchQuery, dutyStations]);
   
   // Handle station selection for UPDATE/REMOVE/COORDINATE_UPDATE
@@ -234,10 +252,10 @@ export const DutyStationForm: React.FC<DutyStationFormProps> = ({
     })(),
   });
 
-  // Form persistence
+  // Form persistence; a pre-filled form neither restores nor overwrites the saved draft
   const { clearPersistedData } = useFormPersistence(form, {
     formType: requestType,
-    enabled: true,
+    enabled: !initialData,
   });
 
   // Update requestType in form when it changes (ensures it's always in form state)
@@ -355,6 +373,15 @@ export const DutyStationForm: React.FC<DutyStationFormProps> = ({
 
   const handleFormSubmit = form.handleSubmit(
     (data) => {
+      // Likely duplicates need an explicit confirmation that this is a distinct location
+      if (requestType === RequestType.ADD && duplicateCandidates.length > 0 && !('distinctLocationConfirmed' in data && data.distinctLocationConfirmed)) {
+        form.setError('distinctLocationConfirmed', {
+          type: 'manual',
+          message: 'Please confirm that this is a distinct location, or use the existing station instead',
+        });
+        return;
+      }
+
       // Success: validation passed
       console.log('Form validation passed, submitting request:', data);
       // Ensure requestType is set correctly
@@ -362,6 +389,17 @@ export const DutyStationForm: React.FC<DutyStationFormProps> = ({
         ...data,
         requestType: requestType,
       } as DutyStationRequest;
+
+      // Updates must change something
+      if (!hasProposedChange(requestData)) {
+        form.setError(requestType === RequestType.COORDINATE_UPDATE ? 'proposedCoordinates' : 'proposedChanges', {
+          type: 'manual',
+          message: requestType === RequestType.COORDINATE_UPDATE
+            ? 'Enter the new coordinates; these are the current ones'
+            : 'Enter at least one value that differs from the current one',
+        });
+        return;
+      }
       onSubmit(requestData);
       form.reset();
       clearPersistedData();
@@ -436,6 +474,32 @@ export const DutyStationForm: React.FC<DutyStationFormProps> = ({
     }
   }, [watchedEmail, watchedOrganization]);
 
+  // Existing stations and pending requests the new station may duplicate
+  const watchedName = form.watch('name');
+  const watchedCommonName = form.watch('commonName');
+  const watchedCountryCode = form.watch('countryCode');
+  const watchedLatitude = form.watch('coordinates.latitude');
+  const watchedLongitude = form.watch('coordinates.longitude');
+  const duplicateCandidates = useMemo(() => {
+    if (requestType !== RequestType.ADD || !watchedName) return [];
+    return findAddRequestDuplicates(
+      {
+        name: watchedName,
+        commonName: watchedCommonName,
+        countryCode: watchedCountryCode || '',
+        coordinates: { latitude: watchedLatitude || 0, longitude: watchedLongitude || 0 },
+      },
+      dutyStations,
+      basketItems
+    );
+  }, [requestType, watchedName, watchedCommonName, watchedCountryCode, watchedLatitude, watchedLongitude, dutyStations, basketItems]);
+
+  // A confirmation only covers the matches it was given for
+  const duplicateSignature = duplicateCandidates.map(c => `${c.source}:${c.code}:${c.name}`).join('|');
+  useEffect(() => {
+    form.setValue('distinctLocationConfirmed', false);
+  }, [duplicateSignature, form]);
+
   return (
     <Card>
       <CardContent>
@@ -1197,6 +1261,74 @@ export const DutyStationForm: React.FC<DutyStationFormProps> = ({
               </Grid>
             )}
 
+            {/* Possible duplicates of the new station */}
+            {requestType === RequestType.ADD && duplicateCandidates.length > 0 && (
+              <Grid size={{ xs: 12 }}>
+                <Alert severity="warning">
+                  <Typography variant="subtitle2" gutterBottom>
+                    This station may already exist
+                  </Typography>
+                  <Typography variant="body2">
+                    The following stations have a similar name or are close by. Please check that your request is
+                    not a duplicate before adding it.
+                  </Typography>
+                  <List dense disablePadding>
+                    {duplicateCandidates.map(candidate => (
+                      <ListItem key={`${candidate.source}-${candidate.countryCode}-${candidate.code}-${candidate.name}`} disableGutters>
+                        <ListItemText
+                          primary={
+                            <>
+                              <strong>{candidate.name}</strong>
+                              {candidate.code && ` (${candidate.code})`} · {candidate.country}
+                              {candidate.distanceKm !== null && ` · ${candidate.distanceKm.toFixed(1)} km away`}
+                            </>
+                          }
+                          secondary={
+                            <Box component="span" sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 0.5 }}>
+                              <Chip
+                                component="span"
+                                size="small"
+                                label={candidate.source === 'basket' ? 'Pending in basket' : candidate.obsolete ? 'Existing (obsolete)' : 'Existing station'}
+                                color={candidate.source === 'basket' ? 'info' : 'default'}
+                              />
+                              <Chip component="span" size="small" variant="outlined" label={`${Math.round(candidate.score * 100)}% similar`} />
+                              {candidate.reasons.map(reason => (
+                                <Chip key={reason} component="span" size="small" variant="outlined" label={DUPLICATE_REASON_LABELS[reason]} />
+                              ))}
+                            </Box>
+                          }
+                          secondaryTypographyProps={{ component: 'span' }}
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                  <Controller
+                    name={'distinctLocationConfirmed'}
+                    control={form.control}
+                    render={({ field, fieldState }) => (
+                      <>
+                        <FormControlLabel
+                          control={
+                            <Checkbox
+                              checked={!!field.value}
+                              onChange={(e) => {
+                                field.onChange(e.target.checked);
+                                form.clearErrors('distinctLocationConfirmed');
+                              }}
+                            />
+                          }
+                          label="I confirm this is a distinct location and not one of the stations listed above"
+                        />
+                        {fieldState.error && (
+                          <FormHelperText error>{fieldState.error.message}</FormHelperText>
+                        )}
+                      </>
+                    )}
+                  />
+                </Alert>
+              </Grid>
+            )}
+
             {/* Justification */}
             <Grid size={{ xs: 12 }}>
               <Controller
@@ -23,6 +23,10 @@ import {
 import { searchCitiesNominatim, type CitySearchResult } from '../../services/locationService';
 import { debounce } from '@mui/material/utils';
 import { useAppData } from '../../hooks/useAppData';
+import { normalizeText } from '../../utils/textNormalization';
+import { getSuggestionsInWorker } from '../../services/dataWorkerClient';
+import { loadSelectionCounts, recordSuggestionSelection } from '../../services/autocompleteService';
+import type { Suggestion } from '../../types/search';
 
 interface EnhancedCitySearchProps {
   onCitySelect: (result: CitySearchResult) => void;
@@ -39,8 +43,12 @@ interface EnhancedCitySearchProps {
 interface ExtendedCitySearchResult extends CitySearchResult {
   isDuplicate?: boolean;
   existingCityCode?: string;
+  suggestion?: Suggestion;     // Existing station suggestion
 }
 
+// Existing stations shown for a search term
+const MAX_LOCAL_MATCHES = 20;
+
 /**
  * Enhanced City Search Component
  * PHASE 1: Searches LOCAL database first to prevent duplicates (works with 2+ letters)
@@ -86,57 +94,33 @@ export const EnhancedCitySearch: React.FC<EnhancedCitySearchProps> = ({
         // PHASE 1: SEARCH LOCAL DATABASE FIRST
         // ========================================
         // This prevents duplicates and works with 2+ letters
-        const searchLower = searchTerm.toLowerCase().trim();
-        
-        // Filter duty stations by search term
-        let localMatches = dutyStations.filter(station => {
-          // Skip obsolete stations
-          if (station.OBSOLETE === '1') return false;
-          
-          // Match by city name (starts with or contains)
-          const cityNameMatch = station.CITY_NAME.toLowerCase().includes(searchLower);
-          
-          // Match by common name if available
-          const commonNameMatch = station.CITY_COMMON_NAME?.toLowerCase().includes(searchLower);
-          
-          return cityNameMatch || commonNameMatch;
+        // Matches the start of a name, common name, alternate name or code
+        // Ranked by the autocomplete index: prefix quality, then stations picked before
+        const localMatches = await getSuggestionsInWorker(searchTerm, MAX_LOCAL_MATCHES, {
+          types: ['station'],
+          country: countryName,
+          includeObsolete: false, // Skip obsolete stations
+          selectionCounts: loadSelectionCounts(),
         });
 
-        // Filter by country if specified
-        if (countryName) {
-          localMatches = localMatches.filter(station => 
-            station.COUNTRY?.toLowerCase() === countryName.toLowerCase()
-          );
-        }
-
         // Convert local matches to CitySearchResult format and mark as duplicates
-        const localResults: ExtendedCitySearchResult[] = localMatches.map(station => ({
-          name: station.CITY_NAME,
-          country: station.COUNTRY || 'Unknown',
-          countryCode: station.COUNTRY_CODE,
-          coordinates: {
-            latitude: station.LATITUDE,
-            longitude: station.LONGITUDE,
-          },
-          confidence: 'high' as const,
-          isDuplicate: true, // CRITICAL: Mark as duplicate to prevent re-adding
-          existingCityCode: station.CITY_CODE,
-          summary: `${station.CITY_NAME}, ${station.COUNTRY} - ALREADY EXISTS in database`,
-        }));
-
-        // Sort local results by relevance (exact match first, then starts-with, then contains)
-        localResults.sort((a, b) => {
-          const aExact = a.name.toLowerCase() === searchLower;
-          const bExact = b.name.toLowerCase() === searchLower;
-          if (aExact && !bExact) return -1;
-          if (!aExact && bExact) return 1;
-
-          const aStarts = a.name.toLowerCase().startsWith(searchLower);
-          const bStarts = b.name.toLowerCase().startsWith(searchLower);
-          if (aStarts && !bStarts) return -1;
-          if (!aStarts && bStarts) return 1;
-
-          return a.name.localeCompare(b.name);
+        const localResults = localMatches.flatMap((suggestion): ExtendedCitySearchResult[] => {
+          const { station } = suggestion;
+          if (!station) return [];
+          return [{
+            name: station.CITY_NAME,
+            country: station.COUNTRY || 'Unknown',
+            countryCode: station.COUNTRY_CODE,
+            coordinates: {
+              latitude: station.LATITUDE,
+              longitude: station.LONGITUDE,
+            },
+            confidence: 'high' as const,
+            isDuplicate: true, // CRITICAL: Mark as duplicate to prevent re-adding
+            existingCityCode: station.CITY_CODE,
+            summary: `${station.CITY_NAME}, ${station.COUNTRY} - ALREADY EXISTS in database`,
+            suggestion,
+          }];
         });
 
         allResults.push(...localResults);
@@ -155,8 +139,8 @@ export const EnhancedCitySearch: React.FC<EnhancedCitySearchProps> = ({
             const newCities = apiResults.filter(apiCity => {
               // Check if this city already exists in local database
               const exists = dutyStations.some(station => {
-                const sameName = station.CITY_NAME.toLowerCase() === apiCity.name.toLowerCase();
-                const sameCountry = station.COUNTRY?.toLowerCase() === apiCity.country.toLowerCase();
+                const sameName = normalizeText(station.CITY_NAME) === normalizeText(apiCity.name);
+                const sameCountry = normalizeText(station.COUNTRY || '') === normalizeText(apiCity.country);
                 // Consider it a duplicate if name and country match
                 return sameName && sameCountry;
               });
@@ -210,6 +194,7 @@ export const EnhancedCitySearch: React.FC<EnhancedCitySearchProps> = ({
     if (value) {
       // CRITICAL: Block selection of duplicate cities
       if (value.isDuplicate) {
+        if (value.suggestion) recordSuggestionSelection(value.suggestion);
         setDuplicateWarning(
           `⚠️ DUPLICATE DETECTED: "${value.name}" already exists in the database (Code: ${value.existingCityCode}). ` +
           `You cannot request this city again. Please search for a different city or request a correction for the existing entry.`
@@ -0,0 +1,77 @@
+import { Chip, CircularProgress, Tooltip } from '@mui/material';
+import {
+  CloudDone as NetworkIcon,
+  CloudOff as OfflineIcon,
+  Storage as CacheIcon,
+} from '@mui/icons-material';
+import { useData } from '../../context/DataContext';
+import { describeDataSource } from '../../services/dataSourceService';
+
+/**
+ * Format a date relative to now ("just now", "5 min ago", "3 days ago")
+ */
+const formatRelativeTime = (date: Date): string => {
+  const diffMinutes = Math.round((Date.now() - date.getTime()) / 60000);
+
+  if (diffMinutes < 1) return 'just now';
+  if (diffMinutes < 60) return `${diffMinutes} min ago`;
+
+  const diffHours = Math.round(diffMinutes / 60);
+  if (diffHours < 24) return `${diffHours} h ago`;
+
+  const diffDays = Math.round(diffHours / 24);
+  return `${diffDays} day${diffDays !== 1 ? 's' : ''} ago`;
+};
+
+/**
+ * Shows where the displayed data came from (cache or network) and when it was last refreshed
+ */
+function DataStatusIndicator() {
+  const { dataOrigin, lastUpdated, revalidating, revalidationError, dataSource, historicalView } = useData();
+
+  if (!dataOrigin || !lastUpdated) return null;
+
+  const isOffline = dataOrigin === 'cache' && !!revalidationError;
+  const originLabel = dataOrigin === 'network' ? 'Live' : isOffline ? 'Offline' : 'Cached';
+
+  const icon = revalidating
+    ? <CircularProgress size={14} color="inherit" />
+    : isOffline
+      ? <OfflineIcon />
+      : dataOrigin === 'network'
+        ? <NetworkIcon />
+        : <CacheIcon />;
+
+  const tooltip = [
+    dataOrigin === 'network'
+      ? 'Data loaded from the network'
+      : 'Data loaded from the offline snapshot on this device',
+    `Source: ${describeDataSource(historicalView ? { kind: 'commit', sha: historicalView.sha } : dataSource)}`,
+    `Last refreshed: ${lastUpdated.toLocaleString()}`,
+    revalidating ? 'Checking for updates...' : null,
+    isOffline ? `Could not reach the data source: ${revalidationError}` : null,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <Tooltip title={<span style={{ whiteSpace: 'pre-line' }}>{tooltip}</span>}>
+      <Chip
+        icon={icon}
+        label={`${originLabel} · ${formatRelativeTime(lastUpdated)}`}
+        size="small"
+        variant="outlined"
+        role="status"
+        aria-label={`${originLabel} data, last refreshed ${formatRelativeTime(lastUpdated)}`}
+        sx={{
+          display: { xs: 'none', sm: 'flex' },
+          color: 'inherit',
+          borderColor: 'rgba(255, 255, 255, 0.5)',
+          '& .MuiChip-icon': {
+            color: 'inherit',
+          },
+        }}
+      />
+    </Tooltip>
+  );
+}
+
+export default DataStatusIndicator;
@@ -11,6 +11,8 @@ import {
 } from '@mui/icons-material';
 import { Link } from 'react-router-dom';
 import ThemeToggle from './ThemeToggle';
+import DataStatusIndicator from './DataStatusIndicator';
+import HistoricalViewPicker from './HistoricalViewPicker';
 
 interface HeaderProps {
   onMenuClick: () => void;
@@ -74,6 +76,8 @@ function Header({ onMenuClick, requestCount }: HeaderProps) {
         </Box>
         
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <DataStatusIndicator />
+          <HistoricalViewPicker />
           <ThemeToggle color="inherit" />
           
           <Link 
@@ -0,0 +1,38 @@
+import { Alert, AlertTitle, Button } from '@mui/material';
+import { History as HistoryIcon } from '@mui/icons-material';
+import { useData } from '../../context/DataContext';
+
+/**
+ * Persistent banner shown on every page while a historical version of the code lists is displayed
+ */
+function HistoricalViewBanner() {
+  const { historicalView, exitHistoricalView } = useData();
+
+  if (!historicalView) return null;
+
+  const asOf = historicalView.requestedDate
+    ? `as of ${historicalView.requestedDate.toLocaleDateString()}`
+    : `at commit ${historicalView.sha.slice(0, 7)}`;
+  const commitDetails = historicalView.committedAt
+    ? ` (commit ${historicalView.sha.slice(0, 7)}, ${historicalView.committedAt.toLocaleString()})`
+    : '';
+
+  return (
+    <Alert
+      severity="warning"
+      icon={<HistoryIcon />}
+      role="status"
+      sx={{ mb: 2, position: 'sticky', top: 72, zIndex: 2 }}
+      action={
+        <Button color="inherit" size="small" onClick={exitHistoricalView}>
+          Back to current
+        </Button>
+      }
+    >
+      <AlertTitle>Historical view</AlertTitle>
+      You are viewing the duty station list {asOf}{commitDetails}. Request creation is disabled.
+    </Alert>
+  );
+}
+
+export default HistoricalViewBanner;
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  IconButton,
+  Popover,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { History as HistoryIcon } from '@mui/icons-material';
+import { useData } from '../../context/DataContext';
+
+type PickerMode = 'date' | 'commit';
+
+/**
+ * Header control for browsing the code lists as of a date or commit
+ */
+function HistoricalViewPicker() {
+  const { isHistorical, viewHistoricalVersion, exitHistoricalView } = useData();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [mode, setMode] = useState<PickerMode>('date');
+  const [date, setDate] = useState('');
+  const [sha, setSha] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = new Date().toISOString().split('T')[0];
+  const canSubmit = mode === 'date' ? date !== '' : sha.trim() !== '';
+
+  const handleClose = () => {
+    setAnchorEl(null);
+    setError(null);
+  };
+
+  const handleView = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      if (mode === 'date') {
+        // Interpret the picked day in local time
+        const [year, month, day] = date.split('-').map(Number);
+        await viewHistoricalVersion({ date: new Date(year, month - 1, day) });
+      } else {
+        await viewHistoricalVersion({ sha });
+      }
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the historical version');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReturnToCurrent = () => {
+    exitHistoricalView();
+    handleClose();
+  };
+
+  return (
+    <>
+      <Tooltip title={isHistorical ? 'Viewing a historical version' : 'View the list as of a date or commit'}>
+        <IconButton
+          color="inherit"
+          onClick={(e) => setAnchorEl(e.currentTarget)}
+          aria-label="Browse historical versions"
+          aria-haspopup="dialog"
+          sx={{
+            backgroundColor: isHistorical ? 'rgba(255, 255, 255, 0.2)' : undefined,
+            '&:hover': {
+              backgroundColor: 'rgba(255, 255, 255, 0.1)'
+            }
+          }}
+        >
+          <HistoryIcon />
+        </IconButton>
+      </Tooltip>
+
+      <Popover
+        open={Boolean(anchorEl)}
+        anchorEl={anchorEl}
+        onClose={handleClose}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+      >
+        <Box sx={{ p: 2, width: 320 }} role="dialog" aria-label="Browse historical versions">
+          <Typography variant="subtitle1" gutterBottom>
+            Point-in-time view
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Browse the duty station list as it was on a given date or at a given commit.
+          </Typography>
+
+          <ToggleButtonGroup
+            value={mode}
+            exclusive
+            size="small"
+            fullWidth
+            onChange={(_, value: PickerMode | null) => value && setMode(value)}
+            sx={{ mb: 2 }}
+          >
+            <ToggleButton value="date">By date</ToggleButton>
+            <ToggleButton value="commit">By commit</ToggleButton>
+          </ToggleButtonGroup>
+
+          {mode === 'date' ? (
+            <TextField
+              type="date"
+              label="As of"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true }, htmlInput: { max: today } }}
+              size="small"
+              fullWidth
+            />
+          ) : (
+            <TextField
+              label="Commit SHA"
+              value={sha}
+              onChange={(e) => setSha(e.target.value)}
+              size="small"
+              fullWidth
+            />
+          )}
+
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 2, gap: 1 }}>
+            <Button onClick={handleReturnToCurrent} disabled={!isHistorical || loading}>
+              Back to current
+            </Button>
+            <Button
+              variant="contained"
+              onClick={handleView}
+              disabled={!canSubmit || loading}
+              startIcon={loading ? <CircularProgress size={16} color="inherit" /> : undefined}
+            >
+              View
+            </Button>
+          </Box>
+        </Box>
+      </Popover>
+    </>
+  );
+}
+
+export default HistoricalViewPicker;
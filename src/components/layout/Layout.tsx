@@ -4,6 +4,7 @@ import { Box, useTheme } from '@mui/material';
 import Header from './Header';
 import Sidebar from './Sidebar';
 import BottomNavbar from './BottomNavbar';
+import HistoricalViewBanner from './HistoricalViewBanner';
 import { SkipLinks } from './SkipLinks';
 import { KeyboardShortcutsDialog } from '../common/KeyboardShortcutsDialog';
 import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts';
@@ -66,6 +67,7 @@ function Layout({ children }: LayoutProps) {
           py: { xs: 2, sm: 3 },
           width: '100%'
         }}>
+          <HistoricalViewBanner />
           {children}
         </Box>
       </Box>
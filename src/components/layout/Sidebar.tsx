@@ -20,6 +20,13 @@ import {
   List as ListIcon,
   Map as MapIcon,
   Help as HelpIcon,
+  Settings as SettingsIcon,
+  History as HistoryIcon,
+  FactCheck as FactCheckIcon,
+  ContentCopy as DuplicatesIcon,
+  PlaylistAddCheck as BulkLookupIcon,
+  MyLocation as NearestIcon,
+  RateReview as ReviewIcon,
 } from '@mui/icons-material';
 import { Link, useLocation } from 'react-router-dom';
 
@@ -35,6 +42,13 @@ const menuItems = [
   { text: 'Duty Stations', icon: <BusinessIcon />, path: '/duty-stations' },
   { text: 'Requests', icon: <ListIcon />, path: '/requests-list' },
   { text: 'Maps', icon: <MapIcon />, path: '/maps' },
+  { text: 'Changes', icon: <HistoryIcon />, path: '/changes' },
+  { text: 'Data Quality', icon: <FactCheckIcon />, path: '/data-quality' },
+  { text: 'Duplicates', icon: <DuplicatesIcon />, path: '/duplicates' },
+  { text: 'Bulk Lookup', icon: <BulkLookupIcon />, path: '/bulk-lookup' },
+  { text: 'Nearest Stations', icon: <NearestIcon />, path: '/nearest-stations' },
+  { text: 'Review', icon: <ReviewIcon />, path: '/review' },
+  { text: 'Settings', icon: <SettingsIcon />, path: '/settings' },
   { text: 'Help', icon: <HelpIcon />, path: '/help' },
 ];
 
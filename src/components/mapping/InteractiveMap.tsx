@@ -1,6 +1,6 @@
 // Main interactive map component with clustering support
 import { useEffect, useRef, useMemo } from 'react';
-import { MapContainer, TileLayer, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import 'leaflet.markercluster/dist/MarkerCluster.css';
@@ -8,7 +8,7 @@ import 'leaflet.markercluster/dist/MarkerCluster.Default.css';
 import 'leaflet.markercluster';
 import { LocationMarker } from './LocationMarker';
 import { CoordinatePicker } from './CoordinatePicker';
-import type { DutyStation, MapCoordinates } from '../../types/dutyStation';
+import type { DutyStation, MapBounds, MapCoordinates } from '../../types/dutyStation';
 import type { TileLayer as TileLayerType } from './MapControls';
 
 // Fix for default marker icons
@@ -237,6 +237,30 @@ const MarkerClusterGroup = ({ stations, showClustering, onStationClick }: Marker
   return null;
 };
 
+/**
+ * Reports the visible area of the map after it has been panned or zoomed, and once on load
+ */
+const MapBoundsListener = ({ onBoundsChange }: { onBoundsChange: (bounds: MapBounds) => void }) => {
+  const report = (leafletBounds: L.LatLngBounds) => {
+    onBoundsChange({
+      southWest: { latitude: leafletBounds.getSouth(), longitude: leafletBounds.getWest() },
+      northEast: { latitude: leafletBounds.getNorth(), longitude: leafletBounds.getEast() },
+    });
+  };
+
+  const map = useMapEvents({
+    moveend: () => report(map.getBounds()),
+  });
+
+  useEffect(() => {
+    report(map.getBounds());
+    // Only the initial view - later changes arrive through moveend
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [map]);
+
+  return null;
+};
+
 interface InteractiveMapProps {
   stations: DutyStation[];
   center?: MapCoordinates;
@@ -247,6 +271,7 @@ interface InteractiveMapProps {
   enableCoordinatePicker?: boolean;
   onStationClick?: (station: DutyStation) => void;
   onLocationPicked?: (coordinates: MapCoordinates, address?: string) => void;
+  onBoundsChange?: (bounds: MapBounds) => void;
 }
 
 export const InteractiveMap = ({
@@ -258,7 +283,8 @@ export const InteractiveMap = ({
   showClustering = true,
   enableCoordinatePicker = false,
   onStationClick,
-  onLocationPicked
+  onLocationPicked,
+  onBoundsChange
 }: InteractiveMapProps) => {
   const tileUrl = TILE_LAYERS[tileLayer];
   const attribution = TILE_ATTRIBUTIONS[tileLayer];
@@ -281,6 +307,8 @@ export const InteractiveMap = ({
       {enableCoordinatePicker && (
         <CoordinatePicker onLocationPicked={onLocationPicked} />
       )}
+
+      {onBoundsChange && <MapBoundsListener onBoundsChange={onBoundsChange} />}
     </MapContainer>
   );
 };
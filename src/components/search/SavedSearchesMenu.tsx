@@ -0,0 +1,296 @@
+// Saved searches and recent search history dropdown for the search page
+// Saved searches can be pinned, renamed and deleted, and show when their results have changed
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  ListSubheader,
+  Popover,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Bookmarks as SavedSearchesIcon,
+  BookmarkAdd as SaveIcon,
+  Bookmark as SavedIcon,
+  PushPin as PinIcon,
+  PushPinOutlined as UnpinnedIcon,
+  Edit as RenameIcon,
+  Delete as DeleteIcon,
+  History as RecentIcon,
+  Close as RemoveIcon,
+} from '@mui/icons-material';
+import type { UseSavedSearchesReturn } from '../../hooks/useSavedSearches';
+import { describeSearchCriteria } from '../../services/savedSearchService';
+import type { SavedSearch } from '../../services/savedSearchService';
+
+interface SavedSearchesMenuProps {
+  savedSearchHook: UseSavedSearchesReturn;
+  disabled?: boolean;
+}
+
+// Saved search being named: a new one, or an existing one being renamed
+type NameDialogState = { mode: 'save' } | { mode: 'rename'; search: SavedSearch };
+
+const formatRunDate = (iso: string) => new Date(iso).toLocaleString();
+
+function SavedSearchesMenu({ savedSearchHook, disabled = false }: SavedSearchesMenuProps) {
+  const {
+    savedSearches,
+    history,
+    changes,
+    checking,
+    currentCriteria,
+    activeSavedSearch,
+    applySearch,
+    saveCurrentSearch,
+    renameSearch,
+    togglePin,
+    deleteSearch,
+    removeHistoryEntry,
+    clearHistory,
+    checkForChanges,
+  } = savedSearchHook;
+
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null);
+  const [name, setName] = useState('');
+
+  const changedCount = Object.keys(changes).length;
+
+  const handleOpen = (event: React.MouseEvent<HTMLElement>) => {
+    setAnchorEl(event.currentTarget);
+    checkForChanges();
+  };
+
+  const handleClose = () => setAnchorEl(null);
+
+  const handleApply = (search: Parameters<typeof applySearch>[0]) => {
+    applySearch(search);
+    handleClose();
+  };
+
+  const openSaveDialog = () => {
+    setName(activeSavedSearch?.name ?? currentCriteria.query.trim());
+    setNameDialog({ mode: 'save' });
+  };
+
+  const openRenameDialog = (search: SavedSearch) => {
+    setName(search.name);
+    setNameDialog({ mode: 'rename', search });
+  };
+
+  const handleNameSubmit = () => {
+    if (!nameDialog || !name.trim()) return;
+    if (nameDialog.mode === 'rename') {
+      renameSearch(nameDialog.search.id, name);
+    } else {
+      saveCurrentSearch(name);
+    }
+    setNameDialog(null);
+  };
+
+  return (
+    <>
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+        <Button
+          size="small"
+          startIcon={<SavedSearchesIcon />}
+          onClick={handleOpen}
+          disabled={disabled}
+          aria-haspopup="true"
+          aria-expanded={!!anchorEl}
+        >
+          Saved Searches
+          {changedCount > 0 && (
+            <Chip size="small" color="info" label={`${changedCount} changed`} sx={{ ml: 1, height: 20 }} />
+          )}
+        </Button>
+        <Button
+          size="small"
+          startIcon={<SaveIcon />}
+          onClick={openSaveDialog}
+          disabled={disabled || (!currentCriteria.query.trim() && currentCriteria.countryFilter === 'all')}
+        >
+          {activeSavedSearch ? 'Rename Saved Search' : 'Save Search'}
+        </Button>
+      </Box>
+
+      <Popover
+        open={!!anchorEl}
+        anchorEl={anchorEl}
+        onClose={handleClose}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+        slotProps={{ paper: { sx: { width: 420, maxWidth: '95vw', maxHeight: 480 } } }}
+      >
+        <List dense disablePadding>
+          <ListSubheader sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            Saved Searches
+            {checking && <CircularProgress size={14} aria-label="Checking saved searches for changes" />}
+          </ListSubheader>
+          {savedSearches.length === 0 && (
+            <ListItem>
+              <ListItemText
+                secondary="No saved searches yet. Use Save Search to keep the current search."
+              />
+            </ListItem>
+          )}
+          {savedSearches.map(search => {
+            const change = changes[search.id];
+            return (
+              <ListItem
+                key={search.id}
+                disablePadding
+                secondaryAction={
+                  <>
+                    <Tooltip title={search.pinned ? 'Unpin' : 'Pin to top'}>
+                      <IconButton
+                        size="small"
+                        aria-label={`${search.pinned ? 'Unpin' : 'Pin'} ${search.name}`}
+                        aria-pressed={search.pinned}
+                        onClick={() => togglePin(search.id)}
+                      >
+                        {search.pinned ? <PinIcon fontSize="small" /> : <UnpinnedIcon fontSize="small" />}
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Rename">
+                      <IconButton size="small" aria-label={`Rename ${search.name}`} onClick={() => openRenameDialog(search)}>
+                        <RenameIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <IconButton size="small" aria-label={`Delete ${search.name}`} onClick={() => deleteSearch(search.id)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </>
+                }
+                sx={{ '& .MuiListItemButton-root': { pr: 14 } }}
+              >
+                <ListItemButton
+                  selected={search.id === activeSavedSearch?.id}
+                  onClick={() => handleApply(search.criteria)}
+                >
+                  <ListItemIcon sx={{ minWidth: 32 }}>
+                    <SavedIcon fontSize="small" color={search.pinned ? 'primary' : 'action'} />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={
+                      <Box component="span" sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <Box component="span" sx={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                          {search.name}
+                        </Box>
+                        {change && (
+                          <Tooltip title={`Results changed since ${formatRunDate(change.previous.runAt)}: was ${change.previous.count}, now ${change.current.count}`}>
+                            <Chip size="small" color="info" label="Changed" sx={{ height: 18 }} />
+                          </Tooltip>
+                        )}
+                      </Box>
+                    }
+                    secondary={`${describeSearchCriteria(search.criteria)}${search.lastRun ? ` · ${search.lastRun.count} results` : ''}`}
+                    secondaryTypographyProps={{ noWrap: true }}
+                  />
+                </ListItemButton>
+              </ListItem>
+            );
+          })}
+
+          <Divider />
+          <ListSubheader sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            Recent Searches
+            {history.length > 0 && (
+              <Button size="small" onClick={clearHistory}>
+                Clear
+              </Button>
+            )}
+          </ListSubheader>
+          {history.length === 0 && (
+            <ListItem>
+              <ListItemText secondary="Searches you run will appear here." />
+            </ListItem>
+          )}
+          {history.map(entry => (
+            <ListItem
+              key={entry.runAt}
+              disablePadding
+              secondaryAction={
+                <Tooltip title="Remove from history">
+                  <IconButton
+                    size="small"
+                    aria-label={`Remove ${describeSearchCriteria(entry.criteria)} from history`}
+                    onClick={() => removeHistoryEntry(entry.criteria)}
+                  >
+                    <RemoveIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              }
+            >
+              <ListItemButton onClick={() => handleApply(entry.criteria)}>
+                <ListItemIcon sx={{ minWidth: 32 }}>
+                  <RecentIcon fontSize="small" />
+                </ListItemIcon>
+                <ListItemText
+                  primary={describeSearchCriteria(entry.criteria)}
+                  secondary={`${entry.resultCount} results · ${formatRunDate(entry.runAt)}`}
+                  primaryTypographyProps={{ noWrap: true }}
+                />
+              </ListItemButton>
+            </ListItem>
+          ))}
+        </List>
+      </Popover>
+
+      {/* Save / rename dialog */}
+      <Dialog open={!!nameDialog} onClose={() => setNameDialog(null)} maxWidth="xs" fullWidth>
+        <Box
+          component="form"
+          onSubmit={(event: React.FormEvent) => {
+            event.preventDefault();
+            handleNameSubmit();
+          }}
+        >
+          <DialogTitle>{nameDialog?.mode === 'rename' ? 'Rename Saved Search' : 'Save Search'}</DialogTitle>
+          <DialogContent>
+            {nameDialog?.mode === 'save' && (
+              <Typography variant="body2" color="text.secondary" gutterBottom>
+                {describeSearchCriteria(currentCriteria)}
+              </Typography>
+            )}
+            <TextField
+              autoFocus
+              fullWidth
+              margin="dense"
+              label="Name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              slotProps={{ htmlInput: { maxLength: 80 } }}
+            />
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setNameDialog(null)}>Cancel</Button>
+            <Button type="submit" variant="contained" disabled={!name.trim()}>
+              Save
+            </Button>
+          </DialogActions>
+        </Box>
+      </Dialog>
+    </>
+  );
+}
+
+export default SavedSearchesMenu;
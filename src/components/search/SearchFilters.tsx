@@ -172,7 +172,10 @@ function SearchFilters({
                   • <strong>Exact Match:</strong> Find stations with exact field matches<br />
                   • <strong>Contains:</strong> Find stations where fields contain your search term<br />
                   • <strong>Fuzzy Search:</strong> Find stations with similar spelling (handles typos)<br />
-                  • <strong>Sounds Like:</strong> Find stations that sound similar (phonetic matching)
+                  • <strong>Sounds Like:</strong> Find stations that sound similar (phonetic matching)<br />
+                  • <strong>Sounds Like (Double Metaphone):</strong> Phonetic matching that also compares first letters by sound (Philadelphia / Filadelfia)<br />
+                  • <strong>Sounds Like (Multilingual):</strong> Reads names as French, German, Spanish, Italian, Slavic... spellings (Djibouti / Jibuti, Kinshasa / Chinshasa)<br />
+                  • <strong>Best Match:</strong> Combine all of the above, ranking exact and prefix matches on codes and names first
                 </Typography>
               </Box>
             </Grid>
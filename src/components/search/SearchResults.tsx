@@ -1,7 +1,7 @@
 // Search results component with professional table display
 // Following CEB Donor Codes proven patterns
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Box,
   Table,
@@ -26,24 +26,32 @@ import {
   Visibility as ViewIcon,
 } from '@mui/icons-material';
 import type { DutyStation, SearchResult } from '../../types';
+import type { SearchResultsView, SearchSortField } from '../../types/search';
 import type { UseSearchReturn } from '../../hooks/useSearch';
+import { getLanguageDirection, UN_LANGUAGE_LABELS } from '../../utils/alternateNames';
+import { formatDistance } from '../../services/geocodingService';
+import { getMatchHighlights } from '../../utils/highlight';
+import HighlightedText from '../common/HighlightedText';
 
 interface SearchResultsProps {
   searchHook: UseSearchReturn;
   onViewStation?: (station: DutyStation) => void;
   onExport?: () => void;
   showExport?: boolean;
+  // Sort and pagination, when the page keeps them (e.g. in the URL); otherwise kept here
+  view?: SearchResultsView;
+  onViewChange?: (view: SearchResultsView) => void;
 }
 
-
-type SortField = keyof DutyStation;
-type SortOrder = 'asc' | 'desc';
+const DEFAULT_VIEW: SearchResultsView = { sortField: null, sortOrder: 'asc', page: 0, rowsPerPage: 20 };
 
 function SearchResults({ 
   searchHook, 
   onViewStation, 
   onExport,
-  showExport = true 
+  showExport = true,
+  view,
+  onViewChange,
 }: SearchResultsProps) {
   const {
     results,
@@ -53,22 +61,57 @@ function SearchResults({
     isEmpty,
     totalResults,
     performanceMetrics,
+    searchType,
   } = searchHook;
 
-  const [sortField, setSortField] = useState<SortField>('CITY_NAME');
-  const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
-  const [page, setPage] = useState(0);
-  const [rowsPerPage, setRowsPerPage] = useState(20);
+  const isRanked = searchType === 'hybrid';
+  const hasDistances = results.some(result => result.distanceKm !== undefined);
+  const defaultSortField: SearchSortField = hasDistances ? 'distance' : isRanked ? 'relevance' : 'CITY_NAME';
+  const [localView, setLocalView] = useState<SearchResultsView>(DEFAULT_VIEW);
+  const currentView = view ?? localView;
+
+  const changeView = (changes: Partial<SearchResultsView>) => {
+    const next = { ...currentView, ...changes };
+    if (onViewChange) {
+      onViewChange(next);
+    } else {
+      setLocalView(next);
+    }
+  };
+
+  // Ranked searches are best read in ranking order, radius searches nearest first
+  useEffect(() => {
+    setLocalView(prev => ({ ...prev, sortField: null, sortOrder: 'asc' }));
+  }, [defaultSortField]);
+
+  // Relevance and distance only apply to ranked and radius searches
+  const chosenSortField = currentView.sortField;
+  const canSortBy = (field: SearchSortField | null): field is SearchSortField =>
+    field !== null && (field === 'relevance' ? isRanked : field === 'distance' ? hasDistances : true);
+  const sortField: SearchSortField = canSortBy(chosenSortField) ? chosenSortField : defaultSortField;
+  const sortOrder = sortField === chosenSortField ? currentView.sortOrder : 'asc';
+
+  const { rowsPerPage } = currentView;
+  const lastPage = Math.max(0, Math.ceil(results.length / rowsPerPage) - 1);
+  const page = Math.min(currentView.page, lastPage);
 
   // Handle sorting
-  const handleSort = (field: SortField) => {
+  const handleSort = (field: SearchSortField) => {
     const isAsc = sortField === field && sortOrder === 'asc';
-    setSortOrder(isAsc ? 'desc' : 'asc');
-    setSortField(field);
+    changeView({ sortField: field, sortOrder: isAsc ? 'desc' : 'asc' });
   };
 
   // Sort results
   const sortedResults = React.useMemo(() => {
+    if (sortField === 'relevance') {
+      return sortOrder === 'asc' ? results : [...results].reverse();
+    }
+
+    if (sortField === 'distance') {
+      const direction = sortOrder === 'asc' ? 1 : -1;
+      return [...results].sort((a, b) => direction * ((a.distanceKm ?? 0) - (b.distanceKm ?? 0)));
+    }
+
     const sorted = [...results].sort((a, b) => {
       const aValue = a.item[sortField];
       const bValue = b.item[sortField];
@@ -97,37 +140,17 @@ function SearchResults({
 
   // Handle pagination
   const handleChangePage = (event: unknown, newPage: number) => {
-    setPage(newPage);
+    changeView({ page: newPage });
   };
 
   const handleChangeRowsPerPage = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setRowsPerPage(parseInt(event.target.value, 10));
-    setPage(0);
+    changeView({ rowsPerPage: parseInt(event.target.value, 10), page: 0 });
   };
 
-  // Render match highlights
-  const renderHighlightedText = (text: string, matches?: SearchResult<DutyStation>['matches']) => {
-    if (!matches || matches.length === 0) return text;
-    
-    // Simple highlighting - in a production app, you might want more sophisticated highlighting
-    const match = matches[0];
-    if (match.field && match.indices && match.indices.length > 0) {
-      const [start, end] = match.indices[0];
-      if (start >= 0 && end < text.length) {
-        return (
-          <>
-            {text.substring(0, start)}
-            <mark style={{ backgroundColor: '#fff3cd', padding: '0 2px' }}>
-              {text.substring(start, end + 1)}
-            </mark>
-            {text.substring(end + 1)}
-          </>
-        );
-      }
-    }
-    
-    return text;
-  };
+  // Render match highlights for one column - only matches on that field count
+  const renderHighlightedText = (text: string, field: string, matches?: SearchResult<DutyStation>['matches']) => (
+    <HighlightedText text={text} ranges={getMatchHighlights(matches, field, text)} />
+  );
 
   // Loading state
   if (loading) {
@@ -204,6 +227,28 @@ function SearchResults({
         <Table aria-label="search results">
           <TableHead>
             <TableRow>
+              {isRanked && (
+                <TableCell>
+                  <TableSortLabel
+                    active={sortField === 'relevance'}
+                    direction={sortField === 'relevance' ? sortOrder : 'asc'}
+                    onClick={() => handleSort('relevance')}
+                  >
+                    Match
+                  </TableSortLabel>
+                </TableCell>
+              )}
+              {hasDistances && (
+                <TableCell align="right">
+                  <TableSortLabel
+                    active={sortField === 'distance'}
+                    direction={sortField === 'distance' ? sortOrder : 'asc'}
+                    onClick={() => handleSort('distance')}
+                  >
+                    Distance
+                  </TableSortLabel>
+                </TableCell>
+              )}
               <TableCell>
                 <TableSortLabel
                   active={sortField === 'CITY_CODE'}
@@ -250,28 +295,61 @@ function SearchResults({
             {paginatedResults.map((result, index) => {
               const station = result.item;
               const hasCoordinates = station.LATITUDE !== 0 || station.LONGITUDE !== 0;
+              // The name the station was found by, when it was one of its alternate names
+              const alternateMatchValue = result.matches?.find(match => match.field === 'ALTERNATE_NAMES')?.value;
+              const alternateMatch = station.ALTERNATE_NAMES?.find(alternate => alternate.name === alternateMatchValue);
               const uniqueKey = `${station.CITY_CODE}-${station.COUNTRY_CODE}-${index}`;
               
               return (
                 <TableRow key={uniqueKey} hover>
+                  {isRanked && (
+                    <TableCell>
+                      {result.explanations && result.explanations.length > 0 && (
+                        <Tooltip title={result.explanations.join(', ')}>
+                          <Chip
+                            size="small"
+                            variant="outlined"
+                            color={(result.score ?? 1) <= 0.1 ? 'success' : 'default'}
+                            label={`${Math.round((1 - (result.score ?? 0)) * 100)}% · ${result.explanations[0]}`}
+                          />
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                  )}
+                  {hasDistances && (
+                    <TableCell align="right">
+                      <Typography variant="body2" fontFamily="monospace">
+                        {result.distanceKm !== undefined ? formatDistance(result.distanceKm) : '-'}
+                      </Typography>
+                    </TableCell>
+                  )}
                   <TableCell>
                     <Typography variant="body2" fontFamily="monospace">
-                      {station.CITY_CODE}
+                      {renderHighlightedText(station.CITY_CODE, 'CITY_CODE', result.matches)}
                     </Typography>
                   </TableCell>
                   <TableCell>
                     <Typography variant="body2" fontWeight="medium">
-                      {renderHighlightedText(station.CITY_NAME, result.matches)}
+                      {renderHighlightedText(station.CITY_NAME, 'CITY_NAME', result.matches)}
                     </Typography>
+                    {alternateMatch && (
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        Also known as{' '}
+                        <span lang={alternateMatch.language} dir={getLanguageDirection(alternateMatch.language)}>
+                          {renderHighlightedText(alternateMatch.name, 'ALTERNATE_NAMES', result.matches)}
+                        </span>
+                        {' '}({UN_LANGUAGE_LABELS[alternateMatch.language]})
+                      </Typography>
+                    )}
                   </TableCell>
                   <TableCell>
                     <Typography variant="body2">
-                      {renderHighlightedText(station.COUNTRY || 'N/A', result.matches)}
+                      {station.COUNTRY ? renderHighlightedText(station.COUNTRY, 'COUNTRY', result.matches) : 'N/A'}
                     </Typography>
                   </TableCell>
                   <TableCell>
                     <Typography variant="body2" color="text.secondary">
-                      {station.CITY_COMMON_NAME ? renderHighlightedText(station.CITY_COMMON_NAME, result.matches) : '-'}
+                      {station.CITY_COMMON_NAME ? renderHighlightedText(station.CITY_COMMON_NAME, 'CITY_COMMON_NAME', result.matches) : '-'}
                     </Typography>
                   </TableCell>
                   <TableCell align="right">
@@ -18,11 +18,20 @@ import {
 } from '@mui/material';
 import {
   Search as SearchIcon,
-  LocationOn as LocationIcon,
+  TravelExplore as RegionIcon,
   Language as CountryIcon,
   Place as StationIcon,
+  Bookmark as SavedIcon,
+  History as RecentIcon,
 } from '@mui/icons-material';
 import type { UseSearchReturn } from '../../hooks/useSearch';
+import type { Suggestion } from '../../types/search';
+import { recordSuggestionSelection } from '../../services/autocompleteService';
+import { describeSearchCriteria, getCriteriaKey } from '../../services/savedSearchService';
+import type { SavedSearch, SearchCriteria, SearchHistoryEntry } from '../../services/savedSearchService';
+import { normalizeText } from '../../utils/textNormalization';
+import { findTextHighlights } from '../../utils/highlight';
+import HighlightedText from '../common/HighlightedText';
 
 interface SearchSuggestionsProps {
   searchHook: UseSearchReturn;
@@ -31,14 +40,23 @@ interface SearchSuggestionsProps {
   onClose: () => void;
   onSuggestionSelect: (suggestion: string) => void;
   maxSuggestions?: number;
+  savedSearches?: SavedSearch[];
+  recentSearches?: SearchHistoryEntry[];
+  onSearchSelect?: (criteria: SearchCriteria) => void;   // Runs a saved or recent search
 }
 
 interface SuggestionItem {
   text: string;
-  type: 'station' | 'country' | 'common';
+  type: 'station' | 'country' | 'region' | 'saved' | 'recent';
   category: string;
+  detail?: string;
+  suggestion?: Suggestion;       // Station, country and region suggestions
+  criteria?: SearchCriteria;     // Saved and recent searches
 }
 
+// Saved and recent searches shown above the station suggestions
+const MAX_SEARCH_SUGGESTIONS = 3;
+
 function SearchSuggestions({
   searchHook,
   anchorEl,
@@ -46,68 +64,77 @@ function SearchSuggestions({
   onClose,
   onSuggestionSelect,
   maxSuggestions = 10,
+  savedSearches = [],
+  recentSearches = [],
+  onSearchSelect,
 }: SearchSuggestionsProps) {
-  const { suggestions, query, dutyStations, isReady } = searchHook;
+  const { suggestions, query, searchType, fields, countryFilter, showObsolete, dutyStations, isReady } = searchHook;
   const [selectedIndex, setSelectedIndex] = useState(-1);
   const listRef = useRef<HTMLUListElement>(null);
 
   // Categorize suggestions
   const categorizedSuggestions = React.useMemo(() => {
-    if (!isReady || !suggestions.length || !dutyStations || dutyStations.length === 0) return [];
+    if (!isReady || !dutyStations || dutyStations.length === 0) return [];
 
     const items: SuggestionItem[] = [];
-    const lowerQuery = query.toLowerCase();
+    const lowerQuery = normalizeText(query);
 
-    // Add station name suggestions
-    const stationSuggestions = suggestions.filter(suggestion => {
-      return dutyStations.some(station => 
-        station.CITY_NAME && station.CITY_NAME.toLowerCase().includes(lowerQuery) && 
-        station.CITY_NAME === suggestion
-      );
-    });
+    // Saved and recent searches matching what is typed, other than the current search
+    if (onSearchSelect) {
+      const currentKey = getCriteriaKey({ query, searchType, fields, countryFilter, showObsolete });
+      const savedKeys = new Set(savedSearches.map(search => getCriteriaKey(search.criteria)));
 
-    stationSuggestions.slice(0, Math.ceil(maxSuggestions * 0.4)).forEach(suggestion => {
-      items.push({
-        text: suggestion,
-        type: 'station',
-        category: 'Station Names',
-      });
-    });
-
-    // Add common name suggestions
-    const commonSuggestions = suggestions.filter(suggestion => {
-      return dutyStations.some(station => 
-        station.CITY_COMMON_NAME && station.CITY_COMMON_NAME.toLowerCase().includes(lowerQuery) && 
-        station.CITY_COMMON_NAME === suggestion
-      );
-    });
-
-    commonSuggestions.slice(0, Math.ceil(maxSuggestions * 0.3)).forEach(suggestion => {
-      items.push({
-        text: suggestion,
-        type: 'common',
-        category: 'Common Names',
-      });
-    });
-
-    // Add country suggestions
-    const countrySuggestions = suggestions.filter(suggestion => {
-      return dutyStations.some(station => 
-        station.COUNTRY && station.COUNTRY.toLowerCase().includes(lowerQuery) && 
-        station.COUNTRY === suggestion
-      );
-    });
+      savedSearches
+        .filter(search => getCriteriaKey(search.criteria) !== currentKey
+          && (normalizeText(search.name).includes(lowerQuery) || normalizeText(search.criteria.query).includes(lowerQuery)))
+        .slice(0, MAX_SEARCH_SUGGESTIONS)
+        .forEach(search => {
+          items.push({ text: search.name, type: 'saved', category: 'Saved Searches', criteria: search.criteria });
+        });
 
-    countrySuggestions.slice(0, Math.ceil(maxSuggestions * 0.3)).forEach(suggestion => {
-      items.push({
-        text: suggestion,
-        type: 'country',
-        category: 'Countries',
-      });
+      recentSearches
+        .filter(entry => {
+          const key = getCriteriaKey(entry.criteria);
+          return key !== currentKey && !savedKeys.has(key) && normalizeText(entry.criteria.query).includes(lowerQuery);
+        })
+        .slice(0, MAX_SEARCH_SUGGESTIONS)
+        .forEach(entry => {
+          items.push({
+            text: describeSearchCriteria(entry.criteria),
+            type: 'recent',
+            category: 'Recent Searches',
+            criteria: entry.criteria,
+          });
+        });
+    }
+    // Ranked station, country and region suggestions, grouped by type in ranking order
+    const categories: Array<[SuggestionItem['type'], string]> = [
+      ['station', 'Stations'],
+      ['country', 'Countries'],
+      ['region', 'Regions'],
+    ];
+    const ranked = suggestions.slice(0, maxSuggestions);
+    categories.forEach(([type, category]) => {
+      ranked
+        .filter(suggestion => suggestion.type === type)
+        .forEach(suggestion => {
+          items.push({
+            text: suggestion.text,
+            type,
+            category,
+            suggestion,
+            // Stations found by another of their names show the name that matched
+            detail: suggestion.station
+              ? [suggestion.station.COUNTRY, suggestion.matchedField !== 'CITY_NAME' ? suggestion.matchedText : null]
+                .filter(Boolean)
+                .join(' · ')
+              : undefined,
+          });
+        });
     });
 
-    return items.slice(0, maxSuggestions);
-  }, [isReady, suggestions, query, dutyStations, maxSuggestions]);
+    return items;
+  }, [isReady, suggestions, query, dutyStations, maxSuggestions, searchType, fields, countryFilter, showObsolete, savedSearches, recentSearches, onSearchSelect]);
 
   // Group suggestions by category
   const groupedSuggestions = React.useMemo(() => {
@@ -144,8 +171,7 @@ function SearchSuggestions({
         case 'Enter':
           if (selectedIndex >= 0 && selectedIndex < categorizedSuggestions.length) {
             event.preventDefault();
-            onSuggestionSelect(categorizedSuggestions[selectedIndex].text);
-            onClose();
+            selectItem(categorizedSuggestions[selectedIndex]);
           }
           break;
         case 'Escape':
@@ -158,7 +184,9 @@ function SearchSuggestions({
       document.addEventListener('keydown', handleKeyDown);
       return () => document.removeEventListener('keydown', handleKeyDown);
     }
-  }, [open, selectedIndex, categorizedSuggestions, onSuggestionSelect, onClose]);
+    // selectItem only uses the props listed
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, selectedIndex, categorizedSuggestions, onSuggestionSelect, onSearchSelect, onClose]);
 
   // Scroll selected item into view
   useEffect(() => {
@@ -178,10 +206,17 @@ function SearchSuggestions({
     setSelectedIndex(-1);
   }, [categorizedSuggestions]);
 
-  const handleSuggestionClick = (suggestion: string) => {
-    onSuggestionSelect(suggestion);
+  // Saved and recent searches run with all their criteria; other suggestions fill in the query
+  // Picked suggestions rank higher next time; a region is searched with the query language
+  function selectItem(item: SuggestionItem) {
+    if (item.criteria && onSearchSelect) {
+      onSearchSelect(item.criteria);
+    } else {
+      if (item.suggestion) recordSuggestionSelection(item.suggestion);
+      onSuggestionSelect(item.type === 'region' ? `region:"${item.text}"` : item.text);
+    }
     onClose();
-  };
+  }
 
   const getIconForType = (type: SuggestionItem['type']) => {
     switch (type) {
@@ -189,8 +224,12 @@ function SearchSuggestions({
         return <StationIcon fontSize="small" />;
       case 'country':
         return <CountryIcon fontSize="small" />;
-      case 'common':
-        return <LocationIcon fontSize="small" />;
+      case 'region':
+        return <RegionIcon fontSize="small" />;
+      case 'saved':
+        return <SavedIcon fontSize="small" />;
+      case 'recent':
+        return <RecentIcon fontSize="small" />;
       default:
         return <SearchIcon fontSize="small" />;
     }
@@ -202,8 +241,10 @@ function SearchSuggestions({
         return 'primary';
       case 'country':
         return 'secondary';
-      case 'common':
+      case 'region':
         return 'info';
+      case 'saved':
+        return 'success';
       default:
         return 'default';
     }
@@ -277,14 +318,14 @@ function SearchSuggestions({
 
                     {/* Category Items */}
                     {items.map((item, itemIndex) => {
-                      const globalIndex = categorizedSuggestions.findIndex(s => s.text === item.text);
+                      const globalIndex = categorizedSuggestions.indexOf(item);
                       const isSelected = globalIndex === selectedIndex;
                       
                       return (
                         <ListItem key={`${category}-${itemIndex}`} disablePadding>
                           <ListItemButton
                             selected={isSelected}
-                            onClick={() => handleSuggestionClick(item.text)}
+                            onClick={() => selectItem(item)}
                             sx={{
                               pl: 3,
                               '&.Mui-selected': {
@@ -296,11 +337,16 @@ function SearchSuggestions({
                               {getIconForType(item.type)}
                             </Box>
                             <ListItemText
-                              primary={item.text}
+                              primary={<HighlightedText text={item.text} ranges={findTextHighlights(item.text, query)} />}
+                              secondary={item.detail && <HighlightedText text={item.detail} ranges={findTextHighlights(item.detail, query)} />}
                               primaryTypographyProps={{
                                 variant: 'body2',
                                 noWrap: true,
                               }}
+                              secondaryTypographyProps={{
+                                variant: 'caption',
+                                noWrap: true,
+                              }}
                             />
                             <Chip
                               size="small"
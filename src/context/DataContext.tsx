@@ -1,6 +1,20 @@
-import { createContext, useContext, useReducer, useEffect, useMemo, useCallback, type ReactNode } from 'react';
+import { createContext, useContext, useReducer, useEffect, useMemo, useCallback, useRef, useState, type ReactNode } from 'react';
 import type { DutyStation, Country } from '../types';
-import { fetchDutyStationsWithCountriesCached, fetchCountries } from '../services/dataService';
+import type { CodeListFile, DataSourceConfig, HistoricalView } from '../types/dataSource';
+import type { ValidationResult } from '../utils/dataValidation';
+import { isAbortError, loadDatasetInWorker, setWorkerSearchData } from '../services/dataWorkerClient';
+import { loadSnapshot, saveSnapshot } from '../services/snapshotService';
+import {
+  findCommitAtDate,
+  getActiveDataSource,
+  getDataSourceId,
+  getEnvironmentDataSource,
+  isValidDataSource,
+  saveDataSource,
+} from '../services/dataSourceService';
+
+// Where the currently displayed data came from
+export type DataOrigin = 'cache' | 'network';
 
 // Data state interface
 interface DataState {
@@ -9,15 +23,30 @@ interface DataState {
   loading: boolean;
   error: string | null;
   lastUpdated: Date | null;
+  dataOrigin: DataOrigin | null;
+  revalidating: boolean;
+  revalidationError: string | null;
+  csvValidation: Partial<Record<CodeListFile, ValidationResult>>;
 }
 
 // Action types for reducer
 type DataAction =
   | { type: 'FETCH_START' }
-  | { type: 'FETCH_SUCCESS'; payload: { dutyStations: DutyStation[]; countries: Country[] } }
+  | {
+      type: 'FETCH_SUCCESS';
+      payload: {
+        dutyStations: DutyStation[];
+        countries: Country[];
+        csvValidation: Partial<Record<CodeListFile, ValidationResult>>;
+      };
+    }
   | { type: 'FETCH_ERROR'; payload: string }
+  | { type: 'SNAPSHOT_LOADED'; payload: { dutyStations: DutyStation[]; countries: Country[]; savedAt: Date } }
+  | { type: 'REVALIDATE_START' }
+  | { type: 'REVALIDATE_ERROR'; payload: string }
   | { type: 'CLEAR_ERROR' }
-  | { type: 'REFRESH_DATA' };
+  | { type: 'REFRESH_DATA' }
+  | { type: 'RESET' };
 
 // Initial state
 const initialState: DataState = {
@@ -26,6 +55,10 @@ const initialState: DataState = {
   loading: false,
   error: null,
   lastUpdated: null,
+  dataOrigin: null,
+  revalidating: false,
+  revalidationError: null,
+  csvValidation: {},
 };
 
 // Reducer function
@@ -44,14 +77,41 @@ function dataReducer(state: DataState, action: DataAction): DataState {
         error: null,
         dutyStations: action.payload.dutyStations,
         countries: action.payload.countries,
+        csvValidation: action.payload.csvValidation,
         lastUpdated: new Date(),
+        dataOrigin: 'network',
+        revalidating: false,
+        revalidationError: null,
       };
     case 'FETCH_ERROR':
       return {
         ...state,
         loading: false,
+        revalidating: false,
         error: action.payload,
       };
+    case 'SNAPSHOT_LOADED':
+      return {
+        ...state,
+        dutyStations: action.payload.dutyStations,
+        countries: action.payload.countries,
+        lastUpdated: action.payload.savedAt,
+        dataOrigin: 'cache',
+      };
+    case 'REVALIDATE_START':
+      return {
+        ...state,
+        revalidating: true,
+        revalidationError: null,
+      };
+    case 'REVALIDATE_ERROR':
+      // Keep showing the cached snapshot - the network is just unavailable
+      return {
+        ...state,
+        loading: false,
+        revalidating: false,
+        revalidationError: action.payload,
+      };
     case 'CLEAR_ERROR':
       return {
         ...state,
@@ -63,6 +123,8 @@ function dataReducer(state: DataState, action: DataAction): DataState {
         loading: true,
         error: null,
       };
+    case 'RESET':
+      return initialState;
     default:
       return state;
   }
@@ -70,6 +132,12 @@ function dataReducer(state: DataState, action: DataAction): DataState {
 
 // Context interface
 interface DataContextType extends DataState {
+  dataSource: DataSourceConfig;
+  setDataSource: (config: DataSourceConfig | null) => void;
+  historicalView: HistoricalView | null;
+  isHistorical: boolean;
+  viewHistoricalVersion: (target: { date: Date } | { sha: string }) => Promise<void>;
+  exitHistoricalView: () => void;
   refreshData: () => Promise<void>;
   clearError: () => void;
   getDutyStationByCode: (code: string) => DutyStation | undefined;
@@ -89,31 +157,96 @@ interface DataProviderProps {
 // Data provider component
 export function DataProvider({ children }: DataProviderProps) {
   const [state, dispatch] = useReducer(dataReducer, initialState);
+  const [dataSource, setDataSourceState] = useState<DataSourceConfig>(() => getActiveDataSource());
+  const [historicalView, setHistoricalView] = useState<HistoricalView | null>(null);
+  const loadControllerRef = useRef<AbortController | null>(null);
+
+  // While browsing a historical version the code lists come from that commit instead
+  const effectiveSource = useMemo<DataSourceConfig>(() => (
+    historicalView ? { kind: 'commit', sha: historicalView.sha, alternateNames: dataSource.alternateNames } : dataSource
+  ), [historicalView, dataSource]);
 
-  // Fetch data function
+  // Fetch data function - stale-while-revalidate:
+  // render the IndexedDB snapshot immediately, then refresh it from the network
   const fetchData = useCallback(async (forceRefresh: boolean = false) => {
-    try {
+    // A newer load (e.g. after switching data source) supersedes this one
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+    const isStale = () => controller.signal.aborted;
+    const snapshotKey = getDataSourceId(effectiveSource);
+
+    const snapshot = forceRefresh ? null : await loadSnapshot(snapshotKey);
+    if (isStale()) return;
+
+    if (snapshot) {
+      await setWorkerSearchData(snapshot.dutyStations);
+      if (isStale()) return;
+
+      dispatch({
+        type: 'SNAPSHOT_LOADED',
+        payload: {
+          dutyStations: snapshot.dutyStations,
+          countries: snapshot.countries,
+          savedAt: snapshot.savedAt,
+        },
+      });
+      dispatch({ type: 'REVALIDATE_START' });
+    } else {
       dispatch({ type: 'FETCH_START' });
-      
-      // Fetch both duty stations and countries in parallel
+    }
+
+    try {
+      // Fetching, parsing and the country join run in the data worker
       // Force refresh clears cache to get latest data with obsolete country fixes
-      const [dutyStations, countries] = await Promise.all([
-        fetchDutyStationsWithCountriesCached(forceRefresh),
-        fetchCountries()
-      ]);
+      const { dutyStations, countries, validation, datasetHash } = await loadDatasetInWorker(effectiveSource, {
+        forceRefresh,
+        signal: controller.signal,
+      });
+      if (isStale()) return;
 
       dispatch({
         type: 'FETCH_SUCCESS',
-        payload: { dutyStations, countries },
+        payload: { dutyStations, countries, csvValidation: validation },
       });
-      
-      // Loaded duty stations and countries data successfully
+
+      // Persist for the next (possibly offline) visit
+      await saveSnapshot(dutyStations, countries, snapshotKey, datasetHash);
       
     } catch (error) {
+      if (isStale() || isAbortError(error)) return;
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       console.error('DataContext: Failed to fetch data:', error);
-      dispatch({ type: 'FETCH_ERROR', payload: errorMessage });
+      dispatch({ type: snapshot ? 'REVALIDATE_ERROR' : 'FETCH_ERROR', payload: errorMessage });
     }
+  }, [effectiveSource]);
+
+  // Switch data source - null reverts to the environment configuration
+  const setDataSource = useCallback((config: DataSourceConfig | null) => {
+    saveDataSource(config);
+    dispatch({ type: 'RESET' });
+    setHistoricalView(null);
+    setDataSourceState(config ?? getEnvironmentDataSource());
+  }, []);
+
+  // Browse the code lists as they were on a given date or at a given commit
+  const viewHistoricalVersion = useCallback(async (target: { date: Date } | { sha: string }) => {
+    if ('sha' in target && !isValidDataSource({ kind: 'commit', sha: target.sha })) {
+      throw new Error('Commit SHA must be 7 to 40 hexadecimal characters');
+    }
+
+    const view: HistoricalView = 'sha' in target
+      ? { sha: target.sha.trim(), requestedDate: null, committedAt: null }
+      : await findCommitAtDate(target.date, dataSource.kind === 'github' ? dataSource.branch : undefined);
+
+    dispatch({ type: 'RESET' });
+    setHistoricalView(view);
+  }, [dataSource]);
+
+  // Return to the current version of the code lists
+  const exitHistoricalView = useCallback(() => {
+    dispatch({ type: 'RESET' });
+    setHistoricalView(null);
   }, []);
 
   // Refresh data function - forces cache clear to get latest data
@@ -153,6 +286,12 @@ export function DataProvider({ children }: DataProviderProps) {
   // Memoize context value to prevent unnecessary re-renders
   const contextValue: DataContextType = useMemo(() => ({
     ...state,
+    dataSource,
+    setDataSource,
+    historicalView,
+    isHistorical: historicalView !== null,
+    viewHistoricalVersion,
+    exitHistoricalView,
     refreshData,
     clearError,
     getDutyStationByCode,
@@ -161,6 +300,11 @@ export function DataProvider({ children }: DataProviderProps) {
     isDataLoaded,
   }), [
     state,
+    dataSource,
+    setDataSource,
+    historicalView,
+    viewHistoricalVersion,
+    exitHistoricalView,
     refreshData,
     clearError,
     getDutyStationByCode,
@@ -1,6 +1,7 @@
 import { useMemo } from 'react';
 import { useData } from '../context/DataContext';
 import type { DutyStation, DutyStationFilters, PaginatedResults, PaginationOptions } from '../types';
+import { normalizeText } from '../utils/textNormalization';
 
 // Custom hook for app-wide data management
 export function useAppData() {
@@ -13,19 +14,19 @@ export function useAppData() {
 
       // Apply search text filter
       if (filters.searchText && filters.searchText.trim()) {
-        const searchText = filters.searchText.toLowerCase().trim();
+        const searchText = normalizeText(filters.searchText.trim());
         const searchField = filters.searchField || 'CITY_NAME';
 
         filtered = filtered.filter(station => {
           switch (searchField) {
             case 'CITY_NAME':
-              return station.CITY_NAME.toLowerCase().includes(searchText);
+              return normalizeText(station.CITY_NAME).includes(searchText);
             case 'COUNTRY':
-              return station.COUNTRY?.toLowerCase().includes(searchText) || false;
+              return normalizeText(station.COUNTRY || '').includes(searchText);
             case 'CITY_COMMON_NAME':
-              return station.CITY_COMMON_NAME.toLowerCase().includes(searchText);
+              return normalizeText(station.CITY_COMMON_NAME).includes(searchText);
             default:
-              return station.CITY_NAME.toLowerCase().includes(searchText);
+              return normalizeText(station.CITY_NAME).includes(searchText);
           }
         });
       }
@@ -99,12 +100,12 @@ export function useAppData() {
         return dataContext.dutyStations;
       }
 
-      const term = searchTerm.toLowerCase();
+      const term = normalizeText(searchTerm);
       return dataContext.dutyStations.filter(station => {
         return searchFields.some(field => {
           const fieldValue = station[field];
           if (typeof fieldValue === 'string') {
-            return fieldValue.toLowerCase().includes(term);
+            return normalizeText(fieldValue).includes(term);
           }
           return false;
         });
@@ -16,6 +16,7 @@ import {
   isSubmissionConfigured,
 } from '../services/basketService';
 import { initializeEmailJS, getEmailConfigStatus } from '../services/emailService';
+import { useData } from '../context/DataContext';
 
 export interface UseBasketReturn {
   basket: BasketItem[];
@@ -38,6 +39,7 @@ export interface UseBasketReturn {
 export const useBasket = (): UseBasketReturn => {
   const [basket, setBasket] = useState<BasketItem[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { isHistorical } = useData();
 
   // Initialize EmailJS on mount
   useEffect(() => {
@@ -60,9 +62,14 @@ export const useBasket = (): UseBasketReturn => {
    * Add request to basket
    */
   const addToBasket = useCallback(async (request: DutyStationRequest) => {
+    // Requests must be based on the current data, not a historical version
+    if (isHistorical) {
+      throw new Error('Requests cannot be created while viewing a historical version of the duty station list');
+    }
+
     const newItem = await addToBasketService(request);
     setBasket(prev => [...prev, newItem]);
-  }, []);
+  }, [isHistorical]);
 
   /**
    * Remove request from basket
@@ -100,7 +107,7 @@ export const useBasket = (): UseBasketReturn => {
    * Submit basket items
    */
   const submitBasket = useCallback(async (items?: BasketItem[]): Promise<SubmissionResult> => {
-    const itemsToSubmit = items || basket.filter(item => item.status === 'pending');
+    const itemsToSubmit = items || basket.filter(item => item.status === 'draft');
     
     if (itemsToSubmit.length === 0) {
       return {
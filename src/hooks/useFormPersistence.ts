@@ -84,8 +84,9 @@ export const useFormPersistence = <TFormData extends Record<string, unknown>>(
    * Clear persisted data
    */
   const clearPersistedData = useCallback(() => {
+    if (!enabled) return;
     localStorage.removeItem(storageKey);
-  }, [storageKey]);
+  }, [storageKey, enabled]);
 
   /**
    * Check if persisted data exists
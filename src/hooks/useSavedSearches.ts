@@ -0,0 +1,211 @@
+// Custom hook for saved searches and recent search history on top of useSearch
+// Completed searches are added to the history; running a saved search compares its results
+// with the last run, so the user can be told when they have changed
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { UseSearchReturn } from './useSearch';
+import type { SearchFilters } from '../types/search';
+import { isAbortError, searchInWorker } from '../services/dataWorkerClient';
+import {
+  addSearchHistoryEntry,
+  clearSearchHistory,
+  createResultSnapshot,
+  deleteSavedSearch,
+  getCriteriaKey,
+  loadSavedSearches,
+  loadSearchHistory,
+  recordSavedSearchRun,
+  removeSearchHistoryEntry,
+  renameSavedSearch,
+  saveSearch,
+  toggleSavedSearchPin,
+} from '../services/savedSearchService';
+import type { ResultSnapshot, SavedSearch, SearchCriteria, SearchHistoryEntry } from '../services/savedSearchService';
+
+/**
+ * Results of a saved search that differ from its last run
+ */
+export interface SavedSearchChange {
+  previous: ResultSnapshot;
+  current: ResultSnapshot;
+}
+
+const toCriteria = (filters: SearchFilters): SearchCriteria => ({
+  query: filters.query,
+  searchType: filters.searchType,
+  fields: filters.fields,
+  countryFilter: filters.countryFilter ?? 'all',
+  showObsolete: filters.showObsolete,
+});
+
+const toFilters = (criteria: SearchCriteria): SearchFilters => ({ ...criteria });
+
+export function useSavedSearches(searchHook: UseSearchReturn) {
+  const {
+    query,
+    searchType,
+    fields,
+    countryFilter,
+    showObsolete,
+    results,
+    searchedFilters,
+    dutyStations,
+    isReady,
+    setQuery,
+    setSearchType,
+    setFields,
+    setCountryFilter,
+    setShowObsolete,
+  } = searchHook;
+
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>(loadSavedSearches);
+  const [history, setHistory] = useState<SearchHistoryEntry[]>(loadSearchHistory);
+  // Saved searches whose results changed, by id
+  const [changes, setChanges] = useState<Record<string, SavedSearchChange>>({});
+  const [checking, setChecking] = useState(false);
+  const checkControllerRef = useRef<AbortController | null>(null);
+
+  const currentCriteria = useMemo<SearchCriteria>(
+    () => ({ query, searchType, fields, countryFilter, showObsolete }),
+    [query, searchType, fields, countryFilter, showObsolete]
+  );
+  const currentKey = getCriteriaKey(currentCriteria);
+
+  // Saved search matching what is being searched now
+  const activeSavedSearch = useMemo(
+    () => savedSearches.find(search => getCriteriaKey(search.criteria) === currentKey) ?? null,
+    [savedSearches, currentKey]
+  );
+
+  // Record each completed search - searches limited to the map area are not repeatable, so skipped
+  useEffect(() => {
+    if (!searchedFilters || searchedFilters.bounds) return;
+
+    const criteria = toCriteria(searchedFilters);
+    setHistory(addSearchHistoryEntry(criteria, results.length));
+
+    const key = getCriteriaKey(criteria);
+    const saved = loadSavedSearches().find(search => getCriteriaKey(search.criteria) === key);
+    if (!saved) return;
+
+    const snapshot = createResultSnapshot(results.map(result => result.item));
+    const previous = saved.lastRun;
+    if (previous && previous.signature !== snapshot.signature) {
+      setChanges(prev => ({ ...prev, [saved.id]: { previous, current: snapshot } }));
+    }
+    setSavedSearches(recordSavedSearchRun(saved.id, snapshot));
+    // Results and the filters they were found with are set together
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchedFilters]);
+
+  useEffect(() => () => checkControllerRef.current?.abort(), []);
+
+  // Run a saved or recent search
+  const applySearch = useCallback((criteria: SearchCriteria) => {
+    setQuery(criteria.query);
+    setSearchType(criteria.searchType);
+    setFields(criteria.fields);
+    setCountryFilter(criteria.countryFilter);
+    setShowObsolete(criteria.showObsolete);
+  }, [setQuery, setSearchType, setFields, setCountryFilter, setShowObsolete]);
+
+  // Save the current search; its current results become the baseline for change detection
+  const saveCurrentSearch = useCallback((name: string) => {
+    const resultsMatch = searchedFilters !== null && !searchedFilters.bounds
+      && getCriteriaKey(toCriteria(searchedFilters)) === currentKey;
+    const snapshot = resultsMatch ? createResultSnapshot(results.map(result => result.item)) : null;
+    setSavedSearches(saveSearch(name.trim(), currentCriteria, snapshot));
+  }, [searchedFilters, currentKey, currentCriteria, results]);
+
+  const renameSearch = useCallback((id: string, name: string) => {
+    setSavedSearches(renameSavedSearch(id, name.trim()));
+  }, []);
+
+  const togglePin = useCallback((id: string) => {
+    setSavedSearches(toggleSavedSearchPin(id));
+  }, []);
+
+  const deleteSearch = useCallback((id: string) => {
+    setSavedSearches(deleteSavedSearch(id));
+    setChanges(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }, []);
+
+  const removeHistoryEntry = useCallback((criteria: SearchCriteria) => {
+    setHistory(removeSearchHistoryEntry(criteria));
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    clearSearchHistory();
+    setHistory([]);
+  }, []);
+
+  const dismissChange = useCallback((id: string) => {
+    setChanges(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }, []);
+
+  /**
+   * Re-run every saved search in the background and flag those whose results changed
+   * The last run is not updated, so the change stays visible until the search is run
+   */
+  const checkForChanges = useCallback(async () => {
+    if (!isReady) return;
+
+    checkControllerRef.current?.abort();
+    const controller = new AbortController();
+    checkControllerRef.current = controller;
+    setChecking(true);
+
+    try {
+      const found: Record<string, SavedSearchChange> = {};
+      for (const search of loadSavedSearches()) {
+        if (!search.lastRun) continue;
+        const { result } = await searchInWorker(toFilters(search.criteria), controller.signal);
+        const snapshot = createResultSnapshot(result.map(item => item.item));
+        if (snapshot.signature !== search.lastRun.signature) {
+          found[search.id] = { previous: search.lastRun, current: snapshot };
+        }
+      }
+      setChanges(prev => ({ ...prev, ...found }));
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Error checking saved searches:', error);
+      }
+    } finally {
+      if (checkControllerRef.current === controller) {
+        checkControllerRef.current = null;
+        setChecking(false);
+      }
+    }
+    // Re-check when the data changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isReady, dutyStations]);
+
+  return {
+    savedSearches,
+    history,
+    changes,
+    checking,
+    currentCriteria,
+    activeSavedSearch,
+    applySearch,
+    saveCurrentSearch,
+    renameSearch,
+    togglePin,
+    deleteSearch,
+    removeHistoryEntry,
+    clearHistory,
+    dismissChange,
+    checkForChanges,
+  };
+}
+
+// Export type for the hook return value
+export type UseSavedSearchesReturn = ReturnType<typeof useSavedSearches>;
@@ -1,11 +1,20 @@
 // Custom hook for search functionality with debouncing and state management
 // Following CEB Donor Codes proven patterns
+// Searches run in the data worker; a new query cancels the one still in flight
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useAppData } from './useAppData';
-import { searchDutyStations, getSearchSuggestions, multiSearch, measureSearchPerformance } from '../services/searchService';
-import { SearchType, type SearchFilters, type SearchResult } from '../types/search';
-import type { DutyStation } from '../types';
+import {
+  getSuggestionsInWorker,
+  isAbortError,
+  multiSearchInWorker,
+  searchInWorker,
+} from '../services/dataWorkerClient';
+import { loadSelectionCounts } from '../services/autocompleteService';
+import { SearchType, type SearchFilters, type SearchResult, type Suggestion } from '../types/search';
+import { analyzeSearchQuery } from '../utils/searchQuery';
+import { buildSpatialIndex, findWithinRadius } from '../utils/spatialIndex';
+import type { DutyStation, MapBounds } from '../types';
 
 // Search state interface
 interface SearchState {
@@ -14,14 +23,19 @@ interface SearchState {
   fields: string[];
   countryFilter: string;
   showObsolete: boolean;
+  bounds: MapBounds | null;
   results: SearchResult<DutyStation>[];
-  suggestions: string[];
+  searchedFilters: SearchFilters | null;   // Filters the current results were found with
+  suggestions: Suggestion[];
   loading: boolean;
   error: string | null;
   searchTime: number;
   totalResults: number;
 }
 
+// Fields searched until the user picks others
+export const DEFAULT_SEARCH_FIELDS = ['CITY_NAME', 'CITY_COMMON_NAME', 'COUNTRY', 'ALTERNATE_NAMES'];
+
 // Search hook options
 interface UseSearchOptions {
   debounceMs?: number;
@@ -45,10 +59,12 @@ export function useSearch(options: UseSearchOptions = {}) {
   const [searchState, setSearchState] = useState<SearchState>({
     query: '',
     searchType: SearchType.PARTIAL,
-    fields: ['CITY_NAME', 'CITY_COMMON_NAME', 'COUNTRY'],
+    fields: DEFAULT_SEARCH_FIELDS,
     countryFilter: 'all',
     showObsolete: false,
+    bounds: null,
     results: [],
+    searchedFilters: null,
     suggestions: [],
     loading: false,
     error: null,
@@ -68,11 +84,25 @@ export function useSearch(options: UseSearchOptions = {}) {
     return () => clearTimeout(timer);
   }, [searchState.query, debounceMs]);
 
+  // Query language check, so mistakes are explained instead of returning no results
+  const queryAnalysis = useMemo(
+    () => analyzeSearchQuery(debouncedQuery, searchState.searchType),
+    [debouncedQuery, searchState.searchType]
+  );
+
   // Perform search when debounced query or filters change
+  // Cleanup aborts the previous search, so stale results never overwrite newer ones
   useEffect(() => {
     if (!isReady) return;
 
-    const performSearch = () => {
+    if (queryAnalysis.error) {
+      setSearchState(prev => ({ ...prev, loading: false, results: [], totalResults: 0 }));
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const performSearch = async () => {
       setSearchState(prev => ({ ...prev, loading: true, error: null }));
 
       try {
@@ -82,31 +112,22 @@ export function useSearch(options: UseSearchOptions = {}) {
           fields: searchState.fields,
           countryFilter: searchState.countryFilter,
           showObsolete: searchState.showObsolete,
+          bounds: searchState.bounds ?? undefined,
         };
 
-        let results: SearchResult<DutyStation>[] = [];
-        let searchTime = 0;
-
-        if (enablePerformanceTracking) {
-          const { result, duration } = measureSearchPerformance(
-            () => searchDutyStations(dutyStations, filters),
-            searchState.searchType,
-            debouncedQuery
-          );
-          results = result;
-          searchTime = duration;
-        } else {
-          results = searchDutyStations(dutyStations, filters);
-        }
+        const { result: results, duration } = await searchInWorker(filters, controller.signal);
 
         setSearchState(prev => ({
           ...prev,
           results,
+          searchedFilters: filters,
           loading: false,
-          searchTime,
+          searchTime: enablePerformanceTracking ? duration : 0,
           totalResults: results.length,
         }));
       } catch (error) {
+        if (isAbortError(error)) return;
+
         const errorMessage = error instanceof Error ? error.message : 'Search failed';
         setSearchState(prev => ({
           ...prev,
@@ -119,18 +140,33 @@ export function useSearch(options: UseSearchOptions = {}) {
     };
 
     performSearch();
-  }, [debouncedQuery, searchState.searchType, searchState.fields, searchState.countryFilter, searchState.showObsolete, dutyStations, isReady, enablePerformanceTracking]);
+
+    return () => controller.abort();
+  }, [debouncedQuery, queryAnalysis, searchState.searchType, searchState.fields, searchState.countryFilter, searchState.showObsolete, searchState.bounds, dutyStations, isReady, enablePerformanceTracking]);
 
   // Update suggestions when query changes (immediate, no debounce for UX)
   useEffect(() => {
     if (!isReady || !enableSuggestions) return;
 
-    if (searchState.query.length >= 2) {
-      const suggestions = getSearchSuggestions(dutyStations, searchState.query, maxSuggestions);
-      setSearchState(prev => ({ ...prev, suggestions }));
-    } else {
+    if (searchState.query.length < 2) {
       setSearchState(prev => ({ ...prev, suggestions: [] }));
+      return;
     }
+
+    const controller = new AbortController();
+
+    const options = { selectionCounts: loadSelectionCounts() };
+    getSuggestionsInWorker(searchState.query, maxSuggestions, options, controller.signal)
+      .then(suggestions => {
+        setSearchState(prev => ({ ...prev, suggestions }));
+      })
+      .catch(error => {
+        if (!isAbortError(error)) {
+          console.error('Failed to load search suggestions:', error);
+        }
+      });
+
+    return () => controller.abort();
   }, [searchState.query, dutyStations, isReady, enableSuggestions, maxSuggestions]);
 
   // Action functions
@@ -154,6 +190,11 @@ export function useSearch(options: UseSearchOptions = {}) {
     setSearchState(prev => ({ ...prev, showObsolete }));
   }, []);
 
+  // Limit results to an area, e.g. the visible map; null searches everywhere
+  const setBounds = useCallback((bounds: MapBounds | null) => {
+    setSearchState(prev => ({ ...prev, bounds }));
+  }, []);
+
   const clearSearch = useCallback(() => {
     setSearchState(prev => ({
       ...prev,
@@ -172,14 +213,13 @@ export function useSearch(options: UseSearchOptions = {}) {
   }, []);
 
   // Advanced search function for multi-type search
-  const performMultiSearch = useCallback((query: string, maxResults: number = 50) => {
+  const performMultiSearch = useCallback(async (
+    query: string,
+    maxResults: number = 50
+  ): Promise<SearchResult<DutyStation>[]> => {
     if (!isReady) return [];
 
-    const { result, duration } = measureSearchPerformance(
-      () => multiSearch(dutyStations, query, { maxResults }),
-      'multi',
-      query
-    );
+    const { result, duration } = await multiSearchInWorker(query, { maxResults });
 
     setSearchState(prev => ({
       ...prev,
@@ -189,7 +229,7 @@ export function useSearch(options: UseSearchOptions = {}) {
     }));
 
     return result;
-  }, [dutyStations, isReady]);
+  }, [isReady]);
 
   // Quick search for specific duty station codes
   const searchByCode = useCallback((code: string): DutyStation | null => {
@@ -202,7 +242,10 @@ export function useSearch(options: UseSearchOptions = {}) {
     return station || null;
   }, [dutyStations, isReady]);
 
-  // Search by coordinates (within radius)
+  // Spatial index for location lookups on the main thread
+  const spatialIndex = useMemo(() => buildSpatialIndex(dutyStations), [dutyStations]);
+
+  // Search by coordinates (within radius), nearest first
   const searchByLocation = useCallback((
     latitude: number, 
     longitude: number, 
@@ -210,26 +253,8 @@ export function useSearch(options: UseSearchOptions = {}) {
   ): DutyStation[] => {
     if (!isReady) return [];
 
-    // Simple distance calculation (Haversine formula approximation)
-    const toRadians = (degrees: number) => degrees * (Math.PI / 180);
-    
-    return dutyStations.filter(station => {
-      if (station.LATITUDE === 0 && station.LONGITUDE === 0) return false;
-
-      const lat1 = toRadians(latitude);
-      const lat2 = toRadians(station.LATITUDE);
-      const deltaLat = toRadians(station.LATITUDE - latitude);
-      const deltaLng = toRadians(station.LONGITUDE - longitude);
-
-      const a = Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
-                Math.cos(lat1) * Math.cos(lat2) *
-                Math.sin(deltaLng / 2) * Math.sin(deltaLng / 2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      const distance = 6371 * c; // Earth's radius in km
-
-      return distance <= radiusKm;
-    });
-  }, [dutyStations, isReady]);
+    return findWithinRadius(spatialIndex, { latitude, longitude }, radiusKm).map(match => match.item);
+  }, [spatialIndex, isReady]);
 
   // Memoized country options for filters (excluding obsolete countries)
   const countryOptions = useMemo(() => {
@@ -250,6 +275,7 @@ export function useSearch(options: UseSearchOptions = {}) {
     { value: 'CITY_COMMON_NAME', label: 'Common Name' },
     { value: 'COUNTRY', label: 'Country' },
     { value: 'COUNTRY_CODE', label: 'Country Code' },
+    { value: 'ALTERNATE_NAMES', label: 'Alternate Names' },
   ], []);
 
   // Search type options
@@ -258,6 +284,9 @@ export function useSearch(options: UseSearchOptions = {}) {
     { value: SearchType.PARTIAL, label: 'Contains' },
     { value: SearchType.FUZZY, label: 'Fuzzy Search' },
     { value: SearchType.SOUNDEX, label: 'Sounds Like' },
+    { value: SearchType.METAPHONE, label: 'Sounds Like (Double Metaphone)' },
+    { value: SearchType.BEIDER_MORSE, label: 'Sounds Like (Multilingual)' },
+    { value: SearchType.HYBRID, label: 'Best Match' },
   ], []);
 
   // Performance metrics
@@ -276,11 +305,16 @@ export function useSearch(options: UseSearchOptions = {}) {
     fields: searchState.fields,
     countryFilter: searchState.countryFilter,
     showObsolete: searchState.showObsolete,
+    bounds: searchState.bounds,
     results: searchState.results,
+    searchedFilters: searchState.searchedFilters,
     suggestions: searchState.suggestions,
     loading: searchState.loading,
     error: searchState.error,
     totalResults: searchState.totalResults,
+    queryError: queryAnalysis.error,
+    queryClauses: queryAnalysis.clauses,
+    spatialQuery: queryAnalysis.spatial,
 
     // Data from useAppData
     dutyStations,
@@ -292,6 +326,7 @@ export function useSearch(options: UseSearchOptions = {}) {
     setFields,
     setCountryFilter,
     setShowObsolete,
+    setBounds,
     clearSearch,
     clearError,
 
@@ -308,9 +343,9 @@ export function useSearch(options: UseSearchOptions = {}) {
     // Performance and status
     performanceMetrics,
     isReady,
-    hasQuery: debouncedQuery.length > 0,
+    hasQuery: debouncedQuery.length > 0 || searchState.bounds !== null,
     hasResults: searchState.results.length > 0,
-    isEmpty: searchState.results.length === 0 && debouncedQuery.length > 0,
+    isEmpty: searchState.results.length === 0 && (debouncedQuery.length > 0 || searchState.bounds !== null),
   };
 }
 
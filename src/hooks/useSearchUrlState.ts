@@ -0,0 +1,128 @@
+// Custom hook that keeps the search page's query, filters, sort and pagination in the URL
+// e.g. /search?q=Kh&country=Sudan&obsolete=1&sort=CITY_CODE&page=2
+// The URL is restored into useSearch on load and on back/forward; search changes are written back,
+// with typing debounced so each settled query adds one history entry.
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import type { UseSearchReturn } from './useSearch';
+import { DEFAULT_SEARCH_FIELDS } from './useSearch';
+import {
+  booleanParam,
+  enumParam,
+  listParam,
+  numberParam,
+  stringParam,
+  useUrlState,
+} from './useUrlState';
+import { SearchType } from '../types/search';
+import type { SearchResultsView, SearchSortField } from '../types/search';
+
+const SEARCH_TYPES = Object.values(SearchType);
+const SORT_FIELDS: Array<SearchSortField | ''> = ['', 'relevance', 'distance', 'CITY_CODE', 'CITY_NAME', 'COUNTRY', 'CITY_COMMON_NAME'];
+
+const SEARCH_URL_PARAMS = {
+  query: stringParam('q'),
+  searchType: enumParam('type', SEARCH_TYPES, SearchType.PARTIAL),
+  fields: listParam('fields', DEFAULT_SEARCH_FIELDS),
+  countryFilter: stringParam('country', 'all'),
+  showObsolete: booleanParam('obsolete'),
+  sortField: enumParam('sort', SORT_FIELDS, ''),
+  sortOrder: enumParam('order', ['asc', 'desc'] as const, 'asc'),
+  page: numberParam('page', 1, 1),            // 1-based in the URL
+  rowsPerPage: numberParam('size', 20, 1),
+};
+
+// Wait for typing to settle before writing the query to the URL
+const URL_WRITE_DELAY_MS = 500;
+
+interface SearchCriteria {
+  query: string;
+  searchType: string;
+  fields: string[];
+  countryFilter: string;
+  showObsolete: boolean;
+}
+
+const criteriaKey = (criteria: SearchCriteria) =>
+  JSON.stringify([criteria.query, criteria.searchType, criteria.fields, criteria.countryFilter, criteria.showObsolete]);
+
+/**
+ * Sync a useSearch instance with the URL
+ * @returns The results table view and its setter, for SearchResults
+ */
+export function useSearchUrlState(searchHook: UseSearchReturn) {
+  const [urlState, setUrlState] = useUrlState(SEARCH_URL_PARAMS);
+  const {
+    query,
+    searchType,
+    fields,
+    countryFilter,
+    showObsolete,
+    setQuery,
+    setSearchType,
+    setFields,
+    setCountryFilter,
+    setShowObsolete,
+  } = searchHook;
+
+  const urlKey = criteriaKey(urlState);
+  const searchKey = criteriaKey({ query, searchType, fields, countryFilter, showObsolete });
+
+  // Criteria last applied in either direction; whichever side differs from it has changed
+  const syncedKeyRef = useRef<string | null>(null);
+  const pendingWriteRef = useRef<number | undefined>(undefined);
+
+  // URL → search: initial load and back/forward
+  useEffect(() => {
+    if (urlKey === syncedKeyRef.current) return;
+    syncedKeyRef.current = urlKey;
+    window.clearTimeout(pendingWriteRef.current);
+
+    setQuery(urlState.query);
+    setSearchType(urlState.searchType);
+    setFields(urlState.fields);
+    setCountryFilter(urlState.countryFilter);
+    setShowObsolete(urlState.showObsolete);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [urlKey]);
+
+  // Search → URL: new criteria start from the first page, and a new search type from its own sort order
+  useEffect(() => {
+    if (searchKey === syncedKeyRef.current) return;
+
+    const timer = window.setTimeout(() => {
+      syncedKeyRef.current = searchKey;
+      setUrlState({
+        query,
+        searchType,
+        fields,
+        countryFilter,
+        showObsolete,
+        page: 1,
+        ...(searchType !== urlState.searchType ? { sortField: '', sortOrder: 'asc' } : {}),
+      });
+    }, URL_WRITE_DELAY_MS);
+    pendingWriteRef.current = timer;
+
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchKey]);
+
+  const view = useMemo((): SearchResultsView => ({
+    sortField: urlState.sortField || null,
+    sortOrder: urlState.sortOrder,
+    page: urlState.page - 1,
+    rowsPerPage: urlState.rowsPerPage,
+  }), [urlState.sortField, urlState.sortOrder, urlState.page, urlState.rowsPerPage]);
+
+  const setView = useCallback((next: SearchResultsView) => {
+    setUrlState({
+      sortField: next.sortField ?? '',
+      sortOrder: next.sortOrder,
+      page: next.page + 1,
+      rowsPerPage: next.rowsPerPage,
+    });
+  }, [setUrlState]);
+
+  return { view, setView };
+}
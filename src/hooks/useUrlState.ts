@@ -0,0 +1,100 @@
+// Custom hook for page state kept in URL query parameters
+// Makes search and filter state shareable and bookmarkable, and lets the browser's
+// back/forward buttons step through it. Values equal to their default are left out of the URL.
+
+import { useCallback, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+/**
+ * Reads and writes one query parameter
+ */
+export interface UrlParam<T> {
+  name: string;
+  parse: (value: string | null) => T;
+  serialize: (value: T) => string | null;   // null leaves the parameter out
+}
+
+export type UrlParams<T> = { [K in keyof T]: UrlParam<T[K]> };
+
+export interface UrlStateUpdateOptions {
+  replace?: boolean;     // Replace the current history entry instead of adding one
+}
+
+export const stringParam = (name: string, defaultValue = ''): UrlParam<string> => ({
+  name,
+  parse: value => value ?? defaultValue,
+  serialize: value => (value === defaultValue ? null : value),
+});
+
+export const numberParam = (name: string, defaultValue: number, min = 0): UrlParam<number> => ({
+  name,
+  parse: value => {
+    const parsed = value === null ? NaN : Number(value);
+    return Number.isInteger(parsed) && parsed >= min ? parsed : defaultValue;
+  },
+  serialize: value => (value === defaultValue ? null : String(value)),
+});
+
+export const booleanParam = (name: string, defaultValue = false): UrlParam<boolean> => ({
+  name,
+  parse: value => (value === null ? defaultValue : value === '1' || value === 'true'),
+  serialize: value => (value === defaultValue ? null : value ? '1' : '0'),
+});
+
+// One of a fixed set of values; anything else reads as the default
+export const enumParam = <T extends string>(name: string, values: readonly T[], defaultValue: T): UrlParam<T> => ({
+  name,
+  parse: value => (values as readonly string[]).includes(value ?? '') ? value as T : defaultValue,
+  serialize: value => (value === defaultValue ? null : value),
+});
+
+// Comma-separated list, optionally restricted to known values
+export const listParam = (name: string, defaultValue: string[], values?: readonly string[]): UrlParam<string[]> => ({
+  name,
+  parse: value => {
+    if (value === null) return defaultValue;
+    const items = value.split(',').filter(item => item && (!values || values.includes(item)));
+    return items.length > 0 ? items : defaultValue;
+  },
+  serialize: value => (value.join(',') === defaultValue.join(',') ? null : value.join(',')),
+});
+
+/**
+ * State read from the URL query string
+ * Parameters not described by `params` are left untouched, so pages can share the query string.
+ * @param params - Parameter descriptions; keep the object stable (e.g. a module constant)
+ * @returns The current state and a function that writes changes to the URL
+ */
+export function useUrlState<T extends object>(params: UrlParams<T>) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Latest parameters, so several updates in one event build on each other
+  const searchParamsRef = useRef(searchParams);
+  searchParamsRef.current = searchParams;
+
+  const state = useMemo(() => {
+    const parsed = {} as T;
+    (Object.keys(params) as Array<keyof T>).forEach(key => {
+      parsed[key] = params[key].parse(searchParams.get(params[key].name));
+    });
+    return parsed;
+  }, [searchParams, params]);
+
+  const setState = useCallback((changes: Partial<T>, options: UrlStateUpdateOptions = {}) => {
+    const next = new URLSearchParams(searchParamsRef.current);
+    (Object.keys(changes) as Array<keyof T>).forEach(key => {
+      const param = params[key];
+      const value = param.serialize(changes[key] as T[keyof T]);
+      if (value === null) {
+        next.delete(param.name);
+      } else {
+        next.set(param.name, value);
+      }
+    });
+
+    if (next.toString() === searchParamsRef.current.toString()) return;
+    searchParamsRef.current = next;
+    setSearchParams(next, { replace: options.replace });
+  }, [params, setSearchParams]);
+
+  return [state, setState] as const;
+}
@@ -0,0 +1,456 @@
+// Bulk lookup page - resolve a list of city names (pasted or from a CSV/XLSX file) to duty station codes
+import { useState, useMemo, useRef, useEffect } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  Container,
+  Typography,
+  Box,
+  Paper,
+  Button,
+  Chip,
+  Alert,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Link,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  LinearProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  Stack,
+} from '@mui/material';
+import {
+  UploadFile as UploadIcon,
+  PlayArrow as RunIcon,
+  Stop as StopIcon,
+  Download as DownloadIcon,
+} from '@mui/icons-material';
+import { useData } from '../context/DataContext';
+import type { DutyStation } from '../types';
+import { bulkLookupInWorker, isAbortError } from '../services/dataWorkerClient';
+import {
+  BULK_LOOKUP_STATUS_LABELS,
+  buildBulkLookupExport,
+  guessLookupColumns,
+  parsePastedTable,
+  readTableFile,
+  toBulkLookupTable,
+} from '../services/bulkLookupService';
+import type { BulkLookupQuery, BulkLookupResult, BulkLookupStatus, BulkLookupTable } from '../services/bulkLookupService';
+import { downloadCSV } from '../utils/exportUtils';
+
+// Rows sent to the worker per request, so progress can be shown and the run cancelled
+const CHUNK_SIZE = 100;
+
+const STATUS_COLORS: Record<BulkLookupStatus, 'success' | 'warning' | 'default'> = {
+  matched: 'success',
+  ambiguous: 'warning',
+  unmatched: 'default',
+};
+
+type StatusFilter = BulkLookupStatus | 'all';
+
+// Value of the "no match" option in the candidate select
+const NO_MATCH = '';
+
+const emptyTable: BulkLookupTable = { headers: [], rows: [] };
+
+function BulkLookupPage() {
+  const { dutyStations, isDataLoaded } = useData();
+
+  const [pastedText, setPastedText] = useState('');
+  const [fileRows, setFileRows] = useState<string[][] | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [hasHeader, setHasHeader] = useState(false);
+  const [cityColumn, setCityColumn] = useState(0);
+  const [countryColumn, setCountryColumn] = useState<number | null>(null);
+
+  const [results, setResults] = useState<BulkLookupResult[] | null>(null);
+  const [selections, setSelections] = useState<Array<DutyStation | null>>([]);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const table = useMemo(() => {
+    if (fileRows) return toBulkLookupTable(fileRows, hasHeader);
+    return pastedText.trim() ? parsePastedTable(pastedText, hasHeader) : emptyTable;
+  }, [fileRows, pastedText, hasHeader]);
+
+  // Pick likely columns whenever the input's headers change
+  const headerSignature = table.headers.join('\t');
+  useEffect(() => {
+    const guess = guessLookupColumns(table.headers);
+    setCityColumn(guess.cityColumn);
+    setCountryColumn(guess.countryColumn);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [headerSignature]);
+
+  // Results belong to the input they were computed from
+  useEffect(() => {
+    abortRef.current?.abort();
+    setResults(null);
+    setSelections([]);
+    setPage(0);
+  }, [table, cityColumn, countryColumn]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleFileUpload = async (file: File | undefined) => {
+    if (!file) return;
+    setFileError(null);
+
+    try {
+      setFileRows(await readTableFile(file));
+      setFileName(file.name);
+      setHasHeader(true);
+    } catch (error) {
+      console.error('Error reading bulk lookup file:', error);
+      setFileError(error instanceof Error ? error.message : 'The file could not be read');
+    }
+  };
+
+  const clearFile = () => {
+    setFileRows(null);
+    setFileName(null);
+    setFileError(null);
+  };
+
+  const runLookup = async () => {
+    const queries: BulkLookupQuery[] = table.rows.map(row => ({
+      text: row[cityColumn] ?? '',
+      country: countryColumn !== null ? row[countryColumn] : undefined,
+    }));
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunError(null);
+    setResults(null);
+    setProgress(0);
+
+    try {
+      const resolved: BulkLookupResult[] = [];
+      for (let start = 0; start < queries.length; start += CHUNK_SIZE) {
+        resolved.push(...await bulkLookupInWorker(queries.slice(start, start + CHUNK_SIZE), controller.signal));
+        setProgress(resolved.length / queries.length);
+      }
+      setResults(resolved);
+      setSelections(resolved.map(result => (result.status === 'matched' ? result.candidates[0].station : null)));
+      setStatusFilter('all');
+      setPage(0);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Error running bulk lookup:', error);
+        setRunError(error instanceof Error ? error.message : 'The lookup failed');
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const cancelLookup = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  const handleSelect = (rowIndex: number, value: string) => {
+    const station = value === NO_MATCH ? null : results?.[rowIndex].candidates[Number(value)]?.station ?? null;
+    setSelections(prev => prev.map((selected, index) => (index === rowIndex ? station : selected)));
+  };
+
+  const handleExport = () => {
+    if (!results) return;
+    downloadCSV(buildBulkLookupExport(table, results, selections), 'bulk-lookup');
+  };
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<BulkLookupStatus, number> = { matched: 0, ambiguous: 0, unmatched: 0 };
+    results?.forEach(result => counts[result.status]++);
+    return counts;
+  }, [results]);
+
+  const visibleRows = useMemo(
+    () => (results ?? [])
+      .map((result, index) => ({ result, index }))
+      .filter(({ result }) => statusFilter === 'all' || result.status === statusFilter),
+    [results, statusFilter]
+  );
+
+  const unresolvedCount = selections.filter(station => station === null).length;
+  const isRunning = progress !== null;
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Box sx={{ mb: 3 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Bulk Lookup
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Resolve a list of city names, such as a column from a payroll spreadsheet, to duty station codes.
+          Rows with several likely stations are flagged for review; the export adds CITY_CODE, COUNTRY_CODE and
+          the official CITY_NAME to the original rows.
+        </Typography>
+      </Box>
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        {fileRows ? (
+          <Alert
+            severity="info"
+            sx={{ mb: 2 }}
+            action={<Button color="inherit" size="small" onClick={clearFile}>Clear</Button>}
+          >
+            {fileName}: {table.rows.length} rows
+          </Alert>
+        ) : (
+          <TextField
+            label="City names"
+            placeholder={'One per line, e.g. "Geneva" or "Nairobi, Kenya".\nColumns copied from a spreadsheet are tab-separated.'}
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            multiline
+            minRows={6}
+            maxRows={16}
+            fullWidth
+            sx={{ mb: 2 }}
+          />
+        )}
+
+        {fileError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {fileError}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <Button component="label" variant="outlined" startIcon={<UploadIcon />}>
+            Upload CSV / XLSX
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              hidden
+              onChange={(e) => {
+                handleFileUpload(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </Button>
+          <FormControlLabel
+            control={<Switch checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />}
+            label="First row is a header"
+          />
+          {table.headers.length > 1 && (
+            <>
+              <FormControl size="small" sx={{ minWidth: 180 }}>
+                <InputLabel id="bulk-city-column">City column</InputLabel>
+                <Select
+                  labelId="bulk-city-column"
+                  label="City column"
+                  value={cityColumn}
+                  onChange={(e) => setCityColumn(Number(e.target.value))}
+                >
+                  {table.headers.map((header, index) => (
+                    <MenuItem key={index} value={index}>{header}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl size="small" sx={{ minWidth: 180 }}>
+                <InputLabel id="bulk-country-column">Country column</InputLabel>
+                <Select
+                  labelId="bulk-country-column"
+                  label="Country column"
+                  value={countryColumn ?? -1}
+                  onChange={(e) => setCountryColumn(Number(e.target.value) >= 0 ? Number(e.target.value) : null)}
+                >
+                  <MenuItem value={-1}><em>None</em></MenuItem>
+                  {table.headers.map((header, index) => (
+                    <MenuItem key={index} value={index} disabled={index === cityColumn}>{header}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </>
+          )}
+          <Box sx={{ flex: 1 }} />
+          {isRunning ? (
+            <Button variant="outlined" color="inherit" startIcon={<StopIcon />} onClick={cancelLookup}>
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              variant="contained"
+              startIcon={<RunIcon />}
+              onClick={runLookup}
+              disabled={!isDataLoaded || dutyStations.length === 0 || table.rows.length === 0}
+            >
+              Look Up {table.rows.length > 0 ? `${table.rows.length} Rows` : ''}
+            </Button>
+          )}
+        </Box>
+
+        {isRunning && (
+          <Box sx={{ mt: 2 }}>
+            <LinearProgress
+              variant="determinate"
+              value={Math.round((progress ?? 0) * 100)}
+              aria-label="Bulk lookup progress"
+            />
+          </Box>
+        )}
+      </Paper>
+
+      {runError && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {runError}
+        </Alert>
+      )}
+
+      {results && (
+        <Paper sx={{ p: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+            <ToggleButtonGroup
+              value={statusFilter}
+              exclusive
+              size="small"
+              onChange={(_, value: StatusFilter | null) => {
+                if (value) {
+                  setStatusFilter(value);
+                  setPage(0);
+                }
+              }}
+              aria-label="Filter rows by match status"
+            >
+              <ToggleButton value="all">All ({results.length})</ToggleButton>
+              {(Object.keys(BULK_LOOKUP_STATUS_LABELS) as BulkLookupStatus[]).map(status => (
+                <ToggleButton key={status} value={status}>
+                  {BULK_LOOKUP_STATUS_LABELS[status]} ({statusCounts[status]})
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+            <Box sx={{ flex: 1 }} />
+            {unresolvedCount > 0 && (
+              <Typography variant="body2" color="text.secondary">
+                {unresolvedCount} rows without a station
+              </Typography>
+            )}
+            <Button variant="contained" startIcon={<DownloadIcon />} onClick={handleExport}>
+              Export CSV
+            </Button>
+          </Box>
+
+          <TableContainer>
+            <Table size="small" aria-label="Bulk lookup results">
+              <TableHead>
+                <TableRow>
+                  <TableCell align="right">Row</TableCell>
+                  <TableCell>Input</TableCell>
+                  <TableCell align="center">Status</TableCell>
+                  <TableCell align="right">Confidence</TableCell>
+                  <TableCell sx={{ minWidth: 280 }}>Duty Station</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {visibleRows.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage).map(({ result, index }) => {
+                  const row = table.rows[index];
+                  const selected = selections[index];
+                  const selectedIndex = result.candidates.findIndex(candidate => candidate.station === selected);
+                  const selectedCandidate = result.candidates[selectedIndex];
+                  return (
+                    <TableRow key={index} selected={result.status === 'ambiguous' && !selected}>
+                      <TableCell align="right">{index + 1}</TableCell>
+                      <TableCell>
+                        {row[cityColumn]}
+                        {countryColumn !== null && row[countryColumn] && (
+                          <Typography component="span" variant="body2" color="text.secondary">
+                            {' '}({row[countryColumn]})
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="center">
+                        <Chip
+                          label={BULK_LOOKUP_STATUS_LABELS[result.status]}
+                          color={STATUS_COLORS[result.status]}
+                          size="small"
+                          variant={result.status === 'unmatched' ? 'outlined' : 'filled'}
+                        />
+                      </TableCell>
+                      <TableCell align="right">
+                        {selectedCandidate ? `${Math.round(selectedCandidate.confidence * 100)}%` : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {result.candidates.length === 0 ? (
+                          <Typography variant="body2" color="text.secondary">No candidates</Typography>
+                        ) : (
+                          <Stack direction="row" spacing={1} alignItems="center">
+                            <Select
+                              size="small"
+                              fullWidth
+                              value={selectedIndex >= 0 ? String(selectedIndex) : NO_MATCH}
+                              onChange={(e) => handleSelect(index, e.target.value)}
+                              displayEmpty
+                              inputProps={{ 'aria-label': `Duty station for row ${index + 1}` }}
+                            >
+                              <MenuItem value={NO_MATCH}><em>No match</em></MenuItem>
+                              {result.candidates.map((candidate, candidateIndex) => (
+                                <MenuItem key={candidateIndex} value={String(candidateIndex)}>
+                                  {candidate.station.CITY_NAME} ({candidate.station.CITY_CODE}, {candidate.station.COUNTRY})
+                                  {candidate.station.OBSOLETE === '1' ? ' - obsolete' : ''}
+                                  {' · '}{Math.round(candidate.confidence * 100)}%
+                                </MenuItem>
+                              ))}
+                            </Select>
+                            {selected && (
+                              <Link
+                                component={RouterLink}
+                                to={`/duty-stations/${selected.CITY_CODE}/${selected.COUNTRY_CODE}`}
+                                variant="body2"
+                                sx={{ whiteSpace: 'nowrap' }}
+                              >
+                                View
+                              </Link>
+                            )}
+                          </Stack>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <TablePagination
+            component="div"
+            count={visibleRows.length}
+            page={page}
+            onPageChange={(_, newPage) => setPage(newPage)}
+            rowsPerPage={rowsPerPage}
+            onRowsPerPageChange={(e) => {
+              setRowsPerPage(parseInt(e.target.value, 10));
+              setPage(0);
+            }}
+            rowsPerPageOptions={[25, 50, 100]}
+          />
+        </Paper>
+      )}
+    </Container>
+  );
+}
+
+export default BulkLookupPage;
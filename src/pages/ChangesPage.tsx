@@ -0,0 +1,420 @@
+// Changes page - what changed in the duty station list between two dataset versions
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Container,
+  Typography,
+  Box,
+  Paper,
+  Card,
+  CardContent,
+  Grid,
+  Button,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Alert,
+  AlertTitle,
+  CircularProgress,
+  Tabs,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Link,
+} from '@mui/material';
+import {
+  CompareArrows as CompareIcon,
+  GetApp as ExportIcon,
+} from '@mui/icons-material';
+import { useData } from '../context/DataContext';
+import type { DutyStation } from '../types';
+import { loadDatasetInWorker } from '../services/dataWorkerClient';
+import { getDataSourceId, isValidDataSource } from '../services/dataSourceService';
+import { getPreviousSnapshotKey, loadSnapshot } from '../services/snapshotService';
+import { countDiffChanges, diffDutyStations, getStationKey } from '../utils/datasetDiff';
+import type { DatasetDiff } from '../utils/datasetDiff';
+import { exportDatasetDiffToCSV } from '../utils/exportUtils';
+
+type CompareMode = 'snapshot' | 'commits';
+type ChangeCategory = 'added' | 'removed' | 'obsoleted' | 'reactivated' | 'renamed' | 'moved';
+
+const CATEGORY_LABELS: Record<ChangeCategory, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  obsoleted: 'Marked Obsolete',
+  reactivated: 'Reactivated',
+  renamed: 'Renamed',
+  moved: 'Moved',
+};
+
+const CATEGORY_COLORS: Record<ChangeCategory, string> = {
+  added: 'success.main',
+  removed: 'error.main',
+  obsoleted: 'warning.main',
+  reactivated: 'info.main',
+  renamed: 'primary.main',
+  moved: 'secondary.main',
+};
+
+const formatCoordinates = (station: DutyStation): string => {
+  return `${station.LATITUDE.toFixed(4)}, ${station.LONGITUDE.toFixed(4)}`;
+};
+
+function ChangesPage() {
+  const navigate = useNavigate();
+  const { dutyStations, dataSource, isDataLoaded } = useData();
+
+  const [mode, setMode] = useState<CompareMode>('snapshot');
+  const [fromSha, setFromSha] = useState('');
+  const [toSha, setToSha] = useState('');
+  const [comparing, setComparing] = useState(false);
+  const [compareError, setCompareError] = useState<string | null>(null);
+  const [diff, setDiff] = useState<DatasetDiff | null>(null);
+  const [comparisonLabel, setComparisonLabel] = useState('');
+  const [category, setCategory] = useState<ChangeCategory>('added');
+
+  const isFromShaValid = isValidDataSource({ kind: 'commit', sha: fromSha });
+  const isToShaValid = toSha.trim() === '' || isValidDataSource({ kind: 'commit', sha: toSha });
+
+  // Previous snapshot (kept when a refresh brought in a changed dataset) versus the loaded data
+  const compareWithSnapshot = useCallback(async () => {
+    setComparing(true);
+    setCompareError(null);
+    try {
+      const previous = await loadSnapshot(getPreviousSnapshotKey(getDataSourceId(dataSource)));
+      if (!previous) {
+        setDiff(null);
+        setCompareError(
+          'No previous version has been recorded on this device yet. A previous version is kept automatically ' +
+          'whenever a refresh brings in changes; alternatively compare two commits.'
+        );
+        return;
+      }
+
+      setDiff(diffDutyStations(previous.dutyStations, dutyStations));
+      setComparisonLabel(`Version seen ${previous.savedAt.toLocaleString()} → current data`);
+    } catch (error) {
+      setCompareError(error instanceof Error ? error.message : 'Failed to load the previous version');
+    } finally {
+      setComparing(false);
+    }
+  }, [dataSource, dutyStations]);
+
+  const compareCommits = async () => {
+    setComparing(true);
+    setCompareError(null);
+    try {
+      const from = fromSha.trim();
+      const to = toSha.trim();
+      // Load the versions without replacing the dataset used for searching
+      const loadCommit = async (sha: string) => {
+        const { dutyStations: stations } = await loadDatasetInWorker({ kind: 'commit', sha }, { retain: false });
+        return stations;
+      };
+      const [before, after] = await Promise.all([
+        loadCommit(from),
+        to ? loadCommit(to) : Promise.resolve(dutyStations),
+      ]);
+
+      setDiff(diffDutyStations(before, after));
+      setComparisonLabel(`Commit ${from.slice(0, 7)} → ${to ? `commit ${to.slice(0, 7)}` : 'current data'}`);
+    } catch (error) {
+      setDiff(null);
+      setCompareError(error instanceof Error ? error.message : 'Failed to load the requested versions');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  // Compare against the previous snapshot as soon as the current data is available
+  useEffect(() => {
+    if (mode === 'snapshot' && isDataLoaded) {
+      compareWithSnapshot();
+    }
+  }, [mode, isDataLoaded, compareWithSnapshot]);
+
+  const counts = useMemo(() => {
+    if (!diff) return null;
+    return {
+      added: diff.added.length,
+      removed: diff.removed.length,
+      obsoleted: diff.obsoleted.length,
+      reactivated: diff.reactivated.length,
+      renamed: diff.renamed.length,
+      moved: diff.moved.length,
+    } as Record<ChangeCategory, number>;
+  }, [diff]);
+
+  const openStation = (station: DutyStation) => {
+    navigate(`/duty-stations/${station.CITY_CODE}/${station.COUNTRY_CODE}`);
+  };
+
+  const renderStationLink = (station: DutyStation) => (
+    <Link component="button" variant="body2" onClick={() => openStation(station)}>
+      {station.CITY_CODE}
+    </Link>
+  );
+
+  const renderTable = () => {
+    if (!diff) return null;
+
+    switch (category) {
+      case 'added':
+      case 'removed': {
+        const stations = diff[category];
+        return (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Code</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell>Common Name</TableCell>
+                <TableCell>Country</TableCell>
+                <TableCell align="right">Coordinates</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {stations.map(station => (
+                <TableRow key={getStationKey(station)} hover>
+                  <TableCell>{category === 'added' ? renderStationLink(station) : station.CITY_CODE}</TableCell>
+                  <TableCell>{station.CITY_NAME}</TableCell>
+                  <TableCell>{station.CITY_COMMON_NAME}</TableCell>
+                  <TableCell>{station.COUNTRY}</TableCell>
+                  <TableCell align="right">{formatCoordinates(station)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        );
+      }
+      case 'obsoleted':
+      case 'reactivated':
+        return (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Code</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell>Country</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {diff[category].map(change => (
+                <TableRow key={change.key} hover>
+                  <TableCell>{renderStationLink(change.after)}</TableCell>
+                  <TableCell>{change.after.CITY_NAME}</TableCell>
+                  <TableCell>{change.after.COUNTRY}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        );
+      case 'renamed':
+        return (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Code</TableCell>
+                <TableCell>Country</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell>Common Name</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {diff.renamed.map(rename => (
+                <TableRow key={rename.key} hover>
+                  <TableCell>{renderStationLink(rename.after)}</TableCell>
+                  <TableCell>{rename.after.COUNTRY}</TableCell>
+                  <TableCell>
+                    {rename.fields.includes('CITY_NAME')
+                      ? `${rename.before.CITY_NAME} → ${rename.after.CITY_NAME}`
+                      : rename.after.CITY_NAME}
+                  </TableCell>
+                  <TableCell>
+                    {rename.fields.includes('CITY_COMMON_NAME')
+                      ? `${rename.before.CITY_COMMON_NAME || '(none)'} → ${rename.after.CITY_COMMON_NAME || '(none)'}`
+                      : rename.after.CITY_COMMON_NAME}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        );
+      case 'moved':
+        return (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Code</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell>Country</TableCell>
+                <TableCell align="right">Old Coordinates</TableCell>
+                <TableCell align="right">New Coordinates</TableCell>
+                <TableCell align="right">Distance</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {diff.moved.map(move => (
+                <TableRow key={move.key} hover>
+                  <TableCell>{renderStationLink(move.after)}</TableCell>
+                  <TableCell>{move.after.CITY_NAME}</TableCell>
+                  <TableCell>{move.after.COUNTRY}</TableCell>
+                  <TableCell align="right">{formatCoordinates(move.before)}</TableCell>
+                  <TableCell align="right">{formatCoordinates(move.after)}</TableCell>
+                  <TableCell align="right">{move.distanceKm.toFixed(2)} km</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        );
+    }
+  };
+
+  return (
+    <Container maxWidth="xl" sx={{ mt: 4, mb: 4 }}>
+      {/* Header */}
+      <Box sx={{ mb: 4 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Dataset Changes
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          See what changed in the duty station list between two versions of DSCITYCD.csv
+        </Typography>
+      </Box>
+
+      {/* Version selection */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <ToggleButtonGroup
+          value={mode}
+          exclusive
+          onChange={(_, value: CompareMode | null) => {
+            if (!value) return;
+            setMode(value);
+            setDiff(null);
+            setCompareError(null);
+          }}
+          size="small"
+          sx={{ mb: 2 }}
+        >
+          <ToggleButton value="snapshot">Previous version vs current</ToggleButton>
+          <ToggleButton value="commits">Compare commits</ToggleButton>
+        </ToggleButtonGroup>
+
+        {mode === 'commits' && (
+          <Grid container spacing={2} alignItems="flex-start">
+            <Grid size={{ xs: 12, md: 4 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="From commit SHA"
+                value={fromSha}
+                onChange={(e) => setFromSha(e.target.value)}
+                error={fromSha.length > 0 && !isFromShaValid}
+                helperText="Older version"
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 4 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="To commit SHA"
+                value={toSha}
+                onChange={(e) => setToSha(e.target.value)}
+                error={!isToShaValid}
+                helperText="Leave empty to compare with the current data"
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 4 }}>
+              <Button
+                variant="contained"
+                startIcon={<CompareIcon />}
+                onClick={compareCommits}
+                disabled={comparing || !isFromShaValid || !isToShaValid}
+              >
+                Compare
+              </Button>
+            </Grid>
+          </Grid>
+        )}
+      </Paper>
+
+      {comparing && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      )}
+
+      {compareError && !comparing && (
+        <Alert severity={mode === 'snapshot' ? 'info' : 'error'} sx={{ mb: 3 }}>
+          <AlertTitle>{mode === 'snapshot' ? 'Nothing to compare yet' : 'Comparison failed'}</AlertTitle>
+          {compareError}
+        </Alert>
+      )}
+
+      {diff && counts && !comparing && (
+        <>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 2 }}>
+            <Typography variant="subtitle1" color="text.secondary">
+              {comparisonLabel} · {countDiffChanges(diff).toLocaleString()} change(s), {diff.unchangedCount.toLocaleString()} unchanged
+            </Typography>
+            <Button
+              variant="outlined"
+              startIcon={<ExportIcon />}
+              onClick={() => exportDatasetDiffToCSV(diff)}
+              disabled={countDiffChanges(diff) === 0}
+            >
+              Export CSV
+            </Button>
+          </Box>
+
+          {/* Summary cards */}
+          <Grid container spacing={2} sx={{ mb: 3 }}>
+            {(Object.keys(CATEGORY_LABELS) as ChangeCategory[]).map(key => (
+              <Grid key={key} size={{ xs: 6, sm: 4, md: 2 }}>
+                <Card>
+                  <CardContent>
+                    <Typography variant="h4" sx={{ color: CATEGORY_COLORS[key] }}>
+                      {counts[key].toLocaleString()}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {CATEGORY_LABELS[key]}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+            ))}
+          </Grid>
+
+          {/* Change details */}
+          <Paper>
+            <Tabs
+              value={category}
+              onChange={(_, value: ChangeCategory) => setCategory(value)}
+              variant="scrollable"
+              scrollButtons="auto"
+            >
+              {(Object.keys(CATEGORY_LABELS) as ChangeCategory[]).map(key => (
+                <Tab key={key} value={key} label={`${CATEGORY_LABELS[key]} (${counts[key]})`} />
+              ))}
+            </Tabs>
+            <TableContainer sx={{ maxHeight: 600 }}>
+              {counts[category] === 0 ? (
+                <Typography variant="body1" color="text.secondary" sx={{ p: 4, textAlign: 'center' }}>
+                  No stations in this category
+                </Typography>
+              ) : (
+                renderTable()
+              )}
+            </TableContainer>
+          </Paper>
+        </>
+      )}
+    </Container>
+  );
+}
+
+export default ChangesPage;
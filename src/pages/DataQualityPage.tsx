@@ -0,0 +1,334 @@
+// Data quality page - validation findings for the loaded dataset, grouped by severity and rule
+import { useState, useMemo } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  Container,
+  Typography,
+  Box,
+  Paper,
+  Button,
+  Chip,
+  Alert,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Link,
+  Snackbar,
+  Stack,
+  Dialog,
+  DialogContent,
+} from '@mui/material';
+import {
+  ExpandMore as ExpandMoreIcon,
+  GetApp as ExportIcon,
+  AddShoppingCart as AddToBasketIcon,
+  CheckCircle as CheckIcon,
+} from '@mui/icons-material';
+import { useData } from '../context/DataContext';
+import { useBasket } from '../hooks/useBasket';
+import {
+  runDataQualityChecks,
+  createCorrectionRequest,
+  VALIDATION_RULE_LABELS,
+} from '../services/dataQualityService';
+import type { DataQualityFinding } from '../services/dataQualityService';
+import { getSavedContact } from '../services/userPreferencesService';
+import type { SubmitterContact } from '../services/userPreferencesService';
+import { ContactDetailsDialog } from '../components/common/ContactDetailsDialog';
+import { DutyStationForm } from '../components/form/DutyStationForm';
+import type { DutyStationRequest } from '../schemas/dutyStationSchema';
+import type { ValidationRule, ValidationSeverity } from '../utils/dataValidation';
+import { downloadCSV } from '../utils/exportUtils';
+
+const SEVERITIES: ValidationSeverity[] = ['error', 'warning'];
+
+const SEVERITY_LABELS: Record<ValidationSeverity, string> = {
+  error: 'Errors',
+  warning: 'Warnings',
+};
+
+// Rows rendered per rule before "Show more" is needed
+const PAGE_SIZE = 25;
+
+function DataQualityPage() {
+  const { dutyStations, countries, csvValidation, isDataLoaded, isHistorical } = useData();
+  const { basket, addToBasket } = useBasket();
+
+  const [visibleRows, setVisibleRows] = useState<Partial<Record<ValidationRule, number>>>({});
+  const [requestedFindings, setRequestedFindings] = useState<Set<string>>(new Set());
+  const [pendingFinding, setPendingFinding] = useState<DataQualityFinding | null>(null);
+  const [correction, setCorrection] = useState<{ finding: DataQualityFinding; request: DutyStationRequest } | null>(null);
+  const [message, setMessage] = useState<{ text: string; severity: 'success' | 'error' } | null>(null);
+
+  const findings = useMemo(
+    () => runDataQualityChecks(dutyStations, countries, csvValidation),
+    [dutyStations, countries, csvValidation]
+  );
+
+  // severity -> rule -> findings
+  const groupedFindings = useMemo(() => {
+    const groups: Record<ValidationSeverity, Map<ValidationRule, DataQualityFinding[]>> = {
+      error: new Map(),
+      warning: new Map(),
+    };
+    findings.forEach(finding => {
+      const byRule = groups[finding.severity];
+      byRule.set(finding.rule, [...(byRule.get(finding.rule) ?? []), finding]);
+    });
+    return groups;
+  }, [findings]);
+
+  const affectedStationCount = useMemo(() => {
+    const keys = new Set<string>();
+    findings.forEach(f => {
+      if (f.station) keys.add(`${f.station.CITY_CODE}|${f.station.COUNTRY_CODE}`);
+    });
+    return keys.size;
+  }, [findings]);
+
+  // The pre-filled request opens in the request form, where the submitter enters the corrected values
+  const openCorrectionForm = (finding: DataQualityFinding, contact: SubmitterContact) => {
+    const request = createCorrectionRequest(finding, contact);
+    if (request) {
+      setCorrection({ finding, request });
+    }
+  };
+
+  const addCorrectionRequest = async (finding: DataQualityFinding, request: DutyStationRequest) => {
+    setCorrection(null);
+    try {
+      await addToBasket(request);
+      setRequestedFindings(prev => new Set(prev).add(finding.id));
+      setMessage({ text: `Correction request for ${finding.station?.CITY_NAME} added to the basket`, severity: 'success' });
+    } catch (error) {
+      console.error('Error adding correction request:', error);
+      setMessage({
+        text: error instanceof Error ? error.message : 'Failed to add the correction request',
+        severity: 'error',
+      });
+    }
+  };
+
+  // Ask for the submitter details once when they are not known yet
+  const handleRequestCorrection = (finding: DataQualityFinding) => {
+    const contact = getSavedContact();
+    if (contact) {
+      openCorrectionForm(finding, contact);
+    } else {
+      setPendingFinding(finding);
+    }
+  };
+
+  const handleContactConfirm = (contact: SubmitterContact) => {
+    if (pendingFinding) {
+      openCorrectionForm(pendingFinding, contact);
+    }
+    setPendingFinding(null);
+  };
+
+  const handleExport = () => {
+    downloadCSV(
+      findings.map(f => ({
+        SEVERITY: f.severity,
+        RULE: VALIDATION_RULE_LABELS[f.rule],
+        CITY_CODE: f.station?.CITY_CODE ?? '',
+        COUNTRY_CODE: f.station?.COUNTRY_CODE ?? '',
+        CITY_NAME: f.station?.CITY_NAME ?? '',
+        MESSAGE: f.message,
+      })),
+      'data-quality-report'
+    );
+  };
+
+  const renderRuleFindings = (rule: ValidationRule, ruleFindings: DataQualityFinding[]) => {
+    const visible = visibleRows[rule] ?? PAGE_SIZE;
+    const hasStations = ruleFindings.some(f => f.station);
+
+    if (!hasStations) {
+      return (
+        <Stack spacing={1}>
+          {ruleFindings.map(finding => (
+            <Typography key={finding.id} variant="body2" sx={{ wordBreak: 'break-word' }}>
+              {finding.message}
+            </Typography>
+          ))}
+        </Stack>
+      );
+    }
+
+    return (
+      <>
+        <TableContainer>
+          <Table size="small" aria-label={`${VALIDATION_RULE_LABELS[rule]} findings`}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Duty Station</TableCell>
+                <TableCell>Country</TableCell>
+                <TableCell>Finding</TableCell>
+                <TableCell align="right">Action</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {ruleFindings.slice(0, visible).map(finding => {
+                const station = finding.station;
+                const isRequested = requestedFindings.has(finding.id);
+                return (
+                  <TableRow key={finding.id}>
+                    <TableCell>
+                      {station ? (
+                        <Link
+                          component={RouterLink}
+                          to={`/duty-stations/${station.CITY_CODE}/${station.COUNTRY_CODE}`}
+                        >
+                          {station.CITY_NAME || '(no name)'} ({station.CITY_CODE || '—'})
+                        </Link>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell>{station ? station.COUNTRY || station.COUNTRY_CODE : '—'}</TableCell>
+                    <TableCell>{finding.message}</TableCell>
+                    <TableCell align="right">
+                      {station && (
+                        isRequested ? (
+                          <Chip icon={<CheckIcon />} label="In basket" color="success" size="small" variant="outlined" />
+                        ) : (
+                          <Button
+                            size="small"
+                            startIcon={<AddToBasketIcon />}
+                            onClick={() => handleRequestCorrection(finding)}
+                            disabled={isHistorical}
+                          >
+                            Request correction
+                          </Button>
+                        )
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        {ruleFindings.length > visible && (
+          <Box sx={{ textAlign: 'center', mt: 1 }}>
+            <Button size="small" onClick={() => setVisibleRows(prev => ({ ...prev, [rule]: visible + PAGE_SIZE }))}>
+              Show more ({ruleFindings.length - visible} remaining)
+            </Button>
+          </Box>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+        <Box>
+          <Typography variant="h4" component="h1" gutterBottom>
+            Data Quality
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Validation checks run against the loaded duty station list. Any finding on a duty station can be
+            turned into a correction request.
+          </Typography>
+        </Box>
+        <Button variant="outlined" startIcon={<ExportIcon />} onClick={handleExport} disabled={findings.length === 0}>
+          Download Report
+        </Button>
+      </Box>
+
+      {isHistorical && (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          You are viewing a historical version of the duty station list. Correction requests can only be created
+          against the current data.
+        </Alert>
+      )}
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Stack direction="row" spacing={1} sx={{ flexWrap: 'wrap', rowGap: 1 }}>
+          <Chip label={`${dutyStations.length} duty stations checked`} />
+          <Chip label={`${findings.filter(f => f.severity === 'error').length} errors`} color="error" variant="outlined" />
+          <Chip label={`${findings.filter(f => f.severity === 'warning').length} warnings`} color="warning" variant="outlined" />
+          <Chip label={`${affectedStationCount} duty stations affected`} variant="outlined" />
+        </Stack>
+      </Paper>
+
+      {isDataLoaded && findings.length === 0 && (
+        <Alert severity="success">No data quality issues found.</Alert>
+      )}
+
+      {SEVERITIES.map(severity => {
+        const byRule = groupedFindings[severity];
+        if (byRule.size === 0) return null;
+
+        return (
+          <Box key={severity} sx={{ mb: 4 }}>
+            <Typography variant="h5" component="h2" gutterBottom>
+              {SEVERITY_LABELS[severity]}
+            </Typography>
+            {Array.from(byRule.entries()).map(([rule, ruleFindings]) => (
+              <Accordion key={rule} disableGutters>
+                <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Chip
+                      label={ruleFindings.length}
+                      size="small"
+                      color={severity === 'error' ? 'error' : 'warning'}
+                    />
+                    <Typography>{VALIDATION_RULE_LABELS[rule]}</Typography>
+                  </Box>
+                </AccordionSummary>
+                <AccordionDetails>
+                  {renderRuleFindings(rule, ruleFindings)}
+                </AccordionDetails>
+              </Accordion>
+            ))}
+          </Box>
+        );
+      })}
+
+      {/* Submitter details, asked once and remembered for later requests */}
+      {pendingFinding && (
+        <ContactDetailsDialog
+          open
+          onCancel={() => setPendingFinding(null)}
+          onConfirm={handleContactConfirm}
+          confirmLabel="Continue"
+        />
+      )}
+
+      {/* Correction request, pre-filled with the station's current data */}
+      <Dialog open={correction !== null} onClose={() => setCorrection(null)} maxWidth="md" fullWidth>
+        <DialogContent>
+          {correction && (
+            <DutyStationForm
+              initialData={correction.request}
+              existingStation={correction.finding.station}
+              basketItems={basket}
+              onSubmit={(request) => addCorrectionRequest(correction.finding, request)}
+              onCancel={() => setCorrection(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Snackbar
+        open={message !== null}
+        autoHideDuration={4000}
+        onClose={() => setMessage(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity={message?.severity ?? 'success'} onClose={() => setMessage(null)} sx={{ width: '100%' }}>
+          {message?.text}
+        </Alert>
+      </Snackbar>
+    </Container>
+  );
+}
+
+export default DataQualityPage;
@@ -0,0 +1,340 @@
+// Duplicates page - review clusters of likely duplicate duty stations and propose merges or obsoletion
+import { useState, useMemo } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  Container,
+  Typography,
+  Box,
+  Paper,
+  Card,
+  CardContent,
+  CardActions,
+  Button,
+  Chip,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Link,
+  Radio,
+  Slider,
+  FormControlLabel,
+  Switch,
+  Snackbar,
+  Stack,
+} from '@mui/material';
+import {
+  MergeType as MergeIcon,
+  Block as ObsoleteIcon,
+  DoNotDisturb as DismissIcon,
+  CheckCircle as CheckIcon,
+} from '@mui/icons-material';
+import { useData } from '../context/DataContext';
+import { useBasket } from '../hooks/useBasket';
+import type { DutyStation } from '../types';
+import { findDuplicateClusters, DUPLICATE_REASON_LABELS } from '../utils/duplicateDetection';
+import type { DuplicateCluster } from '../utils/duplicateDetection';
+import { getStationKey } from '../utils/datasetDiff';
+import {
+  createMergeRequest,
+  createObsoletionRequest,
+  dismissDuplicateCluster,
+  loadDismissedDuplicates,
+} from '../services/duplicateService';
+import { getSavedContact } from '../services/userPreferencesService';
+import type { SubmitterContact } from '../services/userPreferencesService';
+import { ContactDetailsDialog } from '../components/common/ContactDetailsDialog';
+import type { DutyStationRequest } from '../schemas/dutyStationSchema';
+
+// Clusters rendered before "Show more" is needed
+const PAGE_SIZE = 20;
+
+type PendingAction =
+  | { type: 'merge'; cluster: DuplicateCluster; keep: DutyStation; stations: DutyStation[] }
+  | { type: 'obsolete'; cluster: DuplicateCluster; station: DutyStation; duplicateOf: DutyStation };
+
+function DuplicatesPage() {
+  const { dutyStations, isDataLoaded, isHistorical } = useData();
+  const { addToBasket } = useBasket();
+
+  const [minScore, setMinScore] = useState(0.75);
+  const [includeObsolete, setIncludeObsolete] = useState(false);
+  const [dismissed, setDismissed] = useState<Set<string>>(() => loadDismissedDuplicates());
+  const [keepSelection, setKeepSelection] = useState<Record<string, string>>({});
+  const [requestedKeys, setRequestedKeys] = useState<Set<string>>(new Set());
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [message, setMessage] = useState<{ text: string; severity: 'success' | 'error' } | null>(null);
+
+  const allClusters = useMemo(
+    () => findDuplicateClusters(dutyStations, { minScore, includeObsolete }),
+    [dutyStations, minScore, includeObsolete]
+  );
+
+  const clusters = useMemo(
+    () => allClusters.filter(cluster => !dismissed.has(cluster.id)),
+    [allClusters, dismissed]
+  );
+
+  // Station kept when merging - defaults to the first active station of the cluster
+  const getKeptStation = (cluster: DuplicateCluster): DutyStation => {
+    const selectedKey = keepSelection[cluster.id];
+    return cluster.stations.find(s => getStationKey(s) === selectedKey)
+      ?? cluster.stations.find(s => s.OBSOLETE !== '1')
+      ?? cluster.stations[0];
+  };
+
+  const runAction = async (action: PendingAction, contact: SubmitterContact) => {
+    const requests: Array<{ station: DutyStation; request: DutyStationRequest }> = action.type === 'merge'
+      ? action.stations.map(station => ({
+          station,
+          request: createMergeRequest(station, action.keep, action.cluster, contact),
+        }))
+      : [{ station: action.station, request: createObsoletionRequest(action.station, action.duplicateOf, action.cluster, contact) }];
+
+    try {
+      for (const { station, request } of requests) {
+        await addToBasket(request);
+        setRequestedKeys(prev => new Set(prev).add(getStationKey(station)));
+      }
+      setMessage({
+        text: requests.length === 1
+          ? 'Obsoletion request added to the basket'
+          : `${requests.length} obsoletion requests added to the basket`,
+        severity: 'success',
+      });
+    } catch (error) {
+      console.error('Error adding duplicate requests:', error);
+      setMessage({
+        text: error instanceof Error ? error.message : 'Failed to add the requests',
+        severity: 'error',
+      });
+    }
+  };
+
+  const requestAction = (action: PendingAction) => {
+    const contact = getSavedContact();
+    if (contact) {
+      runAction(action, contact);
+    } else {
+      setPendingAction(action);
+    }
+  };
+
+  const handleContactConfirm = (contact: SubmitterContact) => {
+    if (pendingAction) {
+      runAction(pendingAction, contact);
+    }
+    setPendingAction(null);
+  };
+
+  const handleDismiss = (cluster: DuplicateCluster) => {
+    setDismissed(dismissDuplicateCluster(cluster.id));
+  };
+
+  const renderCluster = (cluster: DuplicateCluster) => {
+    const kept = getKeptStation(cluster);
+    const keptKey = getStationKey(kept);
+    // Active stations still to be merged into the kept one
+    const mergeCandidates = cluster.stations.filter(s =>
+      getStationKey(s) !== keptKey && s.OBSOLETE !== '1' && !requestedKeys.has(getStationKey(s))
+    );
+
+    return (
+      <Card key={cluster.id} sx={{ mb: 2 }}>
+        <CardContent>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1, flexWrap: 'wrap' }}>
+            <Typography variant="h6" component="h2">
+              {cluster.stations.map(s => s.CITY_NAME).join(' / ')}
+            </Typography>
+            <Chip label={`${Math.round(cluster.score * 100)}% similar`} color={cluster.score >= 0.9 ? 'error' : 'warning'} size="small" />
+            <Typography variant="body2" color="text.secondary">
+              {cluster.country}
+            </Typography>
+          </Box>
+
+          <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap', rowGap: 1 }}>
+            {cluster.pairs.map(pair => (
+              <Chip
+                key={`${getStationKey(pair.a)}+${getStationKey(pair.b)}`}
+                size="small"
+                variant="outlined"
+                label={
+                  `${pair.a.CITY_CODE} ↔ ${pair.b.CITY_CODE}: ` +
+                  pair.reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join(', ') +
+                  (pair.distanceKm !== null ? ` · ${pair.distanceKm.toFixed(1)} km` : '')
+                }
+              />
+            ))}
+          </Stack>
+
+          <TableContainer>
+            <Table size="small" aria-label={`Duplicate group ${cluster.stations.map(s => s.CITY_CODE).join(', ')}`}>
+              <TableHead>
+                <TableRow>
+                  <TableCell padding="checkbox">Keep</TableCell>
+                  <TableCell>Code</TableCell>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Common Name</TableCell>
+                  <TableCell align="right">Coordinates</TableCell>
+                  <TableCell align="center">Status</TableCell>
+                  <TableCell align="right">Action</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {cluster.stations.map(station => {
+                  const key = getStationKey(station);
+                  const isKept = key === keptKey;
+                  return (
+                    <TableRow key={key} selected={isKept}>
+                      <TableCell padding="checkbox">
+                        <Radio
+                          checked={isKept}
+                          onChange={() => setKeepSelection(prev => ({ ...prev, [cluster.id]: key }))}
+                          inputProps={{ 'aria-label': `Keep ${station.CITY_NAME} (${station.CITY_CODE})` }}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Link component={RouterLink} to={`/duty-stations/${station.CITY_CODE}/${station.COUNTRY_CODE}`}>
+                          {station.CITY_CODE}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{station.CITY_NAME}</TableCell>
+                      <TableCell>{station.CITY_COMMON_NAME || '-'}</TableCell>
+                      <TableCell align="right" sx={{ fontFamily: 'monospace' }}>
+                        {station.LATITUDE.toFixed(4)}, {station.LONGITUDE.toFixed(4)}
+                      </TableCell>
+                      <TableCell align="center">
+                        <Chip
+                          label={station.OBSOLETE === '1' ? 'Obsolete' : 'Active'}
+                          color={station.OBSOLETE === '1' ? 'default' : 'success'}
+                          size="small"
+                          variant={station.OBSOLETE === '1' ? 'outlined' : 'filled'}
+                        />
+                      </TableCell>
+                      <TableCell align="right">
+                        {requestedKeys.has(key) ? (
+                          <Chip icon={<CheckIcon />} label="In basket" color="success" size="small" variant="outlined" />
+                        ) : !isKept && station.OBSOLETE !== '1' && (
+                          <Button
+                            size="small"
+                            startIcon={<ObsoleteIcon />}
+                            onClick={() => requestAction({ type: 'obsolete', cluster, station, duplicateOf: kept })}
+                            disabled={isHistorical}
+                          >
+                            Mark Obsolete
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </CardContent>
+        <CardActions sx={{ justifyContent: 'flex-end' }}>
+          <Button startIcon={<DismissIcon />} onClick={() => handleDismiss(cluster)}>
+            Not Duplicates
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<MergeIcon />}
+            onClick={() => requestAction({ type: 'merge', cluster, keep: kept, stations: mergeCandidates })}
+            disabled={isHistorical || mergeCandidates.length === 0}
+          >
+            Merge into {kept.CITY_CODE}
+          </Button>
+        </CardActions>
+      </Card>
+    );
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Box sx={{ mb: 3 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Duplicate Review
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Groups of duty stations in the same country with matching or similar names that sit close together.
+          Merging keeps the selected station and requests that the others are marked obsolete.
+        </Typography>
+      </Box>
+
+      {isHistorical && (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          You are viewing a historical version of the duty station list. Requests can only be created against the
+          current data.
+        </Alert>
+      )}
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 3, flexWrap: 'wrap' }}>
+          <Box sx={{ minWidth: 240, flex: 1 }}>
+            <Typography variant="body2" id="duplicate-min-score" gutterBottom>
+              Minimum similarity: {Math.round(minScore * 100)}%
+            </Typography>
+            <Slider
+              value={minScore}
+              min={0.6}
+              max={1}
+              step={0.05}
+              onChange={(_, value) => {
+                setMinScore(value as number);
+                setVisibleCount(PAGE_SIZE);
+              }}
+              aria-labelledby="duplicate-min-score"
+            />
+          </Box>
+          <FormControlLabel
+            control={<Switch checked={includeObsolete} onChange={(e) => setIncludeObsolete(e.target.checked)} />}
+            label="Include obsolete stations"
+          />
+          <Chip label={`${clusters.length} groups found`} />
+          {dismissed.size > 0 && (
+            <Chip label={`${allClusters.length - clusters.length} dismissed`} variant="outlined" />
+          )}
+        </Box>
+      </Paper>
+
+      {isDataLoaded && clusters.length === 0 && (
+        <Alert severity="success">No likely duplicates found at this similarity level.</Alert>
+      )}
+
+      {clusters.slice(0, visibleCount).map(renderCluster)}
+
+      {clusters.length > visibleCount && (
+        <Box sx={{ textAlign: 'center' }}>
+          <Button onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}>
+            Show more ({clusters.length - visibleCount} remaining)
+          </Button>
+        </Box>
+      )}
+
+      {pendingAction && (
+        <ContactDetailsDialog
+          open
+          onCancel={() => setPendingAction(null)}
+          onConfirm={handleContactConfirm}
+        />
+      )}
+
+      <Snackbar
+        open={message !== null}
+        autoHideDuration={4000}
+        onClose={() => setMessage(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity={message?.severity ?? 'success'} onClose={() => setMessage(null)} sx={{ width: '100%' }}>
+          {message?.text}
+        </Alert>
+      </Snackbar>
+    </Container>
+  );
+}
+
+export default DuplicatesPage;
@@ -21,6 +21,7 @@ import { DutyStationForm } from '../components/form/DutyStationForm';
 import { RequestBasket } from '../components/basket/RequestBasket';
 import { SubmissionConfirmation } from '../components/email/SubmissionConfirmation';
 import { useBasket } from '../hooks/useBasket';
+import { useData } from '../context/DataContext';
 import type { DutyStationRequest, SubmissionResult } from '../schemas/dutyStationSchema';
 
 interface TabPanelProps {
@@ -70,6 +71,7 @@ export const DutyStationRequestPage: React.FC = () => {
     isSubmitting,
     isEmailConfigured,
   } = useBasket();
+  const { isHistorical } = useData();
 
   const handleFormSubmit = async (request: DutyStationRequest) => {
     try {
@@ -171,6 +173,11 @@ export const DutyStationRequestPage: React.FC = () => {
               color="warning"
               size="small"
             />
+            <Chip
+              label={`${stats.aliasRequests} Alternate Names`}
+              color="secondary"
+              size="small"
+            />
           </Box>
         </Box>
 
@@ -215,9 +222,17 @@ export const DutyStationRequestPage: React.FC = () => {
         <TabPanel value={currentTab} index={0}>
           <Grid container spacing={3}>
             <Grid size={{ xs: 12 }}>
-              <DutyStationForm
-                onSubmit={handleFormSubmit}
-              />
+              {isHistorical ? (
+                <Alert severity="warning">
+                  New requests cannot be created while viewing a historical version of the duty station list.
+                  Return to the current data to create a request.
+                </Alert>
+              ) : (
+                <DutyStationForm
+                  onSubmit={handleFormSubmit}
+                  basketItems={basket}
+                />
+              )}
             </Grid>
           </Grid>
         </TabPanel>
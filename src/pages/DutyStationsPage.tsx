@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Container,
@@ -30,12 +30,39 @@ import {
   Checkbox,
   Button,
 } from '@mui/material';
-import { Search as SearchIcon, Refresh as RefreshIcon, GetApp as ExportIcon, Visibility as ViewIcon } from '@mui/icons-material';
+import {
+  Search as SearchIcon,
+  Refresh as RefreshIcon,
+  GetApp as ExportIcon,
+  Visibility as ViewIcon,
+  WrongLocation as SuspectLocationIcon,
+} from '@mui/icons-material';
 import { useAppData } from '../hooks/useAppData';
 import type { DutyStation } from '../types';
 import SelectionToolbar from '../components/table/SelectionToolbar';
 import { exportDutyStationsToCSV, exportDutyStationsToExcel } from '../utils/exportUtils';
 import { TableSkeleton, StatsCardSkeleton } from '../components/common/LoadingSkeleton';
+import { findCoordinateAnomalies, COORDINATE_ANOMALY_LABELS } from '../utils/coordinateAnomalies';
+import { getStationKey } from '../utils/datasetDiff';
+import { findTextHighlights } from '../utils/highlight';
+import HighlightedText from '../components/common/HighlightedText';
+import { booleanParam, enumParam, numberParam, stringParam, useUrlState } from '../hooks/useUrlState';
+
+// Filters, sort and page live in the URL, so a filtered list can be shared and revisited
+const LIST_URL_PARAMS = {
+  searchText: stringParam('q'),
+  searchField: enumParam('field', ['CITY_NAME', 'COUNTRY', 'CITY_COMMON_NAME'] as const, 'CITY_NAME'),
+  countryFilter: stringParam('country', 'all'),
+  showObsolete: booleanParam('obsolete'),
+  suspectOnly: booleanParam('suspect'),
+  sortBy: enumParam('sort', ['CITY_CODE', 'CITY_NAME', 'COUNTRY', 'CITY_COMMON_NAME'] as const, 'CITY_NAME'),
+  sortOrder: enumParam('order', ['asc', 'desc'] as const, 'asc'),
+  page: numberParam('page', 1, 1),            // 1-based in the URL
+  rowsPerPage: numberParam('size', 20, 1),
+};
+
+// Wait for typing to settle before writing the search text to the URL
+const URL_WRITE_DELAY_MS = 500;
 
 function DutyStationsPage() {
   const navigate = useNavigate();
@@ -53,25 +80,47 @@ function DutyStationsPage() {
   } = useAppData();
 
   // State for filters and pagination
-  const [searchText, setSearchText] = useState('');
-  const [searchField, setSearchField] = useState<'CITY_NAME' | 'COUNTRY' | 'CITY_COMMON_NAME'>('CITY_NAME');
-  const [countryFilter, setCountryFilter] = useState<string>('all');
-  const [showObsolete, setShowObsolete] = useState(false);
-  const [page, setPage] = useState(0);
-  const [rowsPerPage, setRowsPerPage] = useState(20);
-  const [sortBy, setSortBy] = useState<keyof DutyStation>('CITY_NAME');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [listState, setListState] = useUrlState(LIST_URL_PARAMS);
+  const { searchField, countryFilter, showObsolete, suspectOnly, rowsPerPage, sortBy, sortOrder } = listState;
   const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
 
+  // The table filters as you type; the URL follows once typing settles
+  const [searchText, setSearchText] = useState(listState.searchText);
+  useEffect(() => {
+    setSearchText(listState.searchText);
+  }, [listState.searchText]);
+  useEffect(() => {
+    if (searchText === listState.searchText) return;
+    const timer = window.setTimeout(() => setListState({ searchText, page: 1 }), URL_WRITE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchText]);
+
+  // Filter changes start again from the first page
+  const setFilters = (changes: Partial<typeof listState>) => setListState({ ...changes, page: 1 });
+
+  // Stations whose coordinates do not match their country
+  const coordinateAnomalies = useMemo(
+    () => findCoordinateAnomalies(dutyStations, countries),
+    [dutyStations, countries]
+  );
+
   // Get filtered and paginated data
   const filteredDutyStations = useMemo(() => {
-    return getFilteredDutyStations({
+    const filtered = getFilteredDutyStations({
       searchText,
       searchField,
       countryFilter: countryFilter === 'all' ? undefined : countryFilter,
       showObsolete
     });
-  }, [getFilteredDutyStations, searchText, searchField, countryFilter, showObsolete]);
+    return suspectOnly
+      ? filtered.filter(station => coordinateAnomalies.has(getStationKey(station)))
+      : filtered;
+  }, [getFilteredDutyStations, searchText, searchField, countryFilter, showObsolete, suspectOnly, coordinateAnomalies]);
+
+  // A page from the URL may be past the end of the list (or of one still loading)
+  const lastPage = Math.max(0, Math.ceil(filteredDutyStations.length / rowsPerPage) - 1);
+  const page = Math.min(listState.page - 1, lastPage);
 
   const paginatedResults = useMemo(() => {
     return getPaginatedDutyStations(filteredDutyStations, {
@@ -82,24 +131,28 @@ function DutyStationsPage() {
     });
   }, [getPaginatedDutyStations, filteredDutyStations, page, rowsPerPage, sortBy, sortOrder]);
 
+  // Highlight the search text in the column being searched
+  const renderHighlightedText = (text: string, field: typeof searchField) =>
+    field === searchField
+      ? <HighlightedText text={text} ranges={findTextHighlights(text, searchText)} />
+      : text;
+
   // Get statistics
   const stats = useMemo(() => getDataStatistics(), [getDataStatistics]);
 
   // Handle pagination
   const handleChangePage = (_event: unknown, newPage: number) => {
-    setPage(newPage);
+    setListState({ page: newPage + 1 });
   };
 
   const handleChangeRowsPerPage = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setRowsPerPage(parseInt(event.target.value, 10));
-    setPage(0);
+    setListState({ rowsPerPage: parseInt(event.target.value, 10), page: 1 });
   };
 
   // Handle sorting
-  const handleSort = (column: keyof DutyStation) => {
+  const handleSort = (column: typeof sortBy) => {
     const isAsc = sortBy === column && sortOrder === 'asc';
-    setSortBy(column);
-    setSortOrder(isAsc ? 'desc' : 'asc');
+    setListState({ sortBy: column, sortOrder: isAsc ? 'desc' : 'asc' });
   };
 
   // Handle refresh
@@ -270,7 +323,7 @@ function DutyStationsPage() {
               <InputLabel>Search Field</InputLabel>
               <Select
                 value={searchField}
-                onChange={(e) => setSearchField(e.target.value as typeof searchField)}
+                onChange={(e) => setFilters({ searchField: e.target.value as typeof searchField })}
                 label="Search Field"
               >
                 <MenuItem value="CITY_NAME">Name</MenuItem>
@@ -284,7 +337,7 @@ function DutyStationsPage() {
               <InputLabel>Country</InputLabel>
               <Select
                 value={countryFilter}
-                onChange={(e) => setCountryFilter(e.target.value)}
+                onChange={(e) => setFilters({ countryFilter: e.target.value })}
                 label="Country"
               >
                 <MenuItem value="all">All Countries</MenuItem>
@@ -302,10 +355,19 @@ function DutyStationsPage() {
             <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
               <Chip
                 label={showObsolete ? "Show All" : "Active Only"}
-                onClick={() => setShowObsolete(!showObsolete)}
+                onClick={() => setFilters({ showObsolete: !showObsolete })}
                 color={showObsolete ? "default" : "primary"}
                 variant={showObsolete ? "outlined" : "filled"}
               />
+              <Tooltip title="Only show stations whose coordinates look wrong for their country">
+                <Chip
+                  icon={<SuspectLocationIcon />}
+                  label={`Suspect (${coordinateAnomalies.size})`}
+                  onClick={() => setFilters({ suspectOnly: !suspectOnly })}
+                  color={suspectOnly ? 'warning' : 'default'}
+                  variant={suspectOnly ? 'filled' : 'outlined'}
+                />
+              </Tooltip>
               <Tooltip title="Refresh Data">
                 <IconButton onClick={handleRefresh} disabled={loading}>
                   <RefreshIcon />
@@ -413,6 +475,7 @@ function DutyStationsPage() {
               {!loading && paginatedResults.data.map((station, index) => {
                 const key = `${station.CITY_CODE}-${station.COUNTRY_CODE}-${index}`;
                 const selected = isSelected(key);
+                const anomaly = coordinateAnomalies.get(getStationKey(station));
                 return (
                 <TableRow key={key} hover selected={selected}>
                   <TableCell padding="checkbox">
@@ -429,17 +492,17 @@ function DutyStationsPage() {
                   </TableCell>
                   <TableCell>
                     <Typography variant="body2">
-                      {station.CITY_NAME}
+                      {renderHighlightedText(station.CITY_NAME, 'CITY_NAME')}
                     </Typography>
                   </TableCell>
                   <TableCell>
                     <Typography variant="body2">
-                      {station.COUNTRY || 'N/A'}
+                      {station.COUNTRY ? renderHighlightedText(station.COUNTRY, 'COUNTRY') : 'N/A'}
                     </Typography>
                   </TableCell>
                   <TableCell>
                     <Typography variant="body2" color="text.secondary">
-                      {station.CITY_COMMON_NAME || '-'}
+                      {station.CITY_COMMON_NAME ? renderHighlightedText(station.CITY_COMMON_NAME, 'CITY_COMMON_NAME') : '-'}
                     </Typography>
                   </TableCell>
                   <TableCell align="right">
@@ -459,6 +522,16 @@ function DutyStationsPage() {
                       size="small"
                       variant={station.OBSOLETE === '1' ? 'outlined' : 'filled'}
                     />
+                    {anomaly?.anomaly && (
+                      <Tooltip title={`${COORDINATE_ANOMALY_LABELS[anomaly.anomaly]}: ${anomaly.message}`}>
+                        <SuspectLocationIcon
+                          color="warning"
+                          fontSize="small"
+                          sx={{ ml: 0.5, verticalAlign: 'middle' }}
+                          titleAccess={COORDINATE_ANOMALY_LABELS[anomaly.anomaly]}
+                        />
+                      </Tooltip>
+                    )}
                   </TableCell>
                   <TableCell align="center">
                     <Tooltip title="View details">
@@ -2,6 +2,7 @@
 import { Container, Typography, Box, Grid, Alert, Chip, Snackbar } from '@mui/material';
 import { WarningAmber as WarningIcon } from '@mui/icons-material';
 import { RequestBasket } from '../components/basket/RequestBasket';
+import { RequestHistory } from '../components/basket/RequestHistory';
 import { SubmissionConfirmation } from '../components/email/SubmissionConfirmation';
 import { useBasket } from '../hooks/useBasket';
 import { useState } from 'react';
@@ -23,6 +24,7 @@ export const RequestsListPage: React.FC = () => {
   });
   const [submissionResult, setSubmissionResult] = useState<SubmissionResult | null>(null);
   const [showConfirmation, setShowConfirmation] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
 
   const {
     basket,
@@ -42,6 +44,7 @@ export const RequestsListPage: React.FC = () => {
       
       // Show submission confirmation dialog
       setSubmissionResult(result);
+      setHistoryVersion(version => version + 1);
       setShowConfirmation(true);
     } catch (error) {
       setSnackbar({
@@ -112,6 +115,11 @@ export const RequestsListPage: React.FC = () => {
                 color="warning"
                 size="small"
               />
+              <Chip
+                label={`${stats.aliasRequests} Alternate Names`}
+                color="secondary"
+                size="small"
+              />
             </Box>
           )}
         </Box>
@@ -145,6 +153,9 @@ export const RequestsListPage: React.FC = () => {
               emptyMessage="Your requests basket is empty. Go to the 'Add Duty Station' page to create new requests."
             />
           </Grid>
+          <Grid size={{ xs: 12 }}>
+            <RequestHistory refreshKey={historyVersion} />
+          </Grid>
         </Grid>
 
         {/* Snackbar for notifications */}
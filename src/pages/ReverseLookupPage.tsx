@@ -0,0 +1,372 @@
+// Reverse lookup page - find the nearest duty stations for a list of coordinates (pasted or from a CSV/XLSX file)
+import { useState, useMemo, useEffect } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  Container,
+  Typography,
+  Box,
+  Paper,
+  Button,
+  Chip,
+  Alert,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Link,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+} from '@mui/material';
+import {
+  UploadFile as UploadIcon,
+  PlayArrow as RunIcon,
+  Download as DownloadIcon,
+} from '@mui/icons-material';
+import { useData } from '../context/DataContext';
+import { parsePastedTable, readTableFile, toBulkLookupTable } from '../services/bulkLookupService';
+import type { BulkLookupTable } from '../services/bulkLookupService';
+import {
+  MAX_REVERSE_LOOKUP_COUNT,
+  buildReverseLookupExport,
+  guessCoordinateColumns,
+  parseCoordinateFields,
+  parseCoordinatePair,
+  resolveReverseLookup,
+} from '../services/reverseLookupService';
+import type { ReverseLookupQuery, ReverseLookupResult } from '../services/reverseLookupService';
+import { formatBearing, formatDistance } from '../services/geocodingService';
+import { downloadCSV } from '../utils/exportUtils';
+
+const emptyTable: BulkLookupTable = { headers: [], rows: [] };
+
+function ReverseLookupPage() {
+  const { dutyStations, isDataLoaded } = useData();
+
+  const [pastedText, setPastedText] = useState('');
+  const [fileRows, setFileRows] = useState<string[][] | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [hasHeader, setHasHeader] = useState(false);
+  const [latitudeColumn, setLatitudeColumn] = useState(0);
+  const [longitudeColumn, setLongitudeColumn] = useState(0);
+  const [countryColumn, setCountryColumn] = useState<number | null>(null);
+
+  const [count, setCount] = useState(1);
+  const [sameCountry, setSameCountry] = useState(false);
+  const [includeObsolete, setIncludeObsolete] = useState(false);
+
+  const [results, setResults] = useState<ReverseLookupResult[] | null>(null);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+
+  const table = useMemo(() => {
+    if (fileRows) return toBulkLookupTable(fileRows, hasHeader);
+    return pastedText.trim() ? parsePastedTable(pastedText, hasHeader) : emptyTable;
+  }, [fileRows, pastedText, hasHeader]);
+
+  // Pick likely columns whenever the input's headers change
+  const headerSignature = table.headers.join('\t');
+  useEffect(() => {
+    const guess = guessCoordinateColumns(table.headers);
+    setLatitudeColumn(guess.latitudeColumn);
+    setLongitudeColumn(guess.longitudeColumn);
+    setCountryColumn(guess.countryColumn);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [headerSignature]);
+
+  // Results belong to the input and options they were computed from
+  useEffect(() => {
+    setResults(null);
+    setPage(0);
+  }, [table, latitudeColumn, longitudeColumn, countryColumn, count, sameCountry, includeObsolete, dutyStations]);
+
+  const queries = useMemo((): ReverseLookupQuery[] => table.rows.map(row => {
+    const point = latitudeColumn === longitudeColumn
+      ? parseCoordinatePair(row[latitudeColumn] ?? '')
+      : parseCoordinateFields(row[latitudeColumn] ?? '', row[longitudeColumn] ?? '');
+    return { point, country: countryColumn !== null ? row[countryColumn] : undefined };
+  }), [table, latitudeColumn, longitudeColumn, countryColumn]);
+
+  const invalidCount = queries.filter(query => !query.point).length;
+
+  const handleFileUpload = async (file: File | undefined) => {
+    if (!file) return;
+    setFileError(null);
+
+    try {
+      setFileRows(await readTableFile(file));
+      setFileName(file.name);
+      setHasHeader(true);
+    } catch (error) {
+      console.error('Error reading reverse lookup file:', error);
+      setFileError(error instanceof Error ? error.message : 'The file could not be read');
+    }
+  };
+
+  const clearFile = () => {
+    setFileRows(null);
+    setFileName(null);
+    setFileError(null);
+  };
+
+  const runLookup = () => {
+    setResults(resolveReverseLookup(dutyStations, queries, { count, sameCountry, includeObsolete }));
+    setPage(0);
+  };
+
+  const handleExport = () => {
+    if (!results) return;
+    downloadCSV(buildReverseLookupExport(table, results), 'nearest-duty-stations');
+  };
+
+  const columnOptions = table.headers.map((header, index) => (
+    <MenuItem key={index} value={index}>{header}</MenuItem>
+  ));
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Box sx={{ mb: 3 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Nearest Duty Stations
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Find the nearest official duty stations for a list of coordinates, such as GPS points from field
+          missions. Each point gets the distance and compass bearing to its nearest stations.
+        </Typography>
+      </Box>
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        {fileRows ? (
+          <Alert
+            severity="info"
+            sx={{ mb: 2 }}
+            action={<Button color="inherit" size="small" onClick={clearFile}>Clear</Button>}
+          >
+            {fileName}: {table.rows.length} rows
+          </Alert>
+        ) : (
+          <TextField
+            label="Coordinates"
+            placeholder={'One point per line, e.g. "-1.2921, 36.8219" or "1°17\'32"S 36°49\'19"E".\nColumns copied from a spreadsheet are tab-separated.'}
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            multiline
+            minRows={6}
+            maxRows={16}
+            fullWidth
+            sx={{ mb: 2 }}
+          />
+        )}
+
+        {fileError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {fileError}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+          <Button component="label" variant="outlined" startIcon={<UploadIcon />}>
+            Upload CSV / XLSX
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              hidden
+              onChange={(e) => {
+                handleFileUpload(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </Button>
+          <FormControlLabel
+            control={<Switch checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />}
+            label="First row is a header"
+          />
+          {table.headers.length > 1 && (
+            <>
+              <FormControl size="small" sx={{ minWidth: 160 }}>
+                <InputLabel id="reverse-latitude-column">Latitude column</InputLabel>
+                <Select
+                  labelId="reverse-latitude-column"
+                  label="Latitude column"
+                  value={latitudeColumn}
+                  onChange={(e) => setLatitudeColumn(Number(e.target.value))}
+                >
+                  {columnOptions}
+                </Select>
+              </FormControl>
+              <FormControl size="small" sx={{ minWidth: 160 }}>
+                <InputLabel id="reverse-longitude-column">Longitude column</InputLabel>
+                <Select
+                  labelId="reverse-longitude-column"
+                  label="Longitude column"
+                  value={longitudeColumn}
+                  onChange={(e) => setLongitudeColumn(Number(e.target.value))}
+                >
+                  {columnOptions}
+                </Select>
+              </FormControl>
+              <FormControl size="small" sx={{ minWidth: 160 }}>
+                <InputLabel id="reverse-country-column">Country column</InputLabel>
+                <Select
+                  labelId="reverse-country-column"
+                  label="Country column"
+                  value={countryColumn ?? -1}
+                  onChange={(e) => setCountryColumn(Number(e.target.value) >= 0 ? Number(e.target.value) : null)}
+                >
+                  <MenuItem value={-1}><em>None</em></MenuItem>
+                  {columnOptions}
+                </Select>
+              </FormControl>
+            </>
+          )}
+        </Box>
+
+        {table.headers.length > 1 && latitudeColumn === longitudeColumn && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            The same column is used for latitude and longitude, so it is read as &quot;latitude, longitude&quot; pairs.
+          </Typography>
+        )}
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <TextField
+            label="Stations per point"
+            type="number"
+            size="small"
+            value={count}
+            onChange={(e) => setCount(Math.min(Math.max(1, Number(e.target.value) || 1), MAX_REVERSE_LOOKUP_COUNT))}
+            slotProps={{ htmlInput: { min: 1, max: MAX_REVERSE_LOOKUP_COUNT } }}
+            sx={{ width: 160 }}
+          />
+          <FormControlLabel
+            control={<Switch checked={sameCountry} onChange={(e) => setSameCountry(e.target.checked)} />}
+            label="Same country only"
+          />
+          <FormControlLabel
+            control={<Switch checked={includeObsolete} onChange={(e) => setIncludeObsolete(e.target.checked)} />}
+            label="Include obsolete stations"
+          />
+          <Box sx={{ flex: 1 }} />
+          <Button
+            variant="contained"
+            startIcon={<RunIcon />}
+            onClick={runLookup}
+            disabled={!isDataLoaded || dutyStations.length === 0 || table.rows.length === 0}
+          >
+            Find Nearest {table.rows.length > 0 ? `for ${table.rows.length} Points` : ''}
+          </Button>
+        </Box>
+
+        {sameCountry && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            Points are matched to stations in the country named in the country column; points without one use the
+            country of their nearest station.
+          </Typography>
+        )}
+
+        {table.rows.length > 0 && invalidCount > 0 && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            {invalidCount} of {table.rows.length} rows do not have valid coordinates and will be left unmatched.
+          </Alert>
+        )}
+      </Paper>
+
+      {results && (
+        <Paper sx={{ p: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+            <Chip label={`${results.filter(result => result.matches.length > 0).length} of ${results.length} points matched`} />
+            <Box sx={{ flex: 1 }} />
+            <Button variant="contained" startIcon={<DownloadIcon />} onClick={handleExport}>
+              Export CSV
+            </Button>
+          </Box>
+
+          <TableContainer>
+            <Table size="small" aria-label="Nearest duty stations">
+              <TableHead>
+                <TableRow>
+                  <TableCell align="right">Row</TableCell>
+                  <TableCell>Point</TableCell>
+                  <TableCell>Duty Station</TableCell>
+                  <TableCell>Country</TableCell>
+                  <TableCell align="right">Distance</TableCell>
+                  <TableCell>Bearing</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {results.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage).flatMap((result, offset) => {
+                  const index = page * rowsPerPage + offset;
+                  const pointLabel = result.point
+                    ? `${result.point.latitude.toFixed(5)}, ${result.point.longitude.toFixed(5)}`
+                    : 'Invalid coordinates';
+
+                  if (result.matches.length === 0) {
+                    return [
+                      <TableRow key={index}>
+                        <TableCell align="right">{index + 1}</TableCell>
+                        <TableCell sx={{ fontFamily: 'monospace' }}>{pointLabel}</TableCell>
+                        <TableCell colSpan={4}>
+                          <Typography variant="body2" color="text.secondary">No station found</Typography>
+                        </TableCell>
+                      </TableRow>,
+                    ];
+                  }
+
+                  return result.matches.map((match, rank) => (
+                    <TableRow key={`${index}-${rank}`}>
+                      {rank === 0 && (
+                        <>
+                          <TableCell align="right" rowSpan={result.matches.length} sx={{ verticalAlign: 'top' }}>
+                            {index + 1}
+                          </TableCell>
+                          <TableCell rowSpan={result.matches.length} sx={{ fontFamily: 'monospace', verticalAlign: 'top' }}>
+                            {pointLabel}
+                          </TableCell>
+                        </>
+                      )}
+                      <TableCell>
+                        <Link component={RouterLink} to={`/duty-stations/${match.station.CITY_CODE}/${match.station.COUNTRY_CODE}`}>
+                          {match.station.CITY_NAME}
+                        </Link>
+                        {' '}({match.station.CITY_CODE})
+                        {match.station.OBSOLETE === '1' && (
+                          <Chip label="Obsolete" size="small" variant="outlined" sx={{ ml: 1 }} />
+                        )}
+                      </TableCell>
+                      <TableCell>{match.station.COUNTRY || match.station.COUNTRY_CODE}</TableCell>
+                      <TableCell align="right">{formatDistance(match.distanceKm)}</TableCell>
+                      <TableCell>{formatBearing(match.bearing)}</TableCell>
+                    </TableRow>
+                  ));
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <TablePagination
+            component="div"
+            count={results.length}
+            page={page}
+            onPageChange={(_, newPage) => setPage(newPage)}
+            rowsPerPage={rowsPerPage}
+            onRowsPerPageChange={(e) => {
+              setRowsPerPage(parseInt(e.target.value, 10));
+              setPage(0);
+            }}
+            rowsPerPageOptions={[25, 50, 100]}
+            labelRowsPerPage="Points per page:"
+          />
+        </Paper>
+      )}
+    </Container>
+  );
+}
+
+export default ReverseLookupPage;
@@ -0,0 +1,435 @@
+// Review page - the CEB secretariat's workspace for deciding on incoming requests
+import { useState, useMemo, useEffect } from 'react';
+import {
+  Container,
+  Typography,
+  Box,
+  Paper,
+  Button,
+  Chip,
+  Alert,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import {
+  UploadFile as UploadIcon,
+  Download as DownloadIcon,
+  Archive as PatchIcon,
+  CheckCircle as ApproveIcon,
+  Cancel as RejectIcon,
+} from '@mui/icons-material';
+import { useData } from '../context/DataContext';
+import type { DutyStation } from '../types';
+import type { ReviewDecision } from '../types/request';
+import {
+  buildDecisionFile,
+  compareWithDataset,
+  getReviewRequestLabel,
+  parseReviewInput,
+  toDutyStationRequest,
+} from '../services/reviewService';
+import type { ReviewCheckSeverity, ReviewInput } from '../services/reviewService';
+import { createPatchArchive, generateDutyStationPatch } from '../services/patchService';
+import { fetchDutyStationsCsv } from '../services/dataService';
+import { getSavedContact } from '../services/userPreferencesService';
+import { getStationKey } from '../utils/datasetDiff';
+
+type Decision = ReviewDecision['decision'];
+
+interface DraftDecision {
+  decision: Decision | null;
+  reason: string;
+}
+
+const EMPTY_DRAFT: DraftDecision = { decision: null, reason: '' };
+
+const REQUEST_TYPE_LABELS: Record<string, string> = {
+  add: 'Add New',
+  update: 'Update',
+  remove: 'Remove',
+  coordinate_update: 'Coordinates',
+  alias: 'Alternate Name',
+};
+
+const CHECK_SEVERITY_ORDER: ReviewCheckSeverity[] = ['error', 'warning', 'info'];
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+function ReviewPage() {
+  const { dutyStations, countries, isDataLoaded, isHistorical } = useData();
+
+  const [inputText, setInputText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [reviewer, setReviewer] = useState(() => getSavedContact()?.email ?? '');
+  const [drafts, setDrafts] = useState<Record<string, DraftDecision>>({});
+  const [isGeneratingPatch, setIsGeneratingPatch] = useState(false);
+  const [patchResult, setPatchResult] = useState<{ applied: number; skipped: string[] } | null>(null);
+  const [patchError, setPatchError] = useState<string | null>(null);
+
+  const { input, inputError } = useMemo((): { input: ReviewInput | null; inputError: string | null } => {
+    try {
+      return { input: parseReviewInput(inputText), inputError: null };
+    } catch (error) {
+      return { input: null, inputError: error instanceof Error ? error.message : 'The input could not be read' };
+    }
+  }, [inputText]);
+
+  // A patch result belongs to the input it was generated from; decisions are kept by request key,
+  // so they survive edits to the pasted text
+  useEffect(() => {
+    setPatchResult(null);
+    setPatchError(null);
+  }, [input]);
+
+  const stationsByKey = useMemo(
+    () => new Map<string, DutyStation>(dutyStations.map(station => [getStationKey(station), station])),
+    [dutyStations]
+  );
+
+  const reviewed = useMemo(
+    () => (input?.requests ?? []).map(request => {
+      const comparison = compareWithDataset(request, dutyStations, stationsByKey, countries);
+      return { request, comparison, label: getReviewRequestLabel(request, comparison.station) };
+    }),
+    [input, dutyStations, stationsByKey, countries]
+  );
+
+  const handleFileUpload = async (file: File | undefined) => {
+    if (!file) return;
+    setInputText(await file.text());
+    setFileName(file.name);
+  };
+
+  const clearInput = () => {
+    setInputText('');
+    setFileName(null);
+    setDrafts({});
+  };
+
+  const getDraft = (requestKey: string): DraftDecision => drafts[requestKey] ?? EMPTY_DRAFT;
+
+  const updateDraft = (requestKey: string, updates: Partial<DraftDecision>) => {
+    setDrafts(prev => ({ ...prev, [requestKey]: { ...(prev[requestKey] ?? EMPTY_DRAFT), ...updates } }));
+  };
+
+  // A rejection is only complete with a reason
+  const isComplete = (draft: DraftDecision | undefined) =>
+    draft?.decision === 'approved' || (draft?.decision === 'rejected' && draft.reason.trim().length > 0);
+
+  const currentDrafts = reviewed.map(({ request }) => getDraft(request.requestKey));
+  const completeCount = currentDrafts.filter(isComplete).length;
+  const approvedCount = currentDrafts.filter(draft => isComplete(draft) && draft.decision === 'approved').length;
+
+  const handleDownload = () => {
+    const reviewedAt = new Date();
+    const decisions: ReviewDecision[] = reviewed.flatMap(({ request, label }) => {
+      const draft = getDraft(request.requestKey);
+      if (!isComplete(draft) || !draft.decision) return [];
+      return [{
+        requestKey: request.requestKey,
+        requestId: request.requestId,
+        requestType: request.requestType,
+        stationLabel: label,
+        decision: draft.decision,
+        reason: draft.reason.trim(),
+        reviewedBy: reviewer.trim(),
+        reviewedAt,
+      }];
+    });
+
+    const json = JSON.stringify(buildDecisionFile(decisions), null, 2);
+    downloadBlob(
+      new Blob([json], { type: 'application/json' }),
+      `review-decisions-${reviewedAt.toISOString().split('T')[0]}.json`
+    );
+  };
+
+  // Apply the approved requests to the published DSCITYCD.csv; requests with errors cannot be applied
+  const handlePatchDownload = async () => {
+    const approved = reviewed.filter(({ request }) => {
+      const draft = getDraft(request.requestKey);
+      return isComplete(draft) && draft.decision === 'approved';
+    });
+    const blocked = approved.filter(({ comparison }) => comparison.checks.some(check => check.severity === 'error'));
+    const applicable = approved
+      .filter(item => !blocked.includes(item))
+      .map(({ request, label }) => ({ label, request: toDutyStationRequest(request) }));
+
+    setIsGeneratingPatch(true);
+    setPatchError(null);
+    try {
+      const patch = generateDutyStationPatch(await fetchDutyStationsCsv(), applicable.map(({ request }) => request));
+      if (patch.changes.length > 0) {
+        downloadBlob(
+          new Blob([createPatchArchive(patch)], { type: 'application/zip' }),
+          `duty-station-patch-${new Date().toISOString().split('T')[0]}.zip`
+        );
+      }
+      setPatchResult({
+        applied: patch.changes.length,
+        skipped: [
+          ...blocked.map(({ label, comparison }) =>
+            `${label}: ${comparison.checks.find(check => check.severity === 'error')?.message}`),
+          ...patch.skipped.map(({ request, reason }) =>
+            `${applicable.find(item => item.request === request)?.label ?? request.requestType}: ${reason}`),
+        ],
+      });
+    } catch (error) {
+      console.error('Error generating duty station patch:', error);
+      setPatchError(error instanceof Error ? error.message : 'The patch could not be generated');
+    } finally {
+      setIsGeneratingPatch(false);
+    }
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Box sx={{ mb: 3 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Review Requests
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Paste the CSV snippet from a request email, or upload a basket exported from the Requests page, to see each
+          request against the current duty station list. Approve or reject each one, then download the decision file
+          and send it to the submitters: importing it in their request history updates the statuses. The patch applies
+          the approved requests to DSCITYCD.csv, ready to commit to the HR-Public-Codes repository.
+        </Typography>
+      </Box>
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        {fileName ? (
+          <Alert
+            severity="info"
+            sx={{ mb: 2 }}
+            action={<Button color="inherit" size="small" onClick={clearInput}>Clear</Button>}
+          >
+            {fileName}
+          </Alert>
+        ) : (
+          <TextField
+            label="Requests"
+            placeholder={'Paste the CSV snippet from a request email, starting with\nCITY_CODE,COUNTRY_CODE,... or INSTRUCTIONS FOR OTHER REQUEST TYPES'}
+            value={inputText}
+            onChange={(e) => setInputText(e.target.value)}
+            multiline
+            minRows={6}
+            maxRows={16}
+            fullWidth
+            sx={{ mb: 2 }}
+          />
+        )}
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <Button component="label" variant="outlined" startIcon={<UploadIcon />}>
+            Upload Basket JSON / CSV
+            <input
+              type="file"
+              accept=".json,.csv,.txt,application/json,text/csv,text/plain"
+              hidden
+              onChange={(e) => {
+                handleFileUpload(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </Button>
+          <TextField
+            label="Reviewer"
+            value={reviewer}
+            onChange={(e) => setReviewer(e.target.value)}
+            size="small"
+            helperText="Recorded with each decision"
+            sx={{ minWidth: 260 }}
+          />
+          <Box sx={{ flex: 1 }} />
+          <Button
+            variant="outlined"
+            startIcon={<PatchIcon />}
+            onClick={handlePatchDownload}
+            disabled={approvedCount === 0 || isGeneratingPatch || isHistorical}
+            title={isHistorical ? 'Patches are generated against the current duty station list' : undefined}
+          >
+            {isGeneratingPatch ? 'Generating Patch...' : 'Download Patch'}
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<DownloadIcon />}
+            onClick={handleDownload}
+            disabled={completeCount === 0 || !reviewer.trim()}
+          >
+            Download Decisions{completeCount > 0 ? ` (${completeCount})` : ''}
+          </Button>
+        </Box>
+      </Paper>
+
+      {inputError && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {inputError}
+        </Alert>
+      )}
+
+      {patchError && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setPatchError(null)}>
+          {patchError}
+        </Alert>
+      )}
+
+      {patchResult && (
+        <Alert
+          severity={patchResult.skipped.length > 0 ? 'warning' : 'success'}
+          sx={{ mb: 3 }}
+          onClose={() => setPatchResult(null)}
+        >
+          {patchResult.applied > 0
+            ? `The patch applies ${patchResult.applied} change${patchResult.applied === 1 ? '' : 's'} to DSCITYCD.csv. The zip holds the updated file, a unified diff and a commit message.`
+            : 'None of the approved requests change DSCITYCD.csv, so no patch was downloaded.'}
+          {patchResult.skipped.length > 0 && (
+            <>
+              {' '}Not applied:
+              <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                {patchResult.skipped.map((message, index) => (
+                  <li key={index}>{message}</li>
+                ))}
+              </Box>
+            </>
+          )}
+        </Alert>
+      )}
+
+      {input && input.errors.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          Some requests could not be read:
+          <Box component="ul" sx={{ m: 0, pl: 2 }}>
+            {input.errors.map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </Box>
+        </Alert>
+      )}
+
+      {!isDataLoaded && reviewed.length > 0 && (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          The duty station list is still loading; comparisons will update when it is ready.
+        </Alert>
+      )}
+
+      {reviewed.length > 0 && (
+        <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap' }}>
+          <Chip label={`${reviewed.length} Requests`} size="small" />
+          <Chip label={`${approvedCount} Approved`} color="success" size="small" />
+          <Chip label={`${completeCount - approvedCount} Rejected`} color="error" size="small" />
+          <Chip label={`${reviewed.length - completeCount} Undecided`} variant="outlined" size="small" />
+        </Stack>
+      )}
+
+      <Stack spacing={2}>
+        {reviewed.map(({ request, comparison, label }, index) => {
+          const draft = getDraft(request.requestKey);
+          const checks = [...comparison.checks].sort(
+            (a, b) => CHECK_SEVERITY_ORDER.indexOf(a.severity) - CHECK_SEVERITY_ORDER.indexOf(b.severity)
+          );
+
+          return (
+            <Paper key={index} variant="outlined" sx={{ p: 2 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mb: 1 }}>
+                <Chip label={REQUEST_TYPE_LABELS[request.requestType] ?? request.requestType} size="small" />
+                <Typography variant="subtitle1" component="h2" sx={{ fontWeight: 600 }}>
+                  {label || '(no station)'}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {comparison.station?.COUNTRY || request.countryCode}
+                </Typography>
+                <Box sx={{ flex: 1 }} />
+                {draft.decision && (
+                  <Chip
+                    label={draft.decision === 'approved' ? 'Approved' : 'Rejected'}
+                    color={draft.decision === 'approved' ? 'success' : 'error'}
+                    variant={isComplete(draft) ? 'filled' : 'outlined'}
+                    size="small"
+                  />
+                )}
+              </Box>
+
+              {comparison.changes.length > 0 && (
+                <Table size="small" aria-label={`Changes requested for ${label}`} sx={{ mb: 1 }}>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Field</TableCell>
+                      <TableCell>Current</TableCell>
+                      <TableCell>Proposed</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {comparison.changes.map(change => (
+                      <TableRow key={change.field}>
+                        <TableCell component="th" scope="row">{change.field}</TableCell>
+                        <TableCell>{change.current || '—'}</TableCell>
+                        <TableCell>{change.proposed || '—'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {checks.map((check, checkIndex) => (
+                <Alert key={checkIndex} severity={check.severity} sx={{ mb: 1, py: 0 }}>
+                  {check.message}
+                </Alert>
+              ))}
+
+              <Typography variant="body2" sx={{ mb: 2 }}>
+                <strong>Justification:</strong> {request.justification || 'N/A'}
+                {request.submittedBy && <> — {request.submittedBy}</>}
+              </Typography>
+
+              <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2, flexWrap: 'wrap' }}>
+                <ToggleButtonGroup
+                  value={draft.decision}
+                  exclusive
+                  size="small"
+                  onChange={(_, value: Decision | null) => updateDraft(request.requestKey, { decision: value })}
+                  aria-label={`Decision for ${label}`}
+                >
+                  <ToggleButton value="approved" color="success">
+                    <ApproveIcon fontSize="small" sx={{ mr: 0.5 }} />
+                    Approve
+                  </ToggleButton>
+                  <ToggleButton value="rejected" color="error">
+                    <RejectIcon fontSize="small" sx={{ mr: 0.5 }} />
+                    Reject
+                  </ToggleButton>
+                </ToggleButtonGroup>
+                <TextField
+                  label={draft.decision === 'rejected' ? 'Reason' : 'Reason (optional)'}
+                  value={draft.reason}
+                  onChange={(e) => updateDraft(request.requestKey, { reason: e.target.value })}
+                  required={draft.decision === 'rejected'}
+                  error={draft.decision === 'rejected' && !draft.reason.trim()}
+                  size="small"
+                  sx={{ flex: 1, minWidth: 240 }}
+                />
+              </Box>
+            </Paper>
+          );
+        })}
+      </Stack>
+    </Container>
+  );
+}
+
+export default ReviewPage;
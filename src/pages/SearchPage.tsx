@@ -1,7 +1,7 @@
 // Professional search page with advanced search functionality
 // Following CEB Donor Codes proven patterns
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Container,
@@ -14,19 +14,31 @@ import {
   Fab,
   Zoom,
   Tooltip,
+  Chip,
+  Button,
+  FormControlLabel,
+  Switch,
 } from '@mui/material';
 import {
   Search as SearchIcon,
   Clear as ClearIcon,
   FilterList as FilterIcon,
   TuneSharp as AdvancedIcon,
+  Map as MapIcon,
+  NearMe as NearMeIcon,
 } from '@mui/icons-material';
 import { useSearch } from '../hooks/useSearch';
+import { useSearchUrlState } from '../hooks/useSearchUrlState';
+import { useSavedSearches } from '../hooks/useSavedSearches';
 import SearchFilters from '../components/search/SearchFilters';
 import SearchResults from '../components/search/SearchResults';
 import SearchSuggestions from '../components/search/SearchSuggestions';
+import SavedSearchesMenu from '../components/search/SavedSearchesMenu';
+import { InteractiveMap } from '../components/mapping/InteractiveMap';
 import { exportDutyStationsToCSV, exportDutyStationsToExcel } from '../utils/exportUtils';
-import type { DutyStation } from '../types';
+import { describeSpatialQuery } from '../utils/searchQuery';
+import type { SearchCriteria } from '../services/savedSearchService';
+import type { DutyStation, MapBounds } from '../types';
 
 function SearchPage() {
   const navigate = useNavigate();
@@ -36,10 +48,19 @@ function SearchPage() {
     enableSuggestions: true,
     enablePerformanceTracking: true,
   });
+  // Query, filters, sort and page live in the URL, so searches can be shared and revisited
+  const { view: resultsView, setView: setResultsView } = useSearchUrlState(searchHook);
+  const savedSearchHook = useSavedSearches(searchHook);
+  const { activeSavedSearch, changes: savedSearchChanges, dismissChange } = savedSearchHook;
+  const activeSearchChange = activeSavedSearch ? savedSearchChanges[activeSavedSearch.id] : undefined;
 
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const [showMap, setShowMap] = useState(false);
+  const [limitToMap, setLimitToMap] = useState(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
+  // Last visible map area, applied when results are limited to the map
+  const mapBoundsRef = useRef<MapBounds | null>(null);
 
   const {
     query,
@@ -48,21 +69,27 @@ function SearchPage() {
     error,
     isReady,
     hasResults,
-    suggestions,
+    queryError,
+    queryClauses,
+    spatialQuery,
+    searchTypeOptions,
+    setBounds,
   } = searchHook;
 
+  const getStrategyLabel = (strategy: string) =>
+    searchTypeOptions.find(option => option.value === strategy)?.label ?? strategy;
+
   // Handle search input change
   const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const value = event.target.value;
     setQuery(value);
-    setShowSuggestions(value.length >= 2 && suggestions.length > 0);
+    // Saved and recent searches are suggested from the first character, stations from the second
+    setShowSuggestions(true);
   };
 
   // Handle search input focus
   const handleSearchFocus = () => {
-    if (query.length >= 2 && suggestions.length > 0) {
-      setShowSuggestions(true);
-    }
+    setShowSuggestions(true);
   };
 
   // Handle suggestion selection
@@ -72,6 +99,13 @@ function SearchPage() {
     searchInputRef.current?.blur();
   };
 
+  // Handle saved or recent search selection
+  const handleSearchSelect = (criteria: SearchCriteria) => {
+    savedSearchHook.applySearch(criteria);
+    setShowSuggestions(false);
+    searchInputRef.current?.blur();
+  };
+
   // Handle clear search
   const handleClearSearch = () => {
     clearSearch();
@@ -96,6 +130,25 @@ function SearchPage() {
     exportDutyStationsToCSV(dutyStations, filename);
   };
 
+  // Track the visible map area, re-running the search when results are limited to it
+  const handleMapBoundsChange = useCallback((bounds: MapBounds) => {
+    mapBoundsRef.current = bounds;
+    if (limitToMap) setBounds(bounds);
+  }, [limitToMap, setBounds]);
+
+  const handleLimitToMapChange = (limit: boolean) => {
+    setLimitToMap(limit);
+    setBounds(limit ? mapBoundsRef.current : null);
+  };
+
+  const handleToggleMap = () => {
+    if (showMap) {
+      setLimitToMap(false);
+      setBounds(null);
+    }
+    setShowMap(!showMap);
+  };
+
   // Toggle advanced filters
   const toggleAdvancedFilters = () => {
     setShowAdvancedFilters(!showAdvancedFilters);
@@ -112,6 +165,12 @@ function SearchPage() {
           Search through {isReady ? '4,295+ duty stations' : 'duty stations'} using multiple search algorithms. 
           Find stations by name, country, or common name with exact, partial, fuzzy, or phonetic matching.
         </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          Narrow a search with fields such as <code>country:Kenya</code>, <code>region:Africa</code>,{' '}
+          <code>obsolete:false</code>, <code>name:"Nai*"</code>, <code>alias:Женева</code> or <code>code:NBO</code>, and combine terms
+          with <code>OR</code>, <code>NOT</code> (or <code>-</code>), parentheses and "quoted phrases".
+          Search an area with <code>within 50 km of Nairobi</code> or <code>within 100 km of -1.28,36.82</code>.
+        </Typography>
       </Box>
 
       {/* Error Alert */}
@@ -121,6 +180,15 @@ function SearchPage() {
         </Alert>
       )}
 
+      {/* Results of the current saved search changed since it was last run */}
+      {activeSavedSearch && activeSearchChange && (
+        <Alert severity="info" sx={{ mb: 3 }} onClose={() => dismissChange(activeSavedSearch.id)}>
+          Results for saved search "{activeSavedSearch.name}" have changed since it was last run
+          on {new Date(activeSearchChange.previous.runAt).toLocaleString()}: {activeSearchChange.previous.count} then,{' '}
+          {activeSearchChange.current.count} now.
+        </Alert>
+      )}
+
       {/* Search Input */}
       <Paper elevation={2} sx={{ mb: 3 }}>
         <Box sx={{ p: 2 }}>
@@ -132,6 +200,8 @@ function SearchPage() {
             onChange={handleSearchChange}
             onFocus={handleSearchFocus}
             disabled={!isReady}
+            error={!!queryError}
+            helperText={queryError?.message}
             InputProps={{
               startAdornment: (
                 <InputAdornment position="start">
@@ -172,6 +242,35 @@ function SearchPage() {
             }}
           />
 
+          {/* Query language terms and the strategy each one runs with */}
+          {(queryClauses.length > 0 || spatialQuery) && (
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', px: 1.5, pt: 1 }}>
+              {spatialQuery && (
+                <Chip
+                  size="small"
+                  color="secondary"
+                  icon={<NearMeIcon />}
+                  label={describeSpatialQuery(spatialQuery)}
+                />
+              )}
+              {queryClauses.map((clause, index) => (
+                <Tooltip key={index} title={`Matched with: ${getStrategyLabel(clause.strategy)}`}>
+                  <Chip
+                    size="small"
+                    variant="outlined"
+                    color={clause.negated ? 'warning' : 'primary'}
+                    label={`${clause.negated ? 'NOT ' : ''}${clause.term.field ?? 'any field'}: ${clause.term.quoted ? `"${clause.term.value}"` : clause.term.value} · ${getStrategyLabel(clause.strategy)}`}
+                  />
+                </Tooltip>
+              ))}
+            </Box>
+          )}
+
+          {/* Saved searches and recent history */}
+          <Box sx={{ px: 1.5, pt: 1 }}>
+            <SavedSearchesMenu savedSearchHook={savedSearchHook} disabled={!isReady} />
+          </Box>
+
           {/* Search Suggestions */}
           {isReady && (
             <SearchSuggestions
@@ -180,6 +279,9 @@ function SearchPage() {
               open={showSuggestions}
               onClose={() => setShowSuggestions(false)}
               onSuggestionSelect={handleSuggestionSelect}
+              savedSearches={savedSearchHook.savedSearches}
+              recentSearches={savedSearchHook.history}
+              onSearchSelect={handleSearchSelect}
             />
           )}
         </Box>
@@ -192,12 +294,43 @@ function SearchPage() {
         onToggleAdvanced={setShowAdvancedFilters}
       />
 
+      {/* Results map - can limit the search to the visible area */}
+      <Paper elevation={1} sx={{ mb: 3, p: 2 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1 }}>
+          <Button startIcon={<MapIcon />} onClick={handleToggleMap} disabled={!isReady}>
+            {showMap ? 'Hide Map' : 'Show Map'}
+          </Button>
+          {showMap && (
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={limitToMap}
+                  onChange={(e) => handleLimitToMapChange(e.target.checked)}
+                />
+              }
+              label="Only show stations in the map area"
+            />
+          )}
+        </Box>
+        {showMap && (
+          <Box sx={{ mt: 2 }}>
+            <InteractiveMap
+              stations={searchHook.results.map(result => result.item)}
+              height={400}
+              onBoundsChange={handleMapBoundsChange}
+            />
+          </Box>
+        )}
+      </Paper>
+
       {/* Search Results */}
       <SearchResults
         searchHook={searchHook}
         onViewStation={handleViewStation}
         onExport={handleExportResults}
         showExport={hasResults}
+        view={resultsView}
+        onViewChange={setResultsView}
       />
 
       {/* Floating Action Button for Advanced Filters (Mobile) */}
@@ -0,0 +1,255 @@
+// Settings page - choose where the duty station code lists are loaded from
+import { useState, useEffect } from 'react';
+import {
+  Container,
+  Typography,
+  Box,
+  Card,
+  CardContent,
+  Radio,
+  RadioGroup,
+  FormControlLabel,
+  FormControl,
+  FormLabel,
+  TextField,
+  Button,
+  Alert,
+  Divider,
+  Chip,
+  Stack,
+  Checkbox,
+} from '@mui/material';
+import {
+  Storage as StorageIcon,
+  UploadFile as UploadIcon,
+  RestartAlt as ResetIcon,
+} from '@mui/icons-material';
+import { useData } from '../context/DataContext';
+import type { CodeListFile, DataSourceConfig, DataSourceKind } from '../types/dataSource';
+import {
+  describeDataSource,
+  getEnvironmentDataSource,
+  getLocalCodeListInfo,
+  getStoredDataSource,
+  isValidDataSource,
+  saveLocalCodeList,
+} from '../services/dataSourceService';
+
+const LOCAL_FILES: CodeListFile[] = ['DSCITYCD.csv', 'DSCTRYCD.csv'];
+// Files that may be left out of a local data source
+const OPTIONAL_LOCAL_FILES: CodeListFile[] = ['DSCITYALT.csv'];
+
+function SettingsPage() {
+  const { dataSource, setDataSource, loading, error, lastUpdated, dataOrigin } = useData();
+
+  const [kind, setKind] = useState<DataSourceKind>(dataSource.kind);
+  const [branch, setBranch] = useState(dataSource.kind === 'github' ? dataSource.branch : 'main');
+  const [sha, setSha] = useState(dataSource.kind === 'commit' ? dataSource.sha : '');
+  const [baseUrl, setBaseUrl] = useState(dataSource.kind === 'mirror' ? dataSource.baseUrl : '');
+  const [alternateNames, setAlternateNames] = useState(dataSource.alternateNames ?? false);
+  const [localFiles, setLocalFiles] = useState<Record<string, { originalName: string; savedAt: Date } | null>>({});
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const environmentSource = getEnvironmentDataSource();
+  const hasOverride = getStoredDataSource() !== null;
+
+  // Load details of locally stored code lists
+  useEffect(() => {
+    const files = [...LOCAL_FILES, ...OPTIONAL_LOCAL_FILES];
+    Promise.all(files.map(file => getLocalCodeListInfo(file))).then(infos => {
+      setLocalFiles(Object.fromEntries(files.map((file, index) => [file, infos[index]])));
+    });
+  }, []);
+
+  // Local sources serve alternate names when DSCITYALT.csv has been uploaded
+  const buildConfig = (): DataSourceConfig => {
+    switch (kind) {
+      case 'github':
+        return { kind: 'github', branch: branch.trim(), alternateNames };
+      case 'commit':
+        return { kind: 'commit', sha: sha.trim(), alternateNames };
+      case 'mirror':
+        return { kind: 'mirror', baseUrl: baseUrl.trim(), alternateNames };
+      case 'local':
+        return { kind: 'local', alternateNames: OPTIONAL_LOCAL_FILES.some(file => localFiles[file]) };
+    }
+  };
+
+  const candidate = buildConfig();
+  const isCandidateValid = isValidDataSource(candidate)
+    && (kind !== 'local' || LOCAL_FILES.every(file => localFiles[file]));
+
+  const handleApply = () => {
+    if (isCandidateValid) {
+      setDataSource(candidate);
+    }
+  };
+
+  const handleReset = () => {
+    setDataSource(null);
+    setKind(environmentSource.kind);
+  };
+
+  const handleFileUpload = async (file: CodeListFile, upload: File | undefined) => {
+    if (!upload) return;
+
+    setUploadError(null);
+    try {
+      await saveLocalCodeList(file, upload);
+      const info = await getLocalCodeListInfo(file);
+      setLocalFiles(prev => ({ ...prev, [file]: info }));
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : `Failed to store ${file}`);
+    }
+  };
+
+  return (
+    <Container maxWidth="md" sx={{ mt: 4, mb: 4 }}>
+      <Box sx={{ mb: 4 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Settings
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Choose where the duty station and country code lists are loaded from.
+        </Typography>
+      </Box>
+
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <StorageIcon color="primary" />
+            Current Data Source
+          </Typography>
+          <Divider sx={{ mb: 2 }} />
+          <Stack direction="row" spacing={1} sx={{ flexWrap: 'wrap', gap: 1 }}>
+            <Chip label={describeDataSource(dataSource)} color="primary" />
+            {hasOverride ? (
+              <Chip label="Selected on this device" variant="outlined" />
+            ) : (
+              <Chip label="From environment configuration" variant="outlined" />
+            )}
+            {lastUpdated && (
+              <Chip
+                label={`${dataOrigin === 'network' ? 'Loaded' : 'Cached'} ${lastUpdated.toLocaleString()}`}
+                variant="outlined"
+              />
+            )}
+          </Stack>
+          {loading && (
+            <Alert severity="info" sx={{ mt: 2 }}>
+              Loading data from the selected source...
+            </Alert>
+          )}
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent>
+          <FormControl component="fieldset" fullWidth>
+            <FormLabel component="legend" sx={{ mb: 1 }}>
+              Data Source
+            </FormLabel>
+            <RadioGroup value={kind} onChange={(e) => setKind(e.target.value as DataSourceKind)}>
+              <FormControlLabel value="github" control={<Radio />} label="GitHub branch" />
+              {kind === 'github' && (
+                <TextField
+                  label="Branch"
+                  value={branch}
+                  onChange={(e) => setBranch(e.target.value)}
+                  helperText="e.g. main or staging"
+                  size="small"
+                  sx={{ ml: 4, mb: 2, maxWidth: 400 }}
+                />
+              )}
+
+              <FormControlLabel value="commit" control={<Radio />} label="Specific commit" />
+              {kind === 'commit' && (
+                <TextField
+                  label="Commit SHA"
+                  value={sha}
+                  onChange={(e) => setSha(e.target.value)}
+                  error={sha.length > 0 && !isValidDataSource({ kind: 'commit', sha })}
+                  helperText="7 to 40 hexadecimal characters"
+                  size="small"
+                  sx={{ ml: 4, mb: 2, maxWidth: 400 }}
+                />
+              )}
+
+              <FormControlLabel value="mirror" control={<Radio />} label="Self-hosted mirror" />
+              {kind === 'mirror' && (
+                <TextField
+                  label="Base URL"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  error={baseUrl.length > 0 && !isValidDataSource({ kind: 'mirror', baseUrl })}
+                  helperText="URL serving DSCITYCD.csv and DSCTRYCD.csv, e.g. https://intranet.example.org/codes"
+                  size="small"
+                  fullWidth
+                  sx={{ ml: 4, mb: 2, maxWidth: 560 }}
+                />
+              )}
+
+              <FormControlLabel value="local" control={<Radio />} label="Local CSV files" />
+              {kind === 'local' && (
+                <Box sx={{ ml: 4, mb: 2 }}>
+                  {[...LOCAL_FILES, ...OPTIONAL_LOCAL_FILES].map(file => (
+                    <Box key={file} sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1 }}>
+                      <Button component="label" variant="outlined" size="small" startIcon={<UploadIcon />}>
+                        {file}
+                        <input
+                          type="file"
+                          accept=".csv,text/csv"
+                          hidden
+                          onChange={(e) => handleFileUpload(file, e.target.files?.[0])}
+                        />
+                      </Button>
+                      <Typography variant="body2" color="text.secondary">
+                        {localFiles[file]
+                          ? `${localFiles[file]?.originalName} (stored ${localFiles[file]?.savedAt.toLocaleString()})`
+                          : OPTIONAL_LOCAL_FILES.includes(file) ? 'Optional - alternate station names' : 'No file provided'}
+                      </Typography>
+                    </Box>
+                  ))}
+                  {uploadError && (
+                    <Alert severity="error" sx={{ mt: 1 }}>
+                      {uploadError}
+                    </Alert>
+                  )}
+                </Box>
+              )}
+            </RadioGroup>
+          </FormControl>
+
+          {kind !== 'local' && (
+            <FormControlLabel
+              control={<Checkbox checked={alternateNames} onChange={(e) => setAlternateNames(e.target.checked)} />}
+              label="The source also serves DSCITYALT.csv (alternate station names)"
+            />
+          )}
+
+          <Divider sx={{ my: 2 }} />
+
+          <Box sx={{ display: 'flex', gap: 2, justifyContent: 'space-between', flexWrap: 'wrap' }}>
+            <Button
+              startIcon={<ResetIcon />}
+              onClick={handleReset}
+              disabled={!hasOverride}
+            >
+              Reset to default ({describeDataSource(environmentSource)})
+            </Button>
+            <Button variant="contained" onClick={handleApply} disabled={!isCandidateValid}>
+              Apply
+            </Button>
+          </Box>
+        </CardContent>
+      </Card>
+    </Container>
+  );
+}
+
+export default SettingsPage;
@@ -26,6 +26,10 @@ import {
   TextField,
   Breadcrumbs,
   Link,
+  MenuItem,
+  List,
+  ListItem,
+  ListItemText,
 } from '@mui/material';
 import {
   ArrowBack as BackIcon,
@@ -37,18 +41,31 @@ import {
   CheckCircle as ActiveIcon,
   Cancel as ObsoleteIcon,
   LocationOn as LocationIcon,
+  AutoFixHigh as FixIcon,
+  Translate as TranslateIcon,
+  Add as AddIcon,
 } from '@mui/icons-material';
 import { useAppData } from '../hooks/useAppData';
 import { useBasket } from '../hooks/useBasket';
+import { useData } from '../context/DataContext';
 import { InteractiveMap } from '../components/mapping/InteractiveMap';
-import type { DutyStation, MapCoordinates } from '../types/dutyStation';
+import type { DutyStation, MapCoordinates, UNLanguage } from '../types/dutyStation';
 import type { DutyStationRequest } from '../schemas/dutyStationSchema';
+import { assessStationCoordinates, COORDINATE_ANOMALY_LABELS } from '../utils/coordinateAnomalies';
+import {
+  getAlternateNames,
+  getLanguageDirection,
+  UN_LANGUAGES,
+  UN_LANGUAGE_LABELS,
+} from '../utils/alternateNames';
+import { normalizeText } from '../utils/textNormalization';
 
 function StationDetailPage() {
   const { ds, cty } = useParams<{ ds: string; cty: string }>();
   const navigate = useNavigate();
-  const { dutyStations, loading, error } = useAppData();
+  const { dutyStations, countries, loading, error } = useAppData();
   const { addToBasket } = useBasket();
+  const { isHistorical } = useData();
 
   const [correctionDialogOpen, setCorrectionDialogOpen] = useState(false);
   const [showMap, setShowMap] = useState(true);
@@ -58,6 +75,13 @@ function StationDetailPage() {
   const [coordinateError, setCoordinateError] = useState('');
   const [justification, setJustification] = useState('');
 
+  // Alternate name proposal dialog
+  const [aliasDialogOpen, setAliasDialogOpen] = useState(false);
+  const [aliasLanguage, setAliasLanguage] = useState<UNLanguage>('fr');
+  const [aliasName, setAliasName] = useState('');
+  const [aliasJustification, setAliasJustification] = useState('');
+  const [aliasError, setAliasError] = useState('');
+
   // Find the station
   const station = useMemo(() => {
     if (!ds || !cty) return null;
@@ -68,6 +92,21 @@ function StationDetailPage() {
     );
   }, [dutyStations, ds, cty]);
 
+  const alternateNames = useMemo(() => (station ? getAlternateNames(station) : []), [station]);
+
+  // The proposed name is already listed for the station in that language
+  const aliasExists = useMemo(() => {
+    const proposed = normalizeText(aliasName.trim());
+    return !!proposed && alternateNames.some(
+      alternate => alternate.language === aliasLanguage && normalizeText(alternate.name) === proposed
+    );
+  }, [alternateNames, aliasLanguage, aliasName]);
+
+  // Check the coordinates against the station's country
+  const coordinateAssessment = useMemo(() => {
+    return station ? assessStationCoordinates(station, countries) : null;
+  }, [station, countries]);
+
   // Handle coordinate selection from map
   const handleLocationPicked = useCallback((coordinates: MapCoordinates) => {
     setSelectedCoordinates(coordinates);
@@ -119,6 +158,16 @@ function StationDetailPage() {
     setJustification('');
   };
 
+  // Open the correction dialog pre-filled with the suggested coordinate fix
+  const handleApplySuggestedFix = () => {
+    if (!coordinateAssessment?.suggestion) return;
+    const { suggestion, message } = coordinateAssessment;
+
+    handleOpenCorrectionDialog();
+    handleLocationPicked({ latitude: suggestion.latitude, longitude: suggestion.longitude });
+    setJustification(`${suggestion.description}: ${message}.`);
+  };
+
   // Handle closing correction dialog
   const handleCloseCorrectionDialog = () => {
     setCorrectionDialogOpen(false);
@@ -130,7 +179,7 @@ function StationDetailPage() {
   };
 
   // Handle submitting coordinate correction
-  const handleSubmitCorrection = () => {
+  const handleSubmitCorrection = async () => {
     if (!station) return;
 
     const newLat = selectedCoordinates?.latitude ?? station.LATITUDE;
@@ -155,13 +204,56 @@ function StationDetailPage() {
       justification: justification || 'Coordinate correction requested',
     };
 
-    addToBasket(request);
+    try {
+      await addToBasket(request);
+    } catch (err) {
+      console.error('Error adding coordinate correction to basket:', err);
+      setCoordinateError(err instanceof Error ? err.message : 'Failed to add the coordinate correction to the basket');
+      return;
+    }
     handleCloseCorrectionDialog();
 
     // Show success notification
     alert(`Coordinate correction added to basket!\n\nNew coordinates:\nLatitude: ${newLat.toFixed(6)}\nLongitude: ${newLng.toFixed(6)}`);
   };
 
+  // Handle opening the alternate name dialog, defaulting to the first language without a name
+  const handleOpenAliasDialog = () => {
+    const missing = UN_LANGUAGES.find(language => !alternateNames.some(alternate => alternate.language === language));
+    setAliasLanguage(missing ?? 'fr');
+    setAliasName('');
+    setAliasJustification('');
+    setAliasError('');
+    setAliasDialogOpen(true);
+  };
+
+  // Handle submitting an alternate name proposal
+  const handleSubmitAlias = async () => {
+    if (!station) return;
+
+    const request: DutyStationRequest = {
+      requestType: 'alias',
+      dutyStationCode: station.CITY_CODE,
+      countryCode: station.COUNTRY_CODE,
+      stationName: station.CITY_NAME,
+      language: aliasLanguage,
+      alternateName: aliasName.trim(),
+      requestDate: new Date(),
+      submittedBy: '', // Will be filled by form
+      organization: '', // Will be filled by form
+      justification: aliasJustification.trim(),
+    };
+
+    try {
+      await addToBasket(request);
+      setAliasDialogOpen(false);
+      alert(`Alternate name added to basket!\n\n${UN_LANGUAGE_LABELS[aliasLanguage]}: ${aliasName.trim()}`);
+    } catch (err) {
+      console.error('Error adding alternate name to basket:', err);
+      setAliasError(err instanceof Error ? err.message : 'Failed to add the alternate name to the basket');
+    }
+  };
+
   // Loading state
   if (loading && dutyStations.length === 0) {
     return (
@@ -262,12 +354,42 @@ function StationDetailPage() {
           variant="contained"
           startIcon={<EditIcon />}
           onClick={handleOpenCorrectionDialog}
-          disabled={isObsolete}
+          disabled={isObsolete || isHistorical}
         >
           Request Correction
         </Button>
       </Box>
 
+      {/* Coordinate anomaly warning */}
+      {coordinateAssessment?.anomaly && (
+        <Alert
+          severity="warning"
+          sx={{ mb: 3 }}
+          action={coordinateAssessment.suggestion && (
+            <Button
+              color="inherit"
+              size="small"
+              startIcon={<FixIcon />}
+              onClick={handleApplySuggestedFix}
+              disabled={isObsolete || isHistorical}
+            >
+              Use Suggested Fix
+            </Button>
+          )}
+        >
+          <AlertTitle>Suspicious Coordinates: {COORDINATE_ANOMALY_LABELS[coordinateAssessment.anomaly]}</AlertTitle>
+          {coordinateAssessment.message}.
+          {coordinateAssessment.suggestion && (
+            <Box sx={{ mt: 1 }}>
+              Suggested fix: {coordinateAssessment.suggestion.description.toLowerCase()} →{' '}
+              <Box component="span" sx={{ fontFamily: 'monospace' }}>
+                {coordinateAssessment.suggestion.latitude.toFixed(6)}, {coordinateAssessment.suggestion.longitude.toFixed(6)}
+              </Box>
+            </Box>
+          )}
+        </Alert>
+      )}
+
       {/* Main Content Grid */}
       <Grid container spacing={3}>
         {/* Station Information Cards */}
@@ -329,6 +451,47 @@ function StationDetailPage() {
             </CardContent>
           </Card>
 
+          {/* Alternate Names */}
+          <Card sx={{ mb: 3 }}>
+            <CardContent>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <TranslateIcon color="primary" />
+                  Alternate Names
+                </Typography>
+                <Button
+                  size="small"
+                  startIcon={<AddIcon />}
+                  onClick={handleOpenAliasDialog}
+                  disabled={isObsolete || isHistorical}
+                >
+                  Propose Name
+                </Button>
+              </Box>
+              <Divider sx={{ mb: 1 }} />
+              {alternateNames.length > 0 ? (
+                <List dense disablePadding>
+                  {alternateNames.map(alternate => (
+                    <ListItem key={`${alternate.language}-${alternate.name}`} disableGutters>
+                      <ListItemText
+                        primary={
+                          <span lang={alternate.language} dir={getLanguageDirection(alternate.language)}>
+                            {alternate.name}
+                          </span>
+                        }
+                        secondary={UN_LANGUAGE_LABELS[alternate.language]}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              ) : (
+                <Typography variant="body2" color="text.secondary">
+                  No alternate names are recorded for this duty station.
+                </Typography>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Coordinates Information */}
           <Card>
             <CardContent>
@@ -355,6 +518,25 @@ function StationDetailPage() {
                       {station.LONGITUDE.toFixed(6)}°
                     </Typography>
                   </Grid>
+                  {coordinateAssessment && (
+                    <Grid size={{ xs: 12 }}>
+                      <Typography variant="body2" color="text.secondary">
+                        Coordinate Confidence
+                      </Typography>
+                      <Tooltip title={coordinateAssessment.message}>
+                        <Chip
+                          label={coordinateAssessment.verified
+                            ? `${Math.round(coordinateAssessment.confidence * 100)}%`
+                            : 'Not verified'}
+                          color={coordinateAssessment.anomaly
+                            ? 'warning'
+                            : coordinateAssessment.confidence >= 0.8 ? 'success' : 'default'}
+                          size="small"
+                          variant="outlined"
+                        />
+                      </Tooltip>
+                    </Grid>
+                  )}
                   <Grid size={{ xs: 12 }}>
                     <Box sx={{ mt: 1 }}>
                       <Button
@@ -368,7 +550,7 @@ function StationDetailPage() {
                         size="small"
                         startIcon={<EditIcon />}
                         onClick={handleOpenCorrectionDialog}
-                        disabled={isObsolete}
+                        disabled={isObsolete || isHistorical}
                         sx={{ ml: 1 }}
                       >
                         Correct Coordinates
@@ -380,7 +562,7 @@ function StationDetailPage() {
                 <Alert severity="info">
                   No coordinates available for this duty station.
                   <Box sx={{ mt: 1 }}>
-                    <Button size="small" variant="outlined" onClick={handleOpenCorrectionDialog}>
+                    <Button size="small" variant="outlined" onClick={handleOpenCorrectionDialog} disabled={isHistorical}>
                       Add Coordinates
                     </Button>
                   </Box>
@@ -591,6 +773,88 @@ function StationDetailPage() {
           </Button>
         </DialogActions>
       </Dialog>
+
+      {/* Alternate Name Dialog */}
+      <Dialog
+        open={aliasDialogOpen}
+        onClose={() => setAliasDialogOpen(false)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>
+          Propose Alternate Name
+        </DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Propose the name of <strong>{station.CITY_NAME}</strong> ({station.CITY_CODE}) in one of the UN official languages.
+          </Typography>
+          {aliasError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {aliasError}
+            </Alert>
+          )}
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, sm: 4 }}>
+              <TextField
+                select
+                fullWidth
+                label="Language"
+                value={aliasLanguage}
+                onChange={(e) => setAliasLanguage(e.target.value as UNLanguage)}
+              >
+                {UN_LANGUAGES.map(language => (
+                  <MenuItem key={language} value={language}>
+                    {UN_LANGUAGE_LABELS[language]}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 8 }}>
+              <TextField
+                fullWidth
+                label="Alternate Name"
+                value={aliasName}
+                onChange={(e) => setAliasName(e.target.value)}
+                error={aliasExists}
+                helperText={aliasExists ? 'This name is already recorded for this language' : ' '}
+                slotProps={{
+                  htmlInput: {
+                    lang: aliasLanguage,
+                    dir: getLanguageDirection(aliasLanguage),
+                    maxLength: 100,
+                  },
+                }}
+                required
+              />
+            </Grid>
+            <Grid size={{ xs: 12 }}>
+              <TextField
+                fullWidth
+                multiline
+                rows={3}
+                label="Justification (Required)"
+                placeholder="Please give the source of this name, e.g. the UNTERM entry..."
+                value={aliasJustification}
+                onChange={(e) => setAliasJustification(e.target.value)}
+                helperText="Minimum 10 characters"
+                required
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAliasDialogOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSubmitAlias}
+            disabled={!aliasName.trim() || aliasExists || aliasJustification.trim().length < 10}
+          >
+            Add to Basket
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Container>
   );
 }
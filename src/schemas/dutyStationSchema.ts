@@ -1,5 +1,6 @@
 // Zod validation schema for duty station requests
 import { z } from 'zod';
+import type { RequestStatus } from '../types/request';
 
 /**
  * Request types supported by the system
@@ -9,6 +10,7 @@ export const RequestType = {
   UPDATE: 'update',
   REMOVE: 'remove',
   COORDINATE_UPDATE: 'coordinate_update',
+  ALIAS: 'alias',
 } as const;
 
 export type RequestTypeValue = typeof RequestType[keyof typeof RequestType];
@@ -36,6 +38,7 @@ const baseRequestSchema = z.object({
     RequestType.UPDATE,
     RequestType.REMOVE,
     RequestType.COORDINATE_UPDATE,
+    RequestType.ALIAS,
   ]),
   requestDate: z.date().default(() => new Date()),
   submittedBy: z
@@ -75,6 +78,8 @@ export const addDutyStationSchema = baseRequestSchema.extend({
       z.literal(''),
     ])
     .optional(),
+  // Set when the submitter confirmed the station is distinct from similar existing stations
+  distinctLocationConfirmed: z.boolean().optional(),
 });
 
 /**
@@ -140,6 +145,25 @@ export const coordinateUpdateSchema = baseRequestSchema.extend({
   proposedCoordinates: coordinateSchema,
 });
 
+/**
+ * Alternate name (alias) request schema - adds a name in one of the UN official languages
+ */
+export const alternateNameSchema = baseRequestSchema.extend({
+  requestType: z.literal(RequestType.ALIAS),
+  dutyStationCode: z.string().min(1, 'Duty station code is required'),
+  countryCode: z
+    .string()
+    .min(1, 'Country code is required')
+    .max(10, 'Country code must be less than 10 characters'),
+  stationName: z.string(),
+  language: z.enum(['ar', 'zh', 'en', 'fr', 'ru', 'es'], 'Please select a UN official language'),
+  alternateName: z
+    .string()
+    .trim()
+    .min(1, 'Alternate name is required')
+    .max(100, 'Alternate name must be less than 100 characters'),
+});
+
 /**
  * Union type for all request schemas
  */
@@ -148,6 +172,7 @@ export const dutyStationRequestSchema = z.discriminatedUnion('requestType', [
   updateDutyStationSchema,
   removeDutyStationSchema,
   coordinateUpdateSchema,
+  alternateNameSchema,
 ]);
 
 /**
@@ -157,6 +182,7 @@ export type AddDutyStationRequest = z.infer<typeof addDutyStationSchema>;
 export type UpdateDutyStationRequest = z.infer<typeof updateDutyStationSchema>;
 export type RemoveDutyStationRequest = z.infer<typeof removeDutyStationSchema>;
 export type CoordinateUpdateRequest = z.infer<typeof coordinateUpdateSchema>;
+export type AlternateNameRequest = z.infer<typeof alternateNameSchema>;
 export type DutyStationRequest = z.infer<typeof dutyStationRequestSchema>;
 
 /**
@@ -167,7 +193,7 @@ export interface BasketItem {
   request: DutyStationRequest;
   addedAt: Date;
   priority: number;
-  status: 'pending' | 'submitted' | 'approved' | 'rejected';
+  status: RequestStatus;
 }
 
 /**
@@ -0,0 +1,159 @@
+// Autocomplete over station names, common names, alternate names, codes, countries and regions
+// Suggestions come from a prefix index and are ranked by how well the prefix matches, whether the
+// station is still active, and how often the user picked the suggestion before (kept in localStorage)
+
+import type { DutyStation } from '../types';
+import type { Suggestion, SuggestionOptions } from '../types/search';
+import { buildPrefixIndex, findByPrefix, type PrefixIndex } from '../utils/prefixIndex';
+import { getStationKey } from '../utils/datasetDiff';
+import { normalizeText } from '../utils/textNormalization';
+
+const SELECTION_COUNTS_KEY = 'un_duty_station_suggestion_selections';
+// Only the most picked suggestions are remembered
+const MAX_SELECTION_COUNTS = 500;
+
+// A text something can be suggested for
+interface AutocompleteTerm {
+  type: Suggestion['type'];
+  field: Suggestion['matchedField'];
+  value: string;
+  station?: DutyStation;
+}
+
+export type AutocompleteIndex = PrefixIndex<AutocompleteTerm>;
+
+// Ranking: prefix quality, weighted by field, plus bonuses for active stations and past picks
+const PREFIX_SCORES = { exact: 1, start: 0.8, word: 0.6 };
+const FIELD_WEIGHTS: Record<Suggestion['matchedField'], number> = {
+  CITY_NAME: 1,
+  COUNTRY: 1,
+  REGION: 1,
+  CITY_COMMON_NAME: 0.9,
+  CITY_CODE: 0.85,
+  ALTERNATE_NAMES: 0.8,
+};
+// Shorter completions of the same prefix rank higher (Rome before Romeo)
+const COMPLETENESS_WEIGHT = 0.1;
+const ACTIVE_STATION_BONUS = 0.2;
+const SELECTION_BONUS_PER_DOUBLING = 0.1;
+const MAX_SELECTION_BONUS = 0.3;
+
+/**
+ * Build the autocomplete index for a station list
+ */
+export const buildAutocompleteIndex = (stations: DutyStation[]): AutocompleteIndex => {
+  const terms: AutocompleteTerm[] = [];
+  const countries = new Set<string>();
+  const regions = new Set<string>();
+
+  stations.forEach(station => {
+    terms.push({ type: 'station', field: 'CITY_NAME', value: station.CITY_NAME, station });
+    if (station.CITY_COMMON_NAME && station.CITY_COMMON_NAME !== station.CITY_NAME) {
+      terms.push({ type: 'station', field: 'CITY_COMMON_NAME', value: station.CITY_COMMON_NAME, station });
+    }
+    if (station.CITY_CODE) {
+      terms.push({ type: 'station', field: 'CITY_CODE', value: station.CITY_CODE, station });
+    }
+    station.ALTERNATE_NAMES?.forEach(alternate => {
+      terms.push({ type: 'station', field: 'ALTERNATE_NAMES', value: alternate.name, station });
+    });
+    if (station.COUNTRY) countries.add(station.COUNTRY);
+    if (station.REGION) regions.add(station.REGION);
+  });
+
+  countries.forEach(country => terms.push({ type: 'country', field: 'COUNTRY', value: country }));
+  regions.forEach(region => terms.push({ type: 'region', field: 'REGION', value: region }));
+
+  return buildPrefixIndex(terms, term => term.value);
+};
+
+/**
+ * Key a suggestion's selections are counted under
+ */
+export const getSuggestionKey = (suggestion: Pick<Suggestion, 'type' | 'text' | 'station'>): string =>
+  suggestion.station ? `station:${getStationKey(suggestion.station)}` : `${suggestion.type}:${suggestion.text}`;
+
+/**
+ * Ranked suggestions for what has been typed so far
+ * @param index - Index from buildAutocompleteIndex
+ * @param query - Text typed so far
+ * @param maxSuggestions - Maximum number of suggestions
+ * @param options - Suggestion types, country and obsolete filters, and past selections
+ * @returns Best suggestions first, one per station, country or region
+ */
+export const getAutocompleteSuggestions = (
+  index: AutocompleteIndex,
+  query: string,
+  maxSuggestions: number,
+  options: SuggestionOptions = {}
+): Suggestion[] => {
+  const { types, country, includeObsolete = true, selectionCounts = {} } = options;
+  const normalizedCountry = country ? normalizeText(country) : null;
+  const normalizedQuery = normalizeText(query.trim());
+
+  const best = new Map<string, Suggestion>();
+  findByPrefix(index, query).forEach(({ item: term, offset, exact }) => {
+    const { station } = term;
+    if (types && !types.includes(term.type)) return;
+    if (station && !includeObsolete && station.OBSOLETE === '1') return;
+    if (station && normalizedCountry && normalizeText(station.COUNTRY || '') !== normalizedCountry) return;
+
+    const prefixScore = exact ? PREFIX_SCORES.exact : offset === 0 ? PREFIX_SCORES.start : PREFIX_SCORES.word;
+    const completeness = normalizedQuery.length / Math.max(normalizeText(term.value).length - offset, 1);
+    const suggestion: Suggestion = {
+      type: term.type,
+      text: station ? station.CITY_NAME : term.value,
+      matchedField: term.field,
+      matchedText: term.value,
+      station,
+      score: 0,
+    };
+    const selections = selectionCounts[getSuggestionKey(suggestion)] ?? 0;
+    suggestion.score = prefixScore * FIELD_WEIGHTS[term.field]
+      + COMPLETENESS_WEIGHT * Math.min(completeness, 1)
+      + (station && station.OBSOLETE === '1' ? 0 : ACTIVE_STATION_BONUS)
+      + Math.min(MAX_SELECTION_BONUS, SELECTION_BONUS_PER_DOUBLING * Math.log2(1 + selections));
+
+    // A station found by several of its names is suggested once, by its best match
+    const key = getSuggestionKey(suggestion);
+    const existing = best.get(key);
+    if (!existing || existing.score < suggestion.score) {
+      best.set(key, suggestion);
+    }
+  });
+
+  return Array.from(best.values())
+    .sort((a, b) => b.score - a.score || a.text.localeCompare(b.text))
+    .slice(0, maxSuggestions);
+};
+
+/**
+ * Load how often each suggestion was picked
+ */
+export const loadSelectionCounts = (): Record<string, number> => {
+  try {
+    const stored = localStorage.getItem(SELECTION_COUNTS_KEY);
+    return stored ? (JSON.parse(stored) as Record<string, number>) : {};
+  } catch (error) {
+    console.error('Error loading suggestion selections from localStorage:', error);
+    return {};
+  }
+};
+
+/**
+ * Count a picked suggestion, so it ranks higher next time
+ */
+export const recordSuggestionSelection = (suggestion: Pick<Suggestion, 'type' | 'text' | 'station'>): void => {
+  const counts = loadSelectionCounts();
+  const key = getSuggestionKey(suggestion);
+  counts[key] = (counts[key] ?? 0) + 1;
+
+  const kept = Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_SELECTION_COUNTS);
+  try {
+    localStorage.setItem(SELECTION_COUNTS_KEY, JSON.stringify(Object.fromEntries(kept)));
+  } catch (error) {
+    console.error('Error saving suggestion selections to localStorage:', error);
+  }
+};
@@ -1,13 +1,44 @@
 // Request basket service with localStorage persistence
 import type { BasketItem, DutyStationRequest, SubmissionResult } from '../schemas/dutyStationSchema';
-import type { BasketStats, RequestHistoryEntry } from '../types/request';
+import type { BasketStats, RequestHistoryEntry, RequestStatus, RequestStatusChange, ReviewDecision } from '../types/request';
+import {
+  getRequestKey,
+  isFinalStatus,
+  REQUEST_ACTOR_STATUSES,
+  transitionRequest,
+  UnauthorizedStatusTransitionError,
+} from './requestLifecycleService';
 import { sendBatchRequests, isEmailConfigured } from './emailService';
 import { generateDutyStationCode } from '../utils/codeGenerator';
+import { getProposedUpdate } from '../utils/proposedChanges';
 import { fetchDutyStations } from './dataService';
+import { findAddRequestDuplicates, DuplicateStationError } from './duplicateService';
+import type { DutyStation } from '../types';
 
 const BASKET_STORAGE_KEY = 'un_duty_station_basket';
 const HISTORY_STORAGE_KEY = 'un_duty_station_history';
 
+/**
+ * Check whether an UPDATE or COORDINATE_UPDATE request proposes values different from the current ones
+ */
+export const hasProposedChange = (request: DutyStationRequest): boolean => {
+  switch (request.requestType) {
+    case 'update': {
+      const { name, commonName, coordinates } = getProposedUpdate(request.proposedChanges);
+      const current = request.currentData;
+      return (!!name && name !== current.name) ||
+        (!!commonName && commonName !== (current.commonName ?? '')) ||
+        (!!coordinates &&
+          (coordinates.latitude !== current.coordinates.latitude || coordinates.longitude !== current.coordinates.longitude));
+    }
+    case 'coordinate_update':
+      return request.proposedCoordinates.latitude !== request.currentCoordinates.latitude ||
+        request.proposedCoordinates.longitude !== request.currentCoordinates.longitude;
+    default:
+      return true;
+  }
+};
+
 /**
  * Generate unique ID for basket items
  */
@@ -15,6 +46,50 @@ const generateId = (): string => {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 };
 
+/**
+ * Convert a stored basket item's date strings back to Date objects
+ * Baskets saved before the request lifecycle marked drafts as 'pending'
+ */
+const reviveBasketItem = (item: BasketItem): BasketItem => ({
+  ...item,
+  status: (item.status as string) === 'pending' ? 'draft' : item.status,
+  addedAt: new Date(item.addedAt),
+  request: {
+    ...item.request,
+    requestDate: new Date(item.request.requestDate),
+  },
+});
+
+/**
+ * Describe the station a request is about, e.g. "NBO - Nairobi"
+ */
+const getRequestStationLabel = (request: DutyStationRequest): string => {
+  switch (request.requestType) {
+    case 'add':
+      return [request.proposedCode, request.name].filter(Boolean).join(' - ');
+    case 'alias':
+      return `${request.dutyStationCode} - ${request.stationName} → ${request.alternateName}`;
+    case 'coordinate_update':
+      return [request.dutyStationCode, request.currentData?.name || request.stationName].filter(Boolean).join(' - ');
+    default:
+      return [request.dutyStationCode, request.currentData?.name].filter(Boolean).join(' - ');
+  }
+};
+
+/**
+ * Review key of a request, see getRequestKey
+ */
+const getHistoryRequestKey = (request: DutyStationRequest): string => {
+  switch (request.requestType) {
+    case 'add':
+      return getRequestKey('add', request.proposedCode || '', request.countryCode, request.name);
+    case 'alias':
+      return getRequestKey('alias', request.dutyStationCode, request.countryCode, request.alternateName);
+    default:
+      return getRequestKey(request.requestType, request.dutyStationCode, request.countryCode);
+  }
+};
+
 /**
  * Load basket from localStorage
  * Validates items to ensure email addresses are present
@@ -26,14 +101,7 @@ export const loadBasket = (): BasketItem[] => {
 
     const parsed = JSON.parse(stored);
     // Convert date strings back to Date objects and validate
-    const items = parsed.map((item: BasketItem) => ({
-      ...item,
-      addedAt: new Date(item.addedAt),
-      request: {
-        ...item.request,
-        requestDate: new Date(item.request.requestDate),
-      },
-    }));
+    const items = parsed.map(reviveBasketItem);
     
     // Filter out items with missing or invalid email addresses
     const validItems = items.filter((item: BasketItem) => {
@@ -77,32 +145,54 @@ export const saveBasket = (basket: BasketItem[]): void => {
 
 /**
  * Add request to basket
+ * ADD requests are checked for duplicates of existing stations and pending requests first:
+ * likely duplicates throw a DuplicateStationError unless the request is confirmed as distinct
  * Generates Duty Station Code for ADD requests if not provided
  */
 export const addToBasket = async (request: DutyStationRequest): Promise<BasketItem> => {
   const basket = loadBasket();
+
+  if (!hasProposedChange(request)) {
+    throw new Error('The request proposes no change: enter the corrected values before adding it to the basket');
+  }
   
-  // Generate code for ADD requests if not provided
-  if (request.requestType === 'add' && !request.proposedCode) {
+  if (request.requestType === 'add') {
+    let existingStations: DutyStation[] | null = null;
     try {
-      // Get existing stations and requests to check for uniqueness
-      const existingStations = await fetchDutyStations();
-      const existingRequests = basket
-        .map(item => item.request)
-        .filter(req => req.requestType === 'add');
-      
-      // Generate unique code
-      const generatedCode = generateDutyStationCode(
-        request.name,
-        existingStations,
-        existingRequests
-      );
-      
-      // Add generated code to request
-      request.proposedCode = generatedCode;
+      existingStations = await fetchDutyStations();
     } catch (error) {
-      console.error('Error generating duty station code:', error);
-      // Continue without code - user can add manually later
+      console.error('Error loading duty stations for ADD request checks:', error);
+    }
+
+    // Refuse likely duplicates the submitter has not confirmed as a distinct location
+    if (existingStations && !request.distinctLocationConfirmed) {
+      const duplicates = findAddRequestDuplicates(request, existingStations, basket);
+      if (duplicates.length > 0) {
+        throw new DuplicateStationError(duplicates);
+      }
+    }
+
+    // Generate code if not provided
+    if (existingStations && !request.proposedCode) {
+      try {
+        // Check existing stations and requests for uniqueness
+        const existingRequests = basket
+          .map(item => item.request)
+          .filter(req => req.requestType === 'add');
+        
+        // Generate unique code
+        const generatedCode = generateDutyStationCode(
+          request.name,
+          existingStations,
+          existingRequests
+        );
+        
+        // Add generated code to request
+        request.proposedCode = generatedCode;
+      } catch (error) {
+        console.error('Error generating duty station code:', error);
+        // Continue without code - user can add manually later
+      }
     }
   }
   
@@ -111,7 +201,7 @@ export const addToBasket = async (request: DutyStationRequest): Promise<BasketIt
     request,
     addedAt: new Date(),
     priority: basket.length + 1,
-    status: 'pending',
+    status: 'draft',
   };
 
   basket.push(newItem);
@@ -186,11 +276,12 @@ export const clearBasket = (): void => {
 export const getBasketStats = (basket: BasketItem[]): BasketStats => {
   return {
     totalItems: basket.length,
-    pendingItems: basket.filter(item => item.status === 'pending').length,
+    pendingItems: basket.filter(item => item.status === 'draft').length,
     addRequests: basket.filter(item => item.request.requestType === 'add').length,
     updateRequests: basket.filter(item => item.request.requestType === 'update').length,
     removeRequests: basket.filter(item => item.request.requestType === 'remove').length,
     coordinateUpdateRequests: basket.filter(item => item.request.requestType === 'coordinate_update').length,
+    aliasRequests: basket.filter(item => item.request.requestType === 'alias').length,
   };
 };
 
@@ -203,14 +294,23 @@ export const loadHistory = (): RequestHistoryEntry[] => {
     if (!stored) return [];
 
     const parsed = JSON.parse(stored);
-    return parsed.map((entry: RequestHistoryEntry) => ({
-      ...entry,
-      submittedAt: new Date(entry.submittedAt),
-      request: {
-        ...entry.request,
-        requestDate: new Date(entry.request.requestDate),
-      },
-    }));
+    return parsed.map((entry: RequestHistoryEntry) => {
+      const submittedAt = new Date(entry.submittedAt);
+      // Entries saved before the audit log only record their submission
+      const auditLog: RequestStatusChange[] = entry.auditLog
+        ? entry.auditLog.map(change => ({ ...change, changedAt: new Date(change.changedAt) }))
+        : [{ from: null, to: entry.status, changedBy: entry.request.submittedBy, changedAt: submittedAt }];
+
+      return {
+        ...entry,
+        submittedAt,
+        request: {
+          ...entry.request,
+          requestDate: new Date(entry.request.requestDate),
+        },
+        auditLog,
+      };
+    });
   } catch (error) {
     console.error('Error loading history from localStorage:', error);
     return [];
@@ -229,34 +329,121 @@ export const saveHistory = (history: RequestHistoryEntry[]): void => {
 };
 
 /**
- * Add entry to request history
+ * Add a submitted basket item to the request history
+ * The audit log starts with the draft being added to the basket, followed by its submission
  */
 export const addToHistory = (item: BasketItem, confirmationId?: string): void => {
   const history = loadHistory();
-  
-  const entry: RequestHistoryEntry = {
+  const { submittedBy } = item.request;
+
+  const draft: RequestHistoryEntry = {
     id: item.id,
     request: {
       id: item.id,
       requestType: item.request.requestType,
       requestDate: item.request.requestDate,
-      submittedBy: item.request.submittedBy,
+      submittedBy,
       organization: item.request.organization,
       justification: item.request.justification,
-      status: item.status,
+      status: 'draft',
     },
     submittedAt: new Date(),
     confirmationId,
-    status: 'submitted',
+    status: 'draft',
+    stationLabel: getRequestStationLabel(item.request),
+    requestKey: getHistoryRequestKey(item.request),
+    auditLog: [{ from: null, to: 'draft', changedBy: submittedBy, changedAt: new Date(item.addedAt) }],
   };
 
-  history.unshift(entry); // Add to beginning
+  history.unshift(transitionRequest(draft, 'submitted', submittedBy)); // Add to beginning
   
   // Keep only last 100 entries
   const trimmed = history.slice(0, 100);
   saveHistory(trimmed);
 };
 
+/**
+ * Move a request in the history to a new status on the submitter's behalf, e.g. to withdraw it
+ * Review decisions are applied with applyReviewDecisions instead.
+ * @param entryId - Request history entry ID
+ * @param status - New status
+ * @param changedBy - Who made the change
+ * @param note - Optional note, e.g. the reason for a withdrawal
+ * @returns The updated history
+ * @throws UnauthorizedStatusTransitionError when only the reviewer can set the new status
+ * @throws InvalidStatusTransitionError when the new status cannot be reached from the current one
+ */
+export const updateRequestStatus = (
+  entryId: string,
+  status: RequestStatus,
+  changedBy: string,
+  note?: string
+): RequestHistoryEntry[] => {
+  const history = loadHistory();
+  const entry = history.find(e => e.id === entryId);
+  if (!entry) {
+    throw new Error('Request not found in history');
+  }
+  if (!REQUEST_ACTOR_STATUSES.submitter.includes(status)) {
+    throw new UnauthorizedStatusTransitionError('submitter', status);
+  }
+
+  const updated = history.map(e => (e === entry ? transitionRequest(entry, status, changedBy, note) : e));
+  saveHistory(updated);
+  return updated;
+};
+
+/**
+ * Outcome of applying a reviewer's decision file to the request history
+ */
+export interface ReviewDecisionImportResult {
+  history: RequestHistoryEntry[];
+  applied: number;
+  alreadyDecided: number;      // Requests that were already approved, rejected or withdrawn
+  unmatched: ReviewDecision[];  // Decisions on requests not in this history
+}
+
+/**
+ * Apply a reviewer's decisions to the request history
+ * Requests are matched by ID when the reviewer had it, otherwise by request key.
+ * Submitted requests are moved to under review first, so the timeline shows both steps.
+ */
+export const applyReviewDecisions = (decisions: ReviewDecision[]): ReviewDecisionImportResult => {
+  let history = loadHistory();
+  let applied = 0;
+  let alreadyDecided = 0;
+  const unmatched: ReviewDecision[] = [];
+
+  decisions.forEach(decision => {
+    const byId = decision.requestId ? history.filter(entry => entry.id === decision.requestId) : [];
+    const matches = byId.length > 0
+      ? byId
+      : history.filter(entry => entry.requestKey === decision.requestKey);
+
+    if (matches.length === 0) {
+      unmatched.push(decision);
+      return;
+    }
+
+    history = history.map(entry => {
+      if (!matches.includes(entry)) return entry;
+      if (isFinalStatus(entry.status)) {
+        alreadyDecided++;
+        return entry;
+      }
+
+      const underReview = entry.status === 'under_review'
+        ? entry
+        : transitionRequest(entry, 'under_review', decision.reviewedBy, undefined, decision.reviewedAt);
+      applied++;
+      return transitionRequest(underReview, decision.decision, decision.reviewedBy, decision.reason, decision.reviewedAt);
+    });
+  });
+
+  saveHistory(history);
+  return { history, applied, alreadyDecided, unmatched };
+};
+
 /**
  * Submit basket items (batch submission)
  * Sends requests via EmailJS and updates history
@@ -295,6 +482,9 @@ export const submitBasket = async (items: BasketItem[]): Promise<SubmissionResul
       return emailResult;
     }
 
+    // Track submitted items in the request history
+    items.forEach(item => addToHistory(item));
+
     // Remove submitted items from basket
     const currentBasket = loadBasket();
     const itemIds = items.map(i => i.id);
@@ -341,14 +531,7 @@ export const importBasketFromJson = (jsonString: string): BasketItem[] | null =>
     }
     
     // Convert dates
-    const items = parsed.map((item: BasketItem) => ({
-      ...item,
-      addedAt: new Date(item.addedAt),
-      request: {
-        ...item.request,
-        requestDate: new Date(item.request.requestDate),
-      },
-    }));
+    const items = parsed.map(reviveBasketItem);
 
     // Merge with existing basket
     const currentBasket = loadBasket();
@@ -0,0 +1,231 @@
+// Bulk lookup service - resolves lists of free-text city names (e.g. from payroll spreadsheets)
+// to duty stations through the search engine, and builds the enriched export
+import type { DutyStation } from '../types';
+import { searchDutyStations } from './searchService';
+import { SearchQueryError } from '../utils/searchQuery';
+import { normalizeText } from '../utils/textNormalization';
+import { parseCSV } from '../utils/csvParser';
+import { readXlsxRows } from '../utils/xlsxReader';
+
+/**
+ * One row to resolve - the city text and, when the input has one, a country column
+ */
+export interface BulkLookupQuery {
+  text: string;
+  country?: string;
+}
+
+export interface BulkLookupCandidate {
+  station: DutyStation;
+  confidence: number;          // 0-1, from the hybrid search ranking
+  explanation?: string;
+}
+
+export type BulkLookupStatus = 'matched' | 'ambiguous' | 'unmatched';
+
+export interface BulkLookupResult {
+  status: BulkLookupStatus;
+  candidates: BulkLookupCandidate[];   // Best first
+}
+
+/**
+ * Pasted or uploaded rows, with the header row split off when there is one
+ */
+export interface BulkLookupTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export const BULK_LOOKUP_STATUS_LABELS: Record<BulkLookupStatus, string> = {
+  matched: 'Matched',
+  ambiguous: 'Needs review',
+  unmatched: 'No match',
+};
+
+// A single candidate at or above this confidence is accepted without review
+const MATCH_CONFIDENCE = 0.75;
+// Below this, candidates are only offered for a manual pick
+const MIN_CONFIDENCE = 0.5;
+// Candidates this close to the best one make the row ambiguous
+const AMBIGUITY_MARGIN = 0.05;
+const MAX_CANDIDATES = 5;
+
+const NAME_FIELDS = ['CITY_NAME', 'CITY_COMMON_NAME', 'ALTERNATE_NAMES'];
+
+/**
+ * Country codes by normalized country name and code
+ */
+export const buildCountryLookup = (stations: DutyStation[]): Map<string, string> => {
+  const lookup = new Map<string, string>();
+  stations.forEach(station => {
+    lookup.set(normalizeText(station.COUNTRY_CODE), station.COUNTRY_CODE);
+    if (station.COUNTRY) lookup.set(normalizeText(station.COUNTRY), station.COUNTRY_CODE);
+  });
+  return lookup;
+};
+
+/**
+ * Split a country off "City, Country" or "City (Country)" when it names a known country
+ */
+const splitCountry = (text: string, countries: Map<string, string>): { city: string; countryCode: string | null } => {
+  const match = text.match(/^(.+?)\s*(?:,\s*([^,]+)|\(([^)]+)\))\s*$/);
+  if (!match) return { city: text, countryCode: null };
+
+  const countryCode = countries.get(normalizeText((match[2] ?? match[3]).trim()));
+  return countryCode ? { city: match[1], countryCode } : { city: text, countryCode: null };
+};
+
+/**
+ * Strip characters the query language would interpret, so names are searched as typed
+ */
+const toSearchText = (text: string): string =>
+  text.replace(/["*]/g, ' ').replace(/(^|\s)-+/g, '$1').replace(/\s+/g, ' ').trim();
+
+/**
+ * Classify a row from its ranked candidates
+ */
+const classify = (candidates: BulkLookupCandidate[]): BulkLookupStatus => {
+  const best = candidates[0];
+  if (!best || best.confidence < MIN_CONFIDENCE) return 'unmatched';
+
+  const contenders = candidates.filter(candidate => candidate.confidence >= best.confidence - AMBIGUITY_MARGIN);
+  return contenders.length > 1 || best.confidence < MATCH_CONFIDENCE ? 'ambiguous' : 'matched';
+};
+
+/**
+ * Resolve rows of free text to duty stations
+ * Each row runs a ranked (hybrid) search over official, common and alternate names,
+ * restricted to the row's country when one is given. Active stations are searched first;
+ * obsolete stations are only offered when no active station matches.
+ * @returns One result per query, in the same order
+ */
+export const resolveBulkLookup = (stations: DutyStation[], queries: BulkLookupQuery[]): BulkLookupResult[] => {
+  const countries = buildCountryLookup(stations);
+  const stationsByCountry = new Map<string, DutyStation[]>();
+  const getCountryStations = (countryCode: string) => {
+    let countryStations = stationsByCountry.get(countryCode);
+    if (!countryStations) {
+      countryStations = stations.filter(station => station.COUNTRY_CODE === countryCode);
+      stationsByCountry.set(countryCode, countryStations);
+    }
+    return countryStations;
+  };
+
+  const search = (pool: DutyStation[], text: string, showObsolete: boolean) => {
+    try {
+      return searchDutyStations(pool, {
+        query: text,
+        searchType: 'hybrid',
+        fields: NAME_FIELDS,
+        countryFilter: 'all',
+        showObsolete,
+      });
+    } catch (error) {
+      if (error instanceof SearchQueryError) return [];
+      throw error;
+    }
+  };
+
+  return queries.map((query): BulkLookupResult => {
+    const split = splitCountry(query.text.trim(), countries);
+    const columnCountry = query.country?.trim() ? countries.get(normalizeText(query.country.trim())) ?? null : null;
+    const countryCode = columnCountry ?? split.countryCode;
+    const text = toSearchText(split.city);
+    if (!text) return { status: 'unmatched', candidates: [] };
+
+    const pool = countryCode ? getCountryStations(countryCode) : stations;
+    let results = search(pool, text, false);
+    if (results.length === 0) {
+      results = search(pool, text, true);
+    }
+
+    const candidates = results.slice(0, MAX_CANDIDATES).map(result => ({
+      station: result.item,
+      confidence: Math.max(0, 1 - (result.score ?? 1)),
+      explanation: result.explanations?.[0],
+    }));
+    return { status: classify(candidates), candidates };
+  });
+};
+
+/**
+ * Turn pasted text into a table - tab-separated (copied from a spreadsheet) or one value per line
+ */
+export const parsePastedTable = (text: string, hasHeader: boolean): BulkLookupTable => {
+  const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim());
+  return toBulkLookupTable(lines.map(line => line.split('\t')), hasHeader);
+};
+
+/**
+ * Read the raw rows of an uploaded CSV or XLSX (first sheet) file
+ * @throws ZipArchiveError when an .xlsx file cannot be read
+ */
+export const readTableFile = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    return readXlsxRows(await file.arrayBuffer());
+  }
+  const parsed = parseCSV(await file.text());
+  return [parsed.headers, ...parsed.rows.map(row => parsed.headers.map(header => row[header] ?? ''))];
+};
+
+/**
+ * Build a table from raw rows; blank rows are dropped and headers default to "Column N"
+ */
+export const toBulkLookupTable = (rows: string[][], hasHeader: boolean): BulkLookupTable => {
+  const nonEmpty = rows.filter(row => row.some(cell => cell.trim()));
+  const width = Math.max(0, ...nonEmpty.map(row => row.length));
+  const headerRow = hasHeader ? nonEmpty[0] ?? [] : [];
+  const headers = Array.from({ length: width }, (_, i) => headerRow[i]?.trim() || `Column ${i + 1}`);
+  const dataRows = (hasHeader ? nonEmpty.slice(1) : nonEmpty)
+    .map(row => Array.from({ length: width }, (_, i) => row[i] ?? ''));
+  return { headers, rows: dataRows };
+};
+
+/**
+ * Guess the city and country columns from the headers
+ */
+export const guessLookupColumns = (headers: string[]): { cityColumn: number; countryColumn: number | null } => {
+  const find = (pattern: RegExp) => headers.findIndex(header => pattern.test(header));
+  const countryColumn = find(/country|pays|pa[ií]s/i);
+  let cityColumn = find(/city|station|location|town|ville|ciudad|place/i);
+  if (cityColumn < 0 || cityColumn === countryColumn) {
+    cityColumn = headers.findIndex((_, index) => index !== countryColumn);
+  }
+  return {
+    cityColumn: Math.max(0, cityColumn),
+    countryColumn: countryColumn >= 0 ? countryColumn : null,
+  };
+};
+
+/**
+ * Original rows enriched with the chosen station
+ * Original columns that clash with the added ones are kept with an "(original)" suffix
+ * @param selections - Chosen station per row (null when unresolved)
+ */
+export const buildBulkLookupExport = (
+  table: BulkLookupTable,
+  results: BulkLookupResult[],
+  selections: Array<DutyStation | null>
+): Array<Record<string, string | number>> => {
+  const added = ['CITY_CODE', 'COUNTRY_CODE', 'CITY_NAME', 'MATCH_STATUS', 'MATCH_CONFIDENCE'];
+  const headers = table.headers.map(header => (added.includes(header) ? `${header} (original)` : header));
+
+  return table.rows.map((row, index) => {
+    const record: Record<string, string | number> = {};
+    headers.forEach((header, column) => {
+      record[header] = row[column] ?? '';
+    });
+
+    const station = selections[index];
+    const result = results[index];
+    const candidate = station ? result?.candidates.find(c => c.station === station) : undefined;
+    record.CITY_CODE = station?.CITY_CODE ?? '';
+    record.COUNTRY_CODE = station?.COUNTRY_CODE ?? '';
+    record.CITY_NAME = station?.CITY_NAME ?? '';
+    record.MATCH_STATUS = !station
+      ? BULK_LOOKUP_STATUS_LABELS.unmatched
+      : result?.status === 'matched' && candidate === result.candidates[0] ? 'Matched' : 'Manual';
+    record.MATCH_CONFIDENCE = candidate ? Math.round(candidate.confidence * 100) : '';
+    return record;
+  });
+};
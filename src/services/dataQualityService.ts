@@ -0,0 +1,180 @@
+// Data quality service - runs the dataValidation checks against the loaded dataset
+// and turns findings into correction requests
+import type { DutyStation, Country } from '../types';
+import type { CodeListFile } from '../types/dataSource';
+import type { DutyStationRequest } from '../schemas/dutyStationSchema';
+import type { SubmitterContact } from './userPreferencesService';
+import {
+  checkDutyStation,
+  findDuplicateDutyStationCodes,
+  findStationsWithUnknownCountry,
+} from '../utils/dataValidation';
+import type { ValidationResult, ValidationRule, ValidationSeverity } from '../utils/dataValidation';
+
+/**
+ * Single data quality finding, optionally attached to a duty station
+ */
+export interface DataQualityFinding {
+  id: string;
+  rule: ValidationRule;
+  severity: ValidationSeverity;
+  message: string;
+  station?: DutyStation;
+}
+
+/**
+ * Human readable names of the validation rules
+ */
+export const VALIDATION_RULE_LABELS: Record<ValidationRule, string> = {
+  'missing-code': 'Missing duty station code',
+  'code-format': 'Unusual duty station code format',
+  'missing-country-code': 'Missing country code',
+  'country-code-format': 'Unusual country code format',
+  'missing-name': 'Missing name',
+  'short-name': 'Very short name',
+  'invalid-latitude': 'Latitude is not a number',
+  'latitude-range': 'Latitude out of range',
+  'invalid-longitude': 'Longitude is not a number',
+  'longitude-range': 'Longitude out of range',
+  'zero-coordinates': 'Coordinates at (0, 0)',
+  'invalid-obsolete': 'Invalid OBSOLETE flag',
+  'short-common-name': 'Very short common name',
+  'duplicate-code': 'Duplicate duty station code',
+  'unknown-country': 'Country code not in country list',
+  'unused-country': 'Countries without duty stations',
+  'csv-structure': 'CSV file structure',
+};
+
+const COORDINATE_RULES: ValidationRule[] = [
+  'invalid-latitude',
+  'latitude-range',
+  'invalid-longitude',
+  'longitude-range',
+  'zero-coordinates',
+];
+
+/**
+ * Run all data quality checks against the loaded dataset
+ * @param csvValidation - Structure validation of the source CSV files (including parse errors)
+ */
+export const runDataQualityChecks = (
+  dutyStations: DutyStation[],
+  countries: Country[],
+  csvValidation: Partial<Record<CodeListFile, ValidationResult>> = {}
+): DataQualityFinding[] => {
+  const findings: DataQualityFinding[] = [];
+  const stationKey = (station: DutyStation) => `${station.CITY_CODE}-${station.COUNTRY_CODE}`;
+
+  // Per-station field checks
+  dutyStations.forEach((station, index) => {
+    checkDutyStation(station).forEach(issue => {
+      findings.push({
+        id: `${issue.rule}-${stationKey(station)}-${index}`,
+        ...issue,
+        station,
+      });
+    });
+  });
+
+  // Duplicate codes - one finding per affected station
+  findDuplicateDutyStationCodes(dutyStations).forEach((rows, code) => {
+    rows.forEach(index => {
+      const station = dutyStations[index];
+      findings.push({
+        id: `duplicate-code-${stationKey(station)}-${index}`,
+        rule: 'duplicate-code',
+        severity: 'error',
+        message: `Duty station code ${code} is used by ${rows.length} rows`,
+        station,
+      });
+    });
+  });
+
+  // Cross-reference with the countries list
+  findStationsWithUnknownCountry(dutyStations, countries).forEach((station, index) => {
+    findings.push({
+      id: `unknown-country-${stationKey(station)}-${index}`,
+      rule: 'unknown-country',
+      severity: 'warning',
+      message: `Country code "${station.COUNTRY_CODE}" is not found in the countries data`,
+      station,
+    });
+  });
+
+  const usedCountryCodes = new Set(dutyStations.map(s => s.COUNTRY_CODE));
+  const unusedCountries = countries.filter(c => c.OBSOLETE !== '1' && !usedCountryCodes.has(c.COUNTRY_CODE));
+  if (unusedCountries.length > 0) {
+    findings.push({
+      id: 'unused-country',
+      rule: 'unused-country',
+      severity: 'warning',
+      message: `${unusedCountries.length} active countries have no associated duty stations: ` +
+        unusedCountries.map(c => c.COUNTRY_NAME).join(', '),
+    });
+  }
+
+  // Problems found while parsing the source files
+  Object.entries(csvValidation).forEach(([file, result]) => {
+    result?.errors.forEach((message, index) => {
+      findings.push({ id: `csv-error-${file}-${index}`, rule: 'csv-structure', severity: 'error', message: `${file}: ${message}` });
+    });
+    result?.warnings.forEach((message, index) => {
+      findings.push({ id: `csv-warning-${file}-${index}`, rule: 'csv-structure', severity: 'warning', message: `${file}: ${message}` });
+    });
+  });
+
+  return findings;
+};
+
+/**
+ * Build a correction request for a finding, pre-filled with the station's current data
+ * The corrected values are left for the submitter to enter in the request form.
+ * Returns null for findings that are not attached to a station
+ */
+export const createCorrectionRequest = (
+  finding: DataQualityFinding,
+  contact: SubmitterContact
+): DutyStationRequest | null => {
+  const { station } = finding;
+  if (!station) return null;
+
+  const currentData = {
+    name: station.CITY_NAME,
+    country: station.COUNTRY || '',
+    commonName: station.CITY_COMMON_NAME || undefined,
+  };
+  const coordinates = {
+    latitude: Number.isFinite(station.LATITUDE) ? station.LATITUDE : 0,
+    longitude: Number.isFinite(station.LONGITUDE) ? station.LONGITUDE : 0,
+  };
+  const justification = `Data quality check (${VALIDATION_RULE_LABELS[finding.rule]}): ${finding.message}. ` +
+    'Please verify and correct this duty station.';
+
+  if (COORDINATE_RULES.includes(finding.rule)) {
+    return {
+      requestType: 'coordinate_update',
+      dutyStationCode: station.CITY_CODE,
+      countryCode: station.COUNTRY_CODE,
+      stationName: station.CITY_NAME,
+      currentData,
+      currentCoordinates: coordinates,
+      proposedCoordinates: coordinates,
+      requestDate: new Date(),
+      submittedBy: contact.email,
+      organization: contact.organization,
+      justification,
+    };
+  }
+
+  return {
+    requestType: 'update',
+    dutyStationCode: station.CITY_CODE,
+    countryCode: station.COUNTRY_CODE,
+    currentData: { ...currentData, coordinates },
+    proposedChanges: { name: '', commonName: '' },
+    requestDate: new Date(),
+    submittedBy: contact.email,
+    organization: contact.organization,
+    justification,
+  };
+};
@@ -1,66 +1,64 @@
 // Data service following proven CEB pattern for CSV fetching
 
-import type { DutyStation, Country, ApiResponse } from '../types';
+import type { DutyStation, Country, ApiResponse, StationAlternateName } from '../types';
+import type { CodeListFile, DataSourceConfig } from '../types/dataSource';
+import { createDataSourceAdapter, getActiveDataSource, getDataSourceId } from './dataSourceService';
+import { parseCSV } from '../utils/csvParser';
+import {
+  COUNTRY_VALIDATION_CONFIG,
+  DUTY_STATION_VALIDATION_CONFIG,
+  validateCSVStructure,
+} from '../utils/dataValidation';
+import type { ValidationConfig, ValidationResult } from '../utils/dataValidation';
+import { buildAlternateNameIndex } from '../utils/alternateNames';
+import { getStationKey } from '../utils/datasetDiff';
 
-// GitHub raw URLs for CSV data
-const GITHUB_RAW_BASE = 'https://raw.githubusercontent.com/CEB-HLCM/HR-Public-Codes/refs/heads/main';
-const DUTY_STATIONS_CSV_URL = `${GITHUB_RAW_BASE}/DSCITYCD.csv`;
-const COUNTRIES_CSV_URL = `${GITHUB_RAW_BASE}/DSCTRYCD.csv`;
+// Structure validation of the most recently parsed code lists (including CSV parse errors),
+// keyed by data source and file
+const csvValidationResults = new Map<string, ValidationResult>();
 
-// CSV parsing utility - handles quoted values with commas
-function parseCSV(csvText: string): Record<string, string>[] {
-  const lines = csvText.trim().split('\n');
-  
-  // Parse CSV line respecting quotes
-  const parseLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    result.push(current.trim());
-    
-    return result;
-  };
-  
-  const headers = parseLine(lines[0]);
-  
-  return lines.slice(1).map(line => {
-    const values = parseLine(line);
-    const record: Record<string, string> = {};
-    
-    headers.forEach((header, index) => {
-      record[header] = values[index] || '';
-    });
-    
-    return record;
+// Parse a code list file and record its validation result
+function parseCodeList(
+  source: DataSourceConfig,
+  file: CodeListFile,
+  csvText: string,
+  config: ValidationConfig
+): Record<string, string>[] {
+  const { rows, errors } = parseCSV(csvText);
+  const validation = validateCSVStructure(rows, config, errors);
+  csvValidationResults.set(`${getDataSourceId(source)}:${file}`, validation);
+
+  if (!validation.isValid) {
+    console.warn(`[DataService] ${file} has ${validation.errors.length} structural problem(s):`, validation.errors);
+  }
+
+  return rows;
+}
+
+// Get the structure validation results of the code lists loaded from a data source
+export function getCSVValidationResults(
+  source: DataSourceConfig = getActiveDataSource()
+): Partial<Record<CodeListFile, ValidationResult>> {
+  const results: Partial<Record<CodeListFile, ValidationResult>> = {};
+  (['DSCITYCD.csv', 'DSCTRYCD.csv'] as CodeListFile[]).forEach(file => {
+    const result = csvValidationResults.get(`${getDataSourceId(source)}:${file}`);
+    if (result) results[file] = result;
   });
+  return results;
+}
+
+// Fetch DSCITYCD.csv as published, e.g. to generate a patch that keeps its formatting
+export async function fetchDutyStationsCsv(source: DataSourceConfig = getActiveDataSource()): Promise<string> {
+  return createDataSourceAdapter(source).fetchCsv('DSCITYCD.csv');
 }
 
-// Fetch duty stations data
-export async function fetchDutyStations(): Promise<DutyStation[]> {
+// Fetch duty stations data from the given (or currently active) data source
+export async function fetchDutyStations(source: DataSourceConfig = getActiveDataSource()): Promise<DutyStation[]> {
   try {
     // Fetching duty stations from CSV
     
-    const response = await fetch(DUTY_STATIONS_CSV_URL);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    
-    const csvText = await response.text();
-    const rawData = parseCSV(csvText);
+    const csvText = await createDataSourceAdapter(source).fetchCsv('DSCITYCD.csv');
+    const rawData = parseCodeList(source, 'DSCITYCD.csv', csvText, DUTY_STATION_VALIDATION_CONFIG);
     
     // Transform raw CSV data to DutyStation interface
     // Updated to use new CSV field names: CITY_CODE, CITY_NAME, CITY_COMMON_NAME, COUNTRY_CODE, COUNTRY_NAME
@@ -86,19 +84,13 @@ export async function fetchDutyStations(): Promise<DutyStation[]> {
   }
 }
 
-// Fetch countries data
-export async function fetchCountries(): Promise<Country[]> {
+// Fetch countries data from the given (or currently active) data source
+export async function fetchCountries(source: DataSourceConfig = getActiveDataSource()): Promise<Country[]> {
   try {
     // Fetching countries from CSV
     
-    const response = await fetch(COUNTRIES_CSV_URL);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    
-    const csvText = await response.text();
-    const rawData = parseCSV(csvText);
+    const csvText = await createDataSourceAdapter(source).fetchCsv('DSCTRYCD.csv');
+    const rawData = parseCodeList(source, 'DSCTRYCD.csv', csvText, COUNTRY_VALIDATION_CONFIG);
     
     // DEBUG: Log the first few rows to see actual structure
     // Debug: Country CSV structure validation
@@ -129,12 +121,31 @@ export async function fetchCountries(): Promise<Country[]> {
   }
 }
 
+// Fetch alternate station names (optional DSCITYALT.csv) from the given data source
+// Only sources configured to serve the file are asked for it; the others have no alternate names
+export async function fetchAlternateNames(
+  source: DataSourceConfig = getActiveDataSource()
+): Promise<Map<string, StationAlternateName[]>> {
+  if (!source.alternateNames) return new Map();
+
+  try {
+    const csvText = await createDataSourceAdapter(source).fetchCsv('DSCITYALT.csv');
+    return buildAlternateNameIndex(parseCSV(csvText).rows);
+  } catch (error) {
+    console.warn('[DataService] No alternate names available:', error instanceof Error ? error.message : error);
+    return new Map();
+  }
+}
+
 // Fetch and combine duty stations with country names
-export async function fetchDutyStationsWithCountries(): Promise<DutyStation[]> {
+export async function fetchDutyStationsWithCountries(
+  source: DataSourceConfig = getActiveDataSource()
+): Promise<DutyStation[]> {
   try {
-    const [dutyStations, countries] = await Promise.all([
-      fetchDutyStations(),
-      fetchCountries()
+    const [dutyStations, countries, alternateNames] = await Promise.all([
+      fetchDutyStations(source),
+      fetchCountries(source),
+      fetchAlternateNames(source)
     ]);
     
     // Create country lookup map, filtering out obsolete countries
@@ -162,10 +173,11 @@ export async function fetchDutyStationsWithCountries(): Promise<DutyStation[]> {
     // DEBUG: Check what's in the map for code 4030
     // Country map built successfully
     
-    // Add country names to duty stations
+    // Add country names and alternate names to duty stations
     const enrichedDutyStations = dutyStations.map(station => ({
       ...station,
-      COUNTRY: countryMap.get(station.COUNTRY_CODE) || 'N/A'
+      COUNTRY: countryMap.get(station.COUNTRY_CODE) || 'N/A',
+      ALTERNATE_NAMES: alternateNames.get(getStationKey(station)) ?? [],
     }));
     
     // Sort by name
@@ -230,8 +242,12 @@ export function clearCache(key?: string): void {
 }
 
 // Cached fetch functions
-export async function fetchDutyStationsWithCountriesCached(forceRefresh: boolean = false): Promise<DutyStation[]> {
-  const cacheKey = 'duty-stations-with-countries';
+export async function fetchDutyStationsWithCountriesCached(
+  forceRefresh: boolean = false,
+  source: DataSourceConfig = getActiveDataSource()
+): Promise<DutyStation[]> {
+  // Cache per data source so switching sources never serves stale data
+  const cacheKey = `duty-stations-with-countries:${getDataSourceId(source)}`;
   
   // Clear cache if force refresh is requested
   if (forceRefresh) {
@@ -246,7 +262,7 @@ export async function fetchDutyStationsWithCountriesCached(forceRefresh: boolean
   }
   
   // Fetching fresh duty stations data
-  const data = await fetchDutyStationsWithCountries();
+  const data = await fetchDutyStationsWithCountries(source);
   setCachedData(cacheKey, data);
   return data;
 }
@@ -0,0 +1,253 @@
+// Data source service - resolves where the code lists are loaded from
+// Selection order: settings screen (localStorage) > environment config > GitHub main branch
+import type { CodeListFile, DataSourceAdapter, DataSourceConfig, HistoricalView } from '../types/dataSource';
+import { loadLocalFile, saveLocalFile } from './snapshotService';
+
+const DATA_SOURCE_STORAGE_KEY = 'un_duty_station_data_source';
+
+const GITHUB_REPOSITORY = 'CEB-HLCM/HR-Public-Codes';
+const GITHUB_RAW_ROOT = `https://raw.githubusercontent.com/${GITHUB_REPOSITORY}`;
+const GITHUB_API_ROOT = `https://api.github.com/repos/${GITHUB_REPOSITORY}`;
+
+export const DEFAULT_DATA_SOURCE: DataSourceConfig = { kind: 'github', branch: 'main' };
+
+/**
+ * Fetch a CSV file over HTTP, failing on non-2xx responses
+ */
+const fetchCsvFromUrl = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  return response.text();
+};
+
+/**
+ * Remove trailing slashes so file names can be appended safely
+ */
+const trimTrailingSlash = (url: string): string => url.replace(/\/+$/, '');
+
+/**
+ * Check that a value is a usable data source configuration
+ */
+export const isValidDataSource = (value: unknown): value is DataSourceConfig => {
+  if (!value || typeof value !== 'object') return false;
+
+  const config = value as Partial<Record<string, unknown>>;
+  if (config.alternateNames !== undefined && typeof config.alternateNames !== 'boolean') return false;
+
+  switch (config.kind) {
+    case 'github':
+      return typeof config.branch === 'string' && config.branch.trim().length > 0;
+    case 'commit':
+      return typeof config.sha === 'string' && /^[0-9a-f]{7,40}$/i.test(config.sha.trim());
+    case 'mirror':
+      return typeof config.baseUrl === 'string' && /^https?:\/\//i.test(config.baseUrl.trim());
+    case 'local':
+      return true;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Read the data source from environment variables
+ * VITE_DATA_SOURCE=github|commit|mirror|local
+ * VITE_DATA_SOURCE_REF=<branch or commit SHA>
+ * VITE_DATA_SOURCE_URL=<mirror base URL>
+ * VITE_DATA_SOURCE_ALTERNATE_NAMES=true when the source serves DSCITYALT.csv
+ */
+export const getEnvironmentDataSource = (): DataSourceConfig => {
+  const kind = import.meta.env.VITE_DATA_SOURCE;
+  const ref = import.meta.env.VITE_DATA_SOURCE_REF;
+  const url = import.meta.env.VITE_DATA_SOURCE_URL;
+  const alternateNames = import.meta.env.VITE_DATA_SOURCE_ALTERNATE_NAMES === 'true';
+
+  let config: DataSourceConfig | null = null;
+  switch (kind) {
+    case 'github':
+      config = { kind: 'github', branch: ref || 'main' };
+      break;
+    case 'commit':
+      config = { kind: 'commit', sha: ref || '' };
+      break;
+    case 'mirror':
+      config = { kind: 'mirror', baseUrl: url || '' };
+      break;
+    case 'local':
+      config = { kind: 'local' };
+      break;
+  }
+
+  if (config && isValidDataSource(config)) {
+    return alternateNames ? { ...config, alternateNames } : config;
+  }
+
+  if (kind) {
+    console.warn(`[DataSource] Ignoring invalid environment data source configuration "${kind}"`);
+  }
+  return DEFAULT_DATA_SOURCE;
+};
+
+/**
+ * Get the data source selected on the settings screen, if any
+ */
+export const getStoredDataSource = (): DataSourceConfig | null => {
+  try {
+    const stored = localStorage.getItem(DATA_SOURCE_STORAGE_KEY);
+    if (!stored) return null;
+
+    const parsed: unknown = JSON.parse(stored);
+    return isValidDataSource(parsed) ? parsed : null;
+  } catch (error) {
+    console.error('Error loading data source settings:', error);
+    return null;
+  }
+};
+
+/**
+ * Persist the data source selected on the settings screen
+ * Passing null reverts to the environment configuration
+ */
+export const saveDataSource = (config: DataSourceConfig | null): void => {
+  try {
+    if (config) {
+      localStorage.setItem(DATA_SOURCE_STORAGE_KEY, JSON.stringify(config));
+    } else {
+      localStorage.removeItem(DATA_SOURCE_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving data source settings:', error);
+  }
+};
+
+/**
+ * Get the data source currently in effect
+ */
+export const getActiveDataSource = (): DataSourceConfig => {
+  return getStoredDataSource() ?? getEnvironmentDataSource();
+};
+
+/**
+ * Stable identifier for a data source, used to key caches and snapshots
+ */
+export const getDataSourceId = (config: DataSourceConfig): string => {
+  switch (config.kind) {
+    case 'github':
+      return `github:${config.branch.trim()}`;
+    case 'commit':
+      return `commit:${config.sha.trim().toLowerCase()}`;
+    case 'mirror':
+      return `mirror:${trimTrailingSlash(config.baseUrl.trim())}`;
+    case 'local':
+      return 'local';
+  }
+};
+
+/**
+ * Human readable description of a data source
+ */
+export const describeDataSource = (config: DataSourceConfig): string => {
+  switch (config.kind) {
+    case 'github':
+      return `GitHub ${GITHUB_REPOSITORY} (branch: ${config.branch})`;
+    case 'commit':
+      return `GitHub ${GITHUB_REPOSITORY} (commit: ${config.sha.slice(0, 7)})`;
+    case 'mirror':
+      return `Mirror: ${trimTrailingSlash(config.baseUrl)}`;
+    case 'local':
+      return 'Local CSV files';
+  }
+};
+
+/**
+ * Create the adapter that loads raw CSV text for a data source
+ */
+export const createDataSourceAdapter = (config: DataSourceConfig): DataSourceAdapter => {
+  const id = getDataSourceId(config);
+  const label = describeDataSource(config);
+
+  switch (config.kind) {
+    case 'github': {
+      const base = `${GITHUB_RAW_ROOT}/refs/heads/${encodeURIComponent(config.branch.trim())}`;
+      return { id, label, fetchCsv: (file: CodeListFile) => fetchCsvFromUrl(`${base}/${file}`) };
+    }
+    case 'commit': {
+      const base = `${GITHUB_RAW_ROOT}/${config.sha.trim()}`;
+      return { id, label, fetchCsv: (file: CodeListFile) => fetchCsvFromUrl(`${base}/${file}`) };
+    }
+    case 'mirror': {
+      const base = trimTrailingSlash(config.baseUrl.trim());
+      return { id, label, fetchCsv: (file: CodeListFile) => fetchCsvFromUrl(`${base}/${file}`) };
+    }
+    case 'local':
+      return {
+        id,
+        label,
+        fetchCsv: async (file: CodeListFile) => {
+          const stored = await loadLocalFile(file);
+          if (!stored) {
+            throw new Error(`No local ${file} has been provided. Upload it on the Settings page.`);
+          }
+          return stored.content;
+        },
+      };
+  }
+};
+
+/**
+ * Find the last commit that touched the duty station list on or before the given date
+ * @param date - Point in time to browse (the whole day is included)
+ * @param branch - Branch to search, defaults to main
+ */
+export const findCommitAtDate = async (date: Date, branch: string = 'main'): Promise<HistoricalView> => {
+  const endOfDay = new Date(date);
+  endOfDay.setHours(23, 59, 59, 999);
+
+  const params = new URLSearchParams({
+    path: 'DSCITYCD.csv',
+    sha: branch,
+    until: endOfDay.toISOString(),
+    per_page: '1',
+  });
+
+  const response = await fetch(`${GITHUB_API_ROOT}/commits?${params}`, {
+    headers: { Accept: 'application/vnd.github+json' },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Could not look up the history of DSCITYCD.csv (HTTP ${response.status})`);
+  }
+
+  const commits: Array<{ sha: string; commit?: { committer?: { date?: string } } }> = await response.json();
+  if (commits.length === 0) {
+    throw new Error(`No version of DSCITYCD.csv exists on or before ${date.toLocaleDateString()}`);
+  }
+
+  const committedAt = commits[0].commit?.committer?.date;
+  return {
+    sha: commits[0].sha,
+    requestedDate: date,
+    committedAt: committedAt ? new Date(committedAt) : null,
+  };
+};
+
+/**
+ * Store a CSV file dropped into the browser for the local data source
+ */
+export const saveLocalCodeList = async (file: CodeListFile, upload: File): Promise<void> => {
+  const content = await upload.text();
+  await saveLocalFile(file, upload.name, content);
+};
+
+/**
+ * Get details of the locally stored code list, if any
+ */
+export const getLocalCodeListInfo = async (
+  file: CodeListFile
+): Promise<{ originalName: string; savedAt: Date } | null> => {
+  const stored = await loadLocalFile(file);
+  return stored ? { originalName: stored.originalName, savedAt: stored.savedAt } : null;
+};
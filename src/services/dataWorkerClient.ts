@@ -0,0 +1,203 @@
+// Data worker client - runs CSV loading and searches off the main thread
+// Falls back to running the same code on the main thread when Web Workers are unavailable
+
+import type { DutyStation } from '../types';
+import type { DataSourceConfig } from '../types/dataSource';
+import type { SearchFilters, SearchOptions, SearchResult, Suggestion, SuggestionOptions } from '../types/search';
+import type { BulkLookupQuery, BulkLookupResult } from './bulkLookupService';
+import type {
+  WorkerInboundMessage,
+  WorkerOperation,
+  WorkerOutboundMessage,
+  WorkerParams,
+  WorkerRequest,
+  WorkerResult,
+} from '../workers/protocol';
+
+interface PendingRequest {
+  resolve: (value: { result: WorkerResult<WorkerOperation>; duration: number }) => void;
+  reject: (reason: unknown) => void;
+}
+
+let worker: Worker | null | undefined;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, PendingRequest>();
+
+/**
+ * Error used to reject requests that were cancelled before completing
+ */
+const createAbortError = (): DOMException => new DOMException('The request was cancelled', 'AbortError');
+
+/**
+ * Check whether an error comes from a cancelled request
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+/**
+ * Handle a message coming back from the worker
+ */
+const handleWorkerMessage = (event: MessageEvent<WorkerOutboundMessage>) => {
+  const message = event.data;
+  const pending = pendingRequests.get(message.requestId);
+  if (!pending) return;
+
+  pendingRequests.delete(message.requestId);
+  switch (message.type) {
+    case 'result':
+      pending.resolve({ result: message.result, duration: message.duration });
+      break;
+    case 'error':
+      pending.reject(new Error(message.message));
+      break;
+    case 'cancelled':
+      pending.reject(createAbortError());
+      break;
+  }
+};
+
+/**
+ * Get the shared worker, creating it on first use
+ * Returns null when Web Workers are not supported
+ */
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+
+  if (typeof Worker === 'undefined') {
+    worker = null;
+    return worker;
+  }
+
+  try {
+    worker = new Worker(new URL('../workers/dataWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = handleWorkerMessage;
+    worker.onerror = (event) => {
+      console.error('Data worker failed:', event.message);
+      pendingRequests.forEach(pending => pending.reject(new Error(event.message || 'Data worker failed')));
+      pendingRequests.clear();
+    };
+  } catch (error) {
+    console.error('Could not start data worker, falling back to the main thread:', error);
+    worker = null;
+  }
+
+  return worker;
+};
+
+/**
+ * Run an operation in the worker
+ * @param type - Operation to run
+ * @param params - Operation parameters
+ * @param signal - Aborting the signal cancels the request and rejects with an AbortError
+ */
+const callWorker = async <K extends WorkerOperation>(
+  type: K,
+  params: WorkerParams<K>,
+  signal?: AbortSignal
+): Promise<{ result: WorkerResult<K>; duration: number }> => {
+  if (signal?.aborted) throw createAbortError();
+
+  const requestId = ++nextRequestId;
+  const request = { type, requestId, ...params } as WorkerRequest;
+  const activeWorker = getWorker();
+
+  // Main thread fallback - same implementation, no parallelism
+  if (!activeWorker) {
+    const { handleWorkerRequest } = await import('../workers/dataWorkerHandlers');
+    const startTime = performance.now();
+    const result = await handleWorkerRequest(request, () => signal?.aborted ?? false);
+    if (signal?.aborted) throw createAbortError();
+    return { result: result as WorkerResult<K>, duration: performance.now() - startTime };
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      const cancel: WorkerInboundMessage = { type: 'cancel', requestId };
+      activeWorker.postMessage(cancel);
+    };
+
+    pendingRequests.set(requestId, {
+      resolve: (value) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(value as { result: WorkerResult<K>; duration: number });
+      },
+      reject: (reason) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(reason);
+      },
+    });
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    activeWorker.postMessage(request);
+  });
+};
+
+/**
+ * Load the code lists (fetch, parse and join countries) in the worker
+ * @param source - Data source to load from
+ * @param options.forceRefresh - Bypass the in-memory cache
+ * @param options.retain - Keep the loaded stations as the searchable dataset (default true)
+ */
+export const loadDatasetInWorker = async (
+  source: DataSourceConfig,
+  options: { forceRefresh?: boolean; retain?: boolean; signal?: AbortSignal } = {}
+): Promise<WorkerResult<'load'>> => {
+  const { forceRefresh = false, retain = true, signal } = options;
+  const { result } = await callWorker('load', { source, forceRefresh, retain }, signal);
+  return result;
+};
+
+/**
+ * Replace the dataset searched by the worker
+ */
+export const setWorkerSearchData = async (dutyStations: DutyStation[]): Promise<void> => {
+  await callWorker('setData', { dutyStations });
+};
+
+/**
+ * Search the worker's dataset
+ * @returns Results and the time the search took inside the worker
+ */
+export const searchInWorker = (
+  filters: SearchFilters,
+  signal?: AbortSignal
+): Promise<{ result: SearchResult<DutyStation>[]; duration: number }> => {
+  return callWorker('search', { filters }, signal);
+};
+
+/**
+ * Combined exact, partial and fuzzy search in the worker
+ */
+export const multiSearchInWorker = (
+  query: string,
+  options: Partial<SearchOptions>,
+  signal?: AbortSignal
+): Promise<{ result: SearchResult<DutyStation>[]; duration: number }> => {
+  return callWorker('multiSearch', { query, options }, signal);
+};
+
+/**
+ * Ranked autocomplete suggestions from the worker's dataset
+ */
+export const getSuggestionsInWorker = async (
+  query: string,
+  maxSuggestions: number,
+  options: SuggestionOptions = {},
+  signal?: AbortSignal
+): Promise<Suggestion[]> => {
+  const { result } = await callWorker('suggestions', { query, maxSuggestions, options }, signal);
+  return result;
+};
+
+/**
+ * Resolve free-text city names to duty stations in the worker
+ * @returns One result per query, in the same order
+ */
+export const bulkLookupInWorker = async (
+  queries: BulkLookupQuery[],
+  signal?: AbortSignal
+): Promise<BulkLookupResult[]> => {
+  const { result } = await callWorker('bulkLookup', { queries }, signal);
+  return result;
+};
@@ -0,0 +1,217 @@
+// Duplicate service - turns duplicate clusters into basket requests and checks new stations
+// against the existing list before they are requested
+import type { DutyStation } from '../types';
+import type { AddDutyStationRequest, BasketItem, DutyStationRequest } from '../schemas/dutyStationSchema';
+import type { SubmitterContact } from './userPreferencesService';
+import { findNearbyStations } from './geocodingService';
+import { compareStations, DUPLICATE_REASON_LABELS } from '../utils/duplicateDetection';
+import type { ComparableStation, DuplicateCluster, StationSimilarity } from '../utils/duplicateDetection';
+import { getStationKey } from '../utils/datasetDiff';
+
+const DISMISSED_DUPLICATES_KEY = 'un_duty_station_dismissed_duplicates';
+
+/**
+ * Load the ids of clusters marked as "not duplicates"
+ */
+export const loadDismissedDuplicates = (): Set<string> => {
+  try {
+    const stored = localStorage.getItem(DISMISSED_DUPLICATES_KEY);
+    if (stored) {
+      return new Set(JSON.parse(stored) as string[]);
+    }
+  } catch (error) {
+    console.error('Error loading dismissed duplicates:', error);
+  }
+  return new Set();
+};
+
+/**
+ * Remember that a cluster is not a set of duplicates
+ * @returns Updated set of dismissed cluster ids
+ */
+export const dismissDuplicateCluster = (clusterId: string): Set<string> => {
+  const dismissed = loadDismissedDuplicates();
+  dismissed.add(clusterId);
+  try {
+    localStorage.setItem(DISMISSED_DUPLICATES_KEY, JSON.stringify(Array.from(dismissed)));
+  } catch (error) {
+    console.error('Error saving dismissed duplicates:', error);
+  }
+  return dismissed;
+};
+
+/**
+ * Describe why a station is considered a duplicate of another, for request justifications
+ */
+const describeMatch = (cluster: DuplicateCluster, station: DutyStation, other: DutyStation): string => {
+  const pair = cluster.pairs.find(p =>
+    (p.a === station && p.b === other) || (p.a === other && p.b === station)
+  );
+  if (!pair) return `Part of a duplicate group (similarity ${Math.round(cluster.score * 100)}%)`;
+
+  const reasons = pair.reasons.map(reason => DUPLICATE_REASON_LABELS[reason].toLowerCase()).join(', ');
+  const distance = pair.distanceKm !== null ? `, ${pair.distanceKm.toFixed(1)} km apart` : '';
+  return `Similarity ${Math.round(pair.score * 100)}% (${reasons || 'similar'}${distance})`;
+};
+
+/**
+ * Request to mark a station obsolete as a duplicate of another station
+ */
+export const createObsoletionRequest = (
+  station: DutyStation,
+  duplicateOf: DutyStation,
+  cluster: DuplicateCluster,
+  contact: SubmitterContact
+): DutyStationRequest => ({
+  requestType: 'remove',
+  dutyStationCode: station.CITY_CODE,
+  countryCode: station.COUNTRY_CODE,
+  currentData: {
+    name: station.CITY_NAME,
+    country: station.COUNTRY || '',
+    commonName: station.CITY_COMMON_NAME || undefined,
+  },
+  requestDate: new Date(),
+  submittedBy: contact.email,
+  organization: contact.organization,
+  justification: `Duplicate of ${duplicateOf.CITY_NAME} (${duplicateOf.CITY_CODE}). ` +
+    `${describeMatch(cluster, station, duplicateOf)}.`,
+});
+
+/**
+ * Request to mark a station obsolete as part of merging its cluster into the kept station
+ * @param keep - Station that stays active
+ */
+export const createMergeRequest = (
+  station: DutyStation,
+  keep: DutyStation,
+  cluster: DuplicateCluster,
+  contact: SubmitterContact
+): DutyStationRequest => {
+  const request = createObsoletionRequest(station, keep, cluster, contact);
+  return {
+    ...request,
+    justification: `Merge into ${keep.CITY_NAME} (${keep.CITY_CODE}), which remains active. ${request.justification}`,
+  };
+};
+
+/**
+ * Existing station or pending ADD request that a new station may duplicate
+ */
+export interface AddRequestDuplicateCandidate extends StationSimilarity {
+  source: 'dataset' | 'basket';
+  code: string;                // CITY_CODE, or the proposed code of a basket request
+  name: string;
+  commonName: string;
+  country: string;
+  countryCode: string;
+  latitude: number;
+  longitude: number;
+  obsolete: boolean;
+}
+
+/**
+ * Error thrown when an ADD request looks like a duplicate and has not been confirmed as distinct
+ */
+export class DuplicateStationError extends Error {
+  candidates: AddRequestDuplicateCandidate[];
+
+  constructor(candidates: AddRequestDuplicateCandidate[]) {
+    const best = candidates[0];
+    super(
+      `This station may already exist as ${best.name} (${best.code || 'pending request'}, ${best.country}). ` +
+      'Confirm that it is a distinct location before adding it to the basket.'
+    );
+    this.name = 'DuplicateStationError';
+    this.candidates = candidates;
+  }
+}
+
+// Radius searched for existing stations around a new station's coordinates
+const ADD_CHECK_RADIUS_KM = 10;
+const MAX_ADD_CANDIDATES = 5;
+
+/**
+ * Check a new station against existing stations and pending ADD requests in the basket
+ * Same-country stations are compared by name (spelling and sound); stations within
+ * ADD_CHECK_RADIUS_KM are included from any country when their names are at all similar
+ * @returns Likely duplicates, best match first
+ */
+export const findAddRequestDuplicates = (
+  request: Pick<AddDutyStationRequest, 'name' | 'commonName' | 'countryCode' | 'coordinates'>,
+  stations: DutyStation[],
+  basketItems: BasketItem[] = []
+): AddRequestDuplicateCandidate[] => {
+  if (!request.name?.trim()) return [];
+
+  const candidate: ComparableStation = {
+    CITY_NAME: request.name,
+    CITY_COMMON_NAME: request.commonName || '',
+    LATITUDE: request.coordinates?.latitude ?? 0,
+    LONGITUDE: request.coordinates?.longitude ?? 0,
+  };
+  const hasLocation = candidate.LATITUDE !== 0 || candidate.LONGITUDE !== 0;
+
+  // Stations in the same country plus anything close by (e.g. across a border)
+  const nearbyKeys = new Set(
+    hasLocation
+      ? (findNearbyStations(
+          { latitude: candidate.LATITUDE, longitude: candidate.LONGITUDE },
+          stations,
+          ADD_CHECK_RADIUS_KM
+        ) as Array<DutyStation & { distance: number }>).map(getStationKey)
+      : []
+  );
+  const toCompare = stations.filter(station =>
+    station.COUNTRY_CODE === request.countryCode || nearbyKeys.has(getStationKey(station))
+  );
+
+  const matches: AddRequestDuplicateCandidate[] = [];
+  const isMatch = (similarity: StationSimilarity, sameCountry: boolean, isNearby: boolean) =>
+    (sameCountry && similarity.score >= 0.6) || (isNearby && similarity.nameScore >= 0.5);
+
+  toCompare.forEach(station => {
+    const similarity = compareStations(candidate, station);
+    if (!isMatch(similarity, station.COUNTRY_CODE === request.countryCode, nearbyKeys.has(getStationKey(station)))) return;
+    matches.push({
+      ...similarity,
+      source: 'dataset',
+      code: station.CITY_CODE,
+      name: station.CITY_NAME,
+      commonName: station.CITY_COMMON_NAME,
+      country: station.COUNTRY || station.COUNTRY_CODE,
+      countryCode: station.COUNTRY_CODE,
+      latitude: station.LATITUDE,
+      longitude: station.LONGITUDE,
+      obsolete: station.OBSOLETE === '1',
+    });
+  });
+
+  basketItems.forEach(item => {
+    const pending = item.request;
+    if (pending.requestType !== 'add' || pending === request) return;
+    const similarity = compareStations(candidate, {
+      CITY_NAME: pending.name,
+      CITY_COMMON_NAME: pending.commonName || '',
+      LATITUDE: pending.coordinates.latitude,
+      LONGITUDE: pending.coordinates.longitude,
+    });
+    const sameCountry = pending.countryCode === request.countryCode;
+    const isNearby = similarity.distanceKm !== null && similarity.distanceKm <= ADD_CHECK_RADIUS_KM;
+    if (!isMatch(similarity, sameCountry, isNearby)) return;
+    matches.push({
+      ...similarity,
+      source: 'basket',
+      code: pending.proposedCode || '',
+      name: pending.name,
+      commonName: pending.commonName || '',
+      country: pending.country,
+      countryCode: pending.countryCode,
+      latitude: pending.coordinates.latitude,
+      longitude: pending.coordinates.longitude,
+      obsolete: false,
+    });
+  });
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, MAX_ADD_CANDIDATES);
+};
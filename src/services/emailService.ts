@@ -56,6 +56,7 @@ const formatRequestType = (type: RequestType): string => {
     update: 'Update Existing Duty Station',
     remove: 'Remove Duty Station',
     coordinate_update: 'Correct Duty Station Coordinates',
+    alias: 'Add Alternate Name',
   };
   return typeMap[type] || type;
 };
@@ -143,6 +144,13 @@ const formatRequestDetails = (request: DutyStationRequest): string => {
         lines.push(`  New Longitude: ${request.newLongitude}`);
       }
       break;
+
+    case 'alias':
+      lines.push(`  Duty Station Code: ${request.dutyStationCode}`);
+      lines.push(`  Name: ${request.stationName}`);
+      lines.push(`  Language: ${request.language.toUpperCase()}`);
+      lines.push(`  Alternate Name: ${request.alternateName}`);
+      break;
   }
 
   lines.push('');
@@ -254,6 +262,16 @@ const formatRequestsAsHtmlTable = (items: BasketItem[], countries: Country[]): s
         longitude = ('proposedCoordinates' in request && request.proposedCoordinates?.longitude !== undefined) 
           ? String(request.proposedCoordinates.longitude) : '';
         break;
+
+      case 'alias':
+        dsCode = request.dutyStationCode;
+        countryCode = request.countryCode;
+        cityName = `${request.stationName} (${request.language.toUpperCase()}: ${request.alternateName})`;
+        countryName = countryMap.get(countryCode)?.name || '';
+        region = countryMap.get(countryCode)?.region || '';
+        latitude = '';
+        longitude = '';
+        break;
     }
 
     emailTable += `<tr style="height: 18px;">
@@ -340,6 +358,11 @@ const formatRequestsAsCsv = (items: BasketItem[], countries: Country[]): string
           ? String(request.proposedCoordinates.longitude) : '';
         instructions.push(`COORDINATE UPDATE: Duty Station ${coordDsCode} (${coordCountryCode}) - Update LATITUDE=${newLat}, LONGITUDE=${newLng}. JUSTIFICATION: ${justification}`);
         break;
+
+      case 'alias':
+        // Instructions for ALIAS requests - alternate names live in DSCITYALT.csv
+        instructions.push(`ALIAS: Duty Station ${request.dutyStationCode} (${request.countryCode}) - Add LANGUAGE=${request.language}, ALTERNATE_NAME="${request.alternateName}" to DSCITYALT.csv. JUSTIFICATION: ${justification}`);
+        break;
     }
   });
 
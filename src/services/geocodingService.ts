@@ -163,6 +163,40 @@ const toRadians = (degrees: number): number => {
   return degrees * (Math.PI / 180);
 };
 
+/**
+ * Format a distance for display (metres below 1 km)
+ */
+export const formatDistance = (distanceKm: number): string => {
+  if (distanceKm < 1) return `${Math.round(distanceKm * 1000)} m`;
+  if (distanceKm < 10) return `${distanceKm.toFixed(1)} km`;
+  return `${Math.round(distanceKm).toLocaleString()} km`;
+};
+
+/**
+ * Initial compass bearing from one point to another, in degrees clockwise from north (0-360)
+ */
+export const calculateBearing = (
+  from: MapCoordinates,
+  to: MapCoordinates
+): number => {
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (Math.atan2(y, x) * (180 / Math.PI) + 360) % 360;
+};
+
+const COMPASS_POINTS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+/**
+ * Format a bearing for display, e.g. "NE (47°)"
+ */
+export const formatBearing = (bearing: number): string => {
+  return `${COMPASS_POINTS[Math.round(bearing / 22.5) % 16]} (${Math.round(bearing) % 360}°)`;
+};
+
 /**
  * Find nearby duty stations within a given radius
  */
@@ -0,0 +1,381 @@
+// Patch generator - applies approved requests to DSCITYCD.csv for the HR-Public-Codes repository
+// Untouched records are copied byte for byte, so the diff only shows the requested changes.
+// Existing records keep their order; new stations are inserted where the file's sort order puts
+// them, or appended when the file is not sorted.
+import type { DutyStationRequest } from '../schemas/dutyStationSchema';
+import { parseCSV } from '../utils/csvParser';
+import { getStationKey } from '../utils/datasetDiff';
+import { getProposedUpdate } from '../utils/proposedChanges';
+import { findLastLineIndex, formatUnifiedDiff } from '../utils/unifiedDiff';
+import type { DiffLine } from '../utils/unifiedDiff';
+import { createZipArchive } from '../utils/zipArchive';
+
+const FILE_NAME = 'DSCITYCD.csv';
+
+// Sort orders the file may use; new rows are only inserted in order when one of them holds
+const SORT_ORDERS = [['COUNTRY_CODE', 'CITY_CODE'], ['CITY_CODE', 'COUNTRY_CODE']];
+
+export type PatchAction = 'added' | 'updated' | 'moved' | 'made obsolete';
+
+/**
+ * A change made to DSCITYCD.csv
+ */
+export interface PatchChange {
+  request: DutyStationRequest;
+  action: PatchAction;
+  stationCode: string;
+  countryCode: string;
+  cityName: string;
+  fields: Array<{ field: string; from: string; to: string }>;
+}
+
+/**
+ * A request that could not be applied
+ */
+export interface SkippedPatchRequest {
+  request: DutyStationRequest;
+  reason: string;
+}
+
+export interface DutyStationPatch {
+  csv: string;
+  diff: string;
+  commitMessage: string;
+  changes: PatchChange[];
+  skipped: SkippedPatchRequest[];
+}
+
+// A record of the file with the physical lines it was read from
+interface CsvRecord {
+  row: Record<string, string>;
+  source: Record<string, string>;   // Values as read from the file
+  lines: string[];
+  trailing: string[];     // Blank lines after the record
+  quoted: boolean[];      // Which fields are quoted in the file
+  modified: boolean;
+}
+
+const compareBy = (columns: string[]) => (a: Record<string, string>, b: Record<string, string>): number => {
+  for (const column of columns) {
+    const x = a[column] ?? '';
+    const y = b[column] ?? '';
+    if (x !== y) return x < y ? -1 : 1;
+  }
+  return 0;
+};
+
+const countLineBreaks = (row: Record<string, string>): number => {
+  return Object.values(row).reduce((count, value) => count + (value.match(/\r\n|\n|\r/g)?.length ?? 0), 0);
+};
+
+/**
+ * Which fields of a raw CSV record are quoted
+ */
+const getQuotedFields = (raw: string): boolean[] => {
+  const quoted: boolean[] = [];
+  let position = 0;
+  while (position <= raw.length) {
+    const isQuoted = raw[position] === '"';
+    quoted.push(isQuoted);
+    if (isQuoted) {
+      // Skip to the closing quote; doubled quotes are escaped quotes
+      position++;
+      while (position < raw.length && !(raw[position] === '"' && raw[position + 1] !== '"')) {
+        position += raw[position] === '"' ? 2 : 1;
+      }
+    }
+    const comma = raw.indexOf(',', position);
+    if (comma < 0) break;
+    position = comma + 1;
+  }
+  return quoted;
+};
+
+/**
+ * Apply requests to DSCITYCD.csv
+ * Requests are applied in order; ALIAS requests are skipped because alternate names are kept in DSCITYALT.csv
+ * @param csvText - Current DSCITYCD.csv, as fetched from the repository
+ * @param requests - Approved requests
+ * @returns The updated file, a unified diff against the current one and a commit message
+ */
+export const generateDutyStationPatch = (csvText: string, requests: DutyStationRequest[]): DutyStationPatch => {
+  // Lines keep their carriage returns, so CRLF files are written and diffed as CRLF
+  const lineEnd = csvText.includes('\r\n') ? '\r' : '';
+  const physicalLines = csvText.split('\n');
+  const hasFinalNewline = physicalLines[physicalLines.length - 1] === '';
+  if (hasFinalNewline) physicalLines.pop();
+  // Every line is handled with its line ending; the last one loses it again below when the file has none
+  else if (lineEnd && physicalLines.length > 0) physicalLines[physicalLines.length - 1] += lineEnd;
+
+  const { headers, rows, rowLines } = parseCSV(csvText);
+  const headerEnd = rows.length > 0 ? rowLines[0] - 1 : physicalLines.length;
+  const records: CsvRecord[] = rows.map((row, index) => {
+    const start = rowLines[index] - 1;
+    const end = index + 1 < rows.length ? rowLines[index + 1] - 1 : physicalLines.length;
+    const ownEnd = Math.min(end, start + 1 + countLineBreaks(row));
+    const lines = physicalLines.slice(start, ownEnd);
+    return {
+      row,
+      source: row,
+      lines,
+      trailing: physicalLines.slice(ownEnd, end),
+      quoted: getQuotedFields(lines.join('\n')),
+      modified: false,
+    };
+  });
+
+  // Write values the way the file does: a changed field keeps its quotes, new values follow their
+  // column (quoted when most of its non-empty or empty values are), and decimal commas stay commas
+  const quoteColumn = headers.map((_, column) => {
+    const counts = { filled: [0, 0], empty: [0, 0] };
+    records.forEach(record => {
+      const value = record.source[headers[column]] ?? '';
+      counts[value ? 'filled' : 'empty'][record.quoted[column] ? 1 : 0]++;
+    });
+    return { filled: counts.filled[1] > counts.filled[0], empty: counts.empty[1] > counts.empty[0] };
+  });
+  const decimalComma = rows.some(row => row.LATITUDE?.includes(','));
+  const formatRow = (row: Record<string, string>, original?: CsvRecord): string[] => {
+    const line = headers.map((header, column) => {
+      const value = row[header] ?? '';
+      const wasQuoted = original && (original.source[header] ?? '') !== '' ? original.quoted[column] : undefined;
+      const quote = wasQuoted ?? (value ? quoteColumn[column].filled : quoteColumn[column].empty);
+      return quote || /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+    }).join(',');
+    return line.split(/\r\n|\n/).map(text => text + lineEnd);
+  };
+  const formatCoordinate = (value: number): string => {
+    const text = String(Number(value.toFixed(6)));
+    return decimalComma ? text.replace('.', ',') : text;
+  };
+
+  const recordsByKey = new Map<string, CsvRecord>();
+  records.forEach(record => {
+    recordsByKey.set(getStationKey({ CITY_CODE: record.row.CITY_CODE ?? '', COUNTRY_CODE: record.row.COUNTRY_CODE ?? '' }), record);
+  });
+
+  const added: Array<Record<string, string>> = [];
+  const addedKeys = new Set<string>();
+  const changes: PatchChange[] = [];
+  const skipped: SkippedPatchRequest[] = [];
+
+  // Most common region of a country's stations, for new stations
+  const getCountryRegion = (countryCode: string): string => {
+    const counts = new Map<string, number>();
+    rows.forEach(row => {
+      if (row.COUNTRY_CODE === countryCode && row.REGION) {
+        counts.set(row.REGION, (counts.get(row.REGION) ?? 0) + 1);
+      }
+    });
+    return Array.from(counts).sort((a, b) => b[1] - a[1])[0]?.[0] ?? '';
+  };
+
+  const setFields = (
+    request: DutyStationRequest,
+    action: PatchAction,
+    record: CsvRecord,
+    values: Record<string, string>
+  ) => {
+    const fields = Object.entries(values)
+      .filter(([field, value]) => headers.includes(field) && (record.row[field] ?? '') !== value)
+      .map(([field, value]) => ({ field, from: record.row[field] ?? '', to: value }));
+    if (fields.length === 0) {
+      skipped.push({ request, reason: 'The station already has the requested values' });
+      return;
+    }
+
+    record.row = { ...record.row, ...Object.fromEntries(fields.map(({ field, to }) => [field, to])) };
+    record.modified = true;
+    changes.push({
+      request,
+      action,
+      stationCode: record.row.CITY_CODE,
+      countryCode: record.row.COUNTRY_CODE,
+      cityName: record.row.CITY_NAME,
+      fields,
+    });
+  };
+
+  requests.forEach(request => {
+    if (request.requestType === 'alias') {
+      skipped.push({ request, reason: 'Alternate names are kept in DSCITYALT.csv' });
+      return;
+    }
+
+    if (request.requestType === 'add') {
+      const code = request.proposedCode || '';
+      const key = getStationKey({ CITY_CODE: code, COUNTRY_CODE: request.countryCode });
+      if (!code) {
+        skipped.push({ request, reason: 'The request has no duty station code' });
+      } else if (recordsByKey.has(key) || addedKeys.has(key)) {
+        skipped.push({ request, reason: `${code} (${request.countryCode}) is already in ${FILE_NAME}` });
+      } else {
+        const row: Record<string, string> = {
+          ...Object.fromEntries(headers.map(header => [header, ''])),
+          CITY_CODE: code,
+          COUNTRY_CODE: request.countryCode,
+          CITY_NAME: request.name,
+          LATITUDE: formatCoordinate(request.coordinates.latitude),
+          LONGITUDE: formatCoordinate(request.coordinates.longitude),
+          CITY_COMMON_NAME: request.commonName ?? '',
+          OBSOLETE: '0',
+          REGION: getCountryRegion(request.countryCode),
+        };
+        added.push(row);
+        addedKeys.add(key);
+        changes.push({
+          request,
+          action: 'added',
+          stationCode: code,
+          countryCode: request.countryCode,
+          cityName: request.name,
+          fields: headers.filter(header => row[header]).map(header => ({ field: header, from: '', to: row[header] })),
+        });
+      }
+      return;
+    }
+
+    const record = recordsByKey.get(getStationKey({ CITY_CODE: request.dutyStationCode, COUNTRY_CODE: request.countryCode }));
+    if (!record) {
+      skipped.push({ request, reason: `${request.dutyStationCode} (${request.countryCode}) is not in ${FILE_NAME}` });
+      return;
+    }
+
+    switch (request.requestType) {
+      case 'update': {
+        const { name, commonName, coordinates } = getProposedUpdate(request.proposedChanges);
+        const values: Record<string, string> = {};
+        if (name) values.CITY_NAME = name;
+        if (commonName) values.CITY_COMMON_NAME = commonName;
+        if (coordinates) {
+          values.LATITUDE = formatCoordinate(coordinates.latitude);
+          values.LONGITUDE = formatCoordinate(coordinates.longitude);
+        }
+        if (Object.keys(values).length === 0) {
+          skipped.push({ request, reason: 'The request does not say which fields to change' });
+          return;
+        }
+        setFields(request, 'updated', record, values);
+        break;
+      }
+      case 'coordinate_update':
+        setFields(request, 'moved', record, {
+          LATITUDE: formatCoordinate(request.proposedCoordinates.latitude),
+          LONGITUDE: formatCoordinate(request.proposedCoordinates.longitude),
+        });
+        break;
+      case 'remove':
+        setFields(request, 'made obsolete', record, { OBSOLETE: '1' });
+        break;
+    }
+  });
+
+  // Where each new row goes: before the first record sorting after it, when the file is sorted
+  const sortOrder = SORT_ORDERS.map(compareBy).find(compare =>
+    records.every((record, index) => index === 0 || compare(records[index - 1].row, record.row) <= 0)
+  );
+  const insertions = new Map<number, Array<Record<string, string>>>();
+  (sortOrder ? [...added].sort(sortOrder) : added).forEach(row => {
+    const found = sortOrder ? records.findIndex(record => sortOrder(row, record.row) < 0) : -1;
+    const position = found < 0 ? records.length : found;
+    insertions.set(position, [...(insertions.get(position) ?? []), row]);
+  });
+
+  const diffLines: DiffLine[] = physicalLines.slice(0, headerEnd).map(text => ({ type: 'context', text }));
+  const insertAt = (position: number) => {
+    insertions.get(position)?.forEach(row => {
+      formatRow(row).forEach(text => diffLines.push({ type: 'add', text }));
+    });
+  };
+  records.forEach((record, index) => {
+    insertAt(index);
+    if (record.modified) {
+      record.lines.forEach(text => diffLines.push({ type: 'remove', text }));
+      formatRow(record.row, record).forEach(text => diffLines.push({ type: 'add', text }));
+    } else {
+      record.lines.forEach(text => diffLines.push({ type: 'context', text }));
+    }
+    record.trailing.forEach(text => diffLines.push({ type: 'context', text }));
+  });
+  insertAt(records.length);
+
+  // Without a final newline, the last line of each file has no carriage return either; a line that
+  // is last in the old file only (rows were appended) gains it, so it changes
+  const oldEnd = findLastLineIndex(diffLines, 'old');
+  const newEnd = findLastLineIndex(diffLines, 'new');
+  const unterminated = (text: string) => text.slice(0, text.length - lineEnd.length);
+  const fileLines = hasFinalNewline || !lineEnd ? diffLines : diffLines.flatMap((line, index): DiffLine[] => {
+    if (line.type === 'context' && (index === oldEnd) !== (index === newEnd)) {
+      return [
+        { type: 'remove', text: index === oldEnd ? unterminated(line.text) : line.text },
+        { type: 'add', text: index === newEnd ? unterminated(line.text) : line.text },
+      ];
+    }
+    return index === oldEnd || index === newEnd ? [{ ...line, text: unterminated(line.text) }] : [line];
+  });
+
+  const newLines = fileLines.filter(line => line.type !== 'remove').map(line => line.text);
+  return {
+    csv: newLines.join('\n') + (hasFinalNewline ? '\n' : ''),
+    diff: formatUnifiedDiff(fileLines, `a/${FILE_NAME}`, `b/${FILE_NAME}`, 3, {
+      old: !hasFinalNewline,
+      new: !hasFinalNewline,
+    }),
+    commitMessage: buildCommitMessage(changes),
+    changes,
+    skipped,
+  };
+};
+
+/**
+ * Describe one change, e.g. "Move NBO Nairobi (KEN) from -1.28, 36.82 to -1.3, 36.8"
+ */
+const describeChange = (change: PatchChange): string => {
+  const station = `${change.stationCode} ${change.cityName} (${change.countryCode})`;
+  const value = (field: string, side: 'from' | 'to') => change.fields.find(f => f.field === field)?.[side] ?? '';
+
+  switch (change.action) {
+    case 'added':
+      return `Add ${station} at ${value('LATITUDE', 'to')}, ${value('LONGITUDE', 'to')}`;
+    case 'moved':
+      return `Move ${station} from ${value('LATITUDE', 'from')}, ${value('LONGITUDE', 'from')} to ${value('LATITUDE', 'to')}, ${value('LONGITUDE', 'to')}`;
+    case 'made obsolete':
+      return `Mark ${station} as obsolete`;
+    default:
+      return `Update ${station}: ${change.fields.map(f => `${f.field} "${f.from}" -> "${f.to}"`).join(', ')}`;
+  }
+};
+
+/**
+ * Commit message listing every change, with who asked for it and why
+ */
+const buildCommitMessage = (changes: PatchChange[]): string => {
+  if (changes.length === 0) return `No changes to ${FILE_NAME}\n`;
+
+  const counts = (['added', 'updated', 'moved', 'made obsolete'] as PatchAction[])
+    .map(action => ({ action, count: changes.filter(change => change.action === action).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ action, count }) => `${count} ${action}`);
+  const subject = `Update ${FILE_NAME}: ${counts.join(', ')}`;
+
+  const body = changes.map(change => {
+    const { submittedBy, organization, justification } = change.request;
+    const requester = [submittedBy, organization && `(${organization})`].filter(Boolean).join(' ');
+    const reason = justification.replace(/\s+/g, ' ').trim();
+    return `- ${describeChange(change)}` +
+      (requester || reason ? `\n  Requested${requester ? ` by ${requester}` : ''}${reason ? `: ${reason}` : ''}` : '');
+  });
+
+  return `${subject}\n\n${body.join('\n')}\n`;
+};
+
+/**
+ * Package a patch as a ZIP archive: the updated DSCITYCD.csv, the diff and the commit message
+ */
+export const createPatchArchive = (patch: DutyStationPatch): Uint8Array => {
+  return createZipArchive([
+    { name: FILE_NAME, content: patch.csv },
+    { name: `${FILE_NAME}.diff`, content: patch.diff },
+    { name: 'COMMIT_MESSAGE.txt', content: patch.commitMessage },
+  ]);
+};
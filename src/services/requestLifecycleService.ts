@@ -0,0 +1,135 @@
+// Request lifecycle - the statuses a request moves through and who moved it when
+import type { RequestHistoryEntry, RequestStatus, RequestStatusChange, RequestType } from '../types/request';
+
+export const REQUEST_STATUS_LABELS: Record<RequestStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  under_review: 'Under Review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+};
+
+/**
+ * Statuses each status can move to; approved, rejected and withdrawn are final
+ */
+export const REQUEST_STATUS_TRANSITIONS: Record<RequestStatus, RequestStatus[]> = {
+  draft: ['submitted', 'withdrawn'],
+  submitted: ['under_review', 'withdrawn'],
+  under_review: ['approved', 'rejected', 'withdrawn'],
+  approved: [],
+  rejected: [],
+  withdrawn: [],
+};
+
+export type RequestActor = 'submitter' | 'reviewer';
+
+/**
+ * Statuses each party can move a request to; only the reviewer decides on a request, and the
+ * decision reaches the submitter's history through the decision file
+ */
+export const REQUEST_ACTOR_STATUSES: Record<RequestActor, RequestStatus[]> = {
+  submitter: ['submitted', 'withdrawn'],
+  reviewer: ['under_review', 'approved', 'rejected'],
+};
+
+/**
+ * Error thrown when a request is moved to a status it cannot reach from its current one
+ */
+export class InvalidStatusTransitionError extends Error {
+  from: RequestStatus;
+  to: RequestStatus;
+
+  constructor(from: RequestStatus, to: RequestStatus) {
+    super(`A request that is ${REQUEST_STATUS_LABELS[from].toLowerCase()} cannot be moved to ${REQUEST_STATUS_LABELS[to].toLowerCase()}`);
+    this.name = 'InvalidStatusTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Check whether a request can move from one status to another
+ */
+export const canTransition = (from: RequestStatus, to: RequestStatus): boolean => {
+  return REQUEST_STATUS_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Error thrown when a party moves a request to a status only the other party can set
+ */
+export class UnauthorizedStatusTransitionError extends Error {
+  actor: RequestActor;
+  to: RequestStatus;
+
+  constructor(actor: RequestActor, to: RequestStatus) {
+    super(`Only the ${actor === 'submitter' ? 'reviewer' : 'submitter'} can move a request to ${REQUEST_STATUS_LABELS[to].toLowerCase()}`);
+    this.name = 'UnauthorizedStatusTransitionError';
+    this.actor = actor;
+    this.to = to;
+  }
+}
+
+/**
+ * Statuses a party can move a request to from its current status
+ */
+export const getAvailableTransitions = (status: RequestStatus, actor: RequestActor): RequestStatus[] => {
+  return REQUEST_STATUS_TRANSITIONS[status].filter(to => REQUEST_ACTOR_STATUSES[actor].includes(to));
+};
+
+/**
+ * Check whether a status is final
+ */
+export const isFinalStatus = (status: RequestStatus): boolean => {
+  return REQUEST_STATUS_TRANSITIONS[status].length === 0;
+};
+
+/**
+ * Key identifying a request by what it asks for, so a reviewer's decision can be matched
+ * to the submitter's history entry when the request ID is not known (e.g. the emailed CSV snippet)
+ * @param detail - The new station's name for ADD requests, the alternate name for ALIAS requests
+ */
+export const getRequestKey = (
+  requestType: RequestType,
+  stationCode: string,
+  countryCode: string,
+  detail: string = ''
+): string => {
+  return [requestType, stationCode, countryCode, detail].map(part => part.trim().toLowerCase()).join('|');
+};
+
+/**
+ * Move a request to a new status, recording the change in its audit log
+ * @param entry - Request history entry
+ * @param to - New status
+ * @param changedBy - Who made the change, e.g. an email address
+ * @param note - Optional note, e.g. the reason for a rejection
+ * @param changedAt - When the change was made (defaults to now)
+ * @throws InvalidStatusTransitionError when the new status cannot be reached from the current one
+ */
+export const transitionRequest = (
+  entry: RequestHistoryEntry,
+  to: RequestStatus,
+  changedBy: string,
+  note?: string,
+  changedAt: Date = new Date()
+): RequestHistoryEntry => {
+  if (!canTransition(entry.status, to)) {
+    throw new InvalidStatusTransitionError(entry.status, to);
+  }
+
+  const change: RequestStatusChange = {
+    from: entry.status,
+    to,
+    changedBy: changedBy.trim() || 'Unknown',
+    changedAt,
+    note: note?.trim() || undefined,
+  };
+
+  return {
+    ...entry,
+    status: to,
+    request: { ...entry.request, status: to },
+    auditLog: [...entry.auditLog, change],
+  };
+};
@@ -0,0 +1,183 @@
+// Reverse lookup service - finds the nearest duty stations for lists of coordinates
+// (e.g. GPS points from field missions), and builds the export
+import type { DutyStation, MapCoordinates } from '../types';
+import { buildSpatialIndex, findNearest } from '../utils/spatialIndex';
+import { calculateBearing } from './geocodingService';
+import { buildCountryLookup } from './bulkLookupService';
+import type { BulkLookupTable } from './bulkLookupService';
+import { normalizeText } from '../utils/textNormalization';
+
+/**
+ * One row to resolve - its point (null when the coordinates could not be read) and,
+ * when the input has one, a country column
+ */
+export interface ReverseLookupQuery {
+  point: MapCoordinates | null;
+  country?: string;
+}
+
+export interface ReverseLookupOptions {
+  count: number;                // Stations to return per point
+  sameCountry: boolean;         // Only return stations in the point's country
+  includeObsolete: boolean;
+}
+
+export interface ReverseLookupMatch {
+  station: DutyStation;
+  distanceKm: number;
+  bearing: number;              // Degrees clockwise from north, from the point to the station
+}
+
+export interface ReverseLookupResult {
+  point: MapCoordinates | null;
+  countryCode: string | null;   // Country the matches were restricted to
+  matches: ReverseLookupMatch[];   // Nearest first
+}
+
+export const MAX_REVERSE_LOOKUP_COUNT = 10;
+
+const DEGREE_VALUE = /^([NSEW])?\s*([+-]?\d+(?:\.\d+)?)\s*(?:°|º)?\s*(?:(\d+(?:\.\d+)?)\s*['′]\s*)?(?:(\d+(?:\.\d+)?)\s*(?:"|″|'')\s*)?([NSEW])?$/i;
+
+/**
+ * Read a latitude or longitude - decimal degrees ("-1.2921") or degrees, minutes and seconds
+ * with an optional hemisphere ("1°17'32\"S", "S 1.2921")
+ * @returns The value in decimal degrees, or null when it is not a valid coordinate
+ */
+export const parseCoordinateValue = (text: string, axis: 'latitude' | 'longitude'): number | null => {
+  const match = text.trim().match(DEGREE_VALUE);
+  if (!match) return null;
+
+  const [, prefix, degreesText, minutesText, secondsText, suffix] = match;
+  const hemisphere = (prefix ?? suffix ?? '').toUpperCase();
+  if (prefix && suffix) return null;
+  if (hemisphere && (axis === 'latitude' ? !'NS'.includes(hemisphere) : !'EW'.includes(hemisphere))) return null;
+
+  const minutes = minutesText ? Number(minutesText) : 0;
+  const seconds = secondsText ? Number(secondsText) : 0;
+  if (minutes >= 60 || seconds >= 60) return null;
+
+  const degrees = Number(degreesText);
+  const magnitude = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+  const negative = degreesText.startsWith('-') || hemisphere === 'S' || hemisphere === 'W';
+  const value = negative ? -magnitude : magnitude;
+
+  const limit = axis === 'latitude' ? 90 : 180;
+  return value >= -limit && value <= limit ? value : null;
+};
+
+/**
+ * Read a point from separate latitude and longitude values
+ */
+export const parseCoordinateFields = (latitudeText: string, longitudeText: string): MapCoordinates | null => {
+  const latitude = parseCoordinateValue(latitudeText, 'latitude');
+  const longitude = parseCoordinateValue(longitudeText, 'longitude');
+  return latitude !== null && longitude !== null ? { latitude, longitude } : null;
+};
+
+/**
+ * Read a "latitude, longitude" pair - separated by a comma, a semicolon or a space
+ */
+export const parseCoordinatePair = (text: string): MapCoordinates | null => {
+  const trimmed = text.trim();
+  const parts = /[,;]/.test(trimmed)
+    ? trimmed.split(/\s*[,;]\s*/)
+    : trimmed.match(/^(.*?[NS])\s+(.*[EW])$/i)?.slice(1) ?? trimmed.split(/\s+/);
+  return parts.length === 2 ? parseCoordinateFields(parts[0], parts[1]) : null;
+};
+
+/**
+ * Guess the coordinate and country columns from the headers
+ * The latitude and longitude columns are the same when one column holds "lat, lng" pairs
+ */
+export const guessCoordinateColumns = (
+  headers: string[]
+): { latitudeColumn: number; longitudeColumn: number; countryColumn: number | null } => {
+  const find = (pattern: RegExp) => headers.findIndex(header => pattern.test(header.trim()));
+  const latitudeColumn = find(/^(lat|latitude|y)\b/i);
+  const longitudeColumn = find(/^(lon|lng|long|longitude|x)\b/i);
+  const countryColumn = find(/country|pays|pa[ií]s/i);
+  const pairColumn = Math.max(0, find(/coord|location|position|gps|point/i));
+
+  return latitudeColumn >= 0 && longitudeColumn >= 0
+    ? { latitudeColumn, longitudeColumn, countryColumn: countryColumn >= 0 ? countryColumn : null }
+    : { latitudeColumn: pairColumn, longitudeColumn: pairColumn, countryColumn: countryColumn >= 0 ? countryColumn : null };
+};
+
+/**
+ * Find the nearest duty stations for each point
+ * With sameCountry, matches are restricted to the row's country column, or - when the row has
+ * no recognised country - to the country of the nearest station.
+ * @returns One result per query, in the same order
+ */
+export const resolveReverseLookup = (
+  stations: DutyStation[],
+  queries: ReverseLookupQuery[],
+  options: ReverseLookupOptions
+): ReverseLookupResult[] => {
+  const candidates = options.includeObsolete ? stations : stations.filter(station => station.OBSOLETE !== '1');
+  const index = buildSpatialIndex(candidates);
+  const countries = buildCountryLookup(stations);
+  const count = Math.min(Math.max(1, Math.round(options.count)), MAX_REVERSE_LOOKUP_COUNT);
+
+  return queries.map(({ point, country }): ReverseLookupResult => {
+    if (!point) return { point: null, countryCode: null, matches: [] };
+
+    let countryCode: string | null = null;
+    if (options.sameCountry) {
+      countryCode = country?.trim() ? countries.get(normalizeText(country.trim())) ?? null : null;
+      countryCode ??= findNearest(index, point, 1)[0]?.item.COUNTRY_CODE ?? null;
+    }
+
+    const nearest = findNearest(
+      index,
+      point,
+      count,
+      countryCode ? station => station.COUNTRY_CODE === countryCode : undefined
+    );
+
+    return {
+      point,
+      countryCode,
+      matches: nearest.map(({ item, distanceKm }) => ({
+        station: item,
+        distanceKm,
+        bearing: calculateBearing(point, { latitude: item.LATITUDE, longitude: item.LONGITUDE }),
+      })),
+    };
+  });
+};
+
+/**
+ * Original rows with their nearest stations - one output row per match, ranked from 1
+ * Rows without a match are kept with empty station columns. Original columns that clash with the
+ * added ones are kept with an "(original)" suffix.
+ */
+export const buildReverseLookupExport = (
+  table: BulkLookupTable,
+  results: ReverseLookupResult[]
+): Array<Record<string, string | number>> => {
+  const added = ['RANK', 'CITY_CODE', 'COUNTRY_CODE', 'CITY_NAME', 'DISTANCE_KM', 'BEARING_DEGREES'];
+  const headers = table.headers.map(header => (added.includes(header) ? `${header} (original)` : header));
+
+  return table.rows.flatMap((row, index): Array<Record<string, string | number>> => {
+    const original: Record<string, string | number> = {};
+    headers.forEach((header, column) => {
+      original[header] = row[column] ?? '';
+    });
+
+    const matches = results[index]?.matches ?? [];
+    if (matches.length === 0) {
+      return [{ ...original, RANK: '', CITY_CODE: '', COUNTRY_CODE: '', CITY_NAME: '', DISTANCE_KM: '', BEARING_DEGREES: '' }];
+    }
+
+    return matches.map((match, rank) => ({
+      ...original,
+      RANK: rank + 1,
+      CITY_CODE: match.station.CITY_CODE,
+      COUNTRY_CODE: match.station.COUNTRY_CODE,
+      CITY_NAME: match.station.CITY_NAME,
+      DISTANCE_KM: Math.round(match.distanceKm * 100) / 100,
+      BEARING_DEGREES: Math.round(match.bearing),
+    }));
+  });
+};
@@ -0,0 +1,520 @@
+// Reviewer workspace service - reads incoming requests, compares them with the current
+// dataset and writes the reviewer's decisions to a file submitters import into their history
+import type { Country, DutyStation, MapCoordinates } from '../types';
+import type { RequestType, ReviewDecision, ReviewDecisionFile } from '../types/request';
+import { dutyStationRequestSchema } from '../schemas/dutyStationSchema';
+import type { AlternateNameRequest, DutyStationRequest } from '../schemas/dutyStationSchema';
+import { getRequestKey } from './requestLifecycleService';
+import { calculateDistance } from './geocodingService';
+import { assessStationCoordinates } from '../utils/coordinateAnomalies';
+import { getStationKey } from '../utils/datasetDiff';
+import { parseCSV } from '../utils/csvParser';
+import { normalizeText } from '../utils/textNormalization';
+import { getProposedUpdate } from '../utils/proposedChanges';
+
+const DECISION_FILE_FORMAT = 'un-duty-station-review-decisions';
+
+// Existing stations this close to a new station are pointed out to the reviewer
+const NEARBY_STATION_KM = 10;
+
+/**
+ * A request as the reviewer receives it
+ */
+export interface ReviewRequest {
+  requestKey: string;
+  requestId?: string;           // Only in exported baskets
+  requestType: RequestType;
+  stationCode: string;
+  countryCode: string;
+  name?: string;                // ADD: the new station's name
+  commonName?: string;
+  coordinates?: MapCoordinates; // ADD: the new station's coordinates; COORDINATE_UPDATE: the proposed ones
+  language?: string;            // ALIAS only
+  alternateName?: string;       // ALIAS only
+  proposedChanges?: { name?: string; commonName?: string; coordinates?: MapCoordinates };  // UPDATE, basket only
+  justification: string;
+  submittedBy?: string;         // Basket only; the email carries the submitter separately
+  original?: DutyStationRequest; // Basket only
+}
+
+/**
+ * Requests read from the reviewer's input, with the parts that could not be read
+ */
+export interface ReviewInput {
+  source: 'csv' | 'basket';
+  requests: ReviewRequest[];
+  errors: string[];
+}
+
+export type ReviewCheckSeverity = 'info' | 'warning' | 'error';
+
+export interface ReviewCheck {
+  severity: ReviewCheckSeverity;
+  message: string;
+}
+
+/**
+ * A request compared with the current dataset
+ */
+export interface ReviewComparison {
+  station?: DutyStation;        // The station the request changes, when it exists
+  changes: Array<{ field: string; current: string; proposed: string }>;
+  checks: ReviewCheck[];
+}
+
+const INSTRUCTION_TYPES: Record<string, RequestType> = {
+  'UPDATE': 'update',
+  'REMOVE': 'remove',
+  'COORDINATE UPDATE': 'coordinate_update',
+  'ALIAS': 'alias',
+};
+
+// e.g. "REMOVE: Duty Station NBO (KEN) - Mark as OBSOLETE=1 in CSV. JUSTIFICATION: ..."
+const INSTRUCTION_PATTERN = /^(UPDATE|REMOVE|COORDINATE UPDATE|ALIAS): Duty Station (\S*) \((\S*)\) - (.*?)\s*JUSTIFICATION: ?(.*)$/;
+const COORDINATES_PATTERN = /LATITUDE=(-?[\d.]+), LONGITUDE=(-?[\d.]+)/;
+const ALIAS_PATTERN = /LANGUAGE=(\w+), ALTERNATE_NAME="(.*)"/;
+
+/**
+ * Read the CSV snippet from a request email: a CSV table of ADD requests followed by
+ * one instruction line per other request
+ */
+const parseCsvSnippet = (text: string): ReviewInput => {
+  const requests: ReviewRequest[] = [];
+  const errors: string[] = [];
+
+  // The email encodes line breaks and tabs as HTML entities
+  const lines = text
+    .replace(/&#13;/g, '\n')
+    .replace(/&#9;/g, '\t')
+    .split(/\r\n|\n|\r/)
+    .map(line => line.trim());
+
+  const headerIndex = lines.findIndex(line => line.startsWith('CITY_CODE,COUNTRY_CODE,'));
+  if (headerIndex >= 0) {
+    const end = lines.findIndex((line, index) => index > headerIndex && (!line || line.startsWith('INSTRUCTIONS')));
+    const table = parseCSV(lines.slice(headerIndex, end < 0 ? undefined : end).join('\n'));
+    table.errors.forEach(error => errors.push(`ADD request on line ${headerIndex + error.line}: ${error.reason}`));
+    table.rows.forEach(row => {
+      const latitude = parseFloat(row.LATITUDE);
+      const longitude = parseFloat(row.LONGITUDE);
+      requests.push({
+        requestKey: getRequestKey('add', row.CITY_CODE ?? '', row.COUNTRY_CODE ?? '', row.CITY_NAME ?? ''),
+        requestType: 'add',
+        stationCode: row.CITY_CODE ?? '',
+        countryCode: row.COUNTRY_CODE ?? '',
+        name: row.CITY_NAME ?? '',
+        commonName: row.COMMON_NAME || undefined,
+        coordinates: isNaN(latitude) || isNaN(longitude) ? undefined : { latitude, longitude },
+        justification: row.JUSTIFICATION ?? '',
+      });
+    });
+  }
+
+  lines.forEach((line, index) => {
+    const match = INSTRUCTION_PATTERN.exec(line);
+    if (!match) {
+      if (/^(UPDATE|REMOVE|COORDINATE UPDATE|ALIAS):/.test(line)) {
+        errors.push(`Line ${index + 1} could not be read: ${line}`);
+      }
+      return;
+    }
+
+    const [, label, stationCode, countryCode, instruction, justification] = match;
+    const requestType = INSTRUCTION_TYPES[label];
+    const request: ReviewRequest = {
+      requestKey: getRequestKey(requestType, stationCode, countryCode),
+      requestType,
+      stationCode,
+      countryCode,
+      justification,
+    };
+
+    if (requestType === 'coordinate_update') {
+      const coordinates = COORDINATES_PATTERN.exec(instruction);
+      if (coordinates) {
+        request.coordinates = { latitude: parseFloat(coordinates[1]), longitude: parseFloat(coordinates[2]) };
+      }
+    } else if (requestType === 'alias') {
+      const alias = ALIAS_PATTERN.exec(instruction);
+      if (alias) {
+        request.language = alias[1];
+        request.alternateName = alias[2];
+        request.requestKey = getRequestKey('alias', stationCode, countryCode, alias[2]);
+      }
+    }
+    requests.push(request);
+  });
+
+  return { source: 'csv', requests, errors };
+};
+
+/**
+ * Describe a basket request the same way the CSV snippet does
+ */
+const toReviewRequest = (id: string, request: DutyStationRequest): ReviewRequest => {
+  const common = { requestId: id, justification: request.justification, submittedBy: request.submittedBy, original: request };
+
+  switch (request.requestType) {
+    case 'add':
+      return {
+        ...common,
+        requestKey: getRequestKey('add', request.proposedCode || '', request.countryCode, request.name),
+        requestType: 'add',
+        stationCode: request.proposedCode || '',
+        countryCode: request.countryCode,
+        name: request.name,
+        commonName: request.commonName || undefined,
+        coordinates: request.coordinates,
+      };
+    case 'update':
+      return {
+        ...common,
+        requestKey: getRequestKey('update', request.dutyStationCode, request.countryCode),
+        requestType: 'update',
+        stationCode: request.dutyStationCode,
+        countryCode: request.countryCode,
+        proposedChanges: request.proposedChanges,
+      };
+    case 'coordinate_update':
+      return {
+        ...common,
+        requestKey: getRequestKey('coordinate_update', request.dutyStationCode, request.countryCode),
+        requestType: 'coordinate_update',
+        stationCode: request.dutyStationCode,
+        countryCode: request.countryCode,
+        coordinates: request.proposedCoordinates,
+      };
+    case 'alias':
+      return {
+        ...common,
+        requestKey: getRequestKey('alias', request.dutyStationCode, request.countryCode, request.alternateName),
+        requestType: 'alias',
+        stationCode: request.dutyStationCode,
+        countryCode: request.countryCode,
+        language: request.language,
+        alternateName: request.alternateName,
+      };
+    default:
+      return {
+        ...common,
+        requestKey: getRequestKey(request.requestType, request.dutyStationCode, request.countryCode),
+        requestType: request.requestType,
+        stationCode: request.dutyStationCode,
+        countryCode: request.countryCode,
+      };
+  }
+};
+
+/**
+ * Read an exported basket (the JSON file from the Requests page)
+ */
+const parseBasketJson = (text: string): ReviewInput => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The basket file is not valid JSON');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('The basket file should contain a list of requests');
+  }
+
+  const requests: ReviewRequest[] = [];
+  const errors: string[] = [];
+  parsed.forEach((item, index) => {
+    const result = dutyStationRequestSchema.safeParse({
+      ...item?.request,
+      requestDate: new Date(item?.request?.requestDate ?? Date.now()),
+    });
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const field = issue?.path.length ? ` (${issue.path.join('.')})` : '';
+      errors.push(`Request ${index + 1}${field}: ${issue?.message ?? 'invalid request'}`);
+      return;
+    }
+    requests.push(toReviewRequest(String(item.id ?? index), result.data));
+  });
+
+  return { source: 'basket', requests, errors };
+};
+
+/**
+ * Read the reviewer's input - either the CSV snippet from a request email or an exported basket
+ * @throws Error when the input is neither
+ */
+export const parseReviewInput = (text: string): ReviewInput => {
+  const trimmed = text.trim();
+  if (!trimmed) return { source: 'csv', requests: [], errors: [] };
+
+  const input = trimmed.startsWith('[') ? parseBasketJson(trimmed) : parseCsvSnippet(trimmed);
+  if (input.requests.length === 0 && input.errors.length === 0) {
+    throw new Error('No requests found. Paste the CSV snippet from a request email or upload an exported basket.');
+  }
+  return input;
+};
+
+/**
+ * The request as submitted - the original for basket requests, rebuilt from the CSV snippet otherwise
+ * Rebuilt UPDATE requests have no proposed changes, since the snippet does not list them
+ */
+export const toDutyStationRequest = (request: ReviewRequest): DutyStationRequest => {
+  if (request.original) return request.original;
+
+  const base = {
+    requestDate: new Date(),
+    submittedBy: request.submittedBy ?? '',
+    organization: '',
+    justification: request.justification,
+  };
+  const station = { name: request.name ?? '', country: '' };
+  const coordinates = request.coordinates ?? { latitude: 0, longitude: 0 };
+
+  switch (request.requestType) {
+    case 'add':
+      return {
+        ...base,
+        ...station,
+        requestType: 'add',
+        countryCode: request.countryCode,
+        commonName: request.commonName,
+        coordinates,
+        proposedCode: request.stationCode,
+      };
+    case 'update':
+      return {
+        ...base,
+        requestType: 'update',
+        dutyStationCode: request.stationCode,
+        countryCode: request.countryCode,
+        currentData: { ...station, coordinates },
+        proposedChanges: {},
+      };
+    case 'coordinate_update':
+      return {
+        ...base,
+        requestType: 'coordinate_update',
+        dutyStationCode: request.stationCode,
+        countryCode: request.countryCode,
+        stationName: '',
+        currentCoordinates: coordinates,
+        proposedCoordinates: coordinates,
+      };
+    case 'alias':
+      return {
+        ...base,
+        requestType: 'alias',
+        dutyStationCode: request.stationCode,
+        countryCode: request.countryCode,
+        stationName: '',
+        language: (request.language ?? 'en') as AlternateNameRequest['language'],
+        alternateName: request.alternateName ?? '',
+      };
+    default:
+      return {
+        ...base,
+        requestType: 'remove',
+        dutyStationCode: request.stationCode,
+        countryCode: request.countryCode,
+        currentData: station,
+      };
+  }
+};
+
+/**
+ * Short description of a request, e.g. "NBO - Nairobi"
+ */
+export const getReviewRequestLabel = (request: ReviewRequest, station?: DutyStation): string => {
+  const name = request.requestType === 'add'
+    ? request.name
+    : request.requestType === 'alias'
+      ? `${station?.CITY_NAME ?? ''} → ${request.alternateName ?? ''}`
+      : station?.CITY_NAME;
+  return [request.stationCode, name].filter(Boolean).join(' - ');
+};
+
+const formatCoordinates = (coordinates?: MapCoordinates): string => {
+  return coordinates ? `${coordinates.latitude.toFixed(6)}, ${coordinates.longitude.toFixed(6)}` : '';
+};
+
+/**
+ * Compare a request with the current dataset
+ * @param stationsByKey - Stations keyed by getStationKey
+ */
+export const compareWithDataset = (
+  request: ReviewRequest,
+  stations: DutyStation[],
+  stationsByKey: Map<string, DutyStation>,
+  countries: Country[]
+): ReviewComparison => {
+  const checks: ReviewCheck[] = [];
+  const changes: ReviewComparison['changes'] = [];
+  const country = countries.find(c => c.COUNTRY_CODE === request.countryCode);
+
+  if (!country) {
+    checks.push({ severity: 'error', message: `Country code ${request.countryCode || '(empty)'} is not in the country list` });
+  }
+
+  const checkCoordinates = (coordinates: MapCoordinates | undefined, station: DutyStation) => {
+    if (!coordinates) {
+      checks.push({ severity: 'error', message: 'The request has no coordinates' });
+      return;
+    }
+    const assessment = assessStationCoordinates(
+      { ...station, LATITUDE: coordinates.latitude, LONGITUDE: coordinates.longitude },
+      countries
+    );
+    if (assessment.anomaly) {
+      checks.push({ severity: 'warning', message: assessment.message });
+    }
+  };
+
+  if (request.requestType === 'add') {
+    const name = request.name ?? '';
+    const newStation: DutyStation = {
+      CITY_CODE: request.stationCode,
+      COUNTRY_CODE: request.countryCode,
+      CITY_NAME: name,
+      CITY_COMMON_NAME: request.commonName ?? '',
+      LATITUDE: request.coordinates?.latitude ?? 0,
+      LONGITUDE: request.coordinates?.longitude ?? 0,
+      OBSOLETE: '0',
+    };
+
+    const existing = stationsByKey.get(getStationKey(newStation));
+    if (!request.stationCode) {
+      checks.push({ severity: 'error', message: 'The request has no duty station code' });
+    } else if (existing) {
+      checks.push({ severity: 'error', message: `Code ${request.stationCode} is already used by ${existing.CITY_NAME} in this country` });
+    }
+
+    const sameName = stations.find(station =>
+      station.COUNTRY_CODE === request.countryCode && normalizeText(station.CITY_NAME) === normalizeText(name)
+    );
+    if (sameName) {
+      checks.push({
+        severity: 'warning',
+        message: `${sameName.CITY_NAME} (${sameName.CITY_CODE}) already exists in this country${sameName.OBSOLETE === '1' ? ' as an obsolete station' : ''}`,
+      });
+    }
+
+    checkCoordinates(request.coordinates, newStation);
+    if (request.coordinates) {
+      const center = request.coordinates;
+      stations
+        .map(station => ({ station, distance: calculateDistance(center, { latitude: station.LATITUDE, longitude: station.LONGITUDE }) }))
+        .filter(({ station, distance }) => distance <= NEARBY_STATION_KM && station !== sameName)
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, 3)
+        .forEach(({ station, distance }) => checks.push({
+          severity: 'info',
+          message: `${station.CITY_NAME} (${station.CITY_CODE}) is ${distance.toFixed(1)} km away`,
+        }));
+    }
+
+    changes.push(
+      { field: 'CITY_CODE', current: '', proposed: request.stationCode },
+      { field: 'CITY_NAME', current: '', proposed: name },
+      { field: 'CITY_COMMON_NAME', current: '', proposed: request.commonName ?? '' },
+      { field: 'Coordinates', current: '', proposed: formatCoordinates(request.coordinates) },
+    );
+    return { changes, checks };
+  }
+
+  const station = stationsByKey.get(getStationKey({ CITY_CODE: request.stationCode, COUNTRY_CODE: request.countryCode }));
+  if (!station) {
+    checks.push({ severity: 'error', message: `Duty station ${request.stationCode} (${request.countryCode}) does not exist` });
+    return { changes, checks };
+  }
+  if (station.OBSOLETE === '1') {
+    checks.push({
+      severity: request.requestType === 'remove' ? 'error' : 'warning',
+      message: `${station.CITY_NAME} is already obsolete`,
+    });
+  }
+
+  const currentCoordinates = { latitude: station.LATITUDE, longitude: station.LONGITUDE };
+  switch (request.requestType) {
+    case 'update': {
+      if (!request.proposedChanges) {
+        checks.push({ severity: 'info', message: 'The CSV snippet does not list the fields to update; see the request email' });
+        break;
+      }
+      const proposed = getProposedUpdate(request.proposedChanges);
+      if (proposed.name && proposed.name !== station.CITY_NAME) {
+        changes.push({ field: 'CITY_NAME', current: station.CITY_NAME, proposed: proposed.name });
+      }
+      if (proposed.commonName && proposed.commonName !== station.CITY_COMMON_NAME) {
+        changes.push({ field: 'CITY_COMMON_NAME', current: station.CITY_COMMON_NAME, proposed: proposed.commonName });
+      }
+      if (proposed.coordinates &&
+        (proposed.coordinates.latitude !== station.LATITUDE || proposed.coordinates.longitude !== station.LONGITUDE)) {
+        changes.push({ field: 'Coordinates', current: formatCoordinates(currentCoordinates), proposed: formatCoordinates(proposed.coordinates) });
+        checkCoordinates(proposed.coordinates, station);
+      }
+      if (changes.length === 0) {
+        checks.push({ severity: 'warning', message: 'The proposed values are the same as the current ones' });
+      }
+      break;
+    }
+    case 'remove':
+      changes.push({ field: 'OBSOLETE', current: station.OBSOLETE, proposed: '1' });
+      break;
+    case 'coordinate_update':
+      changes.push({ field: 'Coordinates', current: formatCoordinates(currentCoordinates), proposed: formatCoordinates(request.coordinates) });
+      checkCoordinates(request.coordinates, station);
+      if (request.coordinates) {
+        checks.push({
+          severity: 'info',
+          message: `The station moves ${calculateDistance(currentCoordinates, request.coordinates).toFixed(1)} km`,
+        });
+      }
+      break;
+    case 'alias': {
+      const existing = station.ALTERNATE_NAMES?.find(alternate => alternate.language === request.language);
+      if (existing && normalizeText(existing.name) === normalizeText(request.alternateName ?? '')) {
+        checks.push({ severity: 'error', message: `${station.CITY_NAME} already has this alternate name` });
+      } else if (existing) {
+        checks.push({ severity: 'warning', message: `Replaces the existing ${request.language?.toUpperCase()} name "${existing.name}"` });
+      }
+      changes.push({
+        field: `Alternate name (${request.language?.toUpperCase() ?? '?'})`,
+        current: existing?.name ?? '',
+        proposed: request.alternateName ?? '',
+      });
+      break;
+    }
+  }
+
+  return { station, changes, checks };
+};
+
+/**
+ * Build the decision file for the reviewed requests
+ */
+export const buildDecisionFile = (decisions: ReviewDecision[]): ReviewDecisionFile => ({
+  format: DECISION_FILE_FORMAT,
+  version: 1,
+  createdAt: new Date(),
+  decisions,
+});
+
+/**
+ * Read a decision file produced by the reviewer workspace
+ * @throws Error when the file is not a decision file
+ */
+export const parseDecisionFile = (text: string): ReviewDecision[] => {
+  let parsed: Partial<ReviewDecisionFile>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The decision file is not valid JSON');
+  }
+  if (parsed?.format !== DECISION_FILE_FORMAT || !Array.isArray(parsed.decisions)) {
+    throw new Error('This is not a review decision file');
+  }
+
+  return parsed.decisions
+    .filter(decision => decision && typeof decision.requestKey === 'string'
+      && (decision.decision === 'approved' || decision.decision === 'rejected'))
+    .map(decision => ({ ...decision, reviewedAt: new Date(decision.reviewedAt) }));
+};
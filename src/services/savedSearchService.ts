@@ -0,0 +1,192 @@
+// Saved searches and recent search history with localStorage persistence
+import type { DutyStation } from '../types';
+import type { SearchFilters } from '../types/search';
+import { getStationKey } from '../utils/datasetDiff';
+
+const SAVED_SEARCHES_KEY = 'un_duty_station_saved_searches';
+const SEARCH_HISTORY_KEY = 'un_duty_station_search_history';
+
+const MAX_HISTORY_ENTRIES = 20;
+// A search this soon after the previous one may be the same query still being typed
+const REFINEMENT_WINDOW_MS = 60_000;
+
+/**
+ * What a search looks for - everything needed to run it again
+ */
+export type SearchCriteria = Pick<SearchFilters, 'query' | 'searchType' | 'fields' | 'showObsolete'> & {
+  countryFilter: string;
+};
+
+/**
+ * Fingerprint of a result set, to tell when the results of a search have changed
+ */
+export interface ResultSnapshot {
+  signature: string;
+  count: number;
+  runAt: string;                // ISO date
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  criteria: SearchCriteria;
+  pinned: boolean;
+  createdAt: string;            // ISO date
+  lastRun: ResultSnapshot | null;
+}
+
+export interface SearchHistoryEntry {
+  criteria: SearchCriteria;
+  resultCount: number;
+  runAt: string;                // ISO date
+}
+
+const generateId = (): string => {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+};
+
+const readList = <T>(key: string): T[] => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T[]) : [];
+  } catch (error) {
+    console.error(`Error loading ${key} from localStorage:`, error);
+    return [];
+  }
+};
+
+const writeList = <T>(key: string, items: T[]): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(items));
+  } catch (error) {
+    console.error(`Error saving ${key} to localStorage:`, error);
+  }
+};
+
+/**
+ * Key identifying the same search regardless of field order
+ */
+export const getCriteriaKey = (criteria: SearchCriteria): string =>
+  JSON.stringify([
+    criteria.query.trim(),
+    criteria.searchType,
+    [...criteria.fields].sort(),
+    criteria.countryFilter,
+    criteria.showObsolete,
+  ]);
+
+/**
+ * Fingerprint the stations a search returned (order does not matter)
+ */
+export const createResultSnapshot = (stations: DutyStation[]): ResultSnapshot => {
+  // 32-bit FNV-1a over the sorted station keys
+  let hash = 0x811c9dc5;
+  const keys = stations.map(getStationKey).sort().join(',');
+  for (let i = 0; i < keys.length; i++) {
+    hash ^= keys.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return {
+    signature: (hash >>> 0).toString(16).padStart(8, '0'),
+    count: stations.length,
+    runAt: new Date().toISOString(),
+  };
+};
+
+// Pinned searches first, then by name
+const sortSavedSearches = (searches: SavedSearch[]): SavedSearch[] =>
+  [...searches].sort((a, b) => Number(b.pinned) - Number(a.pinned) || a.name.localeCompare(b.name));
+
+/**
+ * Load saved searches, pinned first
+ */
+export const loadSavedSearches = (): SavedSearch[] => sortSavedSearches(readList<SavedSearch>(SAVED_SEARCHES_KEY));
+
+const updateSavedSearches = (update: (searches: SavedSearch[]) => SavedSearch[]): SavedSearch[] => {
+  const searches = sortSavedSearches(update(readList<SavedSearch>(SAVED_SEARCHES_KEY)));
+  writeList(SAVED_SEARCHES_KEY, searches);
+  return searches;
+};
+
+/**
+ * Save a search under a name; saving the same criteria again renames the existing entry
+ * @returns Updated saved searches
+ */
+export const saveSearch = (name: string, criteria: SearchCriteria, lastRun: ResultSnapshot | null): SavedSearch[] => {
+  const key = getCriteriaKey(criteria);
+  return updateSavedSearches(searches => {
+    const existing = searches.find(search => getCriteriaKey(search.criteria) === key);
+    if (existing) {
+      return searches.map(search => (search === existing ? { ...search, name, lastRun: lastRun ?? search.lastRun } : search));
+    }
+    return [
+      ...searches,
+      { id: generateId(), name, criteria, pinned: false, createdAt: new Date().toISOString(), lastRun },
+    ];
+  });
+};
+
+export const renameSavedSearch = (id: string, name: string): SavedSearch[] =>
+  updateSavedSearches(searches => searches.map(search => (search.id === id ? { ...search, name } : search)));
+
+export const toggleSavedSearchPin = (id: string): SavedSearch[] =>
+  updateSavedSearches(searches => searches.map(search => (search.id === id ? { ...search, pinned: !search.pinned } : search)));
+
+export const deleteSavedSearch = (id: string): SavedSearch[] =>
+  updateSavedSearches(searches => searches.filter(search => search.id !== id));
+
+/**
+ * Remember the results a saved search returned when it was last run
+ */
+export const recordSavedSearchRun = (id: string, lastRun: ResultSnapshot): SavedSearch[] =>
+  updateSavedSearches(searches => searches.map(search => (search.id === id ? { ...search, lastRun } : search)));
+
+/**
+ * Load recent searches, most recent first
+ */
+export const loadSearchHistory = (): SearchHistoryEntry[] => readList<SearchHistoryEntry>(SEARCH_HISTORY_KEY);
+
+/**
+ * Add a search to the history
+ * A repeated search moves to the top. While a query is being typed, each refinement
+ * replaces the previous entry instead of adding "Na", "Nai", "Nair"...
+ * @returns Updated history
+ */
+export const addSearchHistoryEntry = (criteria: SearchCriteria, resultCount: number): SearchHistoryEntry[] => {
+  const query = criteria.query.trim();
+  if (!query && criteria.countryFilter === 'all') return loadSearchHistory();
+
+  const key = getCriteriaKey(criteria);
+  const [latest, ...older] = loadSearchHistory();
+  const isRefinement = latest
+    && Date.now() - new Date(latest.runAt).getTime() < REFINEMENT_WINDOW_MS
+    && getCriteriaKey({ ...latest.criteria, query: '' }) === getCriteriaKey({ ...criteria, query: '' })
+    && (query.startsWith(latest.criteria.query.trim()) || latest.criteria.query.trim().startsWith(query));
+
+  const kept = (isRefinement ? older : [latest, ...older])
+    .filter((entry): entry is SearchHistoryEntry => !!entry && getCriteriaKey(entry.criteria) !== key);
+  const history = [{ criteria, resultCount, runAt: new Date().toISOString() }, ...kept].slice(0, MAX_HISTORY_ENTRIES);
+  writeList(SEARCH_HISTORY_KEY, history);
+  return history;
+};
+
+export const removeSearchHistoryEntry = (criteria: SearchCriteria): SearchHistoryEntry[] => {
+  const key = getCriteriaKey(criteria);
+  const history = loadSearchHistory().filter(entry => getCriteriaKey(entry.criteria) !== key);
+  writeList(SEARCH_HISTORY_KEY, history);
+  return history;
+};
+
+export const clearSearchHistory = (): void => {
+  writeList<SearchHistoryEntry>(SEARCH_HISTORY_KEY, []);
+};
+
+/**
+ * Short description of a search for menus, e.g. "Kh · Sudan · incl. obsolete"
+ */
+export const describeSearchCriteria = (criteria: SearchCriteria): string =>
+  [
+    criteria.query.trim() || 'All stations',
+    criteria.countryFilter !== 'all' ? criteria.countryFilter : null,
+    criteria.showObsolete ? 'incl. obsolete' : null,
+  ].filter(Boolean).join(' · ');
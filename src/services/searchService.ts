@@ -2,13 +2,53 @@
 // Following CEB Donor Codes proven patterns
 
 import Fuse, { type IFuseOptions } from 'fuse.js';
-import soundex from 'soundex';
-import type { DutyStation } from '../types';
-import { SearchType, type SearchOptions, type SearchResult, type SearchFilters } from '../types/search';
+import type { DutyStation, MapCoordinates } from '../types';
+import {
+  SearchType,
+  type SearchOptions,
+  type SearchResult,
+  type SearchFilters,
+  type Suggestion,
+  type SuggestionOptions,
+} from '../types/search';
+import {
+  SEARCH_QUERY_FIELD_COLUMNS,
+  SearchQueryError,
+  getTermStrategy,
+  isStructuredQuery,
+  parseObsoleteValue,
+  parseSearchQuery,
+  parseSpatialQuery,
+  queryUsesField,
+  type SearchQueryNode,
+  type SearchQueryTerm,
+  type SpatialAnchor,
+} from '../utils/searchQuery';
+import { buildAutocompleteIndex, getAutocompleteSuggestions, type AutocompleteIndex } from './autocompleteService';
+import { buildSpatialIndex, findInBounds, findWithinRadius, type SpatialIndex } from '../utils/spatialIndex';
+import { foldText, normalizeText, toSourceRange } from '../utils/textNormalization';
+import { encodePhoneticQuery, encodePhoneticWords, type PhoneticAlgorithm } from '../utils/phonetic';
+
+// Alternate names are a list of { language, name } - their Fuse key and searchable values
+const ALTERNATE_NAME_KEY = 'ALTERNATE_NAMES.name';
+
+function getFieldValues(item: DutyStation, field: keyof DutyStation): string[] {
+  if (field === 'ALTERNATE_NAMES') {
+    return (item.ALTERNATE_NAMES ?? []).map(alternate => alternate.name);
+  }
+  const value = item[field];
+  return typeof value === 'string' ? [value] : [];
+}
 
 // Fuse.js configuration for fuzzy search
 // Updated to use new CSV field names (December 2025)
+// Field values are normalized (diacritics, ligatures, non-Latin script) before matching
 const fuseOptions: IFuseOptions<DutyStation> = {
+  getFn: (item, path) => {
+    const value = Fuse.config.getFn(item, path);
+    if (Array.isArray(value)) return value.map(normalizeText);
+    return typeof value === 'string' ? normalizeText(value) : value;
+  },
   includeScore: true,
   includeMatches: true,
   threshold: 0.3, // Lower = more strict matching
@@ -30,23 +70,100 @@ const fuseOptions: IFuseOptions<DutyStation> = {
       name: 'COUNTRY_CODE',
       weight: 0.1,
     },
+    {
+      name: ALTERNATE_NAME_KEY,
+      weight: 0.3,
+    },
   ],
 };
 
-// Cache for search instances
-let fuseInstance: Fuse<DutyStation> | null = null;
-let lastDataHash: string | null = null;
+// Cache for search instances, one per key set ('' for the default weighted keys)
+const fuseInstances = new Map<string, { fuse: Fuse<DutyStation>; data: DutyStation[]; dataHash: string }>();
 
-// Create or update Fuse instance
-function getFuseInstance(data: DutyStation[]): Fuse<DutyStation> {
-  const dataHash = JSON.stringify(data.map(d => d.CITY_CODE)).slice(0, 100); // Simple hash
-  
-  if (!fuseInstance || lastDataHash !== dataHash) {
-    fuseInstance = new Fuse(data, fuseOptions);
-    lastDataHash = dataHash;
+// Create or update the Fuse instance for a key set
+function getFuseInstance(data: DutyStation[], fields?: (keyof DutyStation)[]): Fuse<DutyStation> {
+  const keys = fields?.map(field => field === 'ALTERNATE_NAMES' ? ALTERNATE_NAME_KEY : field as string);
+  const cacheKey = keys ? keys.join(',') : '';
+  const cached = fuseInstances.get(cacheKey);
+  if (cached && cached.data === data) return cached.fuse;
+
+  // Filtered lists (country, area) can share their first stations, so the whole list is hashed
+  const dataHash = `${data.length}:${data.map(d => `${d.CITY_CODE}|${d.COUNTRY_CODE}`).join(',')}`;
+  if (cached && cached.dataHash === dataHash) {
+    cached.data = data;
+    return cached.fuse;
   }
-  
-  return fuseInstance;
+
+  const fuse = new Fuse(data, keys ? { ...fuseOptions, keys } : fuseOptions);
+  fuseInstances.set(cacheKey, { fuse, data, dataHash });
+  return fuse;
+}
+
+// Country and obsolete filters of each dataset searched, so repeated queries get the same array
+// back and find their Fuse index by identity instead of hashing the list
+const filteredDataCache = new WeakMap<DutyStation[], Map<string, DutyStation[]>>();
+
+function filterStations(data: DutyStation[], countryFilter: string | undefined, excludeObsolete: boolean): DutyStation[] {
+  const byCountry = Boolean(countryFilter) && countryFilter !== 'all';
+  if (!byCountry && !excludeObsolete) return data;
+
+  let cache = filteredDataCache.get(data);
+  if (!cache) {
+    cache = new Map();
+    filteredDataCache.set(data, cache);
+  }
+
+  const cacheKey = `${byCountry ? countryFilter : ''}|${excludeObsolete}`;
+  let filtered = cache.get(cacheKey);
+  if (!filtered) {
+    filtered = data.filter(station =>
+      (!byCountry || station.COUNTRY === countryFilter) && (!excludeObsolete || station.OBSOLETE !== '1')
+    );
+    cache.set(cacheKey, filtered);
+  }
+  return filtered;
+}
+
+// Spatial index of the last full station list - filtered lists are intersected with it
+let spatialIndex: SpatialIndex<DutyStation> | null = null;
+let spatialIndexData: DutyStation[] | null = null;
+
+function getSpatialIndex(data: DutyStation[]): SpatialIndex<DutyStation> {
+  if (!spatialIndex || spatialIndexData !== data) {
+    spatialIndex = buildSpatialIndex(data);
+    spatialIndexData = data;
+  }
+  return spatialIndex;
+}
+
+// Autocomplete index of the last full station list
+let autocompleteIndex: AutocompleteIndex | null = null;
+let autocompleteIndexData: DutyStation[] | null = null;
+
+/**
+ * Resolve the centre of a radius search
+ * Station names match the official, common or alternate names or the code;
+ * active stations with coordinates are preferred
+ * @throws SearchQueryError when no station with coordinates matches
+ */
+function resolveSpatialAnchor(data: DutyStation[], anchor: SpatialAnchor): MapCoordinates {
+  if (anchor.type === 'coordinates') {
+    return { latitude: anchor.latitude, longitude: anchor.longitude };
+  }
+
+  const located = data.filter(station => station.LATITUDE !== 0 || station.LONGITUDE !== 0);
+  const byPreference = (results: SearchResult<DutyStation>[]) =>
+    results.find(result => result.item.OBSOLETE !== '1') ?? results[0];
+  const match =
+    byPreference(exactSearch(located, anchor.name, ['CITY_NAME', 'CITY_COMMON_NAME', 'ALTERNATE_NAMES', 'CITY_CODE'])) ??
+    byPreference(partialSearch(located, anchor.name, ['CITY_NAME', 'CITY_COMMON_NAME', 'ALTERNATE_NAMES']));
+
+  if (!match) {
+    throw new SearchQueryError(
+      `No duty station with coordinates matches "${anchor.name}" - use a station name or coordinates such as -1.28,36.82`
+    );
+  }
+  return { latitude: match.item.LATITUDE, longitude: match.item.LONGITUDE };
 }
 
 // Exact search implementation
@@ -55,7 +172,7 @@ function exactSearch(
   query: string, 
   fields: (keyof DutyStation)[] = ['CITY_NAME', 'CITY_COMMON_NAME', 'COUNTRY']
 ): SearchResult<DutyStation>[] {
-  const lowerQuery = query.toLowerCase().trim();
+  const lowerQuery = normalizeText(query.trim());
   
   if (!lowerQuery) return [];
   
@@ -63,23 +180,21 @@ function exactSearch(
   
   for (const item of data) {
     // Check for exact matches in specified fields
-    const exactMatches = fields.filter(field => {
-      const fieldValue = item[field];
-      if (typeof fieldValue === 'string') {
-        return fieldValue.toLowerCase() === lowerQuery;
-      }
-      return false;
-    });
+    const exactMatches = fields.flatMap(field =>
+      getFieldValues(item, field)
+        .filter(value => normalizeText(value) === lowerQuery)
+        .map(value => ({
+          field: field as string,
+          value,
+          indices: [[0, value.length - 1]] as [number, number][],
+        }))
+    );
     
     if (exactMatches.length > 0) {
       results.push({
         item,
         score: 0, // Perfect match
-        matches: exactMatches.map(field => ({
-          field: field as string,
-          value: item[field] as string,
-          indices: [[0, (item[field] as string).length - 1]] as [number, number][],
-        })),
+        matches: exactMatches,
       });
     }
   }
@@ -93,7 +208,7 @@ function partialSearch(
   query: string, 
   fields: (keyof DutyStation)[] = ['CITY_NAME', 'CITY_COMMON_NAME', 'COUNTRY']
 ): SearchResult<DutyStation>[] {
-  const lowerQuery = query.toLowerCase().trim();
+  const lowerQuery = normalizeText(query.trim());
   
   if (!lowerQuery) return [];
   
@@ -104,23 +219,22 @@ function partialSearch(
     let bestScore = 1;
     
     fields.forEach(field => {
-      const fieldValue = item[field];
-      if (typeof fieldValue === 'string') {
-        const lowerFieldValue = fieldValue.toLowerCase();
-        const index = lowerFieldValue.indexOf(lowerQuery);
+      getFieldValues(item, field).forEach(fieldValue => {
+        const folded = foldText(fieldValue);
+        const index = folded.text.indexOf(lowerQuery);
         
         if (index !== -1) {
           // Calculate score based on position and length
-          const score = index / lowerFieldValue.length;
+          const score = index / folded.text.length;
           if (score < bestScore) bestScore = score;
           
           matches.push({
             field: field as string,
             value: fieldValue,
-            indices: [[index, index + lowerQuery.length - 1]] as [number, number][],
+            indices: [toSourceRange(folded, index, index + lowerQuery.length - 1)],
           });
         }
-      }
+      });
     });
     
     if (matches.length > 0) {
@@ -136,38 +250,52 @@ function partialSearch(
 }
 
 // Fuzzy search implementation using Fuse.js
+// Specific fields get their own index with equal weights
 function fuzzySearch(
   data: DutyStation[], 
   query: string, 
-  threshold: number = 0.3
+  threshold: number = 0.3,
+  fields?: (keyof DutyStation)[]
 ): SearchResult<DutyStation>[] {
   if (!query.trim()) return [];
   
-  const fuse = getFuseInstance(data);
-  const results = fuse.search(query, { limit: 100 });
+  const fuse = getFuseInstance(data, fields);
+  const results = fuse.search(normalizeText(query), { limit: 100 });
   
+  // Fuse reports positions in the normalized values - map them back to the original text
   return results
     .filter(result => (result.score || 0) <= threshold)
     .map(result => ({
       item: result.item,
       score: result.score || 0,
-      matches: result.matches?.map(match => ({
-        field: match.key || '',
-        value: match.value || '',
-        indices: (match.indices || []).map(([start, end]) => [start, end] as [number, number]) as [number, number][],
-      })),
+      matches: result.matches?.map(match => {
+        const isAlternateName = match.key === ALTERNATE_NAME_KEY;
+        const original = isAlternateName
+          ? result.item.ALTERNATE_NAMES?.[match.refIndex ?? 0]?.name
+          : result.item[match.key as keyof DutyStation];
+        const folded = typeof original === 'string' ? foldText(original) : null;
+        return {
+          field: isAlternateName ? 'ALTERNATE_NAMES' : match.key || '',
+          value: typeof original === 'string' ? original : match.value || '',
+          indices: (match.indices || []).map(([start, end]) =>
+            folded ? toSourceRange(folded, start, end) : [start, end] as [number, number]
+          ),
+        };
+      }),
     }));
 }
 
-// Soundex search implementation
-function soundexSearch(
+// Phonetic search implementation (soundex, Double Metaphone, Beider-Morse)
+// A field value matches when every word of the query sounds like one of its words
+function phoneticSearch(
   data: DutyStation[], 
   query: string, 
-  fields: (keyof DutyStation)[] = ['CITY_NAME', 'CITY_COMMON_NAME']
+  fields: (keyof DutyStation)[] = ['CITY_NAME', 'CITY_COMMON_NAME'],
+  algorithm: PhoneticAlgorithm = 'soundex'
 ): SearchResult<DutyStation>[] {
-  const querySoundex = soundex(query.trim());
+  const queryWords = encodePhoneticQuery(query, algorithm);
   
-  if (!querySoundex) return [];
+  if (queryWords.length === 0) return [];
   
   const results: SearchResult<DutyStation>[] = [];
   
@@ -175,26 +303,26 @@ function soundexSearch(
     const matches: SearchResult<DutyStation>['matches'] = [];
     
     fields.forEach(field => {
-      const fieldValue = item[field];
-      if (typeof fieldValue === 'string') {
-        // Split field value into words and check soundex for each
-        const words = fieldValue.split(/\s+/);
-        words.forEach(word => {
-          if (word.length > 2 && soundex(word) === querySoundex) {
-            matches.push({
-              field: field as string,
-              value: fieldValue,
-              indices: [[0, fieldValue.length - 1]] as [number, number][],
-            });
-          }
-        });
-      }
+      getFieldValues(item, field).forEach(fieldValue => {
+        // Codes of each word are computed once per value and reused across searches
+        const words = encodePhoneticWords(fieldValue, algorithm);
+        const matchedWords = queryWords.map(codes =>
+          words.filter(word => word.codes.some(code => codes.includes(code)))
+        );
+        if (matchedWords.every(found => found.length > 0)) {
+          matches.push({
+            field: field as string,
+            value: fieldValue,
+            indices: matchedWords.flat().map(word => word.range),
+          });
+        }
+      });
     });
     
     if (matches.length > 0) {
       results.push({
         item,
-        score: 0.5, // Medium confidence for soundex matches
+        score: 0.5, // Medium confidence for phonetic matches
         matches,
       });
     }
@@ -203,40 +331,342 @@ function soundexSearch(
   return results;
 }
 
-// Main search function that combines all search types
-export function searchDutyStations(
+// Hybrid search weights - how much a match counts, by strategy and by field
+// Exact and prefix hits on codes and names outrank fuzzy and phonetic matches
+type HybridStrategy = 'exact' | 'prefix' | 'partial' | 'fuzzy' | 'soundex';
+
+const HYBRID_STRATEGY_WEIGHTS: Record<HybridStrategy, number> = {
+  exact: 1,
+  prefix: 0.9,
+  partial: 0.7,
+  fuzzy: 0.6,
+  soundex: 0.45,
+};
+
+const HYBRID_FIELD_WEIGHTS: Partial<Record<keyof DutyStation, number>> = {
+  CITY_CODE: 1,
+  CITY_NAME: 1,
+  CITY_COMMON_NAME: 0.85,
+  COUNTRY: 0.6,
+  COUNTRY_CODE: 0.5,
+  ALTERNATE_NAMES: 0.85,
+};
+
+const HYBRID_STRATEGY_LABELS: Record<HybridStrategy, string> = {
+  exact: 'exact match',
+  prefix: 'prefix',
+  partial: 'contains',
+  fuzzy: 'fuzzy match',
+  soundex: 'soundex',
+};
+
+const HYBRID_FIELD_LABELS: Partial<Record<keyof DutyStation, string>> = {
+  CITY_CODE: 'code',
+  CITY_NAME: 'name',
+  CITY_COMMON_NAME: 'common name',
+  COUNTRY: 'country',
+  COUNTRY_CODE: 'country code',
+  ALTERNATE_NAMES: 'alternate name',
+};
+
+// Bonus per additional strategy that found the same station
+const HYBRID_AGREEMENT_BONUS = 0.05;
+
+// Hybrid search implementation - runs every strategy, normalizes each one's scores to a 0-1
+// relevance, weights them by strategy and field, and keeps one result per station
+function hybridSearch(
   data: DutyStation[], 
-  filters: SearchFilters
+  query: string, 
+  fields: (keyof DutyStation)[] = ['CITY_NAME', 'CITY_COMMON_NAME', 'COUNTRY'],
+  threshold: number = 0.3
 ): SearchResult<DutyStation>[] {
-  const { query, searchType, fields, countryFilter, showObsolete } = filters;
+  if (!query.trim()) return [];
+  
+  // Codes are always worth checking for exact and prefix hits, but not for spelling or sound
+  const codeFields: (keyof DutyStation)[] = ['CITY_CODE', 'COUNTRY_CODE'];
+  const literalFields = Array.from(new Set<keyof DutyStation>([...fields, 'CITY_CODE']));
+  const textFields = fields.filter(field => !codeFields.includes(field));
   
-  // Safety check: ensure query is a string
-  const searchQuery = query || '';
+  interface Contribution {
+    strategy: HybridStrategy;
+    field: keyof DutyStation;
+    relevance: number;
+  }
+  const candidates = new Map<DutyStation, { contributions: Contribution[]; matches: NonNullable<SearchResult<DutyStation>['matches']> }>();
+  
+  const collect = (
+    results: SearchResult<DutyStation>[],
+    toContribution: (match: NonNullable<SearchResult<DutyStation>['matches']>[number], result: SearchResult<DutyStation>) => Omit<Contribution, 'field'>
+  ) => {
+    results.forEach(result => {
+      const candidate = candidates.get(result.item) ?? { contributions: [], matches: [] };
+      (result.matches ?? []).forEach(match => {
+        const field = match.field as keyof DutyStation;
+        candidate.contributions.push({ ...toContribution(match, result), field });
+        candidate.matches.push(match);
+      });
+      candidates.set(result.item, candidate);
+    });
+  };
+  
+  collect(exactSearch(data, query, literalFields), () => ({ strategy: 'exact', relevance: 1 }));
+  // Partial scores are the match position within the field (0 = starts with the query)
+  collect(partialSearch(data, query, literalFields), (match) => {
+    const start = match.indices[0]?.[0] ?? 0;
+    return start === 0
+      ? { strategy: 'prefix', relevance: 1 }
+      : { strategy: 'partial', relevance: 1 - start / Math.max(match.value.length, 1) };
+  });
+  if (textFields.length > 0) {
+    // Fuse scores run from 0 (perfect) up to the threshold
+    collect(fuzzySearch(data, query, threshold, textFields), (_, result) => ({
+      strategy: 'fuzzy',
+      relevance: 1 - (result.score ?? 0) / threshold,
+    }));
+    collect(phoneticSearch(data, query, textFields), () => ({ strategy: 'soundex', relevance: 1 }));
+  }
+  
+  const results: SearchResult<DutyStation>[] = [];
+  candidates.forEach(({ contributions, matches }, item) => {
+    if (contributions.length === 0) return;
+    
+    // Best weighted contribution per strategy and field
+    const weighted = new Map<string, Contribution & { weight: number }>();
+    contributions.forEach(contribution => {
+      const weight = contribution.relevance *
+        HYBRID_STRATEGY_WEIGHTS[contribution.strategy] *
+        (HYBRID_FIELD_WEIGHTS[contribution.field] ?? 0.5);
+      const key = `${contribution.strategy}:${contribution.field}`;
+      if ((weighted.get(key)?.weight ?? -1) < weight) {
+        weighted.set(key, { ...contribution, weight });
+      }
+    });
+    const ranked = Array.from(weighted.values()).sort((a, b) => b.weight - a.weight);
+    
+    const agreeingStrategies = new Set(ranked.map(contribution => contribution.strategy)).size;
+    const relevance = Math.min(1, ranked[0].weight + HYBRID_AGREEMENT_BONUS * (agreeingStrategies - 1));
+    
+    // Explain each field by its strongest strategy
+    const bestPerField = ranked.filter((contribution, index) =>
+      ranked.findIndex(other => other.field === contribution.field) === index
+    );
+    
+    results.push({
+      item,
+      score: 1 - relevance,
+      matches,
+      explanations: bestPerField.map(contribution =>
+        `matched ${HYBRID_FIELD_LABELS[contribution.field] ?? contribution.field} via ${HYBRID_STRATEGY_LABELS[contribution.strategy]}`
+      ),
+    });
+  });
   
-  // Filter data based on additional filters
-  let filteredData = [...data];
+  return results.sort((a, b) =>
+    (a.score ?? 0) - (b.score ?? 0) || a.item.CITY_NAME.localeCompare(b.item.CITY_NAME)
+  );
+}
+
+// Wildcard search implementation - * matches any run of characters, the whole field must match
+function wildcardSearch(
+  data: DutyStation[], 
+  pattern: string, 
+  fields: (keyof DutyStation)[]
+): SearchResult<DutyStation>[] {
+  const escaped = pattern.trim().split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  const regex = new RegExp(`^${escaped.map(normalizeText).join('.*')}$`);
+  const results: SearchResult<DutyStation>[] = [];
   
-  // Apply country filter
-  if (countryFilter && countryFilter !== 'all') {
-    filteredData = filteredData.filter(station => 
-      station.COUNTRY === countryFilter
+  for (const item of data) {
+    const matches = fields.flatMap(field =>
+      getFieldValues(item, field)
+        .filter(value => regex.test(normalizeText(value)))
+        .map(value => ({
+          field: field as string,
+          value,
+          indices: [[0, value.length - 1]] as [number, number][],
+        }))
     );
+    
+    if (matches.length > 0) {
+      // Longer literal parts leave less to the wildcards, so they rank higher
+      const literalLength = normalizeText(pattern.replace(/\*/g, '')).length;
+      const bestLength = Math.min(...matches.map(match => normalizeText(match.value).length));
+      results.push({ item, score: 1 - literalLength / bestLength, matches });
+    }
+  }
+  
+  return results.sort((a, b) => (a.score ?? 0) - (b.score ?? 0));
+}
+
+// Run a single query term with its search strategy
+function searchQueryTerm(
+  data: DutyStation[],
+  term: SearchQueryTerm,
+  filters: SearchFilters,
+  searchFields: (keyof DutyStation)[]
+): SearchResult<DutyStation>[] {
+  if (term.field === 'obsolete') {
+    const obsolete = parseObsoleteValue(term.value);
+    return data
+      .filter(station => (station.OBSOLETE === '1') === obsolete)
+      .map(item => ({ item }));
   }
   
-  // Apply obsolete filter
-  if (!showObsolete) {
-    filteredData = filteredData.filter(station => station.OBSOLETE !== '1');
+  const fields = term.field ? SEARCH_QUERY_FIELD_COLUMNS[term.field] : searchFields;
+  if (term.value.includes('*')) {
+    return wildcardSearch(data, term.value, fields);
+  }
+  
+  const strategy = getTermStrategy(term, filters.searchType);
+  switch (strategy) {
+    case 'exact':
+      return exactSearch(data, term.value, fields);
+    case 'fuzzy':
+      return fuzzySearch(data, term.value, 0.3, term.field ? fields : undefined);
+    case 'soundex':
+    case 'metaphone':
+    case 'beider_morse':
+      return phoneticSearch(data, term.value, fields, strategy);
+    case 'hybrid':
+      return hybridSearch(data, term.value, fields);
+    default:
+      return partialSearch(data, term.value, fields);
+  }
+}
+
+// Combine two scores (lower is better); unscored results are filter matches
+const bestScore = (a?: number, b?: number) => (a === undefined ? b : b === undefined ? a : Math.min(a, b));
+const averageScore = (a?: number, b?: number) => (a === undefined ? b : b === undefined ? a : (a + b) / 2);
+
+// Explanations of both results, without repeats
+const mergeExplanations = (a: SearchResult<DutyStation>, b: SearchResult<DutyStation>) => {
+  const explanations = Array.from(new Set([...(a.explanations ?? []), ...(b.explanations ?? [])]));
+  return explanations.length > 0 ? explanations : undefined;
+};
+
+// Evaluate a parsed query: AND intersects, OR unites and NOT complements the term results
+function evaluateSearchQuery(
+  data: DutyStation[],
+  node: SearchQueryNode,
+  filters: SearchFilters,
+  searchFields: (keyof DutyStation)[]
+): Map<DutyStation, SearchResult<DutyStation>> {
+  switch (node.type) {
+    case 'term':
+      return new Map(searchQueryTerm(data, node, filters, searchFields).map(result => [result.item, result]));
+    
+    case 'not': {
+      const excluded = evaluateSearchQuery(data, node.child, filters, searchFields);
+      return new Map(data.filter(item => !excluded.has(item)).map(item => [item, { item }]));
+    }
+    
+    case 'and': {
+      return node.children.slice(1).reduce((combined, child) => {
+        const childResults = evaluateSearchQuery(data, child, filters, searchFields);
+        const intersection = new Map<DutyStation, SearchResult<DutyStation>>();
+        combined.forEach((result, item) => {
+          const other = childResults.get(item);
+          if (!other) return;
+          intersection.set(item, {
+            item,
+            score: averageScore(result.score, other.score),
+            matches: [...(result.matches ?? []), ...(other.matches ?? [])],
+            explanations: mergeExplanations(result, other),
+          });
+        });
+        return intersection;
+      }, evaluateSearchQuery(data, node.children[0], filters, searchFields));
+    }
+    
+    case 'or': {
+      const union = new Map<DutyStation, SearchResult<DutyStation>>();
+      node.children.forEach(child => {
+        evaluateSearchQuery(data, child, filters, searchFields).forEach((result, item) => {
+          const existing = union.get(item);
+          union.set(item, existing
+            ? {
+                item,
+                score: bestScore(existing.score, result.score),
+                matches: [...(existing.matches ?? []), ...(result.matches ?? [])],
+                explanations: mergeExplanations(existing, result),
+              }
+            : result);
+        });
+      });
+      return union;
+    }
+  }
+}
+
+// Main search function that combines all search types
+// Queries using the query language (fields, quotes, OR/NOT, wildcards) are parsed first
+// and throw a SearchQueryError when invalid. A `within N km of X` clause or map bounds limit
+// the search to an area through the spatial index; radius searches are sorted by distance.
+export function searchDutyStations(
+  data: DutyStation[], 
+  filters: SearchFilters
+): SearchResult<DutyStation>[] {
+  const { query, countryFilter, showObsolete, bounds } = filters;
+  
+  // Safety check: ensure query is a string; a geographic clause is split off the end
+  const spatialQuery = parseSpatialQuery(query || '');
+  const searchQuery = spatialQuery ? spatialQuery.text : query || '';
+  const parsedQuery = isStructuredQuery(searchQuery) ? parseSearchQuery(searchQuery) : null;
+  
+  // Filter data based on additional filters; the obsolete filter is skipped when the query
+  // chooses obsolete stations itself
+  let filteredData = filterStations(
+    data,
+    countryFilter,
+    !showObsolete && !(parsedQuery && queryUsesField(parsedQuery, 'obsolete'))
+  );
+  
+  // Apply geographic filters
+  let distances: Map<DutyStation, number> | null = null;
+  if (spatialQuery) {
+    const center = resolveSpatialAnchor(data, spatialQuery.anchor);
+    const nearby = findWithinRadius(getSpatialIndex(data), center, spatialQuery.radiusKm);
+    const allowed = new Set(filteredData);
+    distances = new Map(nearby.map(match => [match.item, match.distanceKm]));
+    filteredData = nearby.map(match => match.item).filter(station => allowed.has(station));
   }
+  if (bounds) {
+    const inBounds = new Set(findInBounds(getSpatialIndex(data), bounds));
+    filteredData = filteredData.filter(station => inBounds.has(station));
+  }
+  
+  const results = searchText(filteredData, searchQuery, parsedQuery, filters);
+  if (!distances) return results;
+  
+  const distanceOf = distances;
+  return results
+    .map(result => ({ ...result, distanceKm: distanceOf.get(result.item) }))
+    .sort((a, b) => (a.distanceKm ?? 0) - (b.distanceKm ?? 0));
+}
+
+// Text part of a search, on stations that already passed the filters
+function searchText(
+  filteredData: DutyStation[],
+  searchQuery: string,
+  parsedQuery: SearchQueryNode | null,
+  filters: SearchFilters
+): SearchResult<DutyStation>[] {
+  const { searchType, fields } = filters;
   
   if (!searchQuery.trim()) {
     return filteredData.map(item => ({ item }));
   }
   
   // Determine search fields - convert string array to proper keys
-  const validFields = ['CITY_NAME', 'CITY_COMMON_NAME', 'COUNTRY', 'CITY_CODE', 'COUNTRY_CODE'] as const;
+  const validFields = ['CITY_NAME', 'CITY_COMMON_NAME', 'COUNTRY', 'CITY_CODE', 'COUNTRY_CODE', 'ALTERNATE_NAMES'] as const;
   const searchFields = fields.length > 0 
     ? fields.filter(f => validFields.includes(f as any)) as (keyof DutyStation)[]
-    : ['CITY_NAME', 'CITY_COMMON_NAME', 'COUNTRY'] as (keyof DutyStation)[];
+    : ['CITY_NAME', 'CITY_COMMON_NAME', 'COUNTRY', 'ALTERNATE_NAMES'] as (keyof DutyStation)[];
+  
+  if (parsedQuery) {
+    return Array.from(evaluateSearchQuery(filteredData, parsedQuery, filters, searchFields).values())
+      .sort((a, b) => (a.score ?? 0) - (b.score ?? 0));
+  }
   
   // Perform search based on type
   let results: SearchResult<DutyStation>[] = [];
@@ -252,7 +682,12 @@ export function searchDutyStations(
       results = fuzzySearch(filteredData, searchQuery, 0.3);
       break;
     case 'soundex':
-      results = soundexSearch(filteredData, searchQuery, searchFields);
+    case 'metaphone':
+    case 'beider_morse':
+      results = phoneticSearch(filteredData, searchQuery, searchFields, searchType);
+      break;
+    case 'hybrid':
+      results = hybridSearch(filteredData, searchQuery, searchFields);
       break;
     default:
       // Default to partial search
@@ -262,50 +697,25 @@ export function searchDutyStations(
   return results;
 }
 
-// Search suggestions based on partial matching
+// Search suggestions from the autocomplete prefix index of the last station list
 export function getSearchSuggestions(
   data: DutyStation[], 
   query: string, 
-  maxSuggestions: number = 10
-): string[] {
-  if (!query.trim() || query.length < 2) return [];
-  
-  const lowerQuery = query.toLowerCase();
-  const suggestions = new Set<string>();
-  
-  // Collect suggestions from different fields
-  data.forEach(station => {
-    // Name suggestions
-    if (station.CITY_NAME.toLowerCase().includes(lowerQuery)) {
-      suggestions.add(station.CITY_NAME);
-    }
-    
-    // Common name suggestions
-    if (station.CITY_COMMON_NAME && station.CITY_COMMON_NAME.toLowerCase().includes(lowerQuery)) {
-      suggestions.add(station.CITY_COMMON_NAME);
-    }
-    
-    // Country suggestions
-    if (station.COUNTRY && station.COUNTRY.toLowerCase().includes(lowerQuery)) {
-      suggestions.add(station.COUNTRY);
-    }
-  });
+  maxSuggestions: number = 10,
+  options: SuggestionOptions = {}
+): Suggestion[] {
+  if (!query.trim()) return [];
   
-  return Array.from(suggestions)
-    .slice(0, maxSuggestions)
-    .sort((a, b) => {
-      // Prioritize suggestions that start with the query
-      const aStarts = a.toLowerCase().startsWith(lowerQuery);
-      const bStarts = b.toLowerCase().startsWith(lowerQuery);
-      
-      if (aStarts && !bStarts) return -1;
-      if (!aStarts && bStarts) return 1;
-      
-      return a.localeCompare(b);
-    });
+  if (!autocompleteIndex || autocompleteIndexData !== data) {
+    autocompleteIndex = buildAutocompleteIndex(data);
+    autocompleteIndexData = data;
+  }
+  
+  return getAutocompleteSuggestions(autocompleteIndex, query, maxSuggestions, options);
 }
 
 // Multi-type search that combines results from different algorithms
+// Uses the hybrid ranking, so each station appears once with the reasons it matched
 export function multiSearch(
   data: DutyStation[], 
   query: string, 
@@ -317,29 +727,7 @@ export function multiSearch(
     fields = ['CITY_NAME', 'CITY_COMMON_NAME', 'COUNTRY'],
   } = options;
   
-  if (!query.trim()) return [];
-  
-  const searchFields = fields as (keyof DutyStation)[];
-  const resultsMap = new Map<string, SearchResult<DutyStation>>();
-  
-  // Collect results from different search types
-  const exactResults = exactSearch(data, query, searchFields);
-  const partialResults = partialSearch(data, query, searchFields);
-  const fuzzyResults = fuzzySearch(data, query, threshold);
-  
-  // Combine results, prioritizing exact matches
-  [...exactResults, ...partialResults, ...fuzzyResults].forEach(result => {
-    const key = result.item.CITY_CODE;
-    const existing = resultsMap.get(key);
-    
-    if (!existing || (result.score || 0) < (existing.score || 0)) {
-      resultsMap.set(key, result);
-    }
-  });
-  
-  return Array.from(resultsMap.values())
-    .sort((a, b) => (a.score || 0) - (b.score || 0))
-    .slice(0, maxResults);
+  return hybridSearch(data, query, fields as (keyof DutyStation)[], threshold).slice(0, maxResults);
 }
 
 // Search performance monitoring
@@ -0,0 +1,240 @@
+// Offline snapshot service - persists the parsed code lists to IndexedDB
+// so the app can render immediately (and keep working) without a network connection
+import type { DutyStation, Country } from '../types';
+
+const DB_NAME = 'un_duty_station_db';
+const DB_VERSION = 2;
+const SNAPSHOT_STORE = 'snapshots';
+const LOCAL_FILE_STORE = 'localFiles';
+const CURRENT_SNAPSHOT_KEY = 'current';
+const PREVIOUS_SNAPSHOT_SUFFIX = ':previous';
+const SNAPSHOT_INDEX_KEY = 'index';
+
+// Data sources with a stored snapshot (each may also keep its previous version);
+// the least recently saved are evicted, e.g. old commits opened in the history view
+const MAX_SNAPSHOTS = 8;
+
+/**
+ * Parsed dataset as stored in IndexedDB
+ */
+export interface DatasetSnapshot {
+  key: string;
+  dutyStations: DutyStation[];
+  countries: Country[];
+  savedAt: Date;
+  hash?: string;          // Checksum of the dataset; missing in snapshots saved by older versions
+}
+
+/**
+ * When each snapshot was last saved, kept in the snapshot store under SNAPSHOT_INDEX_KEY
+ */
+interface SnapshotIndex {
+  key: string;
+  savedAt: Record<string, string>;
+}
+
+/**
+ * CSV file supplied by the user from their own device
+ */
+export interface StoredLocalFile {
+  name: string;
+  originalName: string;
+  content: string;
+  savedAt: Date;
+}
+
+/**
+ * Check whether IndexedDB is available (private browsing modes may disable it)
+ */
+const isIndexedDBAvailable = (): boolean => {
+  return typeof indexedDB !== 'undefined';
+};
+
+/**
+ * Open (and upgrade if needed) the snapshot database
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(LOCAL_FILE_STORE)) {
+        db.createObjectStore(LOCAL_FILE_STORE, { keyPath: 'name' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Run a single request against an object store and resolve with its result
+ */
+const runStoreRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest,
+  storeName: string = SNAPSHOT_STORE
+): Promise<T> => {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Load a dataset snapshot from IndexedDB
+ * Returns null when no snapshot exists or IndexedDB is unavailable
+ */
+export const loadSnapshot = async (key: string = CURRENT_SNAPSHOT_KEY): Promise<DatasetSnapshot | null> => {
+  if (!isIndexedDBAvailable()) return null;
+
+  try {
+    const snapshot = await runStoreRequest<DatasetSnapshot | undefined>('readonly', store => store.get(key));
+    if (!snapshot || !Array.isArray(snapshot.dutyStations)) return null;
+
+    return {
+      ...snapshot,
+      savedAt: new Date(snapshot.savedAt),
+    };
+  } catch (error) {
+    console.error('Error loading dataset snapshot from IndexedDB:', error);
+    return null;
+  }
+};
+
+/**
+ * Key under which the version replaced by the latest refresh is kept
+ */
+export const getPreviousSnapshotKey = (key: string = CURRENT_SNAPSHOT_KEY): string => {
+  return `${key}${PREVIOUS_SNAPSHOT_SUFFIX}`;
+};
+
+/**
+ * Record that a snapshot was saved and delete the least recently saved ones beyond MAX_SNAPSHOTS
+ * Snapshots saved before the index existed count as the oldest
+ */
+const evictSnapshots = async (savedKey: string): Promise<void> => {
+  const [index, keys] = await Promise.all([
+    runStoreRequest<SnapshotIndex | undefined>('readonly', store => store.get(SNAPSHOT_INDEX_KEY)),
+    runStoreRequest<IDBValidKey[]>('readonly', store => store.getAllKeys()),
+  ]);
+
+  const savedAt: Record<string, string> = {};
+  keys.map(String)
+    .filter(key => key !== SNAPSHOT_INDEX_KEY && !key.endsWith(PREVIOUS_SNAPSHOT_SUFFIX))
+    .forEach(key => { savedAt[key] = index?.savedAt[key] ?? ''; });
+  savedAt[savedKey] = new Date().toISOString();
+
+  const evicted = Object.keys(savedAt)
+    .sort((a, b) => savedAt[b].localeCompare(savedAt[a]))
+    .slice(MAX_SNAPSHOTS);
+  evicted.forEach(key => delete savedAt[key]);
+
+  await runStoreRequest('readwrite', store => {
+    evicted.forEach(key => {
+      store.delete(key);
+      store.delete(getPreviousSnapshotKey(key));
+    });
+    return store.put({ key: SNAPSHOT_INDEX_KEY, savedAt } satisfies SnapshotIndex);
+  });
+};
+
+/**
+ * Save a dataset snapshot to IndexedDB
+ * When the dataset has changed, the snapshot being replaced is kept as the previous version
+ * @param hash - Checksum of the dataset, compared with the stored snapshot's to detect a change
+ */
+export const saveSnapshot = async (
+  dutyStations: DutyStation[],
+  countries: Country[],
+  key: string = CURRENT_SNAPSHOT_KEY,
+  hash?: string
+): Promise<void> => {
+  if (!isIndexedDBAvailable()) return;
+
+  try {
+    const existing = await runStoreRequest<DatasetSnapshot | undefined>('readonly', store => store.get(key));
+    const hasChanged = existing && (!hash || existing.hash !== hash);
+
+    if (existing && hasChanged && !key.endsWith(PREVIOUS_SNAPSHOT_SUFFIX)) {
+      const previous: DatasetSnapshot = { ...existing, key: getPreviousSnapshotKey(key) };
+      await runStoreRequest('readwrite', store => store.put(previous));
+    }
+
+    const snapshot: DatasetSnapshot = {
+      key,
+      dutyStations,
+      countries,
+      savedAt: new Date(),
+      hash,
+    };
+    await runStoreRequest('readwrite', store => store.put(snapshot));
+    await evictSnapshots(key);
+  } catch (error) {
+    console.error('Error saving dataset snapshot to IndexedDB:', error);
+  }
+};
+
+/**
+ * Remove a stored snapshot, or all snapshots when no key is given
+ */
+export const clearSnapshot = async (key?: string): Promise<void> => {
+  if (!isIndexedDBAvailable()) return;
+
+  try {
+    await runStoreRequest('readwrite', store => (key ? store.delete(key) : store.clear()));
+  } catch (error) {
+    console.error('Error clearing dataset snapshot:', error);
+  }
+};
+
+/**
+ * Store a user-supplied CSV file (used by the local file data source)
+ */
+export const saveLocalFile = async (name: string, originalName: string, content: string): Promise<void> => {
+  if (!isIndexedDBAvailable()) {
+    throw new Error('Local files require IndexedDB, which is not available in this browser');
+  }
+
+  const file: StoredLocalFile = {
+    name,
+    originalName,
+    content,
+    savedAt: new Date(),
+  };
+  await runStoreRequest('readwrite', store => store.put(file), LOCAL_FILE_STORE);
+};
+
+/**
+ * Load a user-supplied CSV file, or null when none has been provided
+ */
+export const loadLocalFile = async (name: string): Promise<StoredLocalFile | null> => {
+  if (!isIndexedDBAvailable()) return null;
+
+  try {
+    const file = await runStoreRequest<StoredLocalFile | undefined>(
+      'readonly',
+      store => store.get(name),
+      LOCAL_FILE_STORE
+    );
+    return file ? { ...file, savedAt: new Date(file.savedAt) } : null;
+  } catch (error) {
+    console.error('Error loading local file from IndexedDB:', error);
+    return null;
+  }
+};
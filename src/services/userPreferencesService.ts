@@ -7,6 +7,14 @@ export interface UserPreferences {
   lastUpdated: string;
 }
 
+/**
+ * Submitter details attached to every request
+ */
+export interface SubmitterContact {
+  email: string;
+  organization: string;
+}
+
 /**
  * Get user preferences from localStorage
  */
@@ -22,6 +30,15 @@ export const getUserPreferences = (): UserPreferences | null => {
   return null;
 };
 
+/**
+ * Get the saved submitter details, or null when the email or organization is missing
+ */
+export const getSavedContact = (): SubmitterContact | null => {
+  const preferences = getUserPreferences();
+  if (!preferences?.email || !preferences.organization) return null;
+  return { email: preferences.email, organization: preferences.organization };
+};
+
 /**
  * Save user preferences to localStorage
  */
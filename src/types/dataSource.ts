@@ -0,0 +1,40 @@
+// Data source configuration types
+// Describes where the DSCITYCD.csv / DSCTRYCD.csv code lists are loaded from
+
+/**
+ * Code list files served by every data source
+ * DSCITYALT.csv (alternate station names) is optional - it is only loaded from sources that opt in
+ */
+export type CodeListFile = 'DSCITYCD.csv' | 'DSCTRYCD.csv' | 'DSCITYALT.csv';
+
+/**
+ * Supported data source variants
+ */
+export type DataSourceKind = 'github' | 'commit' | 'mirror' | 'local';
+
+export type DataSourceConfig = (
+  | { kind: 'github'; branch: string }       // Branch of CEB-HLCM/HR-Public-Codes (main, staging, ...)
+  | { kind: 'commit'; sha: string }          // Specific commit SHA of CEB-HLCM/HR-Public-Codes
+  | { kind: 'mirror'; baseUrl: string }      // Self-hosted mirror serving the same file names
+  | { kind: 'local' }                        // CSV files dropped into the browser, kept in IndexedDB
+) & {
+  alternateNames?: boolean;                  // Whether the source serves DSCITYALT.csv
+};
+
+/**
+ * Adapter used by dataService to load raw CSV text
+ */
+export interface DataSourceAdapter {
+  id: string;                // Stable identifier, used to key caches and snapshots
+  label: string;             // Human readable description
+  fetchCsv: (file: CodeListFile) => Promise<string>;
+}
+
+/**
+ * Historical version of the code lists being browsed (point-in-time view)
+ */
+export interface HistoricalView {
+  sha: string;                     // Commit the code lists are loaded from
+  requestedDate: Date | null;      // Date chosen by the user, when browsing by date
+  committedAt: Date | null;        // Date of the resolved commit, when known
+}
@@ -11,9 +11,18 @@ export interface DutyStation {
   OBSOLETE: string;            // Obsolete flag ("0" or "1")
   COUNTRY?: string;            // Country name (joined from countries data)
   REGION?: string;             // Geographic region (Africa, Asia, Europe, Americas, Oceania)
+  ALTERNATE_NAMES?: StationAlternateName[];  // Names in the UN official languages (joined from DSCITYALT.csv)
   // CLASS field removed - no longer in CSV
 }
 
+// UN official languages (ISO 639-1)
+export type UNLanguage = 'ar' | 'zh' | 'en' | 'fr' | 'ru' | 'es';
+
+export interface StationAlternateName {
+  language: UNLanguage;
+  name: string;
+}
+
 export interface Country {
   COUNTRY_CODE: string;        // Country Code (formerly CTYCD)
   COUNTRY_NAME: string;        // Country Name (formerly NAME)
@@ -2,6 +2,8 @@
 export type {
   DutyStation,
   Country,
+  UNLanguage,
+  StationAlternateName,
   DutyStationFilters,
   DutyStationSearchResult,
   MapCoordinates,
@@ -26,3 +28,11 @@ export type {
   RequestBasket,
   BasketAction,
 } from './request';
+
+export type {
+  CodeListFile,
+  DataSourceKind,
+  DataSourceConfig,
+  DataSourceAdapter,
+  HistoricalView,
+} from './dataSource';
@@ -4,12 +4,25 @@ import type { DutyStation } from './dutyStation';
 /**
  * Request type enumeration
  */
-export type RequestType = 'add' | 'update' | 'remove' | 'coordinate_update';
+export type RequestType = 'add' | 'update' | 'remove' | 'coordinate_update' | 'alias';
 
 /**
  * Request status
+ * A request is a draft while in the basket, then moves through
+ * submitted → under review → approved/rejected; it can be withdrawn until decided
  */
-export type RequestStatus = 'pending' | 'submitted' | 'approved' | 'rejected';
+export type RequestStatus = 'draft' | 'submitted' | 'under_review' | 'approved' | 'rejected' | 'withdrawn';
+
+/**
+ * Audit log entry for a change of request status
+ */
+export interface RequestStatusChange {
+  from: RequestStatus | null;   // null when the request was created
+  to: RequestStatus;
+  changedBy: string;
+  changedAt: Date;
+  note?: string;
+}
 
 /**
  * Base request interface
@@ -41,6 +54,33 @@ export interface RequestHistoryEntry {
   submittedAt: Date;
   confirmationId?: string;
   status: RequestStatus;
+  stationLabel?: string;        // Station the request is about, e.g. "NBO - Nairobi"
+  requestKey?: string;          // Matches the request to review decisions, see getRequestKey
+  auditLog: RequestStatusChange[];
+}
+
+/**
+ * Reviewer's decision on a submitted request
+ */
+export interface ReviewDecision {
+  requestKey: string;
+  requestId?: string;           // Known when the reviewer imported the exported basket
+  requestType: RequestType;
+  stationLabel: string;
+  decision: 'approved' | 'rejected';
+  reason: string;
+  reviewedBy: string;
+  reviewedAt: Date;
+}
+
+/**
+ * Decision file produced by the reviewer workspace and imported into the request history
+ */
+export interface ReviewDecisionFile {
+  format: 'un-duty-station-review-decisions';
+  version: 1;
+  createdAt: Date;
+  decisions: ReviewDecision[];
 }
 
 /**
@@ -53,6 +93,7 @@ export interface BasketStats {
   updateRequests: number;
   removeRequests: number;
   coordinateUpdateRequests: number;
+  aliasRequests: number;
 }
 
 /**
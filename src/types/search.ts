@@ -1,12 +1,17 @@
 // Search-related types following CEB pattern
 
-export type SearchType = 'exact' | 'partial' | 'fuzzy' | 'soundex';
+import type { DutyStation, MapBounds } from './dutyStation';
+
+export type SearchType = 'exact' | 'partial' | 'fuzzy' | 'soundex' | 'metaphone' | 'beider_morse' | 'hybrid';
 
 export const SearchType = {
   EXACT: 'exact' as const,
   PARTIAL: 'partial' as const,
   FUZZY: 'fuzzy' as const,
-  SOUNDEX: 'soundex' as const
+  SOUNDEX: 'soundex' as const,
+  METAPHONE: 'metaphone' as const,          // Double Metaphone
+  BEIDER_MORSE: 'beider_morse' as const,    // Beider-Morse style, reads names in several languages
+  HYBRID: 'hybrid' as const
 };
 
 export interface SearchOptions {
@@ -25,6 +30,8 @@ export interface SearchResult<T = any> {
     value: string;
     indices: [number, number][];
   }[];
+  explanations?: string[];   // Why the item matched, best reason first (hybrid search)
+  distanceKm?: number;       // Distance from the centre of a radius search
 }
 
 export interface SearchFilters {
@@ -33,4 +40,36 @@ export interface SearchFilters {
   fields: string[];
   countryFilter?: string;
   showObsolete: boolean;
+  bounds?: MapBounds;        // Only stations inside this area, e.g. the visible map
+}
+
+// Columns the search results can be sorted by; relevance keeps the ranking the search returned
+export type SearchSortField = 'relevance' | 'distance' | 'CITY_CODE' | 'CITY_NAME' | 'COUNTRY' | 'CITY_COMMON_NAME';
+
+// Sort and pagination of the search results table
+export interface SearchResultsView {
+  sortField: SearchSortField | null;   // null sorts the way that suits the search (ranking, distance or name)
+  sortOrder: 'asc' | 'desc';
+  page: number;                         // 0-based
+  rowsPerPage: number;
+}
+
+// Autocomplete suggestions - a station (found by name, common name, alternate name or code),
+// a country or a region
+export type SuggestionType = 'station' | 'country' | 'region';
+
+export interface Suggestion {
+  type: SuggestionType;
+  text: string;              // Station name, country or region
+  matchedField: 'CITY_NAME' | 'CITY_COMMON_NAME' | 'ALTERNATE_NAMES' | 'CITY_CODE' | 'COUNTRY' | 'REGION';
+  matchedText: string;       // Value the query matched, e.g. a common name or code
+  station?: DutyStation;     // Station suggestions
+  score: number;             // Higher is better
+}
+
+export interface SuggestionOptions {
+  types?: SuggestionType[];                   // Default: all
+  country?: string;                           // Only stations in this country
+  includeObsolete?: boolean;                  // Default: true, ranked after active stations
+  selectionCounts?: Record<string, number>;   // Times each suggestion was picked, by suggestion key
 }
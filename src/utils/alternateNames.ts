@@ -0,0 +1,67 @@
+// Alternate duty station names in the six UN official languages
+// Loaded from the optional DSCITYALT.csv code list, one row per station and language:
+// CITY_CODE,COUNTRY_CODE,LANGUAGE,ALTERNATE_NAME
+
+import type { DutyStation, StationAlternateName, UNLanguage } from '../types';
+import { getStationKey } from './datasetDiff';
+
+export const UN_LANGUAGES: UNLanguage[] = ['ar', 'zh', 'en', 'fr', 'ru', 'es'];
+
+export const UN_LANGUAGE_LABELS: Record<UNLanguage, string> = {
+  ar: 'Arabic',
+  zh: 'Chinese',
+  en: 'English',
+  fr: 'French',
+  ru: 'Russian',
+  es: 'Spanish',
+};
+
+export function isUNLanguage(value: string): value is UNLanguage {
+  return (UN_LANGUAGES as string[]).includes(value);
+}
+
+// Text direction, for rendering names with the right dir attribute
+export function getLanguageDirection(language: UNLanguage): 'rtl' | 'ltr' {
+  return language === 'ar' ? 'rtl' : 'ltr';
+}
+
+/**
+ * Build the alternate name index from parsed DSCITYALT.csv rows
+ * Rows with an unknown language or no name are skipped, as are repeats
+ * @returns Alternate names keyed by getStationKey
+ */
+export function buildAlternateNameIndex(rows: Record<string, string>[]): Map<string, StationAlternateName[]> {
+  const index = new Map<string, StationAlternateName[]>();
+  let skipped = 0;
+
+  rows.forEach(row => {
+    const language = (row.LANGUAGE || '').trim().toLowerCase();
+    const name = (row.ALTERNATE_NAME || '').trim();
+    if (!row.CITY_CODE || !row.COUNTRY_CODE || !name || !isUNLanguage(language)) {
+      skipped++;
+      return;
+    }
+
+    const key = getStationKey({ CITY_CODE: row.CITY_CODE.trim(), COUNTRY_CODE: row.COUNTRY_CODE.trim() });
+    const names = index.get(key) ?? [];
+    if (!names.some(existing => existing.language === language && existing.name === name)) {
+      names.push({ language, name });
+    }
+    index.set(key, names);
+  });
+
+  if (skipped > 0) {
+    console.warn(`[AlternateNames] Skipped ${skipped} row(s) without a station, name or UN language`);
+  }
+
+  return index;
+}
+
+/**
+ * Alternate names of a station, in UN language order
+ */
+export function getAlternateNames(station: DutyStation): StationAlternateName[] {
+  return [...(station.ALTERNATE_NAMES ?? [])].sort(
+    (a, b) => UN_LANGUAGES.indexOf(a.language) - UN_LANGUAGES.indexOf(b.language)
+  );
+}
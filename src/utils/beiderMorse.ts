@@ -0,0 +1,153 @@
+// Beider-Morse style phonetic matching (approximation)
+// Beider-Morse guesses which languages a name could be spelled in, reads it with each
+// language's pronunciation rules and matches names sharing any reading. This is a much
+// reduced version of those rules for the languages of duty station names: a name spelled
+// "Djibouti" (French) and "Jibuti" (English) both read as dZibuti, and "Chinshasa" read as
+// Italian sounds like "Kinshasa".
+//
+// Readings use lowercase letters plus S (sh), Z (zh), x (kh) and the affricates tS and dZ.
+
+import { normalizeText } from './textNormalization';
+
+type Language = 'english' | 'french' | 'german' | 'spanish' | 'portuguese' | 'italian' | 'slavic' | 'dutch';
+
+// Spellings that only some languages use; a word is read in the languages allowed by all
+// of its spellings, or in every language when it has none of them
+const LANGUAGE_SPELLINGS: Array<[RegExp, Language[]]> = [
+  [/sch/, ['german', 'dutch']],
+  [/tsch|tz/, ['german']],
+  [/sz|cz|rz|shch/, ['slavic']],
+  [/zh|kh/, ['english', 'slavic']],
+  [/dj/, ['french', 'english', 'slavic']],
+  [/eau|oi/, ['french']],
+  [/ou/, ['french', 'english', 'dutch']],
+  [/gli|cch|zz/, ['italian']],
+  [/nh|lh/, ['portuguese']],
+  [/ll|rr/, ['spanish', 'english', 'french', 'italian']],
+  [/ij|oe|aa|uu/, ['dutch', 'german']],
+  [/w/, ['english', 'german', 'slavic', 'dutch', 'french']],
+];
+
+// Pronunciation rules per language, tried in order at each position
+// Patterns are matched at the current position; lookaheads give the following context.
+// "sh" is read as in English everywhere, since it mostly appears in transliterated names.
+const LANGUAGE_RULES: Record<Language, Array<[RegExp, string]>> = {
+  english: [
+    [/tch/y, 'tS'], [/ch/y, 'tS'], [/sh/y, 'S'], [/th/y, 't'], [/ph/y, 'f'], [/kh/y, 'x'],
+    [/zh/y, 'Z'], [/ck/y, 'k'], [/j/y, 'dZ'], [/g(?=[ei])/y, 'dZ'], [/c(?=[eiy])/y, 's'],
+    [/c/y, 'k'], [/qu/y, 'kv'], [/x/y, 'ks'], [/ee/y, 'i'], [/oo/y, 'u'], [/w/y, 'v'],
+  ],
+  french: [
+    [/tch/y, 'tS'], [/dj/y, 'dZ'], [/ch/y, 'S'], [/ou(?=[aei])/y, 'v'], [/ou/y, 'u'], [/eau/y, 'o'], [/au/y, 'o'],
+    [/ai/y, 'e'], [/oi/y, 'va'], [/ph/y, 'f'], [/gn/y, 'nj'], [/qu/y, 'k'], [/j/y, 'Z'],
+    [/g(?=[eiy])/y, 'Z'], [/c(?=[eiy])/y, 's'], [/c/y, 'k'], [/h/y, ''], [/e$/y, ''],
+    [/[stx]$/y, ''], [/w/y, 'v'],
+  ],
+  german: [
+    [/tsch/y, 'tS'], [/sch/y, 'S'], [/sh/y, 'S'], [/s(?=[pt])/y, 'S'], [/ch/y, 'x'], [/ck/y, 'k'],
+    [/tz/y, 'ts'], [/z/y, 'ts'], [/dt/y, 't'], [/ei/y, 'aj'], [/ie/y, 'i'], [/eu/y, 'oj'],
+    [/ph/y, 'f'], [/qu/y, 'kv'], [/w/y, 'v'], [/v/y, 'f'], [/j/y, 'j'], [/c/y, 'k'],
+  ],
+  spanish: [
+    [/ch/y, 'tS'], [/ll/y, 'j'], [/sh/y, 'S'], [/rr/y, 'r'], [/qu/y, 'k'], [/gu(?=[ei])/y, 'g'],
+    [/j/y, 'x'], [/g(?=[ei])/y, 'x'], [/c(?=[ei])/y, 's'], [/c/y, 'k'], [/z/y, 's'],
+    [/h/y, ''], [/v/y, 'b'], [/x/y, 'ks'],
+  ],
+  portuguese: [
+    [/ch/y, 'S'], [/nh/y, 'nj'], [/sh/y, 'S'], [/lh/y, 'lj'], [/qu/y, 'k'], [/j/y, 'Z'],
+    [/g(?=[ei])/y, 'Z'], [/c(?=[ei])/y, 's'], [/c/y, 'k'], [/x/y, 'S'], [/h/y, ''],
+    [/ao$/y, 'aun'],
+  ],
+  italian: [
+    [/gli/y, 'lj'], [/gn/y, 'nj'], [/sh/y, 'S'], [/cch/y, 'k'], [/ch/y, 'k'], [/gh/y, 'g'],
+    [/sc(?=[ei])/y, 'S'], [/ci(?=[aou])/y, 'tS'], [/c(?=[ei])/y, 'tS'], [/gi(?=[aou])/y, 'dZ'],
+    [/g(?=[ei])/y, 'dZ'], [/c/y, 'k'], [/zz/y, 'ts'], [/z/y, 'ts'], [/h/y, ''], [/qu/y, 'kv'],
+  ],
+  slavic: [
+    [/szcz/y, 'StS'], [/shch/y, 'StS'], [/sz/y, 'S'], [/cz/y, 'tS'], [/rz/y, 'Z'], [/zh/y, 'Z'],
+    [/kh/y, 'x'], [/ch/y, 'x'], [/sh/y, 'S'], [/ts/y, 'ts'], [/dz/y, 'dz'], [/c/y, 'ts'],
+    [/w/y, 'v'], [/j/y, 'j'],
+  ],
+  dutch: [
+    [/sch/y, 'sx'], [/ch/y, 'x'], [/sh/y, 'S'], [/oe/y, 'u'], [/ij/y, 'aj'], [/ui/y, 'oj'], [/j/y, 'j'],
+    [/g/y, 'x'], [/w/y, 'v'], [/c(?=[eiy])/y, 's'], [/c/y, 'k'], [/aa/y, 'a'], [/uu/y, 'u'],
+  ],
+};
+
+const ALL_LANGUAGES = Object.keys(LANGUAGE_RULES) as Language[];
+
+// Upper bound on readings per word, so long ambiguous names stay cheap to match
+const MAX_READINGS = 8;
+
+/**
+ * Guess the languages a word could be spelled in
+ */
+function guessLanguages(word: string): Language[] {
+  let languages = ALL_LANGUAGES;
+  for (const [spelling, allowed] of LANGUAGE_SPELLINGS) {
+    if (!spelling.test(word)) continue;
+    const remaining = languages.filter(language => allowed.includes(language));
+    // Contradictory spellings - keep the languages found so far
+    if (remaining.length > 0) languages = remaining;
+  }
+  return languages;
+}
+
+/**
+ * Read a word with one language's rules
+ */
+function applyRules(word: string, rules: Array<[RegExp, string]>): string {
+  let result = '';
+  let position = 0;
+  while (position < word.length) {
+    const rule = rules.find(([pattern]) => {
+      pattern.lastIndex = position;
+      return pattern.test(word);
+    });
+    if (rule) {
+      const [pattern, replacement] = rule;
+      pattern.lastIndex = position;
+      const matched = pattern.exec(word)?.[0] ?? '';
+      result += replacement;
+      position += Math.max(matched.length, 1);
+    } else {
+      result += word[position];
+      position++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Reduce a reading to what it sounds like across accents: y before a vowel read as j,
+ * other vowels merged into a, i and u, h and doubled sounds dropped
+ */
+function approximate(reading: string): string {
+  return reading
+    .replace(/h/g, '')
+    .replace(/y(?=[aeiou])/g, 'j')
+    .replace(/[eiy]/g, 'i')
+    .replace(/[ou]/g, 'u')
+    .replace(/([a-zA-Z])\1+/g, '$1');
+}
+
+/**
+ * Generate the Beider-Morse style readings of a word
+ * Two words sound alike when they share a reading
+ * @param word - The word to encode
+ * @returns Readings of the word in the languages it could be spelled in
+ */
+export function generateBeiderMorse(word: string): string[] {
+  if (!word || typeof word !== 'string') return [];
+
+  const cleanWord = normalizeText(word).replace(/[^a-z]/g, '');
+  if (!cleanWord) return [];
+
+  const readings = new Set<string>();
+  for (const language of guessLanguages(cleanWord)) {
+    const reading = approximate(applyRules(cleanWord, LANGUAGE_RULES[language]));
+    if (reading) readings.add(reading);
+    if (readings.size >= MAX_READINGS) break;
+  }
+  return Array.from(readings);
+}
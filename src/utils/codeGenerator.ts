@@ -1,28 +1,12 @@
 // Duty Station Code Generation Utility
 import type { DutyStation } from '../types/dutyStation';
 import type { DutyStationRequest } from '../schemas/dutyStationSchema';
+import { normalizeText } from './textNormalization';
 
 /**
- * Deburr function - removes diacritics from strings
- * Simple implementation for code generation
+ * Deburr function - removes diacritics and transliterates non-Latin script
  */
-const deburr = (str: string): string => {
-  const map: Record<string, string> = {
-    'à': 'a', 'á': 'a', 'â': 'a', 'ã': 'a', 'ä': 'a', 'å': 'a',
-    'è': 'e', 'é': 'e', 'ê': 'e', 'ë': 'e',
-    'ì': 'i', 'í': 'i', 'î': 'i', 'ï': 'i',
-    'ò': 'o', 'ó': 'o', 'ô': 'o', 'õ': 'o', 'ö': 'o',
-    'ù': 'u', 'ú': 'u', 'û': 'u', 'ü': 'u',
-    'ý': 'y', 'ÿ': 'y',
-    'ñ': 'n', 'ç': 'c',
-  };
-  
-  return str
-    .split('')
-    .map(char => map[char.toLowerCase()] || char)
-    .join('')
-    .toUpperCase();
-};
+const deburr = (str: string): string => normalizeText(str).toUpperCase();
 
 /**
  * Generate a unique Duty Station Code
@@ -0,0 +1,225 @@
+// Coordinate anomaly detection
+// Checks duty station coordinates against offline country bounding boxes and spots the usual
+// data entry mistakes: (0,0), swapped latitude/longitude, wrong hemisphere and far-off points
+
+import type { DutyStation, Country, MapCoordinates } from '../types';
+import { COUNTRY_BOUNDING_BOXES } from '../data/countryBoundingBoxes';
+import type { BoundingBox } from '../data/countryBoundingBoxes';
+import { calculateDistance } from '../services/geocodingService';
+import { getStationKey } from './datasetDiff';
+
+export type CoordinateAnomalyType = 'invalid' | 'zero' | 'swapped' | 'wrong-sign' | 'outside-country';
+
+export interface CoordinateSuggestion extends MapCoordinates {
+  description: string;
+}
+
+export interface CoordinateAssessment {
+  station: DutyStation;
+  anomaly: CoordinateAnomalyType | null;
+  confidence: number;                 // 0 (certainly wrong) to 1 (consistent with the country)
+  message: string;
+  verified: boolean;                  // False when no boundary data exists for the country
+  distanceKm?: number;                // Distance outside the country's bounding box
+  suggestion?: CoordinateSuggestion;
+}
+
+export const COORDINATE_ANOMALY_LABELS: Record<CoordinateAnomalyType, string> = {
+  invalid: 'Invalid coordinates',
+  zero: 'Coordinates at (0, 0)',
+  swapped: 'Latitude and longitude swapped',
+  'wrong-sign': 'Wrong hemisphere',
+  'outside-country': 'Outside country',
+};
+
+// Points this close to the bounding box are treated as border noise rather than anomalies
+const NEAR_BORDER_KM = 50;
+
+// Resolve the bounding box of a duty station's country (via the country's ISO3 code)
+function createBoundingBoxLookup(countries: Country[]): (countryCode: string) => BoundingBox | undefined {
+  const iso3ByCode = new Map<string, string>();
+  countries.forEach(country => {
+    if (!country.ISO3) return;
+    // Prefer active entries when a code is listed more than once
+    if (!iso3ByCode.has(country.COUNTRY_CODE) || country.OBSOLETE !== '1') {
+      iso3ByCode.set(country.COUNTRY_CODE, country.ISO3.toUpperCase());
+    }
+  });
+
+  return (countryCode: string) => {
+    const iso3 = iso3ByCode.get(countryCode) ?? countryCode.toUpperCase();
+    return COUNTRY_BOUNDING_BOXES[iso3];
+  };
+}
+
+// Split boxes crossing the antimeridian into two ordinary boxes
+function splitBoundingBox([west, south, east, north]: BoundingBox): BoundingBox[] {
+  if (west <= east) return [[west, south, east, north]];
+  return [[west, south, 180, north], [-180, south, east, north]];
+}
+
+function isInsideBoundingBox(point: MapCoordinates, box: BoundingBox): boolean {
+  return splitBoundingBox(box).some(([west, south, east, north]) =>
+    point.latitude >= south && point.latitude <= north &&
+    point.longitude >= west && point.longitude <= east
+  );
+}
+
+// Distance from a point to the nearest edge of a bounding box (0 when inside)
+function distanceToBoundingBox(point: MapCoordinates, box: BoundingBox): number {
+  return Math.min(...splitBoundingBox(box).map(([west, south, east, north]) => calculateDistance(point, {
+    latitude: Math.min(Math.max(point.latitude, south), north),
+    longitude: Math.min(Math.max(point.longitude, west), east),
+  })));
+}
+
+const isValidCoordinate = (point: MapCoordinates): boolean => {
+  return Number.isFinite(point.latitude) && Number.isFinite(point.longitude) &&
+    Math.abs(point.latitude) <= 90 && Math.abs(point.longitude) <= 180;
+};
+
+const roundConfidence = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Find a simple correction (swap or sign flip) that moves a point into its country
+ */
+function findCorrection(
+  point: MapCoordinates,
+  box: BoundingBox
+): { anomaly: 'swapped' | 'wrong-sign'; suggestion: CoordinateSuggestion } | null {
+  const { latitude, longitude } = point;
+
+  const swapped = { latitude: longitude, longitude: latitude };
+  if (latitude !== longitude && isValidCoordinate(swapped) && isInsideBoundingBox(swapped, box)) {
+    return {
+      anomaly: 'swapped',
+      suggestion: { ...swapped, description: 'Swap latitude and longitude' },
+    };
+  }
+
+  const signVariants: CoordinateSuggestion[] = [
+    { latitude: -latitude, longitude, description: 'Flip the sign of the latitude' },
+    { latitude, longitude: -longitude, description: 'Flip the sign of the longitude' },
+    { latitude: -latitude, longitude: -longitude, description: 'Flip the signs of both latitude and longitude' },
+  ];
+  const flipped = signVariants.find(variant =>
+    (variant.latitude !== latitude || variant.longitude !== longitude) && isInsideBoundingBox(variant, box)
+  );
+  if (flipped) {
+    return { anomaly: 'wrong-sign', suggestion: flipped };
+  }
+
+  return null;
+}
+
+/**
+ * Assess a station's coordinates against its country's bounding box
+ */
+function assessWithBoundingBox(station: DutyStation, box: BoundingBox | undefined): CoordinateAssessment {
+  const point = { latitude: station.LATITUDE, longitude: station.LONGITUDE };
+
+  if (!isValidCoordinate(point)) {
+    return {
+      station,
+      anomaly: 'invalid',
+      confidence: 0,
+      message: `Coordinates (${station.LATITUDE}, ${station.LONGITUDE}) are not valid latitude/longitude values`,
+      verified: true,
+    };
+  }
+
+  if (point.latitude === 0 && point.longitude === 0) {
+    return {
+      station,
+      anomaly: 'zero',
+      confidence: 0,
+      message: 'Coordinates are (0, 0), which usually means they were never set',
+      verified: true,
+    };
+  }
+
+  if (!box) {
+    return {
+      station,
+      anomaly: null,
+      confidence: 0.5,
+      message: 'No boundary data is available for this country, so the coordinates could not be verified',
+      verified: false,
+    };
+  }
+
+  if (isInsideBoundingBox(point, box)) {
+    return {
+      station,
+      anomaly: null,
+      confidence: 1,
+      message: 'Coordinates fall within the country',
+      verified: true,
+    };
+  }
+
+  const distanceKm = distanceToBoundingBox(point, box);
+  if (distanceKm <= NEAR_BORDER_KM) {
+    return {
+      station,
+      anomaly: null,
+      confidence: roundConfidence(0.8 - (distanceKm / NEAR_BORDER_KM) * 0.2),
+      message: `Coordinates are ${Math.round(distanceKm)} km outside the country's bounding box, close to its border`,
+      verified: true,
+      distanceKm,
+    };
+  }
+
+  const correction = findCorrection(point, box);
+  if (correction) {
+    return {
+      station,
+      anomaly: correction.anomaly,
+      confidence: 0.1,
+      message: `Coordinates are ${Math.round(distanceKm)} km outside the country. ` +
+        `${correction.suggestion.description} to place the station inside it`,
+      verified: true,
+      distanceKm,
+      suggestion: correction.suggestion,
+    };
+  }
+
+  return {
+    station,
+    anomaly: 'outside-country',
+    confidence: roundConfidence(Math.max(0.05, Math.min(0.5, (NEAR_BORDER_KM / 2) / distanceKm))),
+    message: `Coordinates are ${Math.round(distanceKm)} km outside the country`,
+    verified: true,
+    distanceKm,
+  };
+}
+
+/**
+ * Assess the coordinates of a single duty station
+ * @param countries - Country list, used to map COUNTRY_CODE to ISO3
+ */
+export function assessStationCoordinates(station: DutyStation, countries: Country[]): CoordinateAssessment {
+  const getBoundingBox = createBoundingBoxLookup(countries);
+  return assessWithBoundingBox(station, getBoundingBox(station.COUNTRY_CODE));
+}
+
+/**
+ * Find all duty stations with suspicious coordinates
+ * @returns Assessments of the suspect stations, keyed by getStationKey
+ */
+export function findCoordinateAnomalies(
+  stations: DutyStation[],
+  countries: Country[]
+): Map<string, CoordinateAssessment> {
+  const getBoundingBox = createBoundingBoxLookup(countries);
+  const anomalies = new Map<string, CoordinateAssessment>();
+
+  stations.forEach(station => {
+    const assessment = assessWithBoundingBox(station, getBoundingBox(station.COUNTRY_CODE));
+    if (assessment.anomaly) {
+      anomalies.set(getStationKey(station), assessment);
+    }
+  });
+
+  return anomalies;
+}
@@ -0,0 +1,234 @@
+// CSV parser utility
+// Streaming, RFC 4180 compliant parser for the code list files. Handles a leading UTF-8 BOM,
+// CRLF / LF / CR line endings, escaped double quotes ("") and line breaks inside quoted fields.
+// Values are never trimmed; malformed input is reported per row instead of being silently fixed.
+
+/**
+ * Problem found while parsing a CSV file
+ */
+export interface CSVParseError {
+  line: number;      // 1-based physical line number in the file
+  column: number;    // 1-based field position within the record
+  field?: string;    // Header name of the column, when known
+  reason: string;
+}
+
+/**
+ * Result of parsing a complete CSV file
+ */
+export interface CSVParseResult {
+  headers: string[];
+  rows: Record<string, string>[];
+  rowLines: number[];            // Line on which each row starts (same order as rows)
+  errors: CSVParseError[];
+}
+
+/**
+ * Incremental parser - feed chunks as they arrive, then call finish()
+ */
+export interface CSVStreamParser {
+  push: (chunk: string) => void;
+  finish: () => CSVParseResult;
+}
+
+type ParserState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted';
+
+const QUOTE = '"';
+const BOM = '\uFEFF';
+
+/**
+ * Create a streaming CSV parser
+ * Chunks may split records, fields, quotes or CRLF pairs at any position
+ * @param delimiter - Field delimiter (defaults to a comma)
+ */
+export function createCSVParser(delimiter: string = ','): CSVStreamParser {
+  const headers: string[] = [];
+  const rows: Record<string, string>[] = [];
+  const rowLines: number[] = [];
+  const errors: CSVParseError[] = [];
+
+  let state: ParserState = 'fieldStart';
+  let fields: string[] = [];
+  let field = '';
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+  let pendingCR = false;
+  let isFirstChunk = true;
+  let finished = false;
+
+  const addError = (errorLine: number, column: number, reason: string) => {
+    errors.push({
+      line: errorLine,
+      column,
+      field: headers[column - 1] || undefined,
+      reason,
+    });
+  };
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    state = 'fieldStart';
+  };
+
+  const endRecord = () => {
+    const isBlankLine = fields.length === 0 && field === '' && state === 'fieldStart';
+
+    if (!isBlankLine) {
+      endField();
+
+      if (headers.length === 0) {
+        // First record defines the columns
+        const seen = new Set<string>();
+        fields.forEach((name, index) => {
+          if (name === '') {
+            addError(recordLine, index + 1, 'Header name is empty');
+          } else if (seen.has(name)) {
+            addError(recordLine, index + 1, `Duplicate header name "${name}"`);
+          }
+          seen.add(name);
+        });
+        headers.push(...fields);
+      } else {
+        if (fields.length < headers.length) {
+          addError(
+            recordLine,
+            fields.length + 1,
+            `Expected ${headers.length} fields but found ${fields.length}; missing ${headers.slice(fields.length).join(', ')}`
+          );
+        } else if (fields.length > headers.length) {
+          addError(
+            recordLine,
+            headers.length + 1,
+            `Expected ${headers.length} fields but found ${fields.length}; extra values were ignored`
+          );
+        }
+
+        const record: Record<string, string> = {};
+        headers.forEach((header, index) => {
+          record[header] = fields[index] ?? '';
+        });
+        rows.push(record);
+        rowLines.push(recordLine);
+      }
+    }
+
+    fields = [];
+    field = '';
+    state = 'fieldStart';
+  };
+
+  const push = (chunk: string) => {
+    if (finished) {
+      throw new Error('Cannot push data to a CSV parser after finish() has been called');
+    }
+
+    let text = chunk;
+    if (isFirstChunk && text.length > 0) {
+      isFirstChunk = false;
+      if (text.startsWith(BOM)) {
+        text = text.slice(1);
+      }
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      // Second half of a CRLF pair - the record was already ended on CR
+      if (pendingCR) {
+        pendingCR = false;
+        if (char === '\n') continue;
+      }
+
+      switch (state) {
+        case 'quoted':
+          if (char === QUOTE) {
+            state = 'quoteInQuoted';
+          } else {
+            if (char === '\n') line++;
+            field += char;
+          }
+          break;
+
+        case 'quoteInQuoted':
+          if (char === QUOTE) {
+            // Escaped double quote
+            field += QUOTE;
+            state = 'quoted';
+          } else if (char === delimiter) {
+            endField();
+          } else if (char === '\r' || char === '\n') {
+            endRecord();
+            line++;
+            recordLine = line;
+            pendingCR = char === '\r';
+          } else {
+            addError(line, fields.length + 1, `Unexpected character "${char}" after closing quote`);
+            field += char;
+            state = 'unquoted';
+          }
+          break;
+
+        case 'fieldStart':
+        case 'unquoted':
+          if (char === delimiter) {
+            endField();
+          } else if (char === '\r' || char === '\n') {
+            endRecord();
+            line++;
+            recordLine = line;
+            pendingCR = char === '\r';
+          } else if (char === QUOTE && state === 'fieldStart') {
+            state = 'quoted';
+            quoteLine = line;
+          } else {
+            if (char === QUOTE) {
+              addError(line, fields.length + 1, 'Unexpected double quote in unquoted field');
+            }
+            field += char;
+            state = 'unquoted';
+          }
+          break;
+      }
+    }
+  };
+
+  const finish = (): CSVParseResult => {
+    if (!finished) {
+      finished = true;
+
+      if (state === 'quoted') {
+        addError(quoteLine, fields.length + 1, 'Quoted field is not terminated before end of file');
+      }
+      endRecord();
+
+      if (headers.length === 0) {
+        errors.push({ line: 1, column: 1, reason: 'File is empty; expected a header row' });
+      }
+    }
+
+    return { headers, rows, rowLines, errors };
+  };
+
+  return { push, finish };
+}
+
+/**
+ * Parse a complete CSV document held in memory
+ * @param csvText - Raw CSV text
+ * @returns Parsed rows keyed by header, together with any parse errors
+ */
+export function parseCSV(csvText: string): CSVParseResult {
+  const parser = createCSVParser();
+  parser.push(csvText);
+  return parser.finish();
+}
+
+/**
+ * Format a parse error for display, e.g. "Line 12, column 3 (CITY_NAME): ..."
+ */
+export function formatCSVParseError(error: CSVParseError): string {
+  const fieldLabel = error.field ? ` (${error.field})` : '';
+  return `Line ${error.line}, column ${error.column}${fieldLabel}: ${error.reason}`;
+}
@@ -1,4 +1,6 @@
 import type { DutyStation, Country } from '../types';
+import type { CSVParseError } from './csvParser';
+import { formatCSVParseError } from './csvParser';
 
 // Validation result interface
 export interface ValidationResult {
@@ -7,6 +9,36 @@ export interface ValidationResult {
   warnings: string[];
 }
 
+// Severity of a validation finding
+export type ValidationSeverity = 'error' | 'warning';
+
+// Identifier of the check that produced a finding, used to group findings
+export type ValidationRule =
+  | 'missing-code'
+  | 'code-format'
+  | 'missing-country-code'
+  | 'country-code-format'
+  | 'missing-name'
+  | 'short-name'
+  | 'invalid-latitude'
+  | 'latitude-range'
+  | 'invalid-longitude'
+  | 'longitude-range'
+  | 'zero-coordinates'
+  | 'invalid-obsolete'
+  | 'short-common-name'
+  | 'duplicate-code'
+  | 'unknown-country'
+  | 'unused-country'
+  | 'csv-structure';
+
+// Single structured validation finding
+export interface ValidationIssue {
+  rule: ValidationRule;
+  severity: ValidationSeverity;
+  message: string;
+}
+
 // CSV validation configuration
 export interface ValidationConfig {
   requiredFields: string[];
@@ -19,58 +51,71 @@ export interface ValidationConfig {
 // Updated to use new CSV field names (December 2025)
 export const DUTY_STATION_VALIDATION_CONFIG: ValidationConfig = {
   requiredFields: ['CITY_CODE', 'COUNTRY_CODE', 'CITY_NAME'],
-  optionalFields: ['LATITUDE', 'LONGITUDE', 'CITY_COMMON_NAME', 'OBSOLETE'],
+  optionalFields: ['LATITUDE', 'LONGITUDE', 'CITY_COMMON_NAME', 'OBSOLETE', 'REGION'],
   coordinateValidation: true,
   duplicateCheck: true,
 };
 
 export const COUNTRY_VALIDATION_CONFIG: ValidationConfig = {
   requiredFields: ['COUNTRY_CODE', 'COUNTRY_NAME'],
-  optionalFields: [],
+  optionalFields: ['REGION', 'ISO2', 'ISO3', 'OBSOLETE'],
   coordinateValidation: false,
   duplicateCheck: true,
 };
 
-// Validate individual duty station
-export function validateDutyStation(station: Partial<DutyStation>): ValidationResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
+// Convert structured issues to the errors / warnings result format
+function toValidationResult(issues: ValidationIssue[]): ValidationResult {
+  const errors = issues.filter(issue => issue.severity === 'error').map(issue => issue.message);
+  const warnings = issues.filter(issue => issue.severity === 'warning').map(issue => issue.message);
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+// Check individual duty station, returning one issue per failed rule
+export function checkDutyStation(station: Partial<DutyStation>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const error = (rule: ValidationRule, message: string) => issues.push({ rule, severity: 'error', message });
+  const warning = (rule: ValidationRule, message: string) => issues.push({ rule, severity: 'warning', message });
 
   // Required field validation
   if (!station.CITY_CODE?.trim()) {
-    errors.push('Duty Station code (CITY_CODE) is required');
+    error('missing-code', 'Duty Station code (CITY_CODE) is required');
   } else if (!/^[A-Z0-9]{2,6}$/.test(station.CITY_CODE.trim())) {
-    warnings.push('Duty Station code should be 2-6 uppercase alphanumeric characters');
+    warning('code-format', 'Duty Station code should be 2-6 uppercase alphanumeric characters');
   }
 
   if (!station.COUNTRY_CODE?.trim()) {
-    errors.push('Country code (COUNTRY_CODE) is required');
+    error('missing-country-code', 'Country code (COUNTRY_CODE) is required');
   } else if (!/^[A-Z0-9]{2,10}$/.test(station.COUNTRY_CODE.trim())) {
-    warnings.push('Country code should be 2-10 alphanumeric characters');
+    warning('country-code-format', 'Country code should be 2-10 alphanumeric characters');
   }
 
   if (!station.CITY_NAME?.trim()) {
-    errors.push('City name (CITY_NAME) is required');
+    error('missing-name', 'City name (CITY_NAME) is required');
   } else if (station.CITY_NAME.trim().length < 2) {
-    warnings.push('City name should be at least 2 characters long');
+    warning('short-name', 'City name should be at least 2 characters long');
   }
 
   // Coordinate validation
   if (station.LATITUDE !== undefined) {
     const lat = Number(station.LATITUDE);
     if (isNaN(lat)) {
-      errors.push('Latitude must be a valid number');
+      error('invalid-latitude', 'Latitude must be a valid number');
     } else if (lat < -90 || lat > 90) {
-      errors.push('Latitude must be between -90 and 90 degrees');
+      error('latitude-range', 'Latitude must be between -90 and 90 degrees');
     }
   }
 
   if (station.LONGITUDE !== undefined) {
     const lng = Number(station.LONGITUDE);
     if (isNaN(lng)) {
-      errors.push('Longitude must be a valid number');
+      error('invalid-longitude', 'Longitude must be a valid number');
     } else if (lng < -180 || lng > 180) {
-      errors.push('Longitude must be between -180 and 180 degrees');
+      error('longitude-range', 'Longitude must be between -180 and 180 degrees');
     }
   }
 
@@ -80,25 +125,49 @@ export function validateDutyStation(station: Partial<DutyStation>): ValidationRe
     const lng = Number(station.LONGITUDE);
     
     if ((lat === 0 && lng === 0) && station.CITY_NAME !== 'Unknown') {
-      warnings.push('Coordinates (0,0) may indicate missing location data');
+      warning('zero-coordinates', 'Coordinates (0,0) may indicate missing location data');
     }
   }
 
   // OBSOLETE field validation
   if (station.OBSOLETE !== undefined && !['0', '1', ''].includes(station.OBSOLETE)) {
-    errors.push('OBSOLETE field must be "0", "1", or empty');
+    error('invalid-obsolete', 'OBSOLETE field must be "0", "1", or empty');
   }
 
   // Common name validation
   if (station.CITY_COMMON_NAME && station.CITY_COMMON_NAME.trim().length < 2) {
-    warnings.push('Common name should be at least 2 characters long if provided');
+    warning('short-common-name', 'Common name should be at least 2 characters long if provided');
   }
 
-  return {
-    isValid: errors.length === 0,
-    errors,
-    warnings,
-  };
+  return issues;
+}
+
+// Validate individual duty station
+export function validateDutyStation(station: Partial<DutyStation>): ValidationResult {
+  return toValidationResult(checkDutyStation(station));
+}
+
+// Find duty station codes used by more than one row, with the indices of those rows
+export function findDuplicateDutyStationCodes(stations: Partial<DutyStation>[]): Map<string, number[]> {
+  const rowsByCode = new Map<string, number[]>();
+
+  stations.forEach((station, index) => {
+    const code = station.CITY_CODE?.trim();
+    if (code) {
+      rowsByCode.set(code, [...(rowsByCode.get(code) ?? []), index]);
+    }
+  });
+
+  return new Map([...rowsByCode].filter(([, rows]) => rows.length > 1));
+}
+
+// Find duty stations whose country code does not exist in the countries data
+export function findStationsWithUnknownCountry(
+  dutyStations: DutyStation[],
+  countries: Country[]
+): DutyStation[] {
+  const countryCodesSet = new Set(countries.map(c => c.COUNTRY_CODE));
+  return dutyStations.filter(station => station.COUNTRY_CODE && !countryCodesSet.has(station.COUNTRY_CODE));
 }
 
 // Validate individual country
@@ -130,8 +199,6 @@ export function validateCountry(country: Partial<Country>): ValidationResult {
 export function validateDutyStationsArray(stations: Partial<DutyStation>[]): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
-  const duplicateCodes = new Set<string>();
-  const seenCodes = new Set<string>();
 
   // Validate each station
   stations.forEach((station, index) => {
@@ -145,20 +212,10 @@ export function validateDutyStationsArray(stations: Partial<DutyStation>[]): Val
     result.warnings.forEach(warning => {
       warnings.push(`Row ${index + 1}: ${warning}`);
     });
-
-    // Check for duplicate codes
-    if (station.CITY_CODE?.trim()) {
-      const code = station.CITY_CODE.trim();
-      if (seenCodes.has(code)) {
-        duplicateCodes.add(code);
-      } else {
-        seenCodes.add(code);
-      }
-    }
   });
 
   // Report duplicate codes
-  duplicateCodes.forEach(code => {
+  findDuplicateDutyStationCodes(stations).forEach((_, code) => {
     errors.push(`Duplicate duty station code found: ${code}`);
   });
 
@@ -213,11 +270,13 @@ export function validateCountriesArray(countries: Partial<Country>[]): Validatio
 }
 
 // Validate CSV data structure
+// Parse errors reported by the CSV parser are included as errors with their line and column
 export function validateCSVStructure(
   data: Record<string, string>[],
-  config: ValidationConfig
+  config: ValidationConfig,
+  parseErrors: CSVParseError[] = []
 ): ValidationResult {
-  const errors: string[] = [];
+  const errors: string[] = parseErrors.map(formatCSVParseError);
   const warnings: string[] = [];
 
   if (!data || data.length === 0) {
@@ -243,6 +302,18 @@ export function validateCSVStructure(
     }
   });
 
+  // Values are kept exactly as they appear in the file, so flag surrounding whitespace
+  availableFields.forEach(field => {
+    const paddedCount = data.filter(row => {
+      const value = row[field] ?? '';
+      return value !== value.trim();
+    }).length;
+
+    if (paddedCount > 0) {
+      warnings.push(`Field "${field}" has leading or trailing whitespace in ${paddedCount} row${paddedCount !== 1 ? 's' : ''}`);
+    }
+  });
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -258,16 +329,10 @@ export function validateDataConsistency(
   const errors: string[] = [];
   const warnings: string[] = [];
 
-  // Create country code lookup
-  const countryCodesSet = new Set(countries.map(c => c.COUNTRY_CODE));
-
   // Check if all duty station country codes exist in countries data
-  const missingCountryCodes = new Set<string>();
-  dutyStations.forEach(station => {
-    if (station.COUNTRY_CODE && !countryCodesSet.has(station.COUNTRY_CODE)) {
-      missingCountryCodes.add(station.COUNTRY_CODE);
-    }
-  });
+  const missingCountryCodes = new Set(
+    findStationsWithUnknownCountry(dutyStations, countries).map(station => station.COUNTRY_CODE)
+  );
 
   missingCountryCodes.forEach(code => {
     warnings.push(`Country code "${code}" used in duty stations but not found in countries data`);
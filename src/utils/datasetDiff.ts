@@ -0,0 +1,143 @@
+// Dataset diff utility
+// Compares two versions of the duty station code list, keyed on CITY_CODE + COUNTRY_CODE
+
+import type { DutyStation } from '../types';
+import { calculateDistance } from '../services/geocodingService';
+
+export type NameField = 'CITY_NAME' | 'CITY_COMMON_NAME';
+
+export interface StationRename {
+  key: string;
+  before: DutyStation;
+  after: DutyStation;
+  fields: NameField[];
+}
+
+export interface StationMove {
+  key: string;
+  before: DutyStation;
+  after: DutyStation;
+  distanceKm: number;
+}
+
+export interface StationStatusChange {
+  key: string;
+  before: DutyStation;
+  after: DutyStation;
+}
+
+export interface DatasetDiff {
+  added: DutyStation[];
+  removed: DutyStation[];                 // No longer present at all (rows deleted from the file)
+  obsoleted: StationStatusChange[];       // OBSOLETE changed to "1"
+  reactivated: StationStatusChange[];     // OBSOLETE changed back from "1"
+  renamed: StationRename[];
+  moved: StationMove[];
+  unchangedCount: number;
+}
+
+export interface DatasetDiffOptions {
+  // Ignore coordinate changes smaller than this distance (rounding noise)
+  minMoveKm?: number;
+}
+
+/**
+ * Key identifying a duty station across dataset versions
+ */
+export const getStationKey = (station: Pick<DutyStation, 'CITY_CODE' | 'COUNTRY_CODE'>): string => {
+  return `${station.CITY_CODE}|${station.COUNTRY_CODE}`;
+};
+
+const isObsolete = (station: DutyStation): boolean => station.OBSOLETE === '1';
+
+/**
+ * Compare two versions of the duty station list
+ * @param before - Older version
+ * @param after - Newer version
+ * @returns Added, removed, obsoleted, reactivated, renamed and moved stations
+ */
+export function diffDutyStations(
+  before: DutyStation[],
+  after: DutyStation[],
+  options: DatasetDiffOptions = {}
+): DatasetDiff {
+  const { minMoveKm = 0 } = options;
+  const beforeMap = new Map(before.map(station => [getStationKey(station), station]));
+  const afterKeys = new Set<string>();
+
+  const diff: DatasetDiff = {
+    added: [],
+    removed: [],
+    obsoleted: [],
+    reactivated: [],
+    renamed: [],
+    moved: [],
+    unchangedCount: 0,
+  };
+
+  after.forEach(station => {
+    const key = getStationKey(station);
+    afterKeys.add(key);
+
+    const previous = beforeMap.get(key);
+    if (!previous) {
+      diff.added.push(station);
+      return;
+    }
+
+    let changed = false;
+
+    if (!isObsolete(previous) && isObsolete(station)) {
+      diff.obsoleted.push({ key, before: previous, after: station });
+      changed = true;
+    } else if (isObsolete(previous) && !isObsolete(station)) {
+      diff.reactivated.push({ key, before: previous, after: station });
+      changed = true;
+    }
+
+    const renamedFields = (['CITY_NAME', 'CITY_COMMON_NAME'] as NameField[])
+      .filter(field => (previous[field] || '') !== (station[field] || ''));
+    if (renamedFields.length > 0) {
+      diff.renamed.push({ key, before: previous, after: station, fields: renamedFields });
+      changed = true;
+    }
+
+    if (previous.LATITUDE !== station.LATITUDE || previous.LONGITUDE !== station.LONGITUDE) {
+      const distanceKm = calculateDistance(
+        { latitude: previous.LATITUDE, longitude: previous.LONGITUDE },
+        { latitude: station.LATITUDE, longitude: station.LONGITUDE }
+      );
+      if (distanceKm >= minMoveKm) {
+        diff.moved.push({ key, before: previous, after: station, distanceKm });
+        changed = true;
+      }
+    }
+
+    if (!changed) {
+      diff.unchangedCount++;
+    }
+  });
+
+  before.forEach(station => {
+    if (!afterKeys.has(getStationKey(station))) {
+      diff.removed.push(station);
+    }
+  });
+
+  // Largest moves first - they are the most likely to matter
+  diff.moved.sort((a, b) => b.distanceKm - a.distanceKm);
+
+  return diff;
+}
+
+/**
+ * Total number of changed stations in a diff (a station may appear in several categories)
+ */
+export function countDiffChanges(diff: DatasetDiff): number {
+  return diff.added.length
+    + diff.removed.length
+    + diff.obsoleted.length
+    + diff.reactivated.length
+    + diff.renamed.length
+    + diff.moved.length;
+}
@@ -0,0 +1,22 @@
+// Double Metaphone algorithm utility
+// Wrapper around the double-metaphone package, normalizing words like the soundex wrapper
+// Unlike soundex, the first letter is encoded by sound too (Philadelphia ~ Filadelfia), and
+// names with an ambiguous origin get an alternate code (Geneva: JNF / KNF)
+
+import { doubleMetaphone } from 'double-metaphone';
+import { normalizeText } from './textNormalization';
+
+/**
+ * Generate the Double Metaphone codes for a word
+ * @param word - The word to encode
+ * @returns The primary and alternate codes, without duplicates (empty for words without letters)
+ */
+export function generateDoubleMetaphone(word: string): string[] {
+  if (!word || typeof word !== 'string') return [];
+
+  const cleanWord = normalizeText(word).replace(/[^a-z]/g, '');
+  if (!cleanWord) return [];
+
+  const [primary, alternate] = doubleMetaphone(cleanWord);
+  return Array.from(new Set([primary, alternate].filter(Boolean)));
+}
@@ -0,0 +1,252 @@
+// Duplicate duty station detection
+// Finds likely duplicates within each country by combining normalized name comparison,
+// soundex grouping and geographic proximity, and groups them into scored clusters
+
+import type { DutyStation } from '../types';
+import { calculateDistance } from '../services/geocodingService';
+import { generateSoundex, groupBySoundex } from './soundex';
+import { getStationKey } from './datasetDiff';
+import { normalizeText } from './textNormalization';
+
+export type DuplicateReason = 'same-name' | 'similar-name' | 'same-sound' | 'nearby';
+
+// Fields needed to compare a station (also satisfied by a not yet created station)
+export type ComparableStation = Pick<DutyStation, 'CITY_NAME' | 'CITY_COMMON_NAME' | 'LATITUDE' | 'LONGITUDE'>;
+
+export interface StationSimilarity {
+  score: number;               // 0-1 overall likelihood of being the same place
+  nameScore: number;           // 0-1 best similarity between the two stations' names
+  distanceKm: number | null;   // Null when either station has no usable coordinates
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicatePair extends StationSimilarity {
+  a: DutyStation;
+  b: DutyStation;
+}
+
+export interface DuplicateCluster {
+  id: string;
+  countryCode: string;
+  country: string;
+  stations: DutyStation[];
+  pairs: DuplicatePair[];
+  score: number;               // Highest pair score in the cluster
+}
+
+export interface DuplicateDetectionOptions {
+  minScore?: number;           // Pairs below this score are ignored (default 0.7)
+  nearbyKm?: number;           // Stations this close are always compared, whatever their names (default 10)
+  includeObsolete?: boolean;   // Also compare obsolete stations (default false)
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  'same-name': 'Same name',
+  'similar-name': 'Similar spelling',
+  'same-sound': 'Sounds alike',
+  nearby: 'Nearby',
+};
+
+// Distance under which two stations count as the same place, and beyond which proximity adds nothing
+const SAME_PLACE_KM = 5;
+const FAR_APART_KM = 50;
+
+/**
+ * Normalize a station name for comparison
+ * Lowercase Latin (see normalizeText), without punctuation or repeated whitespace
+ */
+export function normalizeStationName(name: string): string {
+  return normalizeText(name || '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Levenshtein edit distance (two-row dynamic programming)
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const getNames = (station: ComparableStation): string[] => {
+  return [station.CITY_NAME, station.CITY_COMMON_NAME]
+    .map(normalizeStationName)
+    .filter((name, index, names) => name && names.indexOf(name) === index);
+};
+
+const hasCoordinates = (station: ComparableStation): boolean => {
+  return Number.isFinite(station.LATITUDE) && Number.isFinite(station.LONGITUDE) &&
+    !(station.LATITUDE === 0 && station.LONGITUDE === 0);
+};
+
+/**
+ * Compare two stations by name (official and common) and distance
+ */
+export function compareStations(a: ComparableStation, b: ComparableStation): StationSimilarity {
+  const reasons = new Set<DuplicateReason>();
+  let nameScore = 0;
+
+  getNames(a).forEach(nameA => {
+    getNames(b).forEach(nameB => {
+      if (nameA === nameB) {
+        nameScore = 1;
+        reasons.add('same-name');
+        return;
+      }
+
+      const compactA = nameA.replace(/ /g, '');
+      const compactB = nameB.replace(/ /g, '');
+      const spelling = 1 - editDistance(compactA, compactB) / Math.max(compactA.length, compactB.length);
+      const sameSound = generateSoundex(compactA) !== '' && generateSoundex(compactA) === generateSoundex(compactB);
+
+      if (spelling >= 0.8) reasons.add('similar-name');
+      if (sameSound) reasons.add('same-sound');
+      // Matching soundex alone is weak evidence (it only encodes the first consonants)
+      nameScore = Math.max(nameScore, sameSound ? Math.max(spelling, 0.7) : spelling);
+    });
+  });
+
+  let distanceKm: number | null = null;
+  let score: number;
+  if (hasCoordinates(a) && hasCoordinates(b)) {
+    distanceKm = calculateDistance(
+      { latitude: a.LATITUDE, longitude: a.LONGITUDE },
+      { latitude: b.LATITUDE, longitude: b.LONGITUDE }
+    );
+    const proximity = Math.min(1, Math.max(0, (FAR_APART_KM - distanceKm) / (FAR_APART_KM - SAME_PLACE_KM)));
+    if (distanceKm <= SAME_PLACE_KM) reasons.add('nearby');
+    score = nameScore * 0.65 + proximity * 0.35;
+  } else {
+    // Without coordinates only the name can be judged
+    score = nameScore * 0.8;
+  }
+
+  return {
+    score: Math.round(score * 100) / 100,
+    nameScore: Math.round(nameScore * 100) / 100,
+    distanceKm,
+    reasons: Array.from(reasons),
+  };
+}
+
+/**
+ * Candidate pairs within one country: same sound, same name, or geographically close
+ */
+function findCandidatePairs(stations: DutyStation[], nearbyKm: number): Array<[number, number]> {
+  const pairs = new Map<string, [number, number]>();
+  const addPair = (i: number, j: number) => {
+    if (i === j) return;
+    const [first, second] = i < j ? [i, j] : [j, i];
+    pairs.set(`${first}:${second}`, [first, second]);
+  };
+
+  // Stations by each of their normalized names
+  const stationsByName = new Map<string, number[]>();
+  stations.forEach((station, index) => {
+    getNames(station).forEach(name => {
+      const compact = name.replace(/ /g, '');
+      stationsByName.set(compact, [...(stationsByName.get(compact) ?? []), index]);
+    });
+  });
+
+  // Names sharing a soundex code (identical names share one too)
+  groupBySoundex(Array.from(stationsByName.keys())).forEach(names => {
+    const indexes = Array.from(new Set(names.flatMap(name => stationsByName.get(name) ?? [])));
+    indexes.forEach((i, position) => indexes.slice(position + 1).forEach(j => addPair(i, j)));
+  });
+
+  // Nearby stations - sweep over stations sorted by latitude
+  const maxLatitudeDelta = nearbyKm / 111;
+  const located = stations
+    .map((station, index) => ({ station, index }))
+    .filter(({ station }) => hasCoordinates(station))
+    .sort((x, y) => x.station.LATITUDE - y.station.LATITUDE);
+  located.forEach((current, position) => {
+    for (let next = position + 1; next < located.length; next++) {
+      const other = located[next];
+      if (other.station.LATITUDE - current.station.LATITUDE > maxLatitudeDelta) break;
+      const distance = calculateDistance(
+        { latitude: current.station.LATITUDE, longitude: current.station.LONGITUDE },
+        { latitude: other.station.LATITUDE, longitude: other.station.LONGITUDE }
+      );
+      if (distance <= nearbyKm) addPair(current.index, other.index);
+    }
+  });
+
+  return Array.from(pairs.values());
+}
+
+/**
+ * Find clusters of likely duplicate duty stations
+ * Stations are only compared within the same COUNTRY_CODE
+ * @returns Clusters sorted by score, highest first
+ */
+export function findDuplicateClusters(
+  stations: DutyStation[],
+  options: DuplicateDetectionOptions = {}
+): DuplicateCluster[] {
+  const { minScore = 0.7, nearbyKm = 10, includeObsolete = false } = options;
+
+  const byCountry = new Map<string, DutyStation[]>();
+  stations
+    .filter(station => includeObsolete || station.OBSOLETE !== '1')
+    .forEach(station => {
+      byCountry.set(station.COUNTRY_CODE, [...(byCountry.get(station.COUNTRY_CODE) ?? []), station]);
+    });
+
+  const clusters: DuplicateCluster[] = [];
+
+  byCountry.forEach((countryStations, countryCode) => {
+    const pairs: DuplicatePair[] = [];
+    findCandidatePairs(countryStations, nearbyKm).forEach(([i, j]) => {
+      const similarity = compareStations(countryStations[i], countryStations[j]);
+      if (similarity.score >= minScore) {
+        pairs.push({ a: countryStations[i], b: countryStations[j], ...similarity });
+      }
+    });
+    if (pairs.length === 0) return;
+
+    // Union-find over the matched pairs
+    const parent = new Map<DutyStation, DutyStation>();
+    const find = (station: DutyStation): DutyStation => {
+      const up = parent.get(station) ?? station;
+      if (up === station) return station;
+      const root = find(up);
+      parent.set(station, root);
+      return root;
+    };
+    pairs.forEach(pair => parent.set(find(pair.a), find(pair.b)));
+
+    const groups = new Map<DutyStation, DuplicatePair[]>();
+    pairs.forEach(pair => {
+      const root = find(pair.a);
+      groups.set(root, [...(groups.get(root) ?? []), pair]);
+    });
+
+    groups.forEach(groupPairs => {
+      const members = Array.from(new Set(groupPairs.flatMap(pair => [pair.a, pair.b])));
+      members.sort((x, y) => x.CITY_CODE.localeCompare(y.CITY_CODE));
+      clusters.push({
+        id: members.map(getStationKey).join('+'),
+        countryCode,
+        country: members[0].COUNTRY || countryCode,
+        stations: members,
+        pairs: groupPairs.sort((x, y) => y.score - x.score),
+        score: Math.max(...groupPairs.map(pair => pair.score)),
+      });
+    });
+  });
+
+  return clusters.sort((x, y) => y.score - x.score || x.country.localeCompare(y.country));
+}
@@ -1,4 +1,5 @@
 import type { DutyStation } from '../types';
+import type { DatasetDiff } from './datasetDiff';
 
 // Utility to convert an array of objects to CSV string
 function convertToCSV(rows: Array<Record<string, string | number>>): string {
@@ -33,6 +34,14 @@ export function exportDutyStationsToCSV(
     OBSOLETE: s.OBSOLETE,
   }));
 
+  downloadCSV(rows, fileBaseName);
+}
+
+// Download arbitrary rows as a dated CSV file
+export function downloadCSV(
+  rows: Array<Record<string, string | number>>,
+  fileBaseName: string
+): void {
   const csv = convertToCSV(rows);
   const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
   const link = document.createElement('a');
@@ -45,6 +54,94 @@ export function exportDutyStationsToCSV(
   URL.revokeObjectURL(url);
 }
 
+// Export a dataset changelog - one row per change, old and new values side by side
+export function exportDatasetDiffToCSV(
+  diff: DatasetDiff,
+  fileBaseName: string = 'duty-station-changes'
+): void {
+  const emptyRow = {
+    OLD_CITY_NAME: '',
+    NEW_CITY_NAME: '',
+    OLD_CITY_COMMON_NAME: '',
+    NEW_CITY_COMMON_NAME: '',
+    OLD_LATITUDE: '',
+    OLD_LONGITUDE: '',
+    NEW_LATITUDE: '',
+    NEW_LONGITUDE: '',
+    DISTANCE_KM: '',
+  };
+
+  const rows: Array<Record<string, string | number>> = [
+    ...diff.added.map(s => ({
+      CHANGE: 'ADDED',
+      CITY_CODE: s.CITY_CODE,
+      COUNTRY_CODE: s.COUNTRY_CODE,
+      COUNTRY: s.COUNTRY ?? '',
+      ...emptyRow,
+      NEW_CITY_NAME: s.CITY_NAME,
+      NEW_CITY_COMMON_NAME: s.CITY_COMMON_NAME,
+      NEW_LATITUDE: s.LATITUDE,
+      NEW_LONGITUDE: s.LONGITUDE,
+    })),
+    ...diff.removed.map(s => ({
+      CHANGE: 'REMOVED',
+      CITY_CODE: s.CITY_CODE,
+      COUNTRY_CODE: s.COUNTRY_CODE,
+      COUNTRY: s.COUNTRY ?? '',
+      ...emptyRow,
+      OLD_CITY_NAME: s.CITY_NAME,
+      OLD_CITY_COMMON_NAME: s.CITY_COMMON_NAME,
+      OLD_LATITUDE: s.LATITUDE,
+      OLD_LONGITUDE: s.LONGITUDE,
+    })),
+    ...diff.obsoleted.map(c => ({
+      CHANGE: 'OBSOLETED',
+      CITY_CODE: c.after.CITY_CODE,
+      COUNTRY_CODE: c.after.COUNTRY_CODE,
+      COUNTRY: c.after.COUNTRY ?? '',
+      ...emptyRow,
+      OLD_CITY_NAME: c.before.CITY_NAME,
+      NEW_CITY_NAME: c.after.CITY_NAME,
+    })),
+    ...diff.reactivated.map(c => ({
+      CHANGE: 'REACTIVATED',
+      CITY_CODE: c.after.CITY_CODE,
+      COUNTRY_CODE: c.after.COUNTRY_CODE,
+      COUNTRY: c.after.COUNTRY ?? '',
+      ...emptyRow,
+      OLD_CITY_NAME: c.before.CITY_NAME,
+      NEW_CITY_NAME: c.after.CITY_NAME,
+    })),
+    ...diff.renamed.map(r => ({
+      CHANGE: 'RENAMED',
+      CITY_CODE: r.after.CITY_CODE,
+      COUNTRY_CODE: r.after.COUNTRY_CODE,
+      COUNTRY: r.after.COUNTRY ?? '',
+      ...emptyRow,
+      OLD_CITY_NAME: r.before.CITY_NAME,
+      NEW_CITY_NAME: r.after.CITY_NAME,
+      OLD_CITY_COMMON_NAME: r.before.CITY_COMMON_NAME,
+      NEW_CITY_COMMON_NAME: r.after.CITY_COMMON_NAME,
+    })),
+    ...diff.moved.map(m => ({
+      CHANGE: 'MOVED',
+      CITY_CODE: m.after.CITY_CODE,
+      COUNTRY_CODE: m.after.COUNTRY_CODE,
+      COUNTRY: m.after.COUNTRY ?? '',
+      ...emptyRow,
+      OLD_CITY_NAME: m.before.CITY_NAME,
+      NEW_CITY_NAME: m.after.CITY_NAME,
+      OLD_LATITUDE: m.before.LATITUDE,
+      OLD_LONGITUDE: m.before.LONGITUDE,
+      NEW_LATITUDE: m.after.LATITUDE,
+      NEW_LONGITUDE: m.after.LONGITUDE,
+      DISTANCE_KM: m.distanceKm.toFixed(2),
+    })),
+  ];
+
+  downloadCSV(rows, fileBaseName);
+}
+
 // Simple Excel-compatible export by generating an HTML table and saving with .xls extension.
 // This opens cleanly in Excel without additional dependencies.
 export function exportDutyStationsToExcel(
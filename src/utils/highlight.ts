@@ -0,0 +1,84 @@
+// Match highlighting - which parts of a displayed value matched a search
+// Ranges are inclusive [start, end] indices in the original (unnormalized) text, as reported
+// by the searchers in SearchResult.matches
+
+import type { SearchResult } from '../types/search';
+import { foldText, normalizeText, toSourceRange } from './textNormalization';
+
+export type HighlightRange = [number, number];
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Sort ranges, drop those outside the text and merge overlapping or touching ones
+ */
+export function mergeHighlightRanges(ranges: HighlightRange[], textLength: number): HighlightRange[] {
+  const sorted = ranges
+    .map(([start, end]): HighlightRange => [Math.max(0, start), Math.min(textLength - 1, end)])
+    .filter(([start, end]) => start <= end)
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: HighlightRange[] = [];
+  sorted.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1] + 1) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  });
+  return merged;
+}
+
+/**
+ * Highlight ranges for one displayed field of a search result
+ * Only matches on this field and this exact value count, so a match on the country
+ * does not highlight the same positions in the city name
+ */
+export function getMatchHighlights(
+  matches: SearchResult['matches'],
+  field: string,
+  value: string
+): HighlightRange[] {
+  if (!matches || !value) return [];
+  const ranges = matches
+    .filter(match => match.field === field && match.value === value)
+    .flatMap(match => match.indices);
+  return mergeHighlightRanges(ranges, value.length);
+}
+
+/**
+ * Highlight ranges for every occurrence of a query in a text
+ * Matching ignores case and diacritics, like the searches (e.g. "sao" highlights "São")
+ */
+export function findTextHighlights(text: string, query: string): HighlightRange[] {
+  const needle = normalizeText(query.trim());
+  if (!text || !needle) return [];
+
+  const folded = foldText(text);
+  const ranges: HighlightRange[] = [];
+  let index = folded.text.indexOf(needle);
+  while (index !== -1) {
+    ranges.push(toSourceRange(folded, index, index + needle.length - 1));
+    index = folded.text.indexOf(needle, index + needle.length);
+  }
+  return mergeHighlightRanges(ranges, text.length);
+}
+
+/**
+ * Split a text into highlighted and plain parts
+ */
+export function splitHighlightSegments(text: string, ranges: HighlightRange[]): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+  mergeHighlightRanges(ranges, text.length).forEach(([start, end]) => {
+    if (start > position) segments.push({ text: text.slice(position, start), highlighted: false });
+    segments.push({ text: text.slice(start, end + 1), highlighted: true });
+    position = end + 1;
+  });
+  if (position < text.length) segments.push({ text: text.slice(position), highlighted: false });
+  return segments;
+}
@@ -0,0 +1,74 @@
+// Phonetic encoding shared by the "sounds like" searches
+// Each algorithm encodes a word into one or more codes; two words sound alike when they share a code.
+// Codes for each field value are computed once and reused, like a soundex index.
+
+import { generateSoundex } from './soundex';
+import { generateDoubleMetaphone } from './doubleMetaphone';
+import { generateBeiderMorse } from './beiderMorse';
+import { normalizeText } from './textNormalization';
+
+export type PhoneticAlgorithm = 'soundex' | 'metaphone' | 'beider_morse';
+
+export const PHONETIC_ENCODERS: Record<PhoneticAlgorithm, (word: string) => string[]> = {
+  soundex: word => {
+    const code = generateSoundex(word);
+    return code ? [code] : [];
+  },
+  metaphone: generateDoubleMetaphone,
+  beider_morse: generateBeiderMorse,
+};
+
+/**
+ * A word of a text with its phonetic codes
+ */
+export interface PhoneticWord {
+  range: [number, number];     // Inclusive position in the text
+  codes: string[];
+}
+
+// Words this short match too much by sound alone
+const MIN_WORD_LENGTH = 3;
+
+// Encoded values are kept per algorithm; a cache is dropped when it grows too large
+const MAX_CACHE_SIZE = 50000;
+const wordCaches: Record<PhoneticAlgorithm, Map<string, PhoneticWord[]>> = {
+  soundex: new Map(),
+  metaphone: new Map(),
+  beider_morse: new Map(),
+};
+
+/**
+ * Encode each word of a text
+ * @param text - Text to encode, e.g. a station name
+ * @param algorithm - Phonetic algorithm
+ * @returns Words long enough to match by sound, with their codes
+ */
+export function encodePhoneticWords(text: string, algorithm: PhoneticAlgorithm): PhoneticWord[] {
+  const cache = wordCaches[algorithm];
+  const cached = cache.get(text);
+  if (cached) return cached;
+
+  const words: PhoneticWord[] = [];
+  for (const word of text.matchAll(/\S+/g)) {
+    if (normalizeText(word[0]).length < MIN_WORD_LENGTH) continue;
+    const codes = PHONETIC_ENCODERS[algorithm](word[0]);
+    if (codes.length > 0) {
+      words.push({ range: [word.index, word.index + word[0].length - 1], codes });
+    }
+  }
+
+  if (cache.size >= MAX_CACHE_SIZE) cache.clear();
+  cache.set(text, words);
+  return words;
+}
+
+/**
+ * Codes of each word of a search query
+ */
+export function encodePhoneticQuery(query: string, algorithm: PhoneticAlgorithm): string[][] {
+  return query
+    .trim()
+    .split(/\s+/)
+    .map(word => PHONETIC_ENCODERS[algorithm](word))
+    .filter(codes => codes.length > 0);
+}
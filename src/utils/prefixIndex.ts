@@ -0,0 +1,90 @@
+// Prefix index for autocomplete
+// Every text is indexed under its normalized form and under each of its words, in one sorted
+// list of keys; the keys starting with a prefix are a contiguous range found by binary search,
+// so a lookup never scans the whole list
+
+import { normalizeText } from './textNormalization';
+
+export interface PrefixIndex<T> {
+  keys: string[];          // Sorted normalized keys
+  refs: number[];          // Item of each key
+  offsets: number[];       // Where each key starts in its item's normalized text (0 = the whole text)
+  lengths: number[];       // Length of each item's normalized text
+  items: T[];
+}
+
+export interface PrefixMatch<T> {
+  item: T;
+  offset: number;          // 0 when the whole text starts with the prefix, otherwise a later word does
+  exact: boolean;          // The whole text equals the prefix
+}
+
+/**
+ * Build a prefix index
+ * @param items - Items to index
+ * @param getText - Text each item is found by
+ */
+export function buildPrefixIndex<T>(items: T[], getText: (item: T) => string): PrefixIndex<T> {
+  const entries: Array<{ key: string; ref: number; offset: number }> = [];
+  const lengths: number[] = [];
+
+  items.forEach((item, ref) => {
+    const text = normalizeText(getText(item));
+    lengths.push(text.length);
+    if (!text) return;
+
+    entries.push({ key: text, ref, offset: 0 });
+    // Later words, so "said" finds "Port Said"
+    for (const word of text.matchAll(/[^a-z0-9]+(?=[a-z0-9])/g)) {
+      const offset = word.index + word[0].length;
+      entries.push({ key: text.slice(offset), ref, offset });
+    }
+  });
+
+  entries.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : a.ref - b.ref));
+
+  return {
+    keys: entries.map(entry => entry.key),
+    refs: entries.map(entry => entry.ref),
+    offsets: entries.map(entry => entry.offset),
+    lengths,
+    items,
+  };
+}
+
+// First key not sorting before the prefix
+function lowerBound(keys: string[], prefix: string): number {
+  let low = 0;
+  let high = keys.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (keys[middle] < prefix) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+/**
+ * Items with the whole text or a word starting with a prefix
+ * Each item is returned once, with its best match (whole text before a later word)
+ */
+export function findByPrefix<T>(index: PrefixIndex<T>, prefix: string): PrefixMatch<T>[] {
+  const normalized = normalizeText(prefix.trim());
+  if (!normalized) return [];
+
+  const best = new Map<number, number>();     // Item -> smallest offset
+  for (let i = lowerBound(index.keys, normalized); i < index.keys.length; i++) {
+    if (!index.keys[i].startsWith(normalized)) break;
+    const ref = index.refs[i];
+    const offset = best.get(ref);
+    if (offset === undefined || index.offsets[i] < offset) {
+      best.set(ref, index.offsets[i]);
+    }
+  }
+
+  return Array.from(best, ([ref, offset]) => ({
+    item: index.items[ref],
+    offset,
+    exact: offset === 0 && index.lengths[ref] === normalized.length,
+  }));
+}
@@ -0,0 +1,30 @@
+// Proposed changes of UPDATE requests
+// The request form sends blank names and 0, 0 coordinates for the values to keep, so those
+// are not changes: only the values the submitter actually entered are proposed.
+
+import type { MapCoordinates } from '../types/dutyStation';
+
+export interface ProposedUpdate {
+  name?: string;
+  commonName?: string;
+  coordinates?: MapCoordinates;
+}
+
+/**
+ * The values an UPDATE request proposes, without the blank fields kept at their current values
+ * @param proposed - The request's proposedChanges
+ * @returns Only the names (trimmed) and coordinates that were entered
+ */
+export function getProposedUpdate(proposed: ProposedUpdate | undefined): ProposedUpdate {
+  const name = proposed?.name?.trim();
+  const commonName = proposed?.commonName?.trim();
+  const coordinates = proposed?.coordinates;
+
+  const update: ProposedUpdate = {};
+  if (name) update.name = name;
+  if (commonName) update.commonName = commonName;
+  if (coordinates && (coordinates.latitude !== 0 || coordinates.longitude !== 0)) {
+    update.coordinates = coordinates;
+  }
+  return update;
+}
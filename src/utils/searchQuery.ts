@@ -0,0 +1,429 @@
+// Search query language
+// Parses queries such as `country:Kenya region:Africa obsolete:false name:"Nai*" code:NBO`
+// with OR / NOT (or a leading -), parentheses and quoted phrases into a small syntax tree.
+// Terms next to each other must all match (implicit AND).
+// A query may end with a geographic clause such as `within 50 km of Nairobi` or
+// `within 100 km of -1.28,36.82`; the rest of the query is searched inside that radius.
+
+import type { DutyStation } from '../types';
+import type { SearchType } from '../types/search';
+import { editDistance } from './duplicateDetection';
+import { formatDistance } from '../services/geocodingService';
+
+export type SearchQueryField = 'name' | 'common' | 'alias' | 'code' | 'country' | 'region' | 'obsolete';
+
+export interface SearchQueryTerm {
+  type: 'term';
+  field: SearchQueryField | null;   // Null for free text, searched in the selected fields
+  value: string;
+  quoted: boolean;
+}
+
+export type SearchQueryNode =
+  | SearchQueryTerm
+  | { type: 'and'; children: SearchQueryNode[] }
+  | { type: 'or'; children: SearchQueryNode[] }
+  | { type: 'not'; child: SearchQueryNode };
+
+// A term as shown to the user, with the search strategy it runs with
+export interface SearchQueryClause {
+  term: SearchQueryTerm;
+  negated: boolean;
+  strategy: SearchType;
+}
+
+// Centre of a radius search: coordinates, or a duty station looked up by name or code
+export type SpatialAnchor =
+  | { type: 'coordinates'; latitude: number; longitude: number }
+  | { type: 'station'; name: string };
+
+export interface SpatialQuery {
+  radiusKm: number;
+  anchor: SpatialAnchor;
+  text: string;                     // Rest of the query, searched within the radius
+}
+
+export interface SearchQueryAnalysis {
+  structured: boolean;              // False for plain text, which keeps the classic search behaviour
+  clauses: SearchQueryClause[];
+  spatial: SpatialQuery | null;
+  error: SearchQueryError | null;
+}
+
+// Duty station columns searched by each field
+export const SEARCH_QUERY_FIELD_COLUMNS: Record<Exclude<SearchQueryField, 'obsolete'>, (keyof DutyStation)[]> = {
+  name: ['CITY_NAME', 'CITY_COMMON_NAME', 'ALTERNATE_NAMES'],
+  common: ['CITY_COMMON_NAME'],
+  alias: ['ALTERNATE_NAMES'],
+  code: ['CITY_CODE'],
+  country: ['COUNTRY', 'COUNTRY_CODE'],
+  region: ['REGION'],
+};
+
+const SEARCH_QUERY_FIELDS: SearchQueryField[] = ['name', 'common', 'alias', 'code', 'country', 'region', 'obsolete'];
+
+const OBSOLETE_VALUES: Record<string, boolean> = {
+  true: true, yes: true, '1': true,
+  false: false, no: false, '0': false,
+};
+
+/**
+ * Error in a search query, with a message suitable for showing to the user
+ */
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+type Token =
+  | { type: 'term'; field: string | null; value: string; quoted: boolean; position: number }
+  | { type: 'or' | 'and' | 'not' | 'open' | 'close'; position: number };
+
+// Characters are reported 1-based, as the user counts them
+const at = (position: number) => `at character ${position + 1}`;
+
+/**
+ * Split a query into terms, operators and parentheses
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  const readPhrase = (start: number): string => {
+    const end = query.indexOf('"', start + 1);
+    if (end === -1) {
+      throw new SearchQueryError(`Missing closing quote for the phrase starting ${at(start)}`);
+    }
+    index = end + 1;
+    return query.slice(start + 1, end);
+  };
+
+  while (index < query.length) {
+    const char = query[index];
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close', position: index });
+      index++;
+    } else if (char === '"') {
+      const position = index;
+      tokens.push({ type: 'term', field: null, value: readPhrase(index), quoted: true, position });
+    } else {
+      const position = index;
+      while (index < query.length && !/[\s()"]/.test(query[index])) index++;
+      let word = query.slice(position, index);
+
+      if (word === 'OR' || word === '|') {
+        tokens.push({ type: 'or', position });
+        continue;
+      }
+      if (word === 'AND' || word === '&') {
+        tokens.push({ type: 'and', position });
+        continue;
+      }
+      if (word === 'NOT') {
+        tokens.push({ type: 'not', position });
+        continue;
+      }
+
+      // A leading minus negates the term that follows
+      let termPosition = position;
+      if (word.startsWith('-') && word.length > 1) {
+        tokens.push({ type: 'not', position });
+        word = word.slice(1);
+        termPosition++;
+      }
+
+      const fieldMatch = word.match(/^([A-Za-z]+):(.*)$/);
+      if (!fieldMatch) {
+        tokens.push({ type: 'term', field: null, value: word, quoted: false, position: termPosition });
+      } else if (fieldMatch[2]) {
+        tokens.push({ type: 'term', field: fieldMatch[1], value: fieldMatch[2], quoted: false, position: termPosition });
+      } else if (query[index] === '"') {
+        tokens.push({ type: 'term', field: fieldMatch[1], value: readPhrase(index), quoted: true, position: termPosition });
+      } else {
+        throw new SearchQueryError(
+          `"${fieldMatch[1]}:" ${at(termPosition)} needs a value, e.g. ${fieldMatch[1]}:Nairobi or ${fieldMatch[1]}:"New York"`
+        );
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Resolve a field name, suggesting the closest field when it is unknown
+ */
+function resolveField(name: string, position: number): SearchQueryField {
+  const field = name.toLowerCase();
+  if ((SEARCH_QUERY_FIELDS as string[]).includes(field)) return field as SearchQueryField;
+
+  const suggestion = SEARCH_QUERY_FIELDS.find(known => editDistance(field, known) <= 2);
+  throw new SearchQueryError(
+    `Unknown field "${name}:" ${at(position)}` +
+    (suggestion ? ` - did you mean "${suggestion}:"?` : '.') +
+    ` Available fields: ${SEARCH_QUERY_FIELDS.map(known => `${known}:`).join(', ')}`
+  );
+}
+
+/**
+ * Recursive descent parser
+ * query := or ; or := and (OR and)* ; and := unary (AND? unary)* ; unary := NOT unary | primary
+ * primary := "(" or ")" | term
+ */
+function parseTokens(tokens: Token[]): SearchQueryNode {
+  let index = 0;
+  const peek = (): Token | undefined => tokens[index];
+  // Whether the next token can start an operand
+  const startsOperand = () => {
+    const next = peek();
+    return !!next && next.type !== 'or' && next.type !== 'and' && next.type !== 'close';
+  };
+
+  const parsePrimary = (): SearchQueryNode => {
+    const token = peek();
+    if (!token) {
+      throw new SearchQueryError('The query ends where a search term was expected');
+    }
+
+    if (token.type === 'open') {
+      index++;
+      const node = parseOr();
+      if (peek()?.type !== 'close') {
+        throw new SearchQueryError(`Missing ")" for the "(" ${at(token.position)}`);
+      }
+      index++;
+      return node;
+    }
+
+    if (token.type === 'term') {
+      index++;
+      const field = token.field ? resolveField(token.field, token.position) : null;
+      if (field === 'obsolete' && !(token.value.toLowerCase() in OBSOLETE_VALUES)) {
+        throw new SearchQueryError(`obsolete: ${at(token.position)} must be true or false, not "${token.value}"`);
+      }
+      if (!token.value.replace(/\*/g, '').trim()) {
+        throw new SearchQueryError(`Empty search term ${at(token.position)}`);
+      }
+      return { type: 'term', field, value: token.value, quoted: token.quoted };
+    }
+
+    if (token.type === 'close') {
+      throw new SearchQueryError(`Unexpected ")" ${at(token.position)} without a matching "("`);
+    }
+    throw new SearchQueryError(`"${token.type.toUpperCase()}" ${at(token.position)} must be followed by a search term`);
+  };
+
+  const parseUnary = (): SearchQueryNode => {
+    const token = peek();
+    if (token?.type === 'not') {
+      index++;
+      if (!startsOperand()) {
+        throw new SearchQueryError(`NOT ${at(token.position)} must be followed by a search term`);
+      }
+      return { type: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parseAnd = (): SearchQueryNode => {
+    const children = [parseUnary()];
+    let token = peek();
+    while (token && token.type !== 'or' && token.type !== 'close') {
+      if (token.type === 'and') {
+        index++;
+        if (!startsOperand()) {
+          throw new SearchQueryError(`AND ${at(token.position)} must be between two search terms`);
+        }
+      }
+      children.push(parseUnary());
+      token = peek();
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseOr = (): SearchQueryNode => {
+    const first = peek();
+    if (first?.type === 'or') {
+      throw new SearchQueryError(`OR ${at(first.position)} must be between two search terms`);
+    }
+
+    const children = [parseAnd()];
+    let token = peek();
+    while (token?.type === 'or') {
+      index++;
+      if (!startsOperand()) {
+        throw new SearchQueryError(`OR ${at(token.position)} must be between two search terms`);
+      }
+      children.push(parseAnd());
+      token = peek();
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  if (tokens.length === 0) {
+    throw new SearchQueryError('The query is empty');
+  }
+
+  const node = parseOr();
+  // Parsing only stops early at a ")" that closes nothing
+  const unmatched = peek();
+  if (unmatched) {
+    throw new SearchQueryError(`Unexpected ")" ${at(unmatched.position)} without a matching "("`);
+  }
+  return node;
+}
+
+/**
+ * Whether a query uses the query language (fields, quotes, operators or wildcards)
+ * Plain text keeps the classic single-term search so that multi-word names still match as typed
+ */
+export function isStructuredQuery(query: string): boolean {
+  return /(^|[\s(-])[A-Za-z]+:/.test(query) ||
+    query.includes('"') ||
+    query.includes('*') ||
+    /(^|\s)(OR|AND|NOT)(\s|$)/.test(query) ||
+    /(^|\s)-[^\s-]/.test(query);
+}
+
+/**
+ * Parse a search query into a syntax tree
+ * @throws SearchQueryError with a user-facing message when the query is invalid
+ */
+export function parseSearchQuery(query: string): SearchQueryNode {
+  return parseTokens(tokenize(query));
+}
+
+// "within 50 km of Nairobi", "near 20 mi of Geneva", "within 5km around -1.28, 36.82"
+const SPATIAL_CLAUSE = /(?:^|\s)(?:within|near)\s+(\S+?)\s*(km|kms|kilometers?|kilometres?|mi|miles?|m|meters?|metres?)?\s+(?:of|from|around)\s+(.+)$/i;
+const COORDINATE_PAIR = /^(-?\d+(?:\.\d+)?)\s*[,;\s]\s*(-?\d+(?:\.\d+)?)$/;
+const KM_PER_UNIT: Record<string, number> = { km: 1, mi: 1.609344, m: 0.001 };
+
+// Half the Earth's circumference - any larger radius covers everything
+const MAX_RADIUS_KM = 20038;
+
+/**
+ * Split a geographic clause off the end of a query
+ * @returns Null when the query has no `within ... of ...` clause
+ * @throws SearchQueryError when the radius or coordinates are invalid
+ */
+export function parseSpatialQuery(query: string): SpatialQuery | null {
+  const match = query.match(SPATIAL_CLAUSE);
+  if (!match) return null;
+
+  const [clause, radiusText, unitText = 'km', anchorText] = match;
+  const radius = Number(radiusText);
+  if (!Number.isFinite(radius) || radius <= 0) {
+    throw new SearchQueryError(`"${radiusText}" is not a valid distance - use a number such as "within 50 km of Nairobi"`);
+  }
+  const unit = unitText.toLowerCase().startsWith('mi') ? 'mi' : unitText.toLowerCase().startsWith('k') ? 'km' : 'm';
+  const radiusKm = Math.min(radius * KM_PER_UNIT[unit], MAX_RADIUS_KM);
+
+  const target = anchorText.trim().replace(/^"(.*)"$/, '$1').trim();
+  if (!target) {
+    throw new SearchQueryError('Name a duty station or coordinates after "of", e.g. "within 50 km of Nairobi"');
+  }
+
+  const coordinates = target.match(COORDINATE_PAIR);
+  let anchor: SpatialAnchor;
+  if (coordinates) {
+    const latitude = Number(coordinates[1]);
+    const longitude = Number(coordinates[2]);
+    if (latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
+      throw new SearchQueryError(
+        `"${target}" is not a valid location - latitude must be between -90 and 90 and longitude between -180 and 180`
+      );
+    }
+    anchor = { type: 'coordinates', latitude, longitude };
+  } else {
+    anchor = { type: 'station', name: target };
+  }
+
+  return { radiusKm, anchor, text: query.slice(0, query.length - clause.length).trim() };
+}
+
+/**
+ * Describe a geographic clause, e.g. "within 50 km of Nairobi"
+ */
+export function describeSpatialQuery(spatial: SpatialQuery): string {
+  const anchor = spatial.anchor.type === 'coordinates'
+    ? `${spatial.anchor.latitude}, ${spatial.anchor.longitude}`
+    : spatial.anchor.name;
+  return `within ${formatDistance(spatial.radiusKm)} of ${anchor}`;
+}
+
+/**
+ * Search strategy a term runs with
+ * Wildcards match as patterns (partial), quoted field values and codes must match exactly,
+ * quoted free text must contain the phrase, and everything else uses the selected search type
+ */
+export function getTermStrategy(term: SearchQueryTerm, defaultType: SearchType): SearchType {
+  if (term.value.includes('*')) return 'partial';
+  if (term.field === 'code' || term.field === 'obsolete') return 'exact';
+  if (term.quoted) return term.field ? 'exact' : 'partial';
+  return defaultType;
+}
+
+/**
+ * Whether any term of the query uses the given field
+ */
+export function queryUsesField(node: SearchQueryNode, field: SearchQueryField): boolean {
+  switch (node.type) {
+    case 'term':
+      return node.field === field;
+    case 'not':
+      return queryUsesField(node.child, field);
+    default:
+      return node.children.some(child => queryUsesField(child, field));
+  }
+}
+
+/**
+ * Value of an obsolete: term as a boolean
+ */
+export function parseObsoleteValue(value: string): boolean {
+  return OBSOLETE_VALUES[value.toLowerCase()] ?? false;
+}
+
+/**
+ * List the terms of a query with the strategy each one runs with
+ */
+function collectClauses(node: SearchQueryNode, defaultType: SearchType, negated: boolean, clauses: SearchQueryClause[]) {
+  switch (node.type) {
+    case 'term':
+      clauses.push({ term: node, negated, strategy: getTermStrategy(node, defaultType) });
+      break;
+    case 'not':
+      collectClauses(node.child, defaultType, !negated, clauses);
+      break;
+    default:
+      node.children.forEach(child => collectClauses(child, defaultType, negated, clauses));
+  }
+}
+
+/**
+ * Check a query without running it, for feedback while the user types
+ */
+export function analyzeSearchQuery(query: string, defaultType: SearchType): SearchQueryAnalysis {
+  let spatial: SpatialQuery | null = null;
+  try {
+    spatial = parseSpatialQuery(query);
+    const text = spatial ? spatial.text : query;
+    if (!text.trim() || !isStructuredQuery(text)) {
+      return { structured: false, clauses: [], spatial, error: null };
+    }
+
+    const clauses: SearchQueryClause[] = [];
+    collectClauses(parseSearchQuery(text), defaultType, false, clauses);
+    return { structured: true, clauses, spatial, error: null };
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return { structured: true, clauses: [], spatial, error };
+    }
+    throw error;
+  }
+}
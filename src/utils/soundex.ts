@@ -1,7 +1,9 @@
 // Soundex algorithm utility
 // Wrapper around the soundex package for consistency and potential customization
+// Words are normalized first, so accented and non-Latin names are indexed by their Latin spelling
 
 import soundexPackage from 'soundex';
+import { normalizeText } from './textNormalization';
 
 /**
  * Generate soundex code for a given word
@@ -12,8 +14,8 @@ import soundexPackage from 'soundex';
 export function generateSoundex(word: string): string {
   if (!word || typeof word !== 'string') return '';
   
-  // Clean the word - remove non-alphabetic characters
-  const cleanWord = word.replace(/[^a-zA-Z]/g, '');
+  // Clean the word - normalize, then remove non-alphabetic characters
+  const cleanWord = normalizeText(word).replace(/[^a-z]/g, '');
   if (!cleanWord) return '';
   
   return soundexPackage(cleanWord);
@@ -0,0 +1,202 @@
+// Spatial index for radius, nearest-neighbour and bounding-box queries over duty stations
+// Stations are bucketed into a grid of latitude/longitude cells, so a query only measures
+// distances to stations in the cells it overlaps instead of the whole list
+
+import type { MapBounds, MapCoordinates } from '../types';
+import { calculateDistance } from '../services/geocodingService';
+
+export interface Locatable {
+  LATITUDE: number;
+  LONGITUDE: number;
+}
+
+export interface SpatialIndex<T extends Locatable> {
+  cellSize: number;                 // Cell size in degrees
+  cells: Map<string, T[]>;
+  size: number;                     // Number of indexed items
+}
+
+export interface DistanceMatch<T> {
+  item: T;
+  distanceKm: number;
+}
+
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+// 1° cells keep a few stations per cell for typical radii of 10-500 km
+const DEFAULT_CELL_SIZE = 1;
+
+// Nearest-neighbour searches start with this radius and widen until enough items are found
+const INITIAL_NEAREST_RADIUS_KM = 50;
+// No point on Earth is further away than half its circumference
+const MAX_SURFACE_DISTANCE_KM = 20_040;
+
+const hasLocation = (item: Locatable) => item.LATITUDE !== 0 || item.LONGITUDE !== 0;
+
+const latitudeCell = (latitude: number, cellSize: number) =>
+  Math.min(Math.floor((latitude + 90) / cellSize), Math.ceil(180 / cellSize) - 1);
+
+const longitudeCellCount = (cellSize: number) => Math.ceil(360 / cellSize);
+
+// Longitude cells wrap around the antimeridian
+const longitudeCell = (longitude: number, cellSize: number) => {
+  const count = longitudeCellCount(cellSize);
+  const cell = Math.floor((longitude + 180) / cellSize);
+  return ((cell % count) + count) % count;
+};
+
+const cellKey = (latCell: number, lngCell: number) => `${latCell}:${lngCell}`;
+
+const wrapLongitude = (longitude: number) => ((((longitude + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * Build a spatial index; items without coordinates (0, 0) are left out
+ */
+export function buildSpatialIndex<T extends Locatable>(items: T[], cellSize: number = DEFAULT_CELL_SIZE): SpatialIndex<T> {
+  const cells = new Map<string, T[]>();
+  let size = 0;
+
+  items.forEach(item => {
+    if (!hasLocation(item)) return;
+    const key = cellKey(latitudeCell(item.LATITUDE, cellSize), longitudeCell(item.LONGITUDE, cellSize));
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(item);
+    } else {
+      cells.set(key, [item]);
+    }
+    size++;
+  });
+
+  return { cellSize, cells, size };
+}
+
+/**
+ * Items in the cells covering a latitude band and a list of longitude cells
+ */
+function collectCells<T extends Locatable>(
+  index: SpatialIndex<T>,
+  south: number,
+  north: number,
+  longitudeCells: Iterable<number>
+): T[] {
+  const found: T[] = [];
+  const lngCells = Array.from(longitudeCells);
+  for (let lat = latitudeCell(south, index.cellSize); lat <= latitudeCell(north, index.cellSize); lat++) {
+    lngCells.forEach(lng => {
+      const cell = index.cells.get(cellKey(lat, lng));
+      if (cell) found.push(...cell);
+    });
+  }
+  return found;
+}
+
+/**
+ * Longitude cells from west to east, going east across the antimeridian when needed
+ */
+function longitudeCellRange(west: number, east: number, cellSize: number): Set<number> {
+  const count = longitudeCellCount(cellSize);
+  const cells = new Set<number>();
+  const first = Math.floor((west + 180) / cellSize);
+  let last = Math.floor((east + 180) / cellSize);
+  if (last < first) last += count;
+  for (let cell = first; cell <= last && cells.size < count; cell++) {
+    cells.add(((cell % count) + count) % count);
+  }
+  return cells;
+}
+
+/**
+ * Items within a radius of a point
+ * @returns Matches with their distance, nearest first
+ */
+export function findWithinRadius<T extends Locatable>(
+  index: SpatialIndex<T>,
+  center: MapCoordinates,
+  radiusKm: number
+): DistanceMatch<T>[] {
+  const latitudeDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const south = Math.max(-90, center.latitude - latitudeDelta);
+  const north = Math.min(90, center.latitude + latitudeDelta);
+
+  // Degrees of longitude shrink towards the poles - use the widest span in the band
+  const widestLatitude = Math.max(Math.abs(south), Math.abs(north));
+  const cosine = Math.cos(widestLatitude * (Math.PI / 180));
+  const longitudeDelta = cosine > 1e-6 ? latitudeDelta / cosine : 180;
+
+  const candidates = longitudeDelta >= 180 || south <= -90 || north >= 90
+    ? collectCells(index, south, north, longitudeCellRange(-180, 180 - index.cellSize, index.cellSize))
+    : collectCells(
+        index,
+        south,
+        north,
+        longitudeCellRange(center.longitude - longitudeDelta, center.longitude + longitudeDelta, index.cellSize)
+      );
+
+  return candidates
+    .map(item => ({
+      item,
+      distanceKm: calculateDistance(center, { latitude: item.LATITUDE, longitude: item.LONGITUDE }),
+    }))
+    .filter(match => match.distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
+/**
+ * The k items nearest to a point
+ * The search radius grows fourfold until k items are found or it covers the whole globe
+ * @param filter - Only count items for which this returns true (e.g. stations of one country)
+ * @returns Up to k matches with their distance, nearest first
+ */
+export function findNearest<T extends Locatable>(
+  index: SpatialIndex<T>,
+  center: MapCoordinates,
+  k: number,
+  filter?: (item: T) => boolean
+): DistanceMatch<T>[] {
+  if (k <= 0 || index.size === 0) return [];
+
+  let radiusKm = INITIAL_NEAREST_RADIUS_KM;
+  for (;;) {
+    const matches = findWithinRadius(index, center, radiusKm);
+    const kept = filter ? matches.filter(match => filter(match.item)) : matches;
+    if (kept.length >= k || radiusKm >= MAX_SURFACE_DISTANCE_KM) {
+      return kept.slice(0, k);
+    }
+    radiusKm = Math.min(radiusKm * 4, MAX_SURFACE_DISTANCE_KM);
+  }
+}
+
+/**
+ * Whether a point lies in a bounding box
+ * The box crosses the antimeridian when its west longitude is greater than its east longitude
+ */
+export function isInBounds(bounds: MapBounds, latitude: number, longitude: number): boolean {
+  const { southWest, northEast } = bounds;
+  if (latitude < southWest.latitude || latitude > northEast.latitude) return false;
+  return southWest.longitude <= northEast.longitude
+    ? longitude >= southWest.longitude && longitude <= northEast.longitude
+    : longitude >= southWest.longitude || longitude <= northEast.longitude;
+}
+
+/**
+ * Items inside a bounding box, such as the visible area of a map
+ */
+export function findInBounds<T extends Locatable>(index: SpatialIndex<T>, bounds: MapBounds): T[] {
+  const south = Math.max(-90, bounds.southWest.latitude);
+  const north = Math.min(90, bounds.northEast.latitude);
+  if (south > north) return [];
+
+  // A box at least a full turn wide (zoomed far out) covers every longitude;
+  // otherwise map longitudes past ±180 (a panned map) back into range
+  const fullWidth = bounds.northEast.longitude - bounds.southWest.longitude >= 360;
+  const west = fullWidth ? -180 : wrapLongitude(bounds.southWest.longitude);
+  const east = fullWidth ? 180 : wrapLongitude(bounds.northEast.longitude);
+  const normalized: MapBounds = {
+    southWest: { latitude: south, longitude: west },
+    northEast: { latitude: north, longitude: east },
+  };
+
+  return collectCells(index, south, north, longitudeCellRange(west, east, index.cellSize))
+    .filter(item => isInBounds(normalized, item.LATITUDE, item.LONGITUDE));
+}
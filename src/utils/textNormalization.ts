@@ -0,0 +1,111 @@
+// Text normalization shared by search, suggestions, soundex and code generation
+// Folds text to lowercase Latin: Unicode NFKD with combining marks removed (São -> sao, ﬁ -> fi),
+// Latin letters without a decomposition (ß, æ, ø, ł...) and transliteration of Cyrillic,
+// Greek and Arabic script (Бишкек -> bishkek, Αθήνα -> athina, دمشق -> dmshq)
+
+// Lowercase characters transliterated before decomposition, so that й stays "y" rather than "i"
+const TRANSLITERATION: Record<string, string> = {
+  // Latin letters that NFKD does not decompose, and ligatures
+  'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ł': 'l',
+  'ı': 'i', 'ħ': 'h', 'ŋ': 'ng', 'ŧ': 't', 'ƒ': 'f', 'ə': 'e',
+  // Typographic apostrophes and dashes
+  '‘': "'", '’': "'", 'ʼ': "'", 'ʻ': "'", '–': '-', '—': '-',
+
+  // Cyrillic (Russian, Ukrainian, Belarusian, Serbian, Macedonian, Kazakh, Kyrgyz, Mongolian, Tajik)
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'e', 'ж': 'zh', 'з': 'z',
+  'и': 'i', 'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r',
+  'с': 's', 'т': 't', 'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh',
+  'щ': 'shch', 'ъ': '', 'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'yu', 'я': 'ya',
+  'і': 'i', 'ї': 'yi', 'є': 'ye', 'ґ': 'g', 'ў': 'u',
+  'ђ': 'dj', 'ј': 'j', 'љ': 'lj', 'њ': 'nj', 'ћ': 'c', 'џ': 'dz', 'ѓ': 'gj', 'ќ': 'kj', 'ѕ': 'dz',
+  'ә': 'a', 'ғ': 'gh', 'қ': 'q', 'ң': 'ng', 'ө': 'o', 'ұ': 'u', 'ү': 'u', 'һ': 'h', 'ҳ': 'h',
+  'ҷ': 'j', 'ӣ': 'i', 'ӯ': 'u',
+
+  // Greek (accented vowels are decomposed to these first)
+  'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th', 'ι': 'i',
+  'κ': 'k', 'λ': 'l', 'μ': 'm', 'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p', 'ρ': 'r', 'σ': 's',
+  'ς': 's', 'τ': 't', 'υ': 'y', 'φ': 'f', 'χ': 'ch', 'ψ': 'ps', 'ω': 'o',
+
+  // Arabic and Persian - short vowels are rarely written, so only consonants and long vowels appear
+  'ا': 'a', 'أ': 'a', 'إ': 'i', 'آ': 'a', 'ٱ': 'a', 'ب': 'b', 'ت': 't', 'ث': 'th', 'ج': 'j',
+  'ح': 'h', 'خ': 'kh', 'د': 'd', 'ذ': 'dh', 'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 'sh', 'ص': 's',
+  'ض': 'd', 'ط': 't', 'ظ': 'z', 'ع': '', 'غ': 'gh', 'ف': 'f', 'ق': 'q', 'ك': 'k', 'ل': 'l',
+  'م': 'm', 'ن': 'n', 'ه': 'h', 'و': 'w', 'ي': 'y', 'ى': 'a', 'ة': 'a', 'ء': '', 'ؤ': 'w',
+  'ئ': 'y', 'پ': 'p', 'چ': 'ch', 'ژ': 'zh', 'گ': 'g', 'ک': 'k', 'ی': 'y', 'ە': 'e', 'ۆ': 'o',
+  'ـ': '',
+  '٠': '0', '١': '1', '٢': '2', '٣': '3', '٤': '4', '٥': '5', '٦': '6', '٧': '7', '٨': '8', '٩': '9',
+  '۰': '0', '۱': '1', '۲': '2', '۳': '3', '۴': '4', '۵': '5', '۶': '6', '۷': '7', '۸': '8', '۹': '9',
+};
+
+const COMBINING_MARKS = /\p{M}/gu;
+const ASCII_ONLY = /^[\x20-\x7e]*$/;
+
+export interface FoldedText {
+  text: string;                // Normalized text
+  sourceIndex: number[];       // Index in the original string of each normalized character
+}
+
+// Folded values are reused across searches; the cache is dropped when it grows too large
+const MAX_CACHE_SIZE = 50000;
+const foldCache = new Map<string, FoldedText>();
+
+/**
+ * Normalize a single (lowercase) character
+ */
+function foldCharacter(char: string): string {
+  const direct = TRANSLITERATION[char];
+  if (direct !== undefined) return direct;
+
+  return Array.from(char.normalize('NFKD').replace(COMBINING_MARKS, ''))
+    .map(part => TRANSLITERATION[part] ?? part)
+    .join('');
+}
+
+/**
+ * Normalize text and keep track of where each character came from
+ * Used where match positions must be shown on the original text
+ */
+export function foldText(text: string): FoldedText {
+  const cached = foldCache.get(text);
+  if (cached) return cached;
+
+  let folded: FoldedText;
+  if (ASCII_ONLY.test(text)) {
+    // Most station names are plain ASCII - nothing moves
+    folded = { text: text.toLowerCase(), sourceIndex: Array.from({ length: text.length }, (_, i) => i) };
+  } else {
+    let result = '';
+    const sourceIndex: number[] = [];
+    let index = 0;
+    for (const char of text) {
+      const replacement = foldCharacter(char.toLowerCase());
+      result += replacement;
+      for (let i = 0; i < replacement.length; i++) sourceIndex.push(index);
+      index += char.length;
+    }
+    folded = { text: result, sourceIndex };
+  }
+
+  if (foldCache.size >= MAX_CACHE_SIZE) foldCache.clear();
+  foldCache.set(text, folded);
+  return folded;
+}
+
+/**
+ * Normalize text for matching: lowercase Latin without diacritics
+ */
+export function normalizeText(text: string): string {
+  if (!text) return '';
+  return foldText(text).text;
+}
+
+/**
+ * Map a range of the normalized text back to the original text
+ * @returns Inclusive [start, end] indices in the original text
+ */
+export function toSourceRange(folded: FoldedText, start: number, end: number): [number, number] {
+  const last = folded.sourceIndex.length - 1;
+  const sourceStart = folded.sourceIndex[Math.min(start, last)] ?? 0;
+  const sourceEnd = folded.sourceIndex[Math.min(end, last)] ?? sourceStart;
+  return [sourceStart, sourceEnd];
+}
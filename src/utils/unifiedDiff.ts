@@ -0,0 +1,113 @@
+// Unified diff formatting
+// Callers that already know how a file was edited describe it line by line (kept, removed,
+// added); this groups the edits into hunks with surrounding context, like `diff -u`.
+
+export type DiffLineType = 'context' | 'remove' | 'add';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;       // Line without its line ending
+}
+
+const PREFIXES: Record<DiffLineType, string> = { context: ' ', remove: '-', add: '+' };
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/**
+ * Which side of the diff ends without a final newline
+ */
+export interface MissingFinalNewline {
+  old?: boolean;
+  new?: boolean;
+}
+
+/**
+ * Hunk range as written in the hunk header, e.g. "12,7" or "12" for a single line
+ * An empty range is written with the line before it, as diff does
+ */
+function formatRange(start: number, length: number): string {
+  if (length === 0) return `${start - 1},0`;
+  return length === 1 ? `${start}` : `${start},${length}`;
+}
+
+/**
+ * Index of the last line of the old file (skipping added lines) or of the new file (skipping removed lines)
+ * @returns The index, or -1 when that file is empty
+ */
+export function findLastLineIndex(lines: DiffLine[], side: 'old' | 'new'): number {
+  const skipped: DiffLineType = side === 'old' ? 'add' : 'remove';
+  for (let index = lines.length - 1; index >= 0; index--) {
+    if (lines[index].type !== skipped) return index;
+  }
+  return -1;
+}
+
+/**
+ * Format an edited file as a unified diff
+ * @param fileLines - Every line of the old and new file in order, marked as kept, removed or added
+ * @param fromFile - Name of the old file, e.g. "a/DSCITYCD.csv"
+ * @param toFile - Name of the new file, e.g. "b/DSCITYCD.csv"
+ * @param context - Unchanged lines shown around each change
+ * @param missingFinalNewline - Sides whose last line has no newline; marked as diff does
+ * @returns The diff, or an empty string when nothing changed
+ */
+export function formatUnifiedDiff(
+  fileLines: DiffLine[],
+  fromFile: string,
+  toFile: string,
+  context: number = 3,
+  missingFinalNewline: MissingFinalNewline = {}
+): string {
+  // A kept line that is last on one side only ends differently in the two files, so it is changed
+  const oldEnd = missingFinalNewline.old ? findLastLineIndex(fileLines, 'old') : -1;
+  const newEnd = missingFinalNewline.new ? findLastLineIndex(fileLines, 'new') : -1;
+  const lines = fileLines.flatMap((line, index): DiffLine[] => (
+    line.type === 'context' && (index === oldEnd) !== (index === newEnd)
+      ? [{ type: 'remove', text: line.text }, { type: 'add', text: line.text }]
+      : [line]
+  ));
+  const oldLast = findLastLineIndex(lines, 'old');
+  const newLast = findLastLineIndex(lines, 'new');
+
+  const changed = lines.flatMap((line, index) => (line.type === 'context' ? [] : [index]));
+  if (changed.length === 0) return '';
+
+  // Group changes whose context overlaps into one hunk
+  const hunks: Array<[number, number]> = [];
+  changed.forEach(index => {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1] + 1) last[1] = end;
+    else hunks.push([start, end]);
+  });
+
+  // Line numbers in the old and new file at each position
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  lines.forEach(line => {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (line.type !== 'add') oldLine++;
+    if (line.type !== 'remove') newLine++;
+  });
+
+  const output = [`--- ${fromFile}`, `+++ ${toFile}`];
+  hunks.forEach(([start, end]) => {
+    const hunk = lines.slice(start, end + 1);
+    const oldLength = hunk.filter(line => line.type !== 'add').length;
+    const newLength = hunk.filter(line => line.type !== 'remove').length;
+    output.push(`@@ -${formatRange(oldLineAt[start], oldLength)} +${formatRange(newLineAt[start], newLength)} @@`);
+    hunk.forEach((line, offset) => {
+      output.push(PREFIXES[line.type] + line.text);
+      const index = start + offset;
+      if ((index === oldLast && missingFinalNewline.old) || (index === newLast && missingFinalNewline.new)) {
+        output.push(NO_NEWLINE_MARKER);
+      }
+    });
+  });
+
+  return output.join('\n') + '\n';
+}
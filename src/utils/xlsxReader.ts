@@ -0,0 +1,98 @@
+// Minimal XLSX reader - returns the cell text of the first worksheet
+// An .xlsx file is a ZIP archive of XML parts: the workbook lists the sheets, cells hold
+// numbers inline and text as indexes into the shared strings table.
+
+import { readZipArchive, ZipArchiveError } from './zipArchive';
+
+const decoder = new TextDecoder();
+
+const parseXml = (data: Uint8Array | undefined): Document | null => {
+  if (!data) return null;
+  const doc = new DOMParser().parseFromString(decoder.decode(data), 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+};
+
+// Elements are matched by local name, so namespace prefixes do not matter
+const elements = (parent: Document | Element, name: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', name));
+
+// Text of a shared or inline string - rich text runs are joined, phonetic guides skipped
+const stringText = (element: Element): string =>
+  elements(element, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent ?? '')
+    .join('');
+
+// Zero-based column of a cell reference such as "AB12"
+const columnIndex = (reference: string): number => {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+/**
+ * Path of the first worksheet, following the workbook relationships
+ */
+function findFirstSheetPath(files: Map<string, Uint8Array>): string {
+  const workbook = parseXml(files.get('xl/workbook.xml'));
+  const relationships = parseXml(files.get('xl/_rels/workbook.xml.rels'));
+  const firstSheet = workbook ? elements(workbook, 'sheet')[0] : undefined;
+  const relationshipId = firstSheet?.getAttributeNS(
+    'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+    'id'
+  ) ?? firstSheet?.getAttribute('r:id');
+
+  const target = relationships && relationshipId
+    ? elements(relationships, 'Relationship').find(rel => rel.getAttribute('Id') === relationshipId)?.getAttribute('Target')
+    : null;
+
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Read the rows of the first worksheet of an .xlsx file
+ * Empty cells are returned as empty strings so columns stay aligned
+ * @throws ZipArchiveError when the file is not a readable workbook
+ */
+export async function readXlsxRows(data: ArrayBuffer): Promise<string[][]> {
+  const files = await readZipArchive(data);
+  const sheetPath = findFirstSheetPath(files);
+  const sheet = parseXml(files.get(sheetPath));
+  if (!sheet) {
+    throw new ZipArchiveError('The file is not an Excel workbook (.xlsx) or its first sheet could not be read');
+  }
+
+  const sharedStringsDoc = parseXml(files.get('xl/sharedStrings.xml'));
+  const sharedStrings = sharedStringsDoc ? elements(sharedStringsDoc, 'si').map(stringText) : [];
+
+  const rows: string[][] = [];
+  elements(sheet, 'row').forEach(rowElement => {
+    const row: string[] = [];
+
+    elements(rowElement, 'c').forEach(cell => {
+      const reference = cell.getAttribute('r');
+      const column = reference ? columnIndex(reference) : row.length;
+      const type = cell.getAttribute('t');
+      const value = elements(cell, 'v')[0]?.textContent ?? '';
+
+      let text: string;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        const inline = elements(cell, 'is')[0];
+        text = inline ? stringText(inline) : '';
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        text = value;
+      }
+
+      while (row.length < column) row.push('');
+      row[column] = text;
+    });
+
+    rows.push(row);
+  });
+
+  return rows;
+}
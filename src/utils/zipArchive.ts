@@ -0,0 +1,193 @@
+// ZIP archive reading and writing without additional dependencies
+// Supports stored and deflated entries (everything spreadsheet applications write);
+// deflated entries are inflated with the browser's DecompressionStream.
+// Archives are written with stored entries only.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * Error reading a ZIP archive, with a message suitable for showing to the user
+ */
+export class ZipArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipArchiveError';
+  }
+}
+
+/**
+ * Inflate raw DEFLATE data
+ */
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Find the end of central directory record, which sits after an optional comment at the end
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+  const earliest = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= earliest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new ZipArchiveError('The file is not a valid ZIP archive');
+}
+
+/**
+ * Read the files of a ZIP archive
+ * @param names - Only extract these entries (all entries when omitted)
+ * @returns File contents keyed by path within the archive
+ * @throws ZipArchiveError when the archive is damaged or uses an unsupported feature
+ */
+export async function readZipArchive(data: ArrayBuffer, names?: string[]): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new ZipArchiveError('The ZIP archive directory is damaged');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || (names && !names.includes(name))) continue;
+
+    // Sizes are taken from the directory; the local header may defer them to a data descriptor
+    if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new ZipArchiveError(`The ZIP archive entry "${name}" is damaged`);
+    }
+    const dataStart = localHeaderOffset + 30 +
+      view.getUint16(localHeaderOffset + 26, true) +
+      view.getUint16(localHeaderOffset + 28, true);
+    const content = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      files.set(name, content);
+    } else if (method === METHOD_DEFLATE) {
+      files.set(name, await inflateRaw(content));
+    } else {
+      throw new ZipArchiveError(`The ZIP archive entry "${name}" uses an unsupported compression method (${method})`);
+    }
+  }
+
+  return files;
+}
+
+// CRC-32 (IEEE) lookup table, built on first use
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 checksum of a file's content, as stored in ZIP headers
+ */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Date and time in the MS-DOS format used by ZIP headers
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Write a ZIP archive of stored (uncompressed) entries
+ * Text content is written as UTF-8
+ * @param files - Paths within the archive and their contents
+ * @param modified - Modification time recorded for every entry (defaults to now)
+ */
+export function createZipArchive(
+  files: Array<{ name: string; content: string | Uint8Array }>,
+  modified: Date = new Date()
+): Uint8Array {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  const entries = files.map(file => {
+    const content = typeof file.content === 'string' ? encoder.encode(file.content) : file.content;
+    return { name: encoder.encode(file.name), content, crc: crc32(content) };
+  });
+
+  const localSize = entries.reduce((size, entry) => size + 30 + entry.name.length + entry.content.length, 0);
+  const directorySize = entries.reduce((size, entry) => size + 46 + entry.name.length, 0);
+  const bytes = new Uint8Array(localSize + directorySize + 22);
+  const view = new DataView(bytes.buffer);
+
+  // Fields shared by local headers (from offset 4) and directory entries (from offset 6)
+  const writeCommonFields = (offset: number, entry: typeof entries[number]) => {
+    view.setUint16(offset, 20, true);                   // Version needed to extract (2.0)
+    view.setUint16(offset + 2, 0x0800, true);           // Flags: names are UTF-8
+    view.setUint16(offset + 4, METHOD_STORED, true);
+    view.setUint16(offset + 6, time, true);
+    view.setUint16(offset + 8, date, true);
+    view.setUint32(offset + 10, entry.crc, true);
+    view.setUint32(offset + 14, entry.content.length, true);   // Compressed size
+    view.setUint32(offset + 18, entry.content.length, true);   // Uncompressed size
+    view.setUint16(offset + 22, entry.name.length, true);
+  };
+
+  let offset = 0;
+  const localOffsets: number[] = [];
+  entries.forEach(entry => {
+    localOffsets.push(offset);
+    view.setUint32(offset, LOCAL_FILE_HEADER, true);
+    writeCommonFields(offset + 4, entry);
+    bytes.set(entry.name, offset + 30);
+    bytes.set(entry.content, offset + 30 + entry.name.length);
+    offset += 30 + entry.name.length + entry.content.length;
+  });
+
+  const directoryOffset = offset;
+  entries.forEach((entry, index) => {
+    view.setUint32(offset, CENTRAL_DIRECTORY_ENTRY, true);
+    view.setUint16(offset + 4, 20, true);               // Version made by
+    writeCommonFields(offset + 6, entry);
+    view.setUint32(offset + 42, localOffsets[index], true);
+    bytes.set(entry.name, offset + 46);
+    offset += 46 + entry.name.length;
+  });
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, directorySize, true);
+  view.setUint32(offset + 16, directoryOffset, true);
+
+  return bytes;
+}
@@ -0,0 +1,73 @@
+// Data worker entry point
+// Requests are queued and started one at a time on a fresh task, so cancel messages for
+// superseded queries are received before those queries start running
+
+import { handleWorkerRequest } from './dataWorkerHandlers';
+import type { WorkerInboundMessage, WorkerOutboundMessage, WorkerRequest } from './protocol';
+
+const queue: WorkerRequest[] = [];
+const cancelled = new Set<number>();
+const unfinished = new Set<number>();
+let scheduled = false;
+
+const post = (message: WorkerOutboundMessage) => {
+  unfinished.delete(message.requestId);
+  cancelled.delete(message.requestId);
+  self.postMessage(message);
+};
+
+const processNext = () => {
+  scheduled = false;
+
+  const request = queue.shift();
+  if (!request) return;
+
+  if (cancelled.has(request.requestId)) {
+    post({ type: 'cancelled', requestId: request.requestId });
+  } else {
+    const startTime = performance.now();
+    const isCancelled = () => cancelled.has(request.requestId);
+
+    // Asynchronous work (network loads) continues in the background and does not block the queue
+    handleWorkerRequest(request, isCancelled)
+      .then(result => {
+        if (cancelled.has(request.requestId)) {
+          post({ type: 'cancelled', requestId: request.requestId });
+        } else {
+          post({ type: 'result', requestId: request.requestId, result, duration: performance.now() - startTime });
+        }
+      })
+      .catch(error => {
+        post({
+          type: 'error',
+          requestId: request.requestId,
+          message: error instanceof Error ? error.message : 'Unknown worker error',
+        });
+      });
+  }
+
+  scheduleNext();
+};
+
+const scheduleNext = () => {
+  if (!scheduled && queue.length > 0) {
+    scheduled = true;
+    setTimeout(processNext, 0);
+  }
+};
+
+self.onmessage = (event: MessageEvent<WorkerInboundMessage>) => {
+  const message = event.data;
+
+  if (message.type === 'cancel') {
+    // Ignore cancels for requests that have already been answered
+    if (unfinished.has(message.requestId)) {
+      cancelled.add(message.requestId);
+    }
+    return;
+  }
+
+  unfinished.add(message.requestId);
+  queue.push(message);
+  scheduleNext();
+};
@@ -0,0 +1,64 @@
+// Data worker operations - CSV loading, country join, search and bulk lookup
+// Runs inside the data worker; also used directly on the main thread when Web Workers are unavailable
+
+import type { DutyStation } from '../types';
+import { fetchCountries, fetchDutyStationsWithCountriesCached, getCSVValidationResults } from '../services/dataService';
+import { getSearchSuggestions, measureSearchPerformance, multiSearch, searchDutyStations } from '../services/searchService';
+import { resolveBulkLookup } from '../services/bulkLookupService';
+import { crc32 } from '../utils/zipArchive';
+import type { WorkerOperation, WorkerRequest, WorkerResult } from './protocol';
+
+// Dataset searched by search / multiSearch / suggestions / bulkLookup requests
+let searchData: DutyStation[] = [];
+
+/**
+ * Execute a worker request
+ * @param request - Request to run
+ * @param isCancelled - Whether the request has been cancelled (checked after asynchronous steps)
+ */
+export async function handleWorkerRequest(
+  request: WorkerRequest,
+  isCancelled: () => boolean
+): Promise<WorkerResult<WorkerOperation>> {
+  switch (request.type) {
+    case 'load': {
+      const [dutyStations, countries] = await Promise.all([
+        fetchDutyStationsWithCountriesCached(request.forceRefresh, request.source),
+        fetchCountries(request.source),
+      ]);
+
+      // A superseded load must not replace the dataset of a newer one
+      if (request.retain && !isCancelled()) {
+        searchData = dutyStations;
+      }
+
+      return {
+        dutyStations,
+        countries,
+        validation: getCSVValidationResults(request.source),
+        // Computed here so comparing with the stored snapshot stays off the main thread
+        datasetHash: crc32(new TextEncoder().encode(JSON.stringify([dutyStations, countries]))).toString(16),
+      };
+    }
+
+    case 'setData':
+      searchData = request.dutyStations;
+      return null;
+
+    case 'search':
+      return measureSearchPerformance(
+        () => searchDutyStations(searchData, request.filters),
+        request.filters.searchType,
+        request.filters.query
+      ).result;
+
+    case 'multiSearch':
+      return multiSearch(searchData, request.query, request.options);
+
+    case 'suggestions':
+      return getSearchSuggestions(searchData, request.query, request.maxSuggestions, request.options);
+
+    case 'bulkLookup':
+      return resolveBulkLookup(searchData, request.queries);
+  }
+}
@@ -0,0 +1,73 @@
+// Typed message protocol between the main thread and the data worker
+// Every request carries a requestId; the worker answers with exactly one response for it
+
+import type { DutyStation, Country } from '../types';
+import type { CodeListFile, DataSourceConfig } from '../types/dataSource';
+import type { SearchFilters, SearchOptions, SearchResult, Suggestion, SuggestionOptions } from '../types/search';
+import type { ValidationResult } from '../utils/dataValidation';
+import type { BulkLookupQuery, BulkLookupResult } from '../services/bulkLookupService';
+
+/**
+ * Parameters and result of every operation the worker supports
+ */
+export interface WorkerOperations {
+  // Fetch and parse the code lists, join country names; optionally keep them for searching
+  load: {
+    params: { source: DataSourceConfig; forceRefresh: boolean; retain: boolean };
+    result: {
+      dutyStations: DutyStation[];
+      countries: Country[];
+      validation: Partial<Record<CodeListFile, ValidationResult>>;
+      datasetHash: string;   // Checksum of the parsed code lists, to tell whether a snapshot is out of date
+    };
+  };
+  // Replace the searchable dataset (e.g. with an offline snapshot)
+  setData: {
+    params: { dutyStations: DutyStation[] };
+    result: null;
+  };
+  search: {
+    params: { filters: SearchFilters };
+    result: SearchResult<DutyStation>[];
+  };
+  multiSearch: {
+    params: { query: string; options: Partial<SearchOptions> };
+    result: SearchResult<DutyStation>[];
+  };
+  suggestions: {
+    params: { query: string; maxSuggestions: number; options: SuggestionOptions };
+    result: Suggestion[];
+  };
+  // Resolve free-text city names to stations (bulk lookup)
+  bulkLookup: {
+    params: { queries: BulkLookupQuery[] };
+    result: BulkLookupResult[];
+  };
+}
+
+export type WorkerOperation = keyof WorkerOperations;
+
+export type WorkerParams<K extends WorkerOperation> = WorkerOperations[K]['params'];
+export type WorkerResult<K extends WorkerOperation> = WorkerOperations[K]['result'];
+
+/**
+ * Request for a single operation
+ */
+export type WorkerRequest = {
+  [K in WorkerOperation]: { type: K; requestId: number } & WorkerParams<K>;
+}[WorkerOperation];
+
+/**
+ * Messages sent to the worker
+ */
+export type WorkerInboundMessage =
+  | WorkerRequest
+  | { type: 'cancel'; requestId: number };
+
+/**
+ * Messages sent back by the worker
+ */
+export type WorkerOutboundMessage =
+  | { type: 'result'; requestId: number; result: WorkerResult<WorkerOperation>; duration: number }
+  | { type: 'error'; requestId: number; message: string }
+  | { type: 'cancelled'; requestId: number };